@@ -0,0 +1,14 @@
+export class InvalidBodyError extends Error {}
+
+// `empty` is returned for a blank body on routes where the body is optional.
+export async function readJsonBody(request: Request, empty?: unknown): Promise<unknown> {
+  const text = await request.text();
+  if (empty !== undefined && text.trim() === "") {
+    return empty;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new InvalidBodyError("Request body must be valid JSON.");
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { duplicateScene } from "../../../../../lib/sceneStore";
+import { readJsonBody } from "../../../body";
+import { sceneErrorResponse, type SceneRouteContext } from "../../responses";
+
+export async function POST(request: Request, { params }: SceneRouteContext) {
+  try {
+    const { id } = await params;
+    // `{ "name": "..." }` renames the copy; without it the copy is named after the original.
+    const body = await readJsonBody(request, {});
+    const name = typeof body === "object" && body !== null && "name" in body ? body.name : undefined;
+    if (name !== undefined && typeof name !== "string") {
+      return NextResponse.json({ error: "name must be a string." }, { status: 400 });
+    }
+    return NextResponse.json(await duplicateScene(id, name), { status: 201 });
+  } catch (error) {
+    return sceneErrorResponse(error);
+  }
+}
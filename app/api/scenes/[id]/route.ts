@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { deleteScene, getScene, updateScene } from "../../../../lib/sceneStore";
+import { readJsonBody } from "../../body";
+import { sceneErrorResponse, type SceneRouteContext } from "../responses";
+
+export async function GET(_request: Request, { params }: SceneRouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getScene(id), { status: 200 });
+  } catch (error) {
+    return sceneErrorResponse(error);
+  }
+}
+
+export async function PUT(request: Request, { params }: SceneRouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await updateScene(id, await readJsonBody(request)), { status: 200 });
+  } catch (error) {
+    return sceneErrorResponse(error);
+  }
+}
+
+export async function DELETE(_request: Request, { params }: SceneRouteContext) {
+  try {
+    const { id } = await params;
+    await deleteScene(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return sceneErrorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { SceneValidationError } from "../../../lib/scene";
+import { SceneNotFoundError } from "../../../lib/sceneStore";
+import { InvalidBodyError } from "../body";
+
+export type SceneRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export function sceneErrorResponse(error: unknown): NextResponse {
+  if (error instanceof InvalidBodyError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof SceneValidationError) {
+    return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+  }
+  if (error instanceof SceneNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  console.error(error);
+  return NextResponse.json({ error: "Scene store failed." }, { status: 500 });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { createScene, listScenes } from "../../../lib/sceneStore";
+import { readJsonBody } from "../body";
+import { sceneErrorResponse } from "./responses";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ scenes: await listScenes() }, { status: 200 });
+  } catch (error) {
+    return sceneErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    return NextResponse.json(await createScene(await readJsonBody(request)), { status: 201 });
+  } catch (error) {
+    return sceneErrorResponse(error);
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getSession } from "../../../../lib/sessionStore";
+import { sessionErrorResponse, type SessionRouteContext } from "../responses";
+
+export async function GET(_request: Request, { params }: SessionRouteContext) {
+  try {
+    const { id } = await params;
+    return NextResponse.json(await getSession(id), { status: 200 });
+  } catch (error) {
+    return sessionErrorResponse(error);
+  }
+}
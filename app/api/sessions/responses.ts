@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { SessionLogValidationError } from "../../../lib/sessionLog";
+import { SessionNotFoundError } from "../../../lib/sessionStore";
+import { InvalidBodyError } from "../body";
+
+export type SessionRouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+export function sessionErrorResponse(error: unknown): NextResponse {
+  if (error instanceof InvalidBodyError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (error instanceof SessionLogValidationError) {
+    return NextResponse.json({ error: error.message, issues: error.issues }, { status: 422 });
+  }
+  if (error instanceof SessionNotFoundError) {
+    return NextResponse.json({ error: error.message }, { status: 404 });
+  }
+  console.error(error);
+  return NextResponse.json({ error: "Session store failed." }, { status: 500 });
+}
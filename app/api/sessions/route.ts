@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { createSession, listSessions } from "../../../lib/sessionStore";
+import { readJsonBody } from "../body";
+import { sessionErrorResponse } from "./responses";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ sessions: await listSessions() }, { status: 200 });
+  } catch (error) {
+    return sessionErrorResponse(error);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { id, receivedAt } = await createSession(await readJsonBody(request));
+    return NextResponse.json({ id, receivedAt }, { status: 201 });
+  } catch (error) {
+    return sessionErrorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+import TrainerConsole from "../../components/TrainerConsole";
+
+export const metadata: Metadata = {
+  title: "Trainer Console | Sonic World"
+};
+
+export default function TrainerPage() {
+  return (
+    <main className="page-shell">
+      <section className="intro-card">
+        <p className="intro-tag">Trainer Console</p>
+        <h1>Follow a Session</h1>
+        <p>
+          Watch a participant&apos;s world, trail and emitters from a second machine, and change what they hear or
+          where they stand without touching their device.
+        </p>
+      </section>
+      <TrainerConsole />
+    </main>
+  );
+}
@@ -0,0 +1,88 @@
+import {
+  BOUNDARY_LIMITS,
+  BOUNDARY_OPTIONS,
+  defaultBoundary,
+  minPlanPoints,
+  type BoundaryKind
+} from "../lib/floorPlan";
+import type { WorldBoundary } from "../lib/world";
+import { RangeField } from "./SourceEditor";
+import { PlanPointControls } from "./WallEditor";
+import styles from "./sonic-world.module.css";
+
+type BoundaryEditorProps = {
+  boundary: WorldBoundary;
+  // While drawing, clicks on the map add corners to a polygon boundary.
+  drawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+  onChange: (boundary: WorldBoundary) => void;
+};
+
+function BoundaryFields({ boundary, drawing, onDrawingChange, onChange }: BoundaryEditorProps) {
+  switch (boundary.kind) {
+    case "circle":
+      return (
+        <RangeField
+          label={`Radius ${boundary.radiusM.toFixed(1)} m`}
+          value={boundary.radiusM}
+          {...BOUNDARY_LIMITS.radiusM}
+          step={0.5}
+          onChange={(radiusM) => onChange({ ...boundary, radiusM })}
+        />
+      );
+    case "rectangle":
+      return (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Width ${boundary.widthM.toFixed(1)} m`}
+            value={boundary.widthM}
+            {...BOUNDARY_LIMITS.sideM}
+            step={0.5}
+            onChange={(widthM) => onChange({ ...boundary, widthM })}
+          />
+          <RangeField
+            label={`Depth ${boundary.depthM.toFixed(1)} m`}
+            value={boundary.depthM}
+            {...BOUNDARY_LIMITS.sideM}
+            step={0.5}
+            onChange={(depthM) => onChange({ ...boundary, depthM })}
+          />
+        </div>
+      );
+    case "polygon":
+      return (
+        <PlanPointControls
+          points={boundary.points}
+          minCount={minPlanPoints("polygon")}
+          drawing={drawing}
+          onDrawingChange={onDrawingChange}
+          onChange={(points) => onChange({ ...boundary, points })}
+        />
+      );
+  }
+}
+
+export default function BoundaryEditor(props: BoundaryEditorProps) {
+  const { boundary, onDrawingChange, onChange } = props;
+
+  const changeKind = (kind: BoundaryKind) => {
+    onDrawingChange(false);
+    onChange(defaultBoundary(kind));
+  };
+
+  return (
+    <>
+      <label className={styles.field}>
+        <span>Shape</span>
+        <select value={boundary.kind} onChange={(event) => changeKind(event.target.value as BoundaryKind)}>
+          {BOUNDARY_OPTIONS.map((option) => (
+            <option key={option.kind} value={option.kind}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <BoundaryFields {...props} />
+    </>
+  );
+}
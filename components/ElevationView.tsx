@@ -0,0 +1,175 @@
+import { useRef } from "react";
+import type { PointerEvent as ReactPointerEvent } from "react";
+import {
+  HEAD_LIMITS,
+  MAX_EMITTER_HEIGHT_M,
+  clamp,
+  elevationTo,
+  toRadians,
+  type ListenerPose,
+  type SoundEmitter
+} from "../lib/world";
+import styles from "./sonic-world.module.css";
+
+type ElevationViewProps = {
+  listener: ListenerPose;
+  emitters: SoundEmitter[];
+  selectedEmitterId: string | null;
+  onSelectEmitter: (id: string) => void;
+  onEmitterHeight: (id: string, y: number) => void;
+  onListenerHeight: (heightM: number) => void;
+};
+
+// "listener" or an emitter id.
+type DragTarget = string;
+
+const VIEW_WIDTH = 400;
+const VIEW_HEIGHT = 140;
+const PX_PER_M = 20;
+const FLOOR_Y = 125;
+const RANGE_M = 9.5;
+const HEIGHT_STEP_M = 0.05;
+const GAZE_LENGTH_PX = 34;
+
+function viewY(heightM: number): number {
+  return FLOOR_Y - heightM * PX_PER_M;
+}
+
+// Side view from the listener's left: ahead is to the right, behind to the left. Emitters further away than the view
+// sit on its edge.
+export default function ElevationView({
+  listener,
+  emitters,
+  selectedEmitterId,
+  onSelectEmitter,
+  onEmitterHeight,
+  onListenerHeight
+}: ElevationViewProps) {
+  const dragRef = useRef<DragTarget | null>(null);
+  const heading = toRadians(listener.headingDeg);
+  const pitch = toRadians(listener.pitchDeg);
+  const headX = VIEW_WIDTH / 2;
+  const headY = viewY(listener.heightM);
+  const selected = emitters.find((emitter) => emitter.id === selectedEmitterId) ?? null;
+
+  const aheadOf = (emitter: SoundEmitter) =>
+    (emitter.x - listener.x) * Math.sin(heading) - (emitter.z - listener.z) * Math.cos(heading);
+  const emitterX = (emitter: SoundEmitter) => headX + clamp(aheadOf(emitter), -RANGE_M, RANGE_M) * PX_PER_M;
+
+  const startDrag = (event: ReactPointerEvent<SVGElement>, target: DragTarget) => {
+    event.stopPropagation();
+    event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+    dragRef.current = target;
+    if (target !== "listener") {
+      onSelectEmitter(target);
+    }
+  };
+
+  const onPointerMove = (event: ReactPointerEvent<SVGSVGElement>) => {
+    const target = dragRef.current;
+    if (!target) {
+      return;
+    }
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const y = ((event.clientY - bounds.top) / bounds.height) * VIEW_HEIGHT;
+    const heightM = Math.round((FLOOR_Y - y) / PX_PER_M / HEIGHT_STEP_M) * HEIGHT_STEP_M;
+    if (target === "listener") {
+      onListenerHeight(clamp(heightM, HEAD_LIMITS.heightM.min, HEAD_LIMITS.heightM.max));
+    } else {
+      onEmitterHeight(target, clamp(heightM, 0, MAX_EMITTER_HEIGHT_M));
+    }
+  };
+
+  const onPointerUp = (event: ReactPointerEvent<SVGSVGElement>) => {
+    if (dragRef.current) {
+      dragRef.current = null;
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  return (
+    <>
+      <svg
+        className={styles.elevationView}
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        role="img"
+        aria-label="Side view of emitter heights. Drag an emitter or the head up and down to change its height."
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerLeave={onPointerUp}
+      >
+        <rect x={0} y={0} width={VIEW_WIDTH} height={VIEW_HEIGHT} fill="#f3fbff" />
+        {Array.from({ length: MAX_EMITTER_HEIGHT_M }, (_, index) => (
+          <line
+            key={index}
+            x1={0}
+            x2={VIEW_WIDTH}
+            y1={viewY(index + 1)}
+            y2={viewY(index + 1)}
+            stroke="#d7e8ec"
+            strokeWidth={1}
+          />
+        ))}
+        <line x1={0} x2={VIEW_WIDTH} y1={FLOOR_Y} y2={FLOOR_Y} stroke="#7fa3ad" strokeWidth={2} />
+        <text x={6} y={12} fontSize={10} fill="#5f7f88">
+          Behind
+        </text>
+        <text x={VIEW_WIDTH - 6} y={12} fontSize={10} fill="#5f7f88" textAnchor="end">
+          Ahead
+        </text>
+        <line x1={0} x2={VIEW_WIDTH} y1={headY} y2={headY} stroke="#b8d2dc" strokeDasharray="4 4" />
+
+        {selected ? (
+          <line
+            x1={headX}
+            y1={headY}
+            x2={emitterX(selected)}
+            y2={viewY(selected.y)}
+            stroke={selected.color}
+            strokeDasharray="3 3"
+          />
+        ) : null}
+
+        <line x1={headX} y1={FLOOR_Y} x2={headX} y2={headY + 7} stroke="#285059" strokeWidth={3} />
+        <line
+          x1={headX}
+          y1={headY}
+          x2={headX + Math.cos(pitch) * GAZE_LENGTH_PX}
+          y2={headY - Math.sin(pitch) * GAZE_LENGTH_PX}
+          stroke="#0e7e73"
+          strokeWidth={2}
+        />
+        <circle
+          cx={headX}
+          cy={headY}
+          r={7}
+          fill="#0e7e73"
+          style={{ cursor: "ns-resize" }}
+          onPointerDown={(event) => startDrag(event, "listener")}
+        />
+
+        {emitters.map((emitter) => (
+          <circle
+            key={emitter.id}
+            cx={emitterX(emitter)}
+            cy={viewY(emitter.y)}
+            r={emitter.id === selectedEmitterId ? 8 : 6}
+            fill={emitter.color}
+            stroke={emitter.id === selectedEmitterId ? "#173f47" : "none"}
+            strokeWidth={2}
+            fillOpacity={Math.abs(aheadOf(emitter)) > RANGE_M ? 0.45 : 1}
+            style={{ cursor: "ns-resize" }}
+            onPointerDown={(event) => startDrag(event, emitter.id)}
+          />
+        ))}
+      </svg>
+      <p className={styles.subtle}>
+        Ear height {listener.heightM.toFixed(2)} m
+        {selected
+          ? `. ${selected.name} at ${selected.y.toFixed(2)} m, ` +
+            `${elevationTo(listener, selected.x, selected.y, selected.z).toFixed(0)} deg from ear level.`
+          : "."}
+      </p>
+    </>
+  );
+}
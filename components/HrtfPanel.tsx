@@ -0,0 +1,148 @@
+import { useRef } from "react";
+import {
+  AMBISONIC_ORDERS,
+  SPEAKER_LAYOUTS,
+  type AmbisonicDecoder,
+  type AmbisonicOrder,
+  type AmbisonicSettings
+} from "../lib/ambisonics";
+import type { SpatialMode } from "../lib/binaural";
+import type { HrirSet, HrtfAsset } from "../lib/sofa";
+import styles from "./sonic-world.module.css";
+
+type HrtfPanelProps = {
+  assets: HrtfAsset[];
+  selectedId: string;
+  set: HrirSet | null;
+  mode: SpatialMode;
+  ambisonics: AmbisonicSettings;
+  onSelect: (id: string) => void;
+  onModeChange: (mode: SpatialMode) => void;
+  onAmbisonicsChange: (settings: AmbisonicSettings) => void;
+  onUpload: (file: File) => void;
+};
+
+const MODE_LABELS: Record<SpatialMode, string> = {
+  panner: "Built-in Panner",
+  convolution: "HRIR Convolution",
+  ambisonics: "Ambisonics"
+};
+
+function describeSet(set: HrirSet): string {
+  const elevations = set.measurements.map((measurement) => measurement.elevationDeg);
+  return (
+    `${set.title}: ${set.measurements.length} directions, elevation ${Math.min(...elevations).toFixed(0)} to ` +
+    `${Math.max(...elevations).toFixed(0)} deg, ${set.taps} taps at ${set.sampleRate} Hz.`
+  );
+}
+
+export default function HrtfPanel({
+  assets,
+  selectedId,
+  set,
+  mode,
+  ambisonics,
+  onSelect,
+  onModeChange,
+  onAmbisonicsChange,
+  onUpload
+}: HrtfPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.buttonRow}>
+        {(Object.keys(MODE_LABELS) as SpatialMode[]).map((option) => (
+          <button
+            key={option}
+            className={option === mode ? styles.primaryButton : styles.secondaryButton}
+            type="button"
+            aria-pressed={option === mode}
+            onClick={() => onModeChange(option)}
+          >
+            {MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+
+      {mode === "ambisonics" && (
+        <div className={styles.inlineGrid}>
+          <label className={styles.field}>
+            <span>Ambisonic Order</span>
+            <select
+              value={ambisonics.order}
+              onChange={(event) =>
+                onAmbisonicsChange({ ...ambisonics, order: Number(event.target.value) as AmbisonicOrder })
+              }
+            >
+              {AMBISONIC_ORDERS.map((order) => (
+                <option key={order} value={order}>
+                  {order === 1 ? "First" : "Third"} order ({(order + 1) ** 2} channels)
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span>Decode To</span>
+            <select
+              value={ambisonics.decoder}
+              onChange={(event) =>
+                onAmbisonicsChange({ ...ambisonics, decoder: event.target.value as AmbisonicDecoder })
+              }
+            >
+              <option value="binaural">Binaural (HRTF dataset)</option>
+              {Object.entries(SPEAKER_LAYOUTS).map(([id, layout]) => (
+                <option key={id} value={id}>
+                  {layout.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className={styles.inlineGrid}>
+        <label className={styles.field}>
+          <span>HRTF Dataset</span>
+          <select value={selectedId} onChange={(event) => onSelect(event.target.value)}>
+            {assets.map((asset) => (
+              <option key={asset.id} value={asset.id}>
+                {asset.origin === "upload" ? `${asset.name} (uploaded)` : asset.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className={styles.buttonRow}>
+        <button className={styles.secondaryButton} type="button" onClick={() => fileInputRef.current?.click()}>
+          Upload SOFA
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".sofa"
+        hidden
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) {
+            onUpload(file);
+          }
+        }}
+      />
+
+      <p className={styles.subtle}>
+        {set
+          ? describeSet(set)
+          : "The dataset loads when convolution or binaural ambisonics is switched on."}
+      </p>
+      <p className={styles.subtle}>
+        {mode === "ambisonics"
+          ? "Direct sound and reflections share one sound field, rotated with the head before decoding. Echo " +
+            "clicks still use the built-in panner."
+          : "Reflections and echo clicks use the built-in panner."}
+      </p>
+    </div>
+  );
+}
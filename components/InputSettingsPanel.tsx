@@ -0,0 +1,193 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import {
+  DEFAULT_KEY_BINDINGS,
+  GAMEPAD_LIMITS,
+  INPUT_ACTIONS,
+  keyLabel,
+  requestHeadTracking,
+  type GamepadSettings,
+  type HeadTrackingStatus,
+  type InputAction,
+  type InputController,
+  type InputSettings
+} from "../lib/input";
+import styles from "./sonic-world.module.css";
+
+type InputSettingsPanelProps = {
+  input: InputController;
+  settings: InputSettings;
+  onChange: (settings: InputSettings) => void;
+  onStatus: (message: string) => void;
+};
+
+const HEAD_STATUS_LABELS: Record<HeadTrackingStatus, string> = {
+  off: "Off",
+  waiting: "Waiting for sensor",
+  active: "Tracking",
+  unsupported: "No orientation sensor"
+};
+
+export default function InputSettingsPanel({ input, settings, onChange, onStatus }: InputSettingsPanelProps) {
+  const status = useSyncExternalStore(input.subscribe, input.getStatus, input.getStatus);
+  const [rebinding, setRebinding] = useState<InputAction | null>(null);
+  const { deadzone, speed } = GAMEPAD_LIMITS;
+
+  // Captures the next key before the controller sees it, so the key being bound does not also trigger its old action.
+  useEffect(() => {
+    if (!rebinding) {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      setRebinding(null);
+      const key = event.key.toLowerCase();
+      if (key === "escape") {
+        return;
+      }
+      const keys = { ...settings.keys };
+      for (const { action } of INPUT_ACTIONS) {
+        keys[action] = action === rebinding ? [key] : keys[action].filter((bound) => bound !== key);
+      }
+      const emptied = INPUT_ACTIONS.filter(({ action }) => keys[action].length === 0);
+      onChange({ ...settings, keys });
+      onStatus(
+        emptied.length > 0
+          ? `Bound ${keyLabel(key)}. ${emptied.map(({ label }) => label).join(", ")} now has no key.`
+          : `Bound ${keyLabel(key)}.`
+      );
+    };
+    window.addEventListener("keydown", onKeyDown, { capture: true });
+    return () => {
+      window.removeEventListener("keydown", onKeyDown, { capture: true });
+    };
+  }, [onChange, onStatus, rebinding, settings]);
+
+  const updateGamepad = (patch: Partial<GamepadSettings>) => {
+    onChange({ ...settings, gamepad: { ...settings.gamepad, ...patch } });
+  };
+
+  const toggleHeadTracking = async (enabled: boolean) => {
+    if (enabled && !(await requestHeadTracking())) {
+      onStatus("Head tracking needs an orientation sensor and permission to use it.");
+      return;
+    }
+    onChange({ ...settings, headTracking: enabled });
+  };
+
+  return (
+    <div className={styles.editor}>
+      <table className={styles.resultsTable}>
+        <thead>
+          <tr>
+            <th>Action</th>
+            <th>Keys</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map(({ action, label }) => (
+            <tr key={action}>
+              <td>{label}</td>
+              <td>{settings.keys[action].length > 0 ? settings.keys[action].map(keyLabel).join(", ") : "-"}</td>
+              <td>
+                <button
+                  className={styles.secondaryButton}
+                  type="button"
+                  onClick={() => setRebinding(rebinding === action ? null : action)}
+                >
+                  {rebinding === action ? "Press a Key..." : "Rebind"}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className={styles.buttonRow}>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => {
+            setRebinding(null);
+            onChange({ ...settings, keys: DEFAULT_KEY_BINDINGS });
+          }}
+        >
+          Reset Keys
+        </button>
+      </div>
+
+      <div className={styles.toggleGrid}>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.gamepad.enabled}
+            onChange={(event) => updateGamepad({ enabled: event.target.checked })}
+          />
+          Gamepad
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.headTracking}
+            onChange={(event) => void toggleHeadTracking(event.target.checked)}
+          />
+          Head tracking
+        </label>
+      </div>
+      <div className={styles.coordRow}>
+        <span className={styles.badge}>Gamepad: {status.gamepad ?? "None connected"}</span>
+        <span className={styles.badge}>Head: {HEAD_STATUS_LABELS[status.head]}</span>
+      </div>
+
+      <div className={styles.inlineGrid}>
+        <label className={styles.field}>
+          <span>Stick Deadzone {settings.gamepad.deadzone.toFixed(2)}</span>
+          <input
+            type="range"
+            min={deadzone.min}
+            max={deadzone.max}
+            step={0.01}
+            value={settings.gamepad.deadzone}
+            onChange={(event) => updateGamepad({ deadzone: Number(event.target.value) })}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Walk Speed {settings.gamepad.moveSpeed.toFixed(2)}x</span>
+          <input
+            type="range"
+            min={speed.min}
+            max={speed.max}
+            step={0.05}
+            value={settings.gamepad.moveSpeed}
+            onChange={(event) => updateGamepad({ moveSpeed: Number(event.target.value) })}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Turn Speed {settings.gamepad.turnSpeed.toFixed(2)}x</span>
+          <input
+            type="range"
+            min={speed.min}
+            max={speed.max}
+            step={0.05}
+            value={settings.gamepad.turnSpeed}
+            onChange={(event) => updateGamepad({ turnSpeed: Number(event.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className={styles.buttonRow}>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          disabled={status.head !== "active"}
+          onClick={() => {
+            input.recenter();
+            onStatus("Head tracking recentered on the current heading.");
+          }}
+        >
+          Recenter Head
+        </button>
+      </div>
+    </div>
+  );
+}
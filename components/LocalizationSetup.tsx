@@ -0,0 +1,120 @@
+import { useState } from "react";
+import {
+  DEFAULT_LOCALIZATION_CONFIG,
+  LOCALIZATION_LIMITS,
+  LOCALIZATION_STIMULI,
+  type LocalizationConfig,
+  type LocalizationStimulus
+} from "../lib/localization";
+import { clamp } from "../lib/world";
+import styles from "./sonic-world.module.css";
+
+type LocalizationSetupProps = {
+  audioRunning: boolean;
+  onStart: (config: LocalizationConfig) => void;
+};
+
+export default function LocalizationSetup({ audioRunning, onStart }: LocalizationSetupProps) {
+  const [config, setConfig] = useState<LocalizationConfig>(DEFAULT_LOCALIZATION_CONFIG);
+  const { blocks, trialsPerBlock, distanceM } = LOCALIZATION_LIMITS;
+
+  const update = (patch: Partial<LocalizationConfig>) => {
+    setConfig((prev) => ({ ...prev, ...patch }));
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.inlineGrid}>
+        <label className={styles.field}>
+          <span>Blocks</span>
+          <input
+            type="number"
+            min={blocks.min}
+            max={blocks.max}
+            value={config.blocks}
+            onChange={(event) =>
+              update({ blocks: clamp(Math.round(Number(event.target.value)), blocks.min, blocks.max) })
+            }
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Trials per Block</span>
+          <input
+            type="number"
+            min={trialsPerBlock.min}
+            max={trialsPerBlock.max}
+            value={config.trialsPerBlock}
+            onChange={(event) =>
+              update({
+                trialsPerBlock: clamp(Math.round(Number(event.target.value)), trialsPerBlock.min, trialsPerBlock.max)
+              })
+            }
+          />
+        </label>
+      </div>
+      <label className={styles.field}>
+        <span>
+          Target Distance {config.minDistanceM.toFixed(1)} - {config.maxDistanceM.toFixed(1)} m
+        </span>
+        <input
+          type="range"
+          min={distanceM.min}
+          max={distanceM.max}
+          step={0.5}
+          value={config.minDistanceM}
+          onChange={(event) => {
+            const minDistanceM = Number(event.target.value);
+            update({ minDistanceM, maxDistanceM: Math.max(minDistanceM, config.maxDistanceM) });
+          }}
+        />
+        <input
+          type="range"
+          min={distanceM.min}
+          max={distanceM.max}
+          step={0.5}
+          value={config.maxDistanceM}
+          onChange={(event) => {
+            const maxDistanceM = Number(event.target.value);
+            update({ maxDistanceM, minDistanceM: Math.min(maxDistanceM, config.minDistanceM) });
+          }}
+        />
+      </label>
+      <label className={styles.field}>
+        <span>Stimulus</span>
+        <select
+          value={config.stimulus}
+          onChange={(event) => update({ stimulus: event.target.value as LocalizationStimulus })}
+        >
+          {LOCALIZATION_STIMULI.map((stimulus) => (
+            <option key={stimulus.id} value={stimulus.id}>
+              {stimulus.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className={styles.toggleGrid}>
+        <label>
+          <input
+            type="checkbox"
+            checked={config.keepObstacles}
+            onChange={(event) => update({ keepObstacles: event.target.checked })}
+          />
+          Keep scene obstacles
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={config.feedback}
+            onChange={(event) => update({ feedback: event.target.checked })}
+          />
+          Show feedback per trial
+        </label>
+      </div>
+      <div className={styles.buttonRow}>
+        <button className={styles.primaryButton} type="button" disabled={!audioRunning} onClick={() => onStart(config)}>
+          Start Task
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useState } from "react";
+import type { MouseEvent as ReactMouseEvent } from "react";
+import {
+  bearingTo,
+  placeTarget,
+  planTrials,
+  scoreTrial,
+  summarizeTrials,
+  trialResultsCsv,
+  type LocalizationConfig,
+  type TrialResult,
+  type TrialSummary
+} from "../lib/localization";
+import { EMITTER_RADIUS_M } from "../lib/motion";
+import type { Simulation, WorldState } from "../lib/simulation";
+import styles from "./sonic-world.module.css";
+
+type LocalizationTaskProps = {
+  simulation: Simulation;
+  config: LocalizationConfig;
+  headingDeg: number;
+  onAction: (label: string, detail?: string) => void;
+  onExit: () => void;
+};
+
+type TaskPhase =
+  | { kind: "blockIntro"; index: number }
+  | { kind: "trial"; index: number; onsetMs: number; onsetHeadingDeg: number; targetDeg: number }
+  | { kind: "interval"; index: number; result: TrialResult }
+  | { kind: "done" };
+
+const INTERVAL_MS = 700;
+const FEEDBACK_MS = 1800;
+const COMPASS_SIZE = 240;
+const COMPASS_TICKS = Array.from({ length: 12 }, (_, index) => index * 30);
+
+function summaryRow(label: string, summary: TrialSummary) {
+  return (
+    <tr key={label}>
+      <td>{label}</td>
+      <td>{summary.trials}</td>
+      <td>{summary.meanAbsErrorDeg.toFixed(1)}</td>
+      <td>{(summary.frontBackRate * 100).toFixed(0)}%</td>
+      <td>{(summary.meanResponseMs / 1000).toFixed(2)}</td>
+    </tr>
+  );
+}
+
+// The map is hidden while this runs: the participant only hears a single target and answers by turning to face it
+// (Q/E, then Enter or Space) or by clicking the head-relative compass.
+export default function LocalizationTask({ simulation, config, headingDeg, onAction, onExit }: LocalizationTaskProps) {
+  const [trials] = useState(() => planTrials(simulation.random, config));
+  const [phase, setPhase] = useState<TaskPhase>({ kind: "blockIntro", index: 0 });
+  const [results, setResults] = useState<TrialResult[]>([]);
+
+  useEffect(() => {
+    const live: WorldState = simulation.getState();
+    simulation.load({
+      listener: live.listener,
+      emitters: [],
+      zones: config.keepObstacles ? live.zones : [],
+      walls: config.keepObstacles ? live.walls : [],
+      boundary: live.boundary
+    });
+    return () => {
+      simulation.load({ ...live, listener: simulation.getState().listener });
+    };
+  }, [config.keepObstacles, simulation]);
+
+  const beginTrial = useCallback(
+    (index: number) => {
+      const { listener } = simulation.getState();
+      const target = placeTarget(
+        listener,
+        trials[index],
+        (x, z) => simulation.collides(x, z, EMITTER_RADIUS_M),
+        config.stimulus
+      );
+      simulation.set("emitters", [target]);
+      setPhase({
+        kind: "trial",
+        index,
+        onsetMs: performance.now(),
+        onsetHeadingDeg: listener.headingDeg,
+        targetDeg: bearingTo(listener, target.x, target.z)
+      });
+    },
+    [config.stimulus, simulation, trials]
+  );
+
+  const respond = useCallback(
+    (responseDeg: number) => {
+      if (phase.kind !== "trial") {
+        return;
+      }
+      const trial = trials[phase.index];
+      const result = scoreTrial(
+        trial,
+        phase.targetDeg,
+        responseDeg,
+        phase.onsetHeadingDeg,
+        performance.now() - phase.onsetMs
+      );
+      simulation.set("emitters", []);
+      setResults((prev) => [...prev, result]);
+      setPhase({ kind: "interval", index: phase.index, result });
+      onAction(
+        "localization-response",
+        `block ${trial.block} trial ${trial.trial}: error ${result.errorDeg.toFixed(1)} deg`
+      );
+    },
+    [onAction, phase, simulation, trials]
+  );
+
+  useEffect(() => {
+    if (phase.kind !== "interval") {
+      return;
+    }
+    const timer = window.setTimeout(
+      () => {
+        const next = phase.index + 1;
+        if (next >= trials.length) {
+          setPhase({ kind: "done" });
+        } else if (trials[next].block !== trials[phase.index].block) {
+          setPhase({ kind: "blockIntro", index: next });
+        } else {
+          beginTrial(next);
+        }
+      },
+      config.feedback ? FEEDBACK_MS : INTERVAL_MS
+    );
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [beginTrial, config.feedback, phase, trials]);
+
+  useEffect(() => {
+    if (phase.kind !== "trial") {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.key === "Enter" || event.key === " ") && !event.repeat) {
+        event.preventDefault();
+        respond(simulation.getState().listener.headingDeg);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+    };
+  }, [phase.kind, respond, simulation]);
+
+  const onCompassClick = (event: ReactMouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const dx = event.clientX - (bounds.left + bounds.width / 2);
+    const dy = event.clientY - (bounds.top + bounds.height / 2);
+    respond(simulation.getState().listener.headingDeg + (Math.atan2(dx, -dy) * 180) / Math.PI);
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([trialResultsCsv(results)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `localization-${new Date().toISOString().replace(/[:.]/g, "-")}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const current = phase.kind === "done" ? null : trials[phase.index];
+  const center = COMPASS_SIZE / 2;
+  const radius = center - 18;
+  const feedback = phase.kind === "interval" && config.feedback ? phase.result : null;
+  const feedbackRad = feedback ? ((feedback.targetDeg - headingDeg) * Math.PI) / 180 : 0;
+
+  return (
+    <div className={styles.editor}>
+      {current ? (
+        <div className={styles.coordRow}>
+          <span className={styles.badge}>
+            Block {current.block} / {config.blocks}
+          </span>
+          <span className={styles.badge}>
+            Trial {current.trial} / {config.trialsPerBlock}
+          </span>
+        </div>
+      ) : null}
+
+      {phase.kind === "blockIntro" ? (
+        <>
+          <p className={styles.subtle}>
+            Each trial plays one hidden sound. Turn with <code>Q/E</code> to face it and press <code>Enter</code>, or
+            click its direction on the compass, where the top is straight ahead.
+          </p>
+          <div className={styles.buttonRow}>
+            <button className={styles.primaryButton} type="button" onClick={() => beginTrial(phase.index)}>
+              Start Block {trials[phase.index].block}
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {phase.kind === "trial" || phase.kind === "interval" ? (
+        <svg
+          className={styles.compass}
+          viewBox={`0 0 ${COMPASS_SIZE} ${COMPASS_SIZE}`}
+          role="img"
+          aria-label="Head-relative compass. Click the direction of the sound."
+          onClick={onCompassClick}
+        >
+          <circle cx={center} cy={center} r={radius} fill="#f3fbff" stroke="#b8d2dc" strokeWidth={2} />
+          {COMPASS_TICKS.map((deg) => {
+            const rad = (deg * Math.PI) / 180;
+            const inner = deg % 90 === 0 ? radius - 14 : radius - 8;
+            return (
+              <line
+                key={deg}
+                x1={center + Math.sin(rad) * inner}
+                y1={center - Math.cos(rad) * inner}
+                x2={center + Math.sin(rad) * radius}
+                y2={center - Math.cos(rad) * radius}
+                stroke="#7fa3ad"
+                strokeWidth={deg % 90 === 0 ? 2 : 1}
+              />
+            );
+          })}
+          <text x={center} y={12} textAnchor="middle" fontSize={11} fill="#285059">
+            Ahead
+          </text>
+          <polygon
+            points={`${center},${center - 26} ${center - 9},${center + 8} ${center + 9},${center + 8}`}
+            fill="#0e7e73"
+          />
+          {feedback ? (
+            <line
+              x1={center}
+              y1={center}
+              x2={center + Math.sin(feedbackRad) * radius}
+              y2={center - Math.cos(feedbackRad) * radius}
+              stroke="#d14b4b"
+              strokeWidth={3}
+            />
+          ) : null}
+        </svg>
+      ) : null}
+
+      {feedback ? (
+        <p className={styles.status}>
+          Off by {Math.abs(feedback.errorDeg).toFixed(0)} deg
+          {feedback.frontBack ? ", a front/back confusion" : ""}. The red line shows where the target was.
+        </p>
+      ) : null}
+
+      {phase.kind === "done" ? (
+        <>
+          <table className={styles.resultsTable}>
+            <thead>
+              <tr>
+                <th>Block</th>
+                <th>Trials</th>
+                <th>Mean error (deg)</th>
+                <th>Front/back</th>
+                <th>Response (s)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from({ length: config.blocks }, (_, index) =>
+                summaryRow(
+                  `Block ${index + 1}`,
+                  summarizeTrials(results.filter((result) => result.block === index + 1))
+                )
+              )}
+              {summaryRow("All", summarizeTrials(results))}
+            </tbody>
+          </table>
+          <div className={styles.buttonRow}>
+            <button className={styles.secondaryButton} type="button" onClick={download}>
+              Download Trials CSV
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      <div className={styles.buttonRow}>
+        <button
+          className={phase.kind === "done" ? styles.primaryButton : styles.dangerButton}
+          type="button"
+          onClick={onExit}
+        >
+          {phase.kind === "done" ? "Close Task" : "Abort Task"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import {
+  ACOUSTIC_BANDS,
+  BAND_CENTER_HZ,
+  MATERIAL_OPTIONS,
+  materialFromPreset,
+  type AcousticBand,
+  type AcousticMaterial,
+  type MaterialPreset
+} from "../lib/materials";
+import styles from "./sonic-world.module.css";
+
+type MaterialEditorProps = {
+  material: AcousticMaterial;
+  onChange: (material: AcousticMaterial) => void;
+};
+
+function bandLabel(band: AcousticBand): string {
+  const hz = BAND_CENTER_HZ[band];
+  return hz >= 1000 ? `${hz / 1000} kHz` : `${hz} Hz`;
+}
+
+export default function MaterialEditor({ material, onChange }: MaterialEditorProps) {
+  const updateBand = (kind: "absorption" | "transmission", band: AcousticBand, value: number) => {
+    onChange({
+      ...material,
+      preset: "custom",
+      [kind]: { ...material[kind], [band]: value }
+    });
+  };
+
+  return (
+    <>
+      <label className={styles.field}>
+        <span>Material</span>
+        <select
+          value={material.preset}
+          onChange={(event) => onChange(materialFromPreset(event.target.value as MaterialPreset, material))}
+        >
+          {MATERIAL_OPTIONS.map((preset) => (
+            <option key={preset} value={preset}>
+              {preset}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className={styles.inlineGrid}>
+        {ACOUSTIC_BANDS.map((band) => (
+          <label key={`absorption-${band}`} className={styles.field}>
+            <span>
+              Absorption {bandLabel(band)} {material.absorption[band].toFixed(2)}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={material.absorption[band]}
+              onChange={(event) => updateBand("absorption", band, Number(event.target.value))}
+            />
+          </label>
+        ))}
+        {ACOUSTIC_BANDS.map((band) => (
+          <label key={`transmission-${band}`} className={styles.field}>
+            <span>
+              Transmission {bandLabel(band)} {material.transmission[band].toFixed(2)}
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={material.transmission[band]}
+              onChange={(event) => updateBand("transmission", band, Number(event.target.value))}
+            />
+          </label>
+        ))}
+      </div>
+    </>
+  );
+}
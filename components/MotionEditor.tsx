@@ -0,0 +1,230 @@
+import {
+  DEFAULT_SPEED_MPS,
+  MAX_WAYPOINTS,
+  MOTION_LIMITS,
+  MOTION_OPTIONS,
+  PATH_MODE_OPTIONS,
+  appendWaypoint,
+  defaultMotion,
+  type MotionKind
+} from "../lib/emitterMotion";
+import { clamp, type EmitterMotion, type ListenerPose, type PathMode, type SoundEmitter } from "../lib/world";
+import { RangeField } from "./SourceEditor";
+import styles from "./sonic-world.module.css";
+
+type MotionEditorProps = {
+  emitter: SoundEmitter;
+  listener: ListenerPose;
+  // While drawing, clicks on the map add waypoints to this emitter's path.
+  drawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+  onChange: (patch: Partial<SoundEmitter>) => void;
+};
+
+type MotionFieldsProps = Omit<MotionEditorProps, "onChange"> & {
+  onChange: (motion: EmitterMotion) => void;
+};
+
+function MotionFields({ emitter, listener, drawing, onDrawingChange, onChange }: MotionFieldsProps) {
+  const { motion } = emitter;
+  switch (motion.kind) {
+    case "bounce":
+      return <p className={styles.subtle}>Keeps its heading and bounces off obstacles and the world edge.</p>;
+    case "path":
+      return (
+        <>
+          <div className={styles.inlineGrid}>
+            <label className={styles.field}>
+              <span>Path Mode</span>
+              <select
+                value={motion.mode}
+                onChange={(event) => onChange({ ...motion, mode: event.target.value as PathMode, reversed: false })}
+              >
+                {PATH_MODE_OPTIONS.map((option) => (
+                  <option key={option.mode} value={option.mode}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={motion.spline}
+                onChange={(event) => onChange({ ...motion, spline: event.target.checked })}
+              />
+              Smooth curve
+            </label>
+          </div>
+          <div className={styles.buttonRow}>
+            <button
+              className={drawing ? styles.primaryButton : styles.secondaryButton}
+              type="button"
+              aria-pressed={drawing}
+              onClick={() => onDrawingChange(!drawing)}
+            >
+              {drawing ? "Done Drawing" : "Draw on Map"}
+            </button>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              disabled={motion.waypoints.length >= MAX_WAYPOINTS}
+              onClick={() => onChange(appendWaypoint(motion, listener.x, listener.z))}
+            >
+              Add Listener Position
+            </button>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              disabled={motion.waypoints.length === 0}
+              onClick={() => onChange({ ...motion, waypoints: motion.waypoints.slice(0, -1) })}
+            >
+              Undo Waypoint
+            </button>
+            <button
+              className={styles.dangerButton}
+              type="button"
+              disabled={motion.waypoints.length === 0}
+              onClick={() => onChange({ ...motion, waypoints: [], distanceM: 0, reversed: false })}
+            >
+              Clear Path
+            </button>
+          </div>
+          <p className={styles.subtle}>
+            {drawing
+              ? "Click the map to add waypoints. Drag a waypoint to move it."
+              : `${motion.waypoints.length} of ${MAX_WAYPOINTS} waypoints, each setting the speed as it is passed.`}
+          </p>
+          {motion.waypoints.length > 0 ? (
+            <div className={styles.emitterList}>
+              {motion.waypoints.map((waypoint, index) => (
+                <RangeField
+                  key={index}
+                  label={
+                    `Waypoint ${index + 1} (${waypoint.x.toFixed(1)}, ${waypoint.z.toFixed(1)}) ` +
+                    `${waypoint.speedMps.toFixed(1)} m/s`
+                  }
+                  value={waypoint.speedMps}
+                  {...MOTION_LIMITS.speedMps}
+                  step={0.1}
+                  onChange={(speedMps) =>
+                    onChange({
+                      ...motion,
+                      waypoints: motion.waypoints.map((item, at) => (at === index ? { ...item, speedMps } : item))
+                    })
+                  }
+                />
+              ))}
+            </div>
+          ) : null}
+        </>
+      );
+    case "orbit":
+      return (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Radius ${motion.radiusM.toFixed(1)} m`}
+            value={motion.radiusM}
+            {...MOTION_LIMITS.orbitRadiusM}
+            step={0.1}
+            onChange={(radiusM) => onChange({ ...motion, radiusM })}
+          />
+          <RangeField
+            label={`Speed ${motion.speedMps.toFixed(1)} m/s`}
+            value={motion.speedMps}
+            {...MOTION_LIMITS.speedMps}
+            step={0.1}
+            onChange={(speedMps) => onChange({ ...motion, speedMps })}
+          />
+          <label>
+            <input
+              type="checkbox"
+              checked={motion.clockwise}
+              onChange={(event) => onChange({ ...motion, clockwise: event.target.checked })}
+            />
+            Clockwise
+          </label>
+        </div>
+      );
+    case "follow":
+    case "flee":
+      return (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Speed ${motion.speedMps.toFixed(1)} m/s`}
+            value={motion.speedMps}
+            {...MOTION_LIMITS.speedMps}
+            step={0.1}
+            onChange={(speedMps) => onChange({ ...motion, speedMps })}
+          />
+          <RangeField
+            label={
+              motion.kind === "follow"
+                ? `Stops ${motion.distanceM.toFixed(1)} m away`
+                : `Runs until ${motion.distanceM.toFixed(1)} m away`
+            }
+            value={motion.distanceM}
+            {...MOTION_LIMITS.keepDistanceM}
+            step={0.1}
+            onChange={(distanceM) => onChange({ ...motion, distanceM })}
+          />
+        </div>
+      );
+    case "wander":
+      return (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Speed ${motion.speedMps.toFixed(1)} m/s`}
+            value={motion.speedMps}
+            {...MOTION_LIMITS.speedMps}
+            step={0.1}
+            onChange={(speedMps) => onChange({ ...motion, speedMps })}
+          />
+          <RangeField
+            label={`Restlessness ${motion.turnDegPerSec.toFixed(0)} deg/s`}
+            value={motion.turnDegPerSec}
+            {...MOTION_LIMITS.turnDegPerSec}
+            step={5}
+            onChange={(turnDegPerSec) => onChange({ ...motion, turnDegPerSec })}
+          />
+        </div>
+      );
+  }
+}
+
+export default function MotionEditor(props: MotionEditorProps) {
+  const { emitter, listener, onDrawingChange, onChange } = props;
+
+  const changeKind = (kind: MotionKind) => {
+    onDrawingChange(false);
+    const motion = defaultMotion(kind, emitter);
+    if (motion.kind === "orbit") {
+      const distance = Math.hypot(emitter.x - listener.x, emitter.z - listener.z);
+      const radiusM = clamp(distance, MOTION_LIMITS.orbitRadiusM.min, MOTION_LIMITS.orbitRadiusM.max);
+      onChange({ motion: { ...motion, radiusM } });
+      return;
+    }
+    // Behaviours that stop leave the emitter at rest, which would keep a bouncing one still forever.
+    if (motion.kind === "bounce" && Math.hypot(emitter.vx, emitter.vz) < 0.1) {
+      onChange({ motion, vx: DEFAULT_SPEED_MPS, vz: 0 });
+      return;
+    }
+    onChange({ motion });
+  };
+
+  return (
+    <>
+      <label className={styles.field}>
+        <span>Motion</span>
+        <select value={emitter.motion.kind} onChange={(event) => changeKind(event.target.value as MotionKind)}>
+          {MOTION_OPTIONS.map((option) => (
+            <option key={option.kind} value={option.kind}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <MotionFields {...props} onChange={(motion) => onChange({ motion })} />
+    </>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from "react";
+import type { FeedbackCue } from "../lib/cues";
+import {
+  NAVIGATION_LEVELS,
+  goalEmitter,
+  placeGoal,
+  trackNavigation,
+  type NavigationGoal,
+  type NavigationLevel,
+  type NavigationStats,
+  type NavigationTracker
+} from "../lib/navigation";
+import type { Simulation } from "../lib/simulation";
+import styles from "./sonic-world.module.css";
+
+type NavigationChallengeProps = {
+  simulation: Simulation;
+  startLevel: number;
+  onAction: (label: string, detail?: string) => void;
+  onCue: (cue: FeedbackCue) => void;
+  onExit: () => void;
+};
+
+type LevelResult = NavigationStats & {
+  level: NavigationLevel;
+  shortestM: number;
+};
+
+type ChallengePhase =
+  | { kind: "intro"; error: string | null }
+  | { kind: "running"; goal: NavigationGoal }
+  | { kind: "result"; result: LevelResult }
+  | { kind: "done" };
+
+const HUD_POLL_MS = 250;
+const EMPTY_STATS: NavigationStats = { timeSec: 0, pathLengthM: 0, collisions: 0, reached: false };
+
+function efficiency(result: LevelResult): string {
+  return result.reached && result.pathLengthM > 0
+    ? `${Math.min(100, (result.shortestM / result.pathLengthM) * 100).toFixed(0)}%`
+    : "-";
+}
+
+// Walk mode with the map hidden: find the pulsing goal by ear. Levels run in order from `startLevel`.
+export default function NavigationChallenge({
+  simulation,
+  startLevel,
+  onAction,
+  onCue,
+  onExit
+}: NavigationChallengeProps) {
+  const [levelIndex, setLevelIndex] = useState(startLevel);
+  const [phase, setPhase] = useState<ChallengePhase>({ kind: "intro", error: null });
+  const [results, setResults] = useState<LevelResult[]>([]);
+  const [hud, setHud] = useState<NavigationStats>(EMPTY_STATS);
+  const trackerRef = useRef<NavigationTracker | null>(null);
+
+  const level = NAVIGATION_LEVELS[levelIndex];
+
+  useEffect(() => {
+    const live = simulation.getState();
+    return () => {
+      trackerRef.current?.stop();
+      trackerRef.current = null;
+      simulation.load(live);
+    };
+  }, [simulation]);
+
+  useEffect(() => {
+    if (phase.kind !== "running") {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      setHud(trackerRef.current?.stats() ?? EMPTY_STATS);
+    }, HUD_POLL_MS);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [phase.kind]);
+
+  const finishLevel = (goal: NavigationGoal) => {
+    const stats = trackerRef.current?.stop() ?? EMPTY_STATS;
+    trackerRef.current = null;
+    simulation.set("emitters", []);
+    const result: LevelResult = { ...stats, level, shortestM: goal.shortestM };
+    setResults((prev) => [...prev, result]);
+    setPhase({ kind: "result", result });
+    if (stats.reached) {
+      onCue("goal");
+    }
+    onAction(
+      "navigation-level",
+      `${level.name}: ${stats.reached ? "reached" : "gave up"} after ${stats.timeSec.toFixed(1)} s, ` +
+        `${stats.pathLengthM.toFixed(1)} m, ${stats.collisions} collisions`
+    );
+  };
+
+  const startLevelRun = () => {
+    simulation.load({ ...level.world, emitters: [] });
+    const goal = placeGoal(simulation.random, simulation.spatialIndex(), level);
+    if (!goal) {
+      setPhase({ kind: "intro", error: "Could not place a reachable goal in this level. Try again." });
+      return;
+    }
+    simulation.set("emitters", [goalEmitter(goal)]);
+    trackerRef.current = trackNavigation(simulation, goal, {
+      onCollision: () => onCue("bump"),
+      onReach: () => finishLevel(goal)
+    });
+    setHud(EMPTY_STATS);
+    setPhase({ kind: "running", goal });
+    onAction("navigation-start", level.name);
+  };
+
+  return (
+    <div className={styles.editor}>
+      {phase.kind !== "done" ? (
+        <div className={styles.coordRow}>
+          <span className={styles.badge}>
+            Level {levelIndex + 1} / {NAVIGATION_LEVELS.length}: {level.name}
+          </span>
+          {phase.kind === "running" ? (
+            <>
+              <span className={styles.badge}>Time {hud.timeSec.toFixed(1)} s</span>
+              <span className={styles.badge}>Walked {hud.pathLengthM.toFixed(1)} m</span>
+              <span className={styles.badge}>Collisions {hud.collisions}</span>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      {phase.kind === "intro" ? (
+        <>
+          <p className={styles.subtle}>{level.description}</p>
+          <p className={styles.subtle}>
+            Walk to the pulsing goal with <code>W/A/S/D</code> and <code>Q/E</code>. Bumping into anything plays a low
+            thud; reaching the goal plays a chime.
+          </p>
+          {phase.error ? <p className={styles.status}>{phase.error}</p> : null}
+          <div className={styles.buttonRow}>
+            <button className={styles.primaryButton} type="button" onClick={startLevelRun}>
+              Start Level
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {phase.kind === "running" ? (
+        <div className={styles.buttonRow}>
+          <button className={styles.secondaryButton} type="button" onClick={() => finishLevel(phase.goal)}>
+            Give Up Level
+          </button>
+        </div>
+      ) : null}
+
+      {phase.kind === "result" ? (
+        <>
+          <p className={styles.status}>
+            {phase.result.reached ? "Goal reached" : "Level abandoned"} after {phase.result.timeSec.toFixed(1)} s.
+            Walked {phase.result.pathLengthM.toFixed(1)} m against a shortest path of{" "}
+            {phase.result.shortestM.toFixed(1)} m, with {phase.result.collisions} collisions.
+          </p>
+          <div className={styles.buttonRow}>
+            <button
+              className={styles.primaryButton}
+              type="button"
+              onClick={() => {
+                if (levelIndex + 1 < NAVIGATION_LEVELS.length) {
+                  setLevelIndex(levelIndex + 1);
+                  setPhase({ kind: "intro", error: null });
+                } else {
+                  setPhase({ kind: "done" });
+                }
+              }}
+            >
+              {levelIndex + 1 < NAVIGATION_LEVELS.length ? "Next Level" : "Finish"}
+            </button>
+            <button className={styles.secondaryButton} type="button" onClick={startLevelRun}>
+              Retry Level
+            </button>
+          </div>
+        </>
+      ) : null}
+
+      {phase.kind === "done" ? (
+        <table className={styles.resultsTable}>
+          <thead>
+            <tr>
+              <th>Level</th>
+              <th>Time (s)</th>
+              <th>Walked (m)</th>
+              <th>Shortest (m)</th>
+              <th>Efficiency</th>
+              <th>Collisions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result, index) => (
+              <tr key={index}>
+                <td>
+                  {result.level.name}
+                  {result.reached ? "" : " (gave up)"}
+                </td>
+                <td>{result.timeSec.toFixed(1)}</td>
+                <td>{result.pathLengthM.toFixed(1)}</td>
+                <td>{result.shortestM.toFixed(1)}</td>
+                <td>{efficiency(result)}</td>
+                <td>{result.collisions}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+
+      <div className={styles.buttonRow}>
+        <button
+          className={phase.kind === "done" ? styles.primaryButton : styles.dangerButton}
+          type="button"
+          onClick={onExit}
+        >
+          {phase.kind === "done" ? "Close Challenge" : "Quit Challenge"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useState } from "react";
+import { NAVIGATION_LEVELS } from "../lib/navigation";
+import styles from "./sonic-world.module.css";
+
+type NavigationSetupProps = {
+  audioRunning: boolean;
+  onStart: (levelIndex: number) => void;
+};
+
+export default function NavigationSetup({ audioRunning, onStart }: NavigationSetupProps) {
+  const [levelIndex, setLevelIndex] = useState(0);
+
+  return (
+    <div className={styles.editor}>
+      <label className={styles.field}>
+        <span>Start at Level</span>
+        <select value={levelIndex} onChange={(event) => setLevelIndex(Number(event.target.value))}>
+          {NAVIGATION_LEVELS.map((level, index) => (
+            <option key={level.id} value={index}>
+              {index + 1}. {level.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className={styles.subtle}>{NAVIGATION_LEVELS[levelIndex].description}</p>
+      <div className={styles.buttonRow}>
+        <button
+          className={styles.primaryButton}
+          type="button"
+          disabled={!audioRunning}
+          onClick={() => onStart(levelIndex)}
+        >
+          Start Challenge
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { SPEAKER_LAYOUTS, ambisonicChannels, type AmbisonicSettings } from "../lib/ambisonics";
+import {
+  MAX_OFFLINE_DURATION_SEC,
+  OFFLINE_SAMPLE_RATES,
+  renderSceneOffline,
+  type OfflineOutput,
+  type SampleLoader,
+  type WalkKeyframe
+} from "../lib/offlineRender";
+import { DEFAULT_SEED } from "../lib/random";
+import { sceneSlug, type SceneContent } from "../lib/scene";
+import type { HrirSet } from "../lib/sofa";
+import { encodeWav } from "../lib/wav";
+import { clamp, type ListenerPose } from "../lib/world";
+import styles from "./sonic-world.module.css";
+
+type OfflineRenderPanelProps = {
+  listener: ListenerPose;
+  getScene: () => SceneContent;
+  loadSample: SampleLoader;
+  hrtf: HrirSet | null;
+  ambisonics: AmbisonicSettings | null;
+  onStatus: (message: string) => void;
+};
+
+const MAX_SEED = 0xffffffff;
+
+function describeDecoder(settings: AmbisonicSettings): string {
+  return settings.decoder === "binaural" ? "binaural" : SPEAKER_LAYOUTS[settings.decoder].label;
+}
+
+export default function OfflineRenderPanel({
+  listener,
+  getScene,
+  loadSample,
+  hrtf,
+  ambisonics,
+  onStatus
+}: OfflineRenderPanelProps) {
+  const [sampleRate, setSampleRate] = useState(44100);
+  const [durationSec, setDurationSec] = useState(20);
+  const [keyframeTime, setKeyframeTime] = useState(0);
+  const [keyframes, setKeyframes] = useState<WalkKeyframe[]>([]);
+  const [moveEmitters, setMoveEmitters] = useState(true);
+  const [output, setOutput] = useState<OfflineOutput>("decoded");
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [rendering, setRendering] = useState(false);
+  const ambix = ambisonics !== null && output === "ambix";
+
+  const addKeyframe = () => {
+    const keyframe: WalkKeyframe = { timeSec: keyframeTime, ...listener };
+    setKeyframes((prev) =>
+      [...prev.filter((candidate) => candidate.timeSec !== keyframeTime), keyframe].sort(
+        (a, b) => a.timeSec - b.timeSec
+      )
+    );
+    setKeyframeTime((current) => Math.min(durationSec, current + 5));
+  };
+
+  const render = async () => {
+    setRendering(true);
+    onStatus(`Rendering ${durationSec} s at ${sampleRate} Hz...`);
+    try {
+      const scene = getScene();
+      const buffer = await renderSceneOffline(
+        scene,
+        { durationSec, sampleRate, keyframes, moveEmitters, hrtf, ambisonics, output, seed },
+        loadSample
+      );
+      const url = URL.createObjectURL(encodeWav(buffer));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${sceneSlug(scene.name)}-walk${ambix ? "-ambix" : ""}.wav`;
+      link.click();
+      URL.revokeObjectURL(url);
+      onStatus(
+        `Rendered "${scene.name}" to ${buffer.numberOfChannels}-channel WAV (${durationSec} s, ` +
+          `${keyframes.length} keyframes, seed ${seed}).`
+      );
+    } catch (error) {
+      onStatus(error instanceof Error ? error.message : "Offline render failed.");
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.inlineGrid}>
+        <label className={styles.field}>
+          <span>Sample Rate</span>
+          <select value={sampleRate} onChange={(event) => setSampleRate(Number(event.target.value))}>
+            {OFFLINE_SAMPLE_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate} Hz
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <span>Duration (s)</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_OFFLINE_DURATION_SEC}
+            value={durationSec}
+            onChange={(event) => setDurationSec(clamp(Number(event.target.value) || 1, 1, MAX_OFFLINE_DURATION_SEC))}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Keyframe Time (s)</span>
+          <input
+            type="number"
+            min={0}
+            max={durationSec}
+            step={0.5}
+            value={keyframeTime}
+            onChange={(event) => setKeyframeTime(clamp(Number(event.target.value) || 0, 0, durationSec))}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Seed</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_SEED}
+            step={1}
+            value={seed}
+            onChange={(event) => setSeed(clamp(Math.round(Number(event.target.value) || 0), 0, MAX_SEED))}
+          />
+        </label>
+        {ambisonics && (
+          <label className={styles.field}>
+            <span>Output</span>
+            <select value={output} onChange={(event) => setOutput(event.target.value as OfflineOutput)}>
+              <option value="decoded">Decoded ({describeDecoder(ambisonics)})</option>
+              <option value="ambix">AmbiX, {ambisonicChannels(ambisonics.order)} channels (ACN/SN3D)</option>
+            </select>
+          </label>
+        )}
+      </div>
+      <div className={styles.toggleGrid}>
+        <label>
+          <input type="checkbox" checked={moveEmitters} onChange={(event) => setMoveEmitters(event.target.checked)} />
+          Move emitters during render
+        </label>
+      </div>
+      <p className={styles.subtle}>
+        {ambix
+          ? "The recording keeps the world-referenced sound field: direct sound and early reflections, no late reverb."
+          : ambisonics
+            ? `Emitters are encoded to order ${ambisonics.order} ambisonics and decoded to ` +
+              `${describeDecoder(ambisonics)}.`
+            : hrtf
+              ? `Direct sound is convolved with ${hrtf.title}.`
+              : "Direct sound uses the built-in HRTF panner."}
+      </p>
+      <p className={styles.subtle}>
+        {keyframes.length === 0
+          ? "No keyframes: the listener stays at the current pose."
+          : keyframes
+              .map((keyframe) => `${keyframe.timeSec}s (${keyframe.x.toFixed(1)}, ${keyframe.z.toFixed(1)})`)
+              .join(" -> ")}
+      </p>
+      <div className={styles.buttonRow}>
+        <button className={styles.secondaryButton} type="button" onClick={addKeyframe} disabled={rendering}>
+          Add Keyframe Here
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => setKeyframes([])}
+          disabled={rendering || keyframes.length === 0}
+        >
+          Clear Walk
+        </button>
+        <button className={styles.primaryButton} type="button" onClick={() => void render()} disabled={rendering}>
+          {rendering ? "Rendering..." : "Render WAV"}
+        </button>
+      </div>
+    </div>
+  );
+}
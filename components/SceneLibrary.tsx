@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import type { SceneDocument } from "../lib/scene";
+import {
+  createLibraryScene,
+  deleteLibraryScene,
+  duplicateLibraryScene,
+  fetchLibraryScene,
+  fetchSceneLibrary,
+  updateLibraryScene
+} from "../lib/sceneClient";
+import type { SceneSummary } from "../lib/sceneStore";
+import styles from "./sonic-world.module.css";
+
+type SceneLibraryProps = {
+  getScene: () => SceneDocument;
+  onLoad: (scene: SceneDocument) => void;
+  onStatus: (message: string) => void;
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Scene library request failed.";
+}
+
+export default function SceneLibrary({ getScene, onLoad, onStatus }: SceneLibraryProps) {
+  const [scenes, setScenes] = useState<SceneSummary[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const run = useCallback(
+    async (action: () => Promise<string | null>) => {
+      setBusy(true);
+      try {
+        const focusId = await action();
+        const next = await fetchSceneLibrary();
+        setScenes(next);
+        setSelectedId((current) => {
+          const wanted = focusId ?? current;
+          return next.some((scene) => scene.id === wanted) ? wanted : "";
+        });
+      } catch (error) {
+        onStatus(errorMessage(error));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onStatus]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSceneLibrary()
+      .then((next) => {
+        if (!cancelled) {
+          setScenes(next);
+        }
+      })
+      .catch(() => {
+        // The library is optional; static exports have no API to talk to.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selected = scenes.find((scene) => scene.id === selectedId) ?? null;
+
+  const load = () =>
+    run(async () => {
+      const stored = await fetchLibraryScene(selectedId);
+      onLoad(stored.scene);
+      onStatus(`Loaded "${stored.scene.name}" from the library.`);
+      return stored.id;
+    });
+
+  const save = () =>
+    run(async () => {
+      const stored = await updateLibraryScene(selectedId, getScene());
+      onStatus(`Saved "${stored.scene.name}" to the library.`);
+      return stored.id;
+    });
+
+  const saveAsNew = () =>
+    run(async () => {
+      const stored = await createLibraryScene(getScene());
+      onStatus(`Added "${stored.scene.name}" to the library.`);
+      return stored.id;
+    });
+
+  const duplicate = () =>
+    run(async () => {
+      const stored = await duplicateLibraryScene(selectedId);
+      onStatus(`Duplicated as "${stored.scene.name}".`);
+      return stored.id;
+    });
+
+  const remove = () => {
+    if (!selected || !window.confirm(`Delete "${selected.name}" from the shared library?`)) {
+      return;
+    }
+    void run(async () => {
+      await deleteLibraryScene(selected.id);
+      onStatus(`Deleted "${selected.name}" from the library.`);
+      return null;
+    });
+  };
+
+  return (
+    <div className={styles.editor}>
+      <label className={styles.field}>
+        <span>Shared Library ({scenes.length})</span>
+        <select value={selectedId} onChange={(event) => setSelectedId(event.target.value)}>
+          <option value="">Select a scene</option>
+          {scenes.map((scene) => (
+            <option key={scene.id} value={scene.id}>
+              {scene.name} ({scene.emitters} emitters, {scene.walls + scene.zones} obstacles)
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className={styles.buttonRow}>
+        <button className={styles.secondaryButton} type="button" onClick={load} disabled={busy || !selected}>
+          Load
+        </button>
+        <button className={styles.secondaryButton} type="button" onClick={save} disabled={busy || !selected}>
+          Save
+        </button>
+        <button className={styles.secondaryButton} type="button" onClick={saveAsNew} disabled={busy}>
+          Save as New
+        </button>
+        <button className={styles.secondaryButton} type="button" onClick={duplicate} disabled={busy || !selected}>
+          Duplicate
+        </button>
+        <button className={styles.dangerButton} type="button" onClick={remove} disabled={busy || !selected}>
+          Delete
+        </button>
+        <button className={styles.secondaryButton} type="button" onClick={() => run(async () => null)} disabled={busy}>
+          Refresh
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from "react";
+import type { SceneContent } from "../lib/scene";
+import { uploadSessionLog } from "../lib/sessionClient";
+import { sessionLogCsv, startSessionLog, type SessionLog, type SessionLogger } from "../lib/sessionLog";
+import type { Simulation } from "../lib/simulation";
+import styles from "./sonic-world.module.css";
+
+type SessionLogPanelProps = {
+  simulation: Simulation;
+  getScene: () => SceneContent;
+  onLoggerChange: (logger: SessionLogger | null) => void;
+  onStatus: (message: string) => void;
+};
+
+function logFileName(log: SessionLog, extension: string): string {
+  const participant = log.participantId.replace(/[^A-Za-z0-9_-]+/g, "-");
+  return `${participant}-${log.startedAt.replace(/[:.]/g, "-")}.session.${extension}`;
+}
+
+function download(content: string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function SessionLogPanel({ simulation, getScene, onLoggerChange, onStatus }: SessionLogPanelProps) {
+  const [participantId, setParticipantId] = useState("");
+  const [logging, setLogging] = useState(false);
+  const [log, setLog] = useState<SessionLog | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const loggerRef = useRef<SessionLogger | null>(null);
+
+  useEffect(
+    () => () => {
+      loggerRef.current?.stop();
+      loggerRef.current = null;
+      onLoggerChange(null);
+    },
+    [onLoggerChange]
+  );
+
+  const toggleLogging = () => {
+    const logger = loggerRef.current;
+    if (logger) {
+      const finished = logger.stop();
+      loggerRef.current = null;
+      onLoggerChange(null);
+      setLog(finished);
+      setLogging(false);
+      onStatus(`Logged ${finished.samples.length} pose samples and ${finished.events.length} events.`);
+      return;
+    }
+    const id = participantId.trim();
+    if (!id) {
+      onStatus("Enter a participant ID before logging.");
+      return;
+    }
+    const next = startSessionLog(simulation, id, getScene().name);
+    loggerRef.current = next;
+    onLoggerChange(next);
+    setLog(null);
+    setLogging(true);
+    onStatus(`Logging session for participant "${id}".`);
+  };
+
+  const upload = async () => {
+    if (!log) {
+      return;
+    }
+    setUploading(true);
+    try {
+      const stored = await uploadSessionLog(log);
+      onStatus(`Session uploaded as ${stored.id}.`);
+    } catch (error) {
+      onStatus(error instanceof Error ? error.message : "Unable to upload session.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      <label className={styles.field}>
+        <span>Participant ID</span>
+        <input
+          value={participantId}
+          maxLength={64}
+          disabled={logging}
+          onChange={(event) => setParticipantId(event.target.value)}
+        />
+      </label>
+      <div className={styles.buttonRow}>
+        <button
+          className={logging ? styles.dangerButton : styles.primaryButton}
+          type="button"
+          onClick={toggleLogging}
+        >
+          {logging ? "Stop Logging" : "Start Logging"}
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          disabled={!log}
+          onClick={() => log && download(sessionLogCsv(log), "text/csv", logFileName(log, "csv"))}
+        >
+          Export CSV
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          disabled={!log}
+          onClick={() => log && download(JSON.stringify(log), "application/json", logFileName(log, "json"))}
+        >
+          Export JSON
+        </button>
+        <button className={styles.secondaryButton} type="button" disabled={!log || uploading} onClick={upload}>
+          {uploading ? "Uploading..." : "Upload to Server"}
+        </button>
+      </div>
+    </div>
+  );
+}
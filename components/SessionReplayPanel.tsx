@@ -0,0 +1,231 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  RecordingFormatError,
+  createReplay,
+  parseRecordingJson,
+  startRecording,
+  type SessionRecorder,
+  type SessionRecording,
+  type SessionReplay
+} from "../lib/replay";
+import type { Simulation, WorldState } from "../lib/simulation";
+import styles from "./sonic-world.module.css";
+
+type SessionReplayPanelProps = {
+  simulation: Simulation;
+  audioRunning: boolean;
+  onReplayChange: (active: boolean) => void;
+  onStatus: (message: string) => void;
+};
+
+function recordingFileName(recording: SessionRecording): string {
+  return `session-${recording.recordedAt.replace(/[:.]/g, "-")}.recording.json`;
+}
+
+export default function SessionReplayPanel({
+  simulation,
+  audioRunning,
+  onReplayChange,
+  onStatus
+}: SessionReplayPanelProps) {
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [recordingActive, setRecordingActive] = useState(false);
+  const [replay, setReplay] = useState<SessionReplay | null>(null);
+  const [playhead, setPlayhead] = useState(0);
+  // Playback start position while playing, null while paused.
+  const [playFrom, setPlayFrom] = useState<number | null>(null);
+
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const liveWorldRef = useRef<WorldState | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const frame = useMemo(() => replay?.seek(playhead) ?? null, [playhead, replay]);
+
+  useEffect(() => {
+    recorderRef.current?.mark({ kind: "audio", running: audioRunning });
+  }, [audioRunning]);
+
+  useEffect(() => {
+    if (frame) {
+      simulation.load(frame.world);
+    }
+  }, [frame, simulation]);
+
+  useEffect(() => {
+    if (playFrom === null || !replay) {
+      return;
+    }
+    let animation = 0;
+    const started = performance.now();
+    const tick = (now: number) => {
+      const position = Math.min(replay.durationSec, playFrom + (now - started) / 1000);
+      setPlayhead(position);
+      if (position >= replay.durationSec) {
+        setPlayFrom(null);
+        return;
+      }
+      animation = window.requestAnimationFrame(tick);
+    };
+    animation = window.requestAnimationFrame(tick);
+    return () => {
+      window.cancelAnimationFrame(animation);
+    };
+  }, [playFrom, replay]);
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      const finished = recorder.stop();
+      recorderRef.current = null;
+      setRecording(finished);
+      setRecordingActive(false);
+      onStatus(`Recorded ${(finished.steps * finished.stepSec).toFixed(1)} s (${finished.events.length} events).`);
+      return;
+    }
+    recorderRef.current = startRecording(simulation, audioRunning);
+    setRecordingActive(true);
+    onStatus("Recording session input. Stop recording to download or replay it.");
+  };
+
+  const download = () => {
+    if (!recording) {
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([JSON.stringify(recording)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = recordingFileName(recording);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const enterReplay = (next: SessionRecording): SessionReplay => {
+    const created = createReplay(next);
+    liveWorldRef.current ??= simulation.getState();
+    setRecording(next);
+    setReplay(created);
+    setPlayhead(0);
+    setPlayFrom(null);
+    onReplayChange(true);
+    if (created.matchesRecording === false) {
+      onStatus("This recording does not replay to where it ended, so it may differ from the session.");
+    }
+    return created;
+  };
+
+  const exitReplay = () => {
+    setReplay(null);
+    setPlayFrom(null);
+    if (liveWorldRef.current) {
+      simulation.load(liveWorldRef.current);
+      liveWorldRef.current = null;
+    }
+    onReplayChange(false);
+    onStatus("Replay closed. Live simulation resumed.");
+  };
+
+  const loadFile = async (file: File) => {
+    try {
+      const loaded = parseRecordingJson(await file.text());
+      if (enterReplay(loaded).matchesRecording !== false) {
+        onStatus(`Loaded recording from ${new Date(loaded.recordedAt).toLocaleString()}.`);
+      }
+    } catch (error) {
+      onStatus(error instanceof RecordingFormatError ? error.message : "Unable to read recording file.");
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.buttonRow}>
+        <button
+          className={recordingActive ? styles.dangerButton : styles.secondaryButton}
+          type="button"
+          onClick={toggleRecording}
+          disabled={replay !== null}
+        >
+          {recordingActive ? "Stop Recording" : "Record Session"}
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={download}
+          disabled={!recording || recordingActive}
+        >
+          Download Recording
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => recording && enterReplay(recording)}
+          disabled={!recording || recordingActive || replay !== null}
+        >
+          Replay
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={recordingActive}
+        >
+          Load Recording
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) {
+            void loadFile(file);
+          }
+        }}
+      />
+      {replay && frame ? (
+        <>
+          <label className={styles.field}>
+            <span>
+              Replay {playhead.toFixed(2)} / {replay.durationSec.toFixed(2)} s
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={replay.durationSec}
+              step={replay.recording.stepSec}
+              value={playhead}
+              onChange={(event) => {
+                setPlayFrom(null);
+                setPlayhead(Number(event.target.value));
+              }}
+            />
+          </label>
+          <div className={styles.coordRow}>
+            <span className={styles.badge}>Step {frame.step}</span>
+            <span className={styles.badge}>Audio {frame.audioRunning ? "on" : "off"}</span>
+            <span className={styles.badge}>
+              Walk{" "}
+              {frame.controls.walk
+                ? `${frame.controls.walk.forward}/${frame.controls.walk.strafe}/${frame.controls.walk.turn}`
+                : "off"}
+            </span>
+          </div>
+          <div className={styles.buttonRow}>
+            <button
+              className={styles.primaryButton}
+              type="button"
+              onClick={() => setPlayFrom(playFrom === null ? (playhead >= replay.durationSec ? 0 : playhead) : null)}
+            >
+              {playFrom === null ? "Play" : "Pause"}
+            </button>
+            <button className={styles.secondaryButton} type="button" onClick={exitReplay}>
+              Exit Replay
+            </button>
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
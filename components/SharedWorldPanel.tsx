@@ -0,0 +1,184 @@
+import { useEffect, useRef, useState } from "react";
+import { RELAY_PORT, defaultRelayUrl, joinSharedWorld, type SharedPeer, type SharedWorld } from "../lib/sharedWorld";
+import type { Simulation } from "../lib/simulation";
+import {
+  REPORT_INTERVAL_MS,
+  parseTrainerSignal,
+  type SessionReport,
+  type TrainerCommand,
+  type TrainerSignal
+} from "../lib/trainer";
+import styles from "./sonic-world.module.css";
+
+type SharedWorldPanelProps = {
+  simulation: Simulation;
+  // Tasks, challenges and replays rewrite the world, so they run offline.
+  disabled: boolean;
+  getReport: () => SessionReport;
+  onCommand: (command: TrainerCommand, trainer: string) => void;
+  // False whenever no trainer console is following the room, including after leaving it.
+  onWatchedChange: (watched: boolean) => void;
+  onStatus: (message: string) => void;
+};
+
+export default function SharedWorldPanel({
+  simulation,
+  disabled,
+  getReport,
+  onCommand,
+  onWatchedChange,
+  onStatus
+}: SharedWorldPanelProps) {
+  const [relayUrl, setRelayUrl] = useState("");
+  const [room, setRoom] = useState("training");
+  const [name, setName] = useState("");
+  const [connected, setConnected] = useState(false);
+  const [peers, setPeers] = useState<SharedPeer[]>([]);
+  const [trainerCode, setTrainerCode] = useState("");
+  const worldRef = useRef<SharedWorld | null>(null);
+  const peersRef = useRef<SharedPeer[]>([]);
+  const onCommandRef = useRef(onCommand);
+  const watched = peers.some((peer) => peer.role === "observer");
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  }, [onCommand]);
+
+  useEffect(() => {
+    onWatchedChange(watched);
+  }, [onWatchedChange, watched]);
+
+  useEffect(
+    () => () => {
+      worldRef.current?.leave();
+      worldRef.current = null;
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (disabled && worldRef.current) {
+      worldRef.current.leave();
+      onStatus("Left the shared room while the world runs offline.");
+    }
+  }, [disabled, onStatus]);
+
+  // Reports go out only while a trainer console is watching.
+  useEffect(() => {
+    if (!watched) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      const signal: TrainerSignal = { type: "report", report: getReport() };
+      worldRef.current?.signal(signal);
+    }, REPORT_INTERVAL_MS);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [getReport, watched]);
+
+  const join = () => {
+    const roomName = room.trim();
+    if (!roomName) {
+      onStatus("Enter a room name to join.");
+      return;
+    }
+    const url = relayUrl.trim() || defaultRelayUrl();
+    onStatus(`Connecting to ${url}...`);
+    setConnected(true);
+    worldRef.current = joinSharedWorld(
+      simulation,
+      { url, room: roomName, name: name.trim() || "Guest", role: "participant" },
+      {
+        onStatus,
+        onPeers: (next) => {
+          peersRef.current = next;
+          setPeers(next);
+        },
+        onClose: () => {
+          worldRef.current = null;
+          setConnected(false);
+          setTrainerCode("");
+        },
+        onTrainerCode: setTrainerCode,
+        // The relay passes on signals only from observers holding the room's trainer code.
+        onSignal: (from, payload) => {
+          const signal = parseTrainerSignal(payload);
+          const trainer = peersRef.current.find((peer) => peer.clientId === from);
+          if (signal?.type === "command" && trainer?.role === "observer") {
+            onCommandRef.current(signal.command, trainer.name);
+          }
+        }
+      }
+    );
+  };
+
+  const leave = () => {
+    worldRef.current?.leave();
+    onStatus(`Left "${room.trim()}".`);
+  };
+
+  return (
+    <div className={styles.editor}>
+      <label className={styles.field}>
+        <span>Relay URL</span>
+        <input
+          value={relayUrl}
+          placeholder={`ws://<this host>:${RELAY_PORT}`}
+          disabled={connected}
+          onChange={(event) => setRelayUrl(event.target.value)}
+        />
+      </label>
+      <div className={styles.inlineGrid}>
+        <label className={styles.field}>
+          <span>Room</span>
+          <input value={room} maxLength={40} disabled={connected} onChange={(event) => setRoom(event.target.value)} />
+        </label>
+        <label className={styles.field}>
+          <span>Your Name</span>
+          <input
+            value={name}
+            maxLength={40}
+            placeholder="Guest"
+            disabled={connected}
+            onChange={(event) => setName(event.target.value)}
+          />
+        </label>
+      </div>
+      <div className={styles.buttonRow}>
+        <button
+          className={connected ? styles.dangerButton : styles.primaryButton}
+          type="button"
+          disabled={disabled && !connected}
+          onClick={connected ? leave : join}
+        >
+          {connected ? "Leave Room" : "Join Room"}
+        </button>
+      </div>
+      {connected && (
+        <p className={styles.subtle}>
+          {peers.length === 0
+            ? "Nobody else is in the room yet."
+            : `In the room: ${peers
+                .map((peer) => (peer.role === "observer" ? `${peer.name} (watching)` : peer.name))
+                .join(", ")}.`}
+        </p>
+      )}
+      {trainerCode ? (
+        <p className={styles.subtle}>
+          Trainer code: <strong>{trainerCode}</strong>. Give it only to a trainer you want to follow and control this
+          session.
+        </p>
+      ) : (
+        connected && (
+          <p className={styles.subtle}>Only the participant who opened this room is shown its trainer code.</p>
+        )
+      )}
+      <p className={styles.subtle}>
+        Joining an empty room shares this world; joining an occupied one replaces it with the room&apos;s. Each other
+        listener is heard as a pulsing emitter. Moving emitters move on every client separately and only resync when
+        edited.
+      </p>
+    </div>
+  );
+}
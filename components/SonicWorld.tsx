@@ -1,53 +1,148 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent } from "react";
+import Link from "next/link";
+import {
+  DEFAULT_HEAD,
+  EAR_HEIGHTS_M,
+  HEAD_LIMITS,
+  MAX_EMITTER_HEIGHT_M,
+  DEFAULT_BOUNDARY,
+  WORLD_RADIUS_M,
+  boxWall,
+  clamp,
+  toRadians,
+  type CollisionZone,
+  type EmitterSource,
+  type ListenerPose,
+  type PlanPoint,
+  type SoundEmitter,
+  type Wall,
+  type WorldBoundary
+} from "../lib/world";
+import {
+  DEFAULT_ECHO_SETTINGS,
+  playEchoClick,
+  traceEchoes,
+  type EchoReflection,
+  type EchoSettings
+} from "../lib/echo";
+import { playCue, type FeedbackCue } from "../lib/cues";
+import type { LocalizationConfig } from "../lib/localization";
+import { materialFromPreset } from "../lib/materials";
+import {
+  createAudioRouting,
+  createEmitterNode,
+  disposeEmitterNode,
+  emitterSampleBuffer,
+  reverbReturnLevel,
+  scheduleRetriggers,
+  setListenerPose,
+  setOutputChannels,
+  triggerSample,
+  updateEmitterNode,
+  type AudioFrame,
+  type AudioRouting,
+  type EmitterAudioNode
+} from "../lib/audioGraph";
+import {
+  DEFAULT_ROOM_SETTINGS,
+  boundaryReflectance,
+  buildReflectionFaces,
+  createReverbImpulse,
+  estimateReverbTime,
+  type RoomSettings
+} from "../lib/room";
+import {
+  DEFAULT_AMBISONIC_SETTINGS,
+  SPEAKER_LAYOUTS,
+  createAmbisonicBus,
+  disposeAmbisonicBus,
+  rotateAmbisonicBus,
+  speakerCount,
+  type AmbisonicBus,
+  type AmbisonicSettings
+} from "../lib/ambisonics";
+import { createHrtfRenderer, type HrtfRenderer, type SpatialMode } from "../lib/binaural";
+import { propagationBetween } from "../lib/diffraction";
+import { appendWaypoint, pathRoute, type PathMotion } from "../lib/emitterMotion";
+import { appendPlanPoint } from "../lib/floorPlan";
+import {
+  boundaryOutline,
+  insideBoundary,
+  isSimplePolygon,
+  pointInPolygon,
+  pullInsideBoundary,
+  wallPieces,
+  wallPointToWorld,
+  worldPointToWall
+} from "../lib/geometry";
+import {
+  DEFAULT_INPUT_SETTINGS,
+  INPUT_SETTINGS_KEY,
+  createInputController,
+  parseInputSettings,
+  type InputSettings
+} from "../lib/input";
+import { EMITTER_RADIUS_M, PLAYER_RADIUS_M } from "../lib/motion";
+import { ZONE_RADIUS_LIMITS, type WorldItem } from "../lib/narration";
+import { randomBetween } from "../lib/random";
+import type { SessionLogger } from "../lib/sessionLog";
+import { EMPTY_MIX, isAudible, type EmitterMix, type SessionReport, type TrainerCommand } from "../lib/trainer";
+import { withoutPeers } from "../lib/sharedWorld";
+import { createSimulation, type WorldState } from "../lib/simulation";
+import { openSpotNear } from "../lib/spatial";
+import {
+  SCENE_AUTOSAVE_KEY,
+  SceneValidationError,
+  createSceneDocument,
+  nextIdCounter,
+  parseSceneJson,
+  sceneFileName,
+  serializeScene,
+  type SceneContent
+} from "../lib/scene";
+import {
+  BUNDLED_SAMPLES,
+  MAX_PLAYBACK_RATE,
+  MAX_RETRIGGER_SEC,
+  MIN_PLAYBACK_RATE,
+  decodeSampleFile,
+  fetchSampleBuffer,
+  sampleSource,
+  type SampleAsset
+} from "../lib/samples";
+import { BUNDLED_HRTFS, DEFAULT_HRTF_ID, fetchHrtf, parseSofa, type HrirSet, type HrtfAsset } from "../lib/sofa";
+import {
+  SOURCE_OPTIONS,
+  defaultProceduralSource,
+  describeProceduralSource,
+  isProceduralSource,
+  type SourceKind
+} from "../lib/sources";
+import type { TimelineEvent } from "../lib/timeline";
+import BoundaryEditor from "./BoundaryEditor";
+import ElevationView from "./ElevationView";
+import HrtfPanel from "./HrtfPanel";
+import InputSettingsPanel from "./InputSettingsPanel";
+import LocalizationSetup from "./LocalizationSetup";
+import LocalizationTask from "./LocalizationTask";
+import MaterialEditor from "./MaterialEditor";
+import MotionEditor from "./MotionEditor";
+import NavigationChallenge from "./NavigationChallenge";
+import NavigationSetup from "./NavigationSetup";
+import OfflineRenderPanel from "./OfflineRenderPanel";
+import SceneLibrary from "./SceneLibrary";
+import SessionLogPanel from "./SessionLogPanel";
+import SessionReplayPanel from "./SessionReplayPanel";
+import SharedWorldPanel from "./SharedWorldPanel";
+import SourceEditor from "./SourceEditor";
+import TimelinePanel from "./TimelinePanel";
+import WallEditor from "./WallEditor";
+import WorldOutline from "./WorldOutline";
 import styles from "./sonic-world.module.css";
 
-type ListenerPose = {
-  x: number;
-  z: number;
-  headingDeg: number;
-};
-
-type CollisionZone = {
-  id: string;
-  label: string;
-  x: number;
-  z: number;
-  radius: number;
-};
-
-type Wall = {
-  id: string;
-  x: number;
-  z: number;
-  width: number;
-  height: number;
-};
-
-type SoundEmitter = {
-  id: string;
-  name: string;
-  x: number;
-  z: number;
-  y: number;
-  frequency: number;
-  gain: number;
-  waveform: OscillatorType;
-  color: string;
-  moving: boolean;
-  vx: number;
-  vz: number;
-};
-
-type EmitterAudioNode = {
-  oscillator: OscillatorNode;
-  gain: GainNode;
-  filter: BiquadFilterNode;
-  panner: PannerNode;
-};
-
 type SelectedObstacle =
   | {
       kind: "zone";
@@ -74,30 +169,56 @@ type DragTarget =
       id: string;
       offsetX: number;
       offsetZ: number;
+    }
+  | {
+      kind: "waypoint";
+      id: string;
+      index: number;
+    }
+  | {
+      kind: "corner";
+      outline: PlanOutline;
+      index: number;
+    };
+
+// An outline whose corners are edited on the map: a polyline or polygon wall, or a polygon world boundary.
+type PlanOutline =
+  | {
+      kind: "wall";
+      id: string;
+    }
+  | {
+      kind: "boundary";
     };
 
-const WORLD_RADIUS_M = 16;
-const PLAYER_RADIUS_M = 0.45;
-const EMITTER_RADIUS_M = 0.35;
 const CANVAS_SIZE = 840;
-const MOVE_SPEED_MPS = 2.75;
-const TURN_SPEED_DEG_PER_SEC = 95;
-const SOUND_SPEED_MPS = 343;
+const WAYPOINT_RADIUS_PX = 6;
+const WAYPOINT_HIT_PX = 12;
+const AUTOSAVE_INTERVAL_MS = 2000;
+const RETRIGGER_POLL_MS = 50;
+const RETRIGGER_LOOKAHEAD_SEC = 0.15;
 
 const WAVEFORMS: OscillatorType[] = ["sine", "triangle", "square", "sawtooth"];
 
-const INITIAL_LISTENER: ListenerPose = { x: 0, z: 0, headingDeg: 0 };
+const INITIAL_LISTENER: ListenerPose = { x: 0, z: 0, headingDeg: 0, ...DEFAULT_HEAD };
 
 const INITIAL_ZONES: CollisionZone[] = [
-  { id: "zone-1", label: "Concrete Pillar", x: -4.8, z: -1.5, radius: 1.6 },
-  { id: "zone-2", label: "Kiosk", x: 5, z: 4.5, radius: 1.9 },
-  { id: "zone-3", label: "Bench Cluster", x: 3.4, z: -6.8, radius: 1.35 }
+  {
+    id: "zone-1",
+    label: "Concrete Pillar",
+    x: -4.8,
+    z: -1.5,
+    radius: 1.6,
+    material: materialFromPreset("concrete")
+  },
+  { id: "zone-2", label: "Kiosk", x: 5, z: 4.5, radius: 1.9, material: materialFromPreset("glass") },
+  { id: "zone-3", label: "Bench Cluster", x: 3.4, z: -6.8, radius: 1.35, material: materialFromPreset("wood") }
 ];
 
 const INITIAL_WALLS: Wall[] = [
-  { id: "wall-1", x: -7.2, z: 2.4, width: 4.6, height: 0.8 },
-  { id: "wall-2", x: 1.8, z: -2.8, width: 0.8, height: 5.6 },
-  { id: "wall-3", x: 6.7, z: -0.5, width: 0.8, height: 4.2 }
+  boxWall("wall-1", -7.2, 2.4, 4.6, 0.8, materialFromPreset("concrete")),
+  boxWall("wall-2", 1.8, -2.8, 0.8, 5.6, materialFromPreset("concrete")),
+  boxWall("wall-3", 6.7, -0.5, 0.8, 4.2, materialFromPreset("glass"))
 ];
 
 const INITIAL_EMITTERS: SoundEmitter[] = [
@@ -106,65 +227,76 @@ const INITIAL_EMITTERS: SoundEmitter[] = [
     name: "Drone A",
     x: -6,
     z: 5,
-    y: 0,
+    y: 1.6,
     frequency: 470,
     gain: 0.16,
     waveform: "triangle",
+    source: { kind: "tone" },
     color: "#0f8c7c",
     moving: true,
     vx: 0.9,
-    vz: -0.55
+    vz: -0.55,
+    motion: { kind: "bounce" }
   },
   {
     id: "emitter-2",
     name: "Beacon B",
     x: 4.8,
     z: -5.2,
-    y: 0.3,
+    y: 1.9,
     frequency: 690,
     gain: 0.14,
     waveform: "sine",
+    source: { kind: "tone" },
     color: "#df7c20",
     moving: false,
     vx: 0,
-    vz: 0
+    vz: 0,
+    motion: { kind: "bounce" }
   },
   {
     id: "emitter-3",
     name: "Drone C",
     x: 7.2,
     z: 3.4,
-    y: -0.25,
+    y: 1.35,
     frequency: 920,
     gain: 0.12,
     waveform: "square",
+    source: { kind: "tone" },
     color: "#4670e7",
     moving: true,
     vx: -0.75,
-    vz: 0.45
+    vz: 0.45,
+    motion: { kind: "bounce" }
   }
 ];
 
-function clamp(value: number, min: number, max: number): number {
-  return Math.min(max, Math.max(min, value));
-}
-
-function wrapDegrees(value: number): number {
-  const normalized = value % 360;
-  return normalized < 0 ? normalized + 360 : normalized;
-}
+const INITIAL_WORLD: WorldState = {
+  listener: INITIAL_LISTENER,
+  emitters: INITIAL_EMITTERS,
+  zones: INITIAL_ZONES,
+  walls: INITIAL_WALLS,
+  boundary: DEFAULT_BOUNDARY
+};
 
-function toRadians(deg: number): number {
-  return (deg * Math.PI) / 180;
-}
+const INITIAL_SCENE: SceneContent = {
+  name: "Untitled scene",
+  ...INITIAL_WORLD,
+  room: DEFAULT_ROOM_SETTINGS,
+  echo: DEFAULT_ECHO_SETTINGS,
+  timeline: []
+};
 
-function randomBetween(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+function randomColor(random: () => number): string {
+  const hue = Math.round(randomBetween(random, 12, 210));
+  return `hsl(${hue} 76% 52%)`;
 }
 
-function randomColor(): string {
-  const hue = Math.round(randomBetween(12, 210));
-  return `hsl(${hue} 76% 52%)`;
+// Other clients in a shared room add objects too, so a counter skips past any id already taken.
+function claimId(counter: { current: number }, items: Array<{ id: string }>, prefix: string): string {
+  counter.current = Math.max(counter.current, nextIdCounter(items, prefix));
+  return `${prefix}-${counter.current++}`;
 }
 
 function pointToCanvas(x: number, z: number, canvasSize: number): { x: number; y: number } {
@@ -185,88 +317,122 @@ function canvasToPoint(x: number, y: number, canvasSize: number): { x: number; z
   };
 }
 
-function circleLineIntersection(
-  ax: number,
-  az: number,
-  bx: number,
-  bz: number,
-  cx: number,
-  cz: number,
-  radius: number
-): boolean {
-  const abx = bx - ax;
-  const abz = bz - az;
-  const acx = cx - ax;
-  const acz = cz - az;
-  const abLenSq = abx * abx + abz * abz;
-  if (abLenSq < 1e-6) {
-    return Math.hypot(cx - ax, cz - az) <= radius;
-  }
-  const projection = clamp((acx * abx + acz * abz) / abLenSq, 0, 1);
-  const closestX = ax + abx * projection;
-  const closestZ = az + abz * projection;
-  return Math.hypot(cx - closestX, cz - closestZ) <= radius;
+// Keeps a waypoint where an emitter can actually be, inside the world edge.
+function insideWorld(point: { x: number; z: number }, boundary: WorldBoundary): { x: number; z: number } {
+  return pullInsideBoundary(boundary, point.x, point.z, EMITTER_RADIUS_M);
 }
 
-function lineIntersectsWall(ax: number, az: number, bx: number, bz: number, wall: Wall): boolean {
-  const left = wall.x - wall.width / 2;
-  const right = wall.x + wall.width / 2;
-  const top = wall.z - wall.height / 2;
-  const bottom = wall.z + wall.height / 2;
+// Bodies left outside a boundary that shrank or changed shape would roam free of it.
+function keepInside<T extends { x: number; z: number }>(body: T, boundary: WorldBoundary, radius: number): T {
+  const spot = pullInsideBoundary(boundary, body.x, body.z, radius);
+  return spot.x === body.x && spot.z === body.z ? body : { ...body, ...spot };
+}
 
-  const steps = 18;
-  for (let i = 0; i <= steps; i += 1) {
-    const t = i / steps;
-    const x = ax + (bx - ax) * t;
-    const z = az + (bz - az) * t;
-    if (x >= left && x <= right && z >= top && z <= bottom) {
-      return true;
-    }
+// Corners in world coordinates, for drawing and picking.
+function outlineCorners(outline: PlanOutline, walls: Wall[], boundary: WorldBoundary): PlanPoint[] {
+  if (outline.kind === "boundary") {
+    return boundary.kind === "polygon" ? boundary.points : [];
   }
-  return false;
+  const wall = walls.find((candidate) => candidate.id === outline.id);
+  return wall && wall.shape.kind !== "box" ? wall.shape.points.map((point) => wallPointToWorld(wall, point)) : [];
 }
 
-function disposeEmitterNode(node: EmitterAudioNode): void {
-  try {
-    node.oscillator.stop();
-  } catch {
-    // ignore
+function emitterSourceLabel(emitter: SoundEmitter, assets: SampleAsset[]): string {
+  const { source } = emitter;
+  if (source.kind === "tone") {
+    return `${emitter.frequency.toFixed(0)} Hz`;
+  }
+  if (isProceduralSource(source)) {
+    return describeProceduralSource(source);
   }
-  node.oscillator.disconnect();
-  node.gain.disconnect();
-  node.filter.disconnect();
-  node.panner.disconnect();
+  return assets.find((asset) => asset.id === source.sampleId)?.name ?? "Missing sample";
+}
+
+function usesHrtf(mode: SpatialMode, ambisonics: AmbisonicSettings): boolean {
+  return mode === "convolution" || (mode === "ambisonics" && ambisonics.decoder === "binaural");
+}
+
+function sourceUsesCarrier(source: EmitterSource): boolean {
+  return source.kind !== "sample" && source.kind !== "noise" && source.kind !== "bandNoise";
+}
+
+function sourceUsesPitch(source: EmitterSource): boolean {
+  return source.kind === "tone" || source.kind === "pulse" || source.kind === "pattern";
 }
 
 export default function SonicWorld() {
-  const [listener, setListener] = useState<ListenerPose>(INITIAL_LISTENER);
-  const [emitters, setEmitters] = useState<SoundEmitter[]>(INITIAL_EMITTERS);
-  const [collisionZones, setCollisionZones] = useState<CollisionZone[]>(INITIAL_ZONES);
-  const [walls, setWalls] = useState<Wall[]>(INITIAL_WALLS);
+  const [simulation] = useState(() => createSimulation(INITIAL_WORLD));
+  const { listener, emitters, zones: collisionZones, walls, boundary } = useSyncExternalStore(
+    simulation.subscribe,
+    simulation.getState,
+    simulation.getState
+  );
 
+  const [input] = useState(() => createInputController(DEFAULT_INPUT_SETTINGS));
+  const [inputSettings, setInputSettings] = useState<InputSettings>(DEFAULT_INPUT_SETTINGS);
   const [walkMode, setWalkMode] = useState(true);
   const [movingEnabled, setMovingEnabled] = useState(true);
+  // Set only from a trainer console following the shared room.
+  const [emitterMix, setEmitterMix] = useState<EmitterMix>(EMPTY_MIX);
   const [audioRunning, setAudioRunning] = useState(false);
-  const [status, setStatus] = useState("Press Start Audio. Move with W/A/S/D and Q/E.");
+  const [status, setStatus] = useState("Press Start Audio. Move with W/A/S/D and Q/E, click with C.");
 
   const [selectedEmitterId, setSelectedEmitterId] = useState<string | null>(INITIAL_EMITTERS[0].id);
+  const [drawingPathId, setDrawingPathId] = useState<string | null>(null);
   const [selectedObstacle, setSelectedObstacle] = useState<SelectedObstacle | null>(null);
+  const [drawingOutline, setDrawingOutline] = useState<PlanOutline | null>(null);
+
+  const [echoSettings, setEchoSettings] = useState<EchoSettings>(DEFAULT_ECHO_SETTINGS);
+  const [lastEchoes, setLastEchoes] = useState<EchoReflection[]>([]);
+  const [roomSettings, setRoomSettings] = useState<RoomSettings>(DEFAULT_ROOM_SETTINGS);
+  const [sceneName, setSceneName] = useState(INITIAL_SCENE.name);
+  const [timeline, setTimeline] = useState<TimelineEvent[]>(INITIAL_SCENE.timeline);
+  const [sceneLoads, setSceneLoads] = useState(0);
+  const [sampleAssets, setSampleAssets] = useState<SampleAsset[]>(BUNDLED_SAMPLES);
+  const [spatialMode, setSpatialMode] = useState<SpatialMode>("panner");
+  const [ambisonicSettings, setAmbisonicSettings] = useState<AmbisonicSettings>(DEFAULT_AMBISONIC_SETTINGS);
+  const [hrtfAssets, setHrtfAssets] = useState<HrtfAsset[]>(BUNDLED_HRTFS);
+  const [hrtfSelection, setHrtfSelection] = useState<{ id: string; set: HrirSet | null }>({
+    id: DEFAULT_HRTF_ID,
+    set: null
+  });
+  const [replayActive, setReplayActive] = useState(false);
+  // While a localization task or navigation challenge runs it owns the world and the map stays hidden.
+  const [localization, setLocalization] = useState<LocalizationConfig | null>(null);
+  const [navigationLevel, setNavigationLevel] = useState<number | null>(null);
+  const gameActive = localization !== null || navigationLevel !== null;
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const keyStateRef = useRef<Set<string>>(new Set());
   const dragTargetRef = useRef<DragTarget | null>(null);
   const emitterCounterRef = useRef(INITIAL_EMITTERS.length + 1);
   const zoneCounterRef = useRef(INITIAL_ZONES.length + 1);
   const wallCounterRef = useRef(INITIAL_WALLS.length + 1);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const sceneContentRef = useRef<SceneContent>(INITIAL_SCENE);
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const masterGainRef = useRef<GainNode | null>(null);
+  const audioRoutingRef = useRef<AudioRouting | null>(null);
   const emitterNodesRef = useRef<Map<string, EmitterAudioNode>>(new Map());
+  const sampleBuffersRef = useRef<Map<string, AudioBuffer>>(new Map());
+  const sampleRequestsRef = useRef<Set<string>>(new Set());
+  const sampleUploadCounterRef = useRef(1);
+  const sampleInputRef = useRef<HTMLInputElement | null>(null);
+  const hrtfSetsRef = useRef<Map<string, HrirSet>>(new Map());
+  const hrtfRenderersRef = useRef<WeakMap<HrirSet, HrtfRenderer>>(new WeakMap());
+  const hrtfUploadCounterRef = useRef(1);
+  const ambisonicBusRef = useRef<AmbisonicBus | null>(null);
+  const sessionLoggerRef = useRef<SessionLogger | null>(null);
 
   const selectedEmitter = useMemo(
     () => emitters.find((emitter) => emitter.id === selectedEmitterId) ?? emitters[0] ?? null,
     [emitters, selectedEmitterId]
   );
+  const selectedSample = selectedEmitter?.source.kind === "sample" ? selectedEmitter.source : null;
+  const selectedSampleDuration =
+    sampleAssets.find((asset) => asset.id === selectedSample?.sampleId)?.durationSec ?? MAX_RETRIGGER_SEC;
+  const selectedPath =
+    selectedEmitter?.moving && selectedEmitter.motion.kind === "path" ? selectedEmitter.motion : null;
+  const drawingPath = selectedPath !== null && drawingPathId === selectedEmitter?.id;
 
   const selectedZone = useMemo(() => {
     if (!selectedObstacle || selectedObstacle.kind !== "zone") {
@@ -282,93 +448,29 @@ export default function SonicWorld() {
     return walls.find((wall) => wall.id === selectedObstacle.id) ?? null;
   }, [selectedObstacle, walls]);
 
-  const collidesAt = useCallback(
-    (x: number, z: number, radius: number): boolean => {
-      if (Math.hypot(x, z) + radius > WORLD_RADIUS_M) {
-        return true;
-      }
-
-      for (const zone of collisionZones) {
-        if (Math.hypot(x - zone.x, z - zone.z) <= zone.radius + radius) {
-          return true;
-        }
-      }
-
-      for (const wall of walls) {
-        const left = wall.x - wall.width / 2 - radius;
-        const right = wall.x + wall.width / 2 + radius;
-        const top = wall.z - wall.height / 2 - radius;
-        const bottom = wall.z + wall.height / 2 + radius;
-        if (x >= left && x <= right && z >= top && z <= bottom) {
-          return true;
-        }
-      }
-
-      return false;
-    },
-    [collisionZones, walls]
-  );
-
-  const setListenerAudioPose = useCallback((context: AudioContext, pose: ListenerPose) => {
-    const t = context.currentTime;
-    const heading = toRadians(pose.headingDeg);
-    const fx = Math.sin(heading);
-    const fz = -Math.cos(heading);
-
-    const listenerNode = context.listener as AudioListener & {
-      positionX?: AudioParam;
-      positionY?: AudioParam;
-      positionZ?: AudioParam;
-      forwardX?: AudioParam;
-      forwardY?: AudioParam;
-      forwardZ?: AudioParam;
-      upX?: AudioParam;
-      upY?: AudioParam;
-      upZ?: AudioParam;
-      setPosition?: (x: number, y: number, z: number) => void;
-      setOrientation?: (x: number, y: number, z: number, ux: number, uy: number, uz: number) => void;
-    };
-
-    if (listenerNode.positionX && listenerNode.positionY && listenerNode.positionZ) {
-      listenerNode.positionX.setValueAtTime(pose.x, t);
-      listenerNode.positionY.setValueAtTime(0, t);
-      listenerNode.positionZ.setValueAtTime(pose.z, t);
-    } else {
-      listenerNode.setPosition?.(pose.x, 0, pose.z);
-    }
+  // Both are cached by the simulation per world state, so reading them on every render is cheap.
+  const spatialIndex = simulation.spatialIndex();
+  const propagation = simulation.propagation();
 
-    if (
-      listenerNode.forwardX &&
-      listenerNode.forwardY &&
-      listenerNode.forwardZ &&
-      listenerNode.upX &&
-      listenerNode.upY &&
-      listenerNode.upZ
-    ) {
-      listenerNode.forwardX.setValueAtTime(fx, t);
-      listenerNode.forwardY.setValueAtTime(0, t);
-      listenerNode.forwardZ.setValueAtTime(fz, t);
-      listenerNode.upX.setValueAtTime(0, t);
-      listenerNode.upY.setValueAtTime(1, t);
-      listenerNode.upZ.setValueAtTime(0, t);
-    } else {
-      listenerNode.setOrientation?.(fx, 0, fz, 0, 1, 0);
+  // Corners show for the selected outlined wall, and for a polygon boundary while it is being drawn.
+  const editedWallId = selectedWall && selectedWall.shape.kind !== "box" ? selectedWall.id : null;
+  const editedOutline = useMemo<PlanOutline | null>(() => {
+    if (drawingOutline?.kind === "boundary") {
+      return drawingOutline;
     }
-  }, []);
+    return editedWallId ? { kind: "wall", id: editedWallId } : null;
+  }, [drawingOutline, editedWallId]);
+  const drawingWall = drawingOutline?.kind === "wall" && drawingOutline.id === selectedWall?.id;
+  const drawingBoundary = drawingOutline?.kind === "boundary" && boundary.kind === "polygon";
+
+  const reflectionFaces = useMemo(
+    () => buildReflectionFaces(walls, boundary, roomSettings),
+    [boundary, roomSettings, walls]
+  );
 
-  const setEmitterPannerPosition = useCallback(
-    (context: AudioContext, panner: PannerNode, emitter: SoundEmitter) => {
-      const t = context.currentTime;
-      const legacy = panner as PannerNode & { setPosition?: (x: number, y: number, z: number) => void };
-      if (legacy.positionX && legacy.positionY && legacy.positionZ) {
-        legacy.positionX.setValueAtTime(emitter.x, t);
-        legacy.positionY.setValueAtTime(emitter.y, t);
-        legacy.positionZ.setValueAtTime(emitter.z, t);
-      } else {
-        legacy.setPosition?.(emitter.x, emitter.y, emitter.z);
-      }
-    },
-    []
+  const reverbTime = useMemo(
+    () => estimateReverbTime(walls, collisionZones, boundary, roomSettings),
+    [boundary, collisionZones, roomSettings, walls]
   );
 
   const getAudioContext = useCallback(() => {
@@ -383,67 +485,61 @@ export default function SonicWorld() {
     }
 
     const context = new AudioCtor({ latencyHint: "interactive" });
-    const master = context.createGain();
-    master.gain.value = 0.82;
-    master.connect(context.destination);
-
     audioContextRef.current = context;
-    masterGainRef.current = master;
+    // Live sound need not repeat, so only offline renders seed their noise.
+    audioRoutingRef.current = createAudioRouting(context, Math.random);
 
     return context;
   }, []);
 
-  const createEmitterNode = useCallback(
-    (context: AudioContext, emitter: SoundEmitter): EmitterAudioNode => {
-      const master = masterGainRef.current;
-      if (!master) {
-        throw new Error("Audio routing is not initialized.");
-      }
-
-      const oscillator = context.createOscillator();
-      oscillator.type = emitter.waveform;
-      oscillator.frequency.setValueAtTime(emitter.frequency, context.currentTime);
-
-      const sourceGain = context.createGain();
-      sourceGain.gain.setValueAtTime(emitter.gain, context.currentTime);
-
-      const filter = context.createBiquadFilter();
-      filter.type = "lowpass";
-      filter.frequency.setValueAtTime(6200, context.currentTime);
-      filter.Q.setValueAtTime(0.6, context.currentTime);
-
-      const panner = new PannerNode(context, {
-        panningModel: "HRTF",
-        distanceModel: "inverse",
-        refDistance: 1.1,
-        maxDistance: WORLD_RADIUS_M * 2.5,
-        rolloffFactor: 1.3,
-        coneInnerAngle: 360,
-        coneOuterAngle: 0,
-        coneOuterGain: 0
-      });
-
-      oscillator.connect(sourceGain);
-      sourceGain.connect(filter);
-      filter.connect(panner);
-      panner.connect(master);
-      oscillator.start();
-
-      setEmitterPannerPosition(context, panner, emitter);
-
-      return { oscillator, gain: sourceGain, filter, panner };
-    },
-    [setEmitterPannerPosition]
-  );
-
   const reconnectAudioEmitters = useCallback(() => {
     const context = audioContextRef.current;
-    if (!context || !audioRunning) {
+    const routing = audioRoutingRef.current;
+    if (!context || !routing || !audioRunning) {
       return;
     }
 
     const nodeMap = emitterNodesRef.current;
     const liveIds = new Set(emitters.map((e) => e.id));
+    let renderer: HrtfRenderer | null = null;
+    if (usesHrtf(spatialMode, ambisonicSettings) && hrtfSelection.set) {
+      renderer = hrtfRenderersRef.current.get(hrtfSelection.set) ?? createHrtfRenderer(context, hrtfSelection.set);
+      hrtfRenderersRef.current.set(hrtfSelection.set, renderer);
+    }
+
+    // The shared bus is rebuilt only when its order, decoder or HRIR set changes. A binaural decoder waits for the
+    // dataset, and emitters keep the panner until then.
+    const { order, decoder } = ambisonicSettings;
+    const decoderRenderer = decoder === "binaural" ? renderer : null;
+    const wantsBus = spatialMode === "ambisonics" && (decoder !== "binaural" || renderer !== null);
+    let ambisonics = ambisonicBusRef.current;
+    if (
+      ambisonics &&
+      (!wantsBus ||
+        ambisonics.order !== order ||
+        ambisonics.decoder !== decoder ||
+        ambisonics.renderer !== decoderRenderer)
+    ) {
+      disposeAmbisonicBus(ambisonics);
+      ambisonics = null;
+    }
+    if (wantsBus && !ambisonics) {
+      ambisonics = createAmbisonicBus(context, order, decoder, decoderRenderer, routing.master, 1);
+      rotateAmbisonicBus(ambisonics, listener, context.currentTime);
+    }
+    if (ambisonics !== ambisonicBusRef.current) {
+      setOutputChannels(context, ambisonics ? speakerCount(decoder) : 2);
+      ambisonicBusRef.current = ambisonics;
+    }
+
+    const frame: AudioFrame = {
+      listener,
+      index: spatialIndex,
+      faces: reflectionFaces,
+      room: roomSettings,
+      hrtf: spatialMode === "convolution" ? renderer : null,
+      ambisonics
+    };
 
     for (const [id, node] of nodeMap.entries()) {
       if (!liveIds.has(id)) {
@@ -453,53 +549,29 @@ export default function SonicWorld() {
     }
 
     for (const emitter of emitters) {
+      const buffer = emitterSampleBuffer(emitter, sampleBuffersRef.current);
       const existing = nodeMap.get(emitter.id);
       if (!existing) {
-        nodeMap.set(emitter.id, createEmitterNode(context, emitter));
+        nodeMap.set(emitter.id, createEmitterNode(context, routing, emitter, buffer, context.currentTime));
         continue;
       }
 
-      const dx = listener.x - emitter.x;
-      const dz = listener.z - emitter.z;
-      const distance = Math.max(0.001, Math.hypot(dx, dz));
-      const towardListener = (emitter.vx * dx + emitter.vz * dz) / distance;
-      const observedFreq = clamp(
-        emitter.frequency * (SOUND_SPEED_MPS / (SOUND_SPEED_MPS - towardListener)),
-        emitter.frequency * 0.6,
-        emitter.frequency * 1.8
-      );
-
-      let occluded = false;
-      for (const zone of collisionZones) {
-        if (circleLineIntersection(listener.x, listener.z, emitter.x, emitter.z, zone.x, zone.z, zone.radius)) {
-          occluded = true;
-          break;
-        }
-      }
-      if (!occluded) {
-        for (const wall of walls) {
-          if (lineIntersectsWall(listener.x, listener.z, emitter.x, emitter.z, wall)) {
-            occluded = true;
-            break;
-          }
-        }
-      }
-
-      existing.oscillator.type = emitter.waveform;
-      existing.oscillator.frequency.setTargetAtTime(observedFreq, context.currentTime, 0.04);
-      existing.gain.gain.setTargetAtTime(occluded ? emitter.gain * 0.72 : emitter.gain, context.currentTime, 0.04);
-      existing.filter.frequency.setTargetAtTime(occluded ? 1500 : 7600, context.currentTime, 0.05);
-      setEmitterPannerPosition(context, existing.panner, emitter);
+      const path = propagation.get(emitter.id) ?? propagationBetween(listener, emitter, spatialIndex);
+      const heard = isAudible(emitterMix, emitter.id) ? emitter : { ...emitter, gain: 0 };
+      updateEmitterNode(context, existing, heard, buffer, path, frame, context.currentTime);
     }
   }, [
+    ambisonicSettings,
     audioRunning,
-    collisionZones,
-    createEmitterNode,
+    emitterMix,
     emitters,
-    listener.x,
-    listener.z,
-    setEmitterPannerPosition,
-    walls
+    hrtfSelection,
+    listener,
+    propagation,
+    reflectionFaces,
+    roomSettings,
+    spatialIndex,
+    spatialMode
   ]);
 
   const drawScene = useCallback(() => {
@@ -529,22 +601,82 @@ export default function SonicWorld() {
       const radiusPx = (r / WORLD_RADIUS_M) * worldRadiusPx;
       context.beginPath();
       context.setLineDash(r % 4 === 0 ? [] : [7, 7]);
-      context.strokeStyle = r === WORLD_RADIUS_M ? "#4b7580" : "#a8c5ce";
-      context.lineWidth = r === WORLD_RADIUS_M ? 1.8 : 1;
+      context.strokeStyle = "#a8c5ce";
+      context.lineWidth = 1;
       context.arc(center, center, radiusPx, 0, Math.PI * 2);
       context.stroke();
       context.setLineDash([]);
     }
 
+    const tracePolygon = (points: PlanPoint[]) => {
+      points.forEach((corner, index) => {
+        const point = pointToCanvas(corner.x, corner.z, size);
+        if (index === 0) {
+          context.moveTo(point.x, point.y);
+        } else {
+          context.lineTo(point.x, point.y);
+        }
+      });
+      context.closePath();
+    };
+
+    const traceBoundary = () => {
+      if (boundary.kind === "circle") {
+        const radiusPx = (boundary.radiusM / WORLD_RADIUS_M) * worldRadiusPx;
+        context.moveTo(center + radiusPx, center);
+        context.arc(center, center, radiusPx, 0, Math.PI * 2);
+      } else {
+        tracePolygon(boundaryOutline(boundary));
+      }
+    };
+
+    // Everything beyond the world edge is shaded, so rooms and streets read as the walkable floor.
+    context.beginPath();
+    context.rect(0, 0, size, size);
+    traceBoundary();
+    context.fillStyle = "rgba(75, 117, 128, 0.1)";
+    context.fill("evenodd");
+    context.beginPath();
+    traceBoundary();
+    context.strokeStyle = "#4b7580";
+    context.lineWidth = 1.8;
+    context.stroke();
+
     for (const wall of walls) {
-      const topLeft = pointToCanvas(wall.x - wall.width / 2, wall.z - wall.height / 2, size);
-      const bottomRight = pointToCanvas(wall.x + wall.width / 2, wall.z + wall.height / 2, size);
       const selected = selectedObstacle?.kind === "wall" && selectedObstacle.id === wall.id;
-      context.fillStyle = selected ? "rgba(199, 78, 39, 0.38)" : "rgba(142, 71, 30, 0.23)";
-      context.strokeStyle = selected ? "rgba(163, 52, 21, 0.95)" : "rgba(118, 60, 24, 0.66)";
+      const open = wall.door?.open ?? false;
+      context.beginPath();
+      for (const piece of wallPieces(wall)) {
+        tracePolygon(piece);
+      }
+      if (wall.door) {
+        context.fillStyle = selected ? "rgba(46, 98, 170, 0.34)" : `rgba(46, 98, 170, ${open ? 0.06 : 0.22})`;
+        context.strokeStyle = selected ? "rgba(30, 70, 140, 0.95)" : "rgba(38, 82, 150, 0.75)";
+      } else {
+        context.fillStyle = selected ? "rgba(199, 78, 39, 0.38)" : "rgba(142, 71, 30, 0.23)";
+        context.strokeStyle = selected ? "rgba(163, 52, 21, 0.95)" : "rgba(118, 60, 24, 0.66)";
+      }
       context.lineWidth = selected ? 2 : 1.3;
-      context.fillRect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
-      context.strokeRect(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+      context.setLineDash(open ? [5, 4] : []);
+      context.fill();
+      context.stroke();
+      context.setLineDash([]);
+    }
+
+    if (editedOutline) {
+      outlineCorners(editedOutline, walls, boundary).forEach((corner, index) => {
+        const point = pointToCanvas(corner.x, corner.z, size);
+        context.beginPath();
+        context.arc(point.x, point.y, WAYPOINT_RADIUS_PX, 0, Math.PI * 2);
+        context.fillStyle = "#ffffff";
+        context.fill();
+        context.strokeStyle = editedOutline.kind === "boundary" ? "#4b7580" : "rgba(163, 52, 21, 0.95)";
+        context.lineWidth = 2;
+        context.stroke();
+        context.fillStyle = "#193f46";
+        context.font = "600 11px 'Avenir Next', sans-serif";
+        context.fillText(String(index + 1), point.x + 8, point.y + 4);
+      });
     }
 
     for (const zone of collisionZones) {
@@ -565,6 +697,73 @@ export default function SonicWorld() {
       context.fillText(zone.label, point.x + radiusPx + 5, point.y - 4);
     }
 
+    for (const event of timeline) {
+      if (event.trigger.kind !== "region") {
+        continue;
+      }
+      const point = pointToCanvas(event.trigger.x, event.trigger.z, size);
+      const radiusPx = (event.trigger.radiusM / WORLD_RADIUS_M) * worldRadiusPx;
+      context.beginPath();
+      context.setLineDash([3, 5]);
+      context.strokeStyle = "rgba(14, 126, 115, 0.75)";
+      context.lineWidth = 1.4;
+      context.arc(point.x, point.y, radiusPx, 0, Math.PI * 2);
+      context.stroke();
+      context.setLineDash([]);
+      context.fillStyle = "#0e5f57";
+      context.font = "600 11px 'Avenir Next', sans-serif";
+      context.fillText(event.label, point.x - radiusPx, point.y - radiusPx - 4);
+    }
+
+    for (const echo of lastEchoes) {
+      const point = pointToCanvas(echo.x, echo.z, size);
+      context.beginPath();
+      context.arc(point.x, point.y, 2 + Math.min(6, echo.amplitude * 30), 0, Math.PI * 2);
+      context.fillStyle = echo.order === 1 ? "rgba(72, 54, 184, 0.55)" : "rgba(72, 54, 184, 0.25)";
+      context.fill();
+    }
+
+    for (const emitter of emitters) {
+      if (!emitter.moving || emitter.motion.kind !== "path") {
+        continue;
+      }
+      const route = pathRoute(emitter.motion);
+      const selected = emitter.id === selectedEmitterId;
+      if (route.points.length > 1) {
+        context.beginPath();
+        route.points.forEach((routePoint, index) => {
+          const point = pointToCanvas(routePoint.x, routePoint.z, size);
+          if (index === 0) {
+            context.moveTo(point.x, point.y);
+          } else {
+            context.lineTo(point.x, point.y);
+          }
+        });
+        context.setLineDash(selected ? [] : [6, 6]);
+        context.strokeStyle = emitter.color;
+        context.globalAlpha = selected ? 0.8 : 0.4;
+        context.lineWidth = selected ? 2.2 : 1.4;
+        context.stroke();
+        context.setLineDash([]);
+        context.globalAlpha = 1;
+      }
+      if (selected) {
+        emitter.motion.waypoints.forEach((waypoint, index) => {
+          const point = pointToCanvas(waypoint.x, waypoint.z, size);
+          context.beginPath();
+          context.arc(point.x, point.y, WAYPOINT_RADIUS_PX, 0, Math.PI * 2);
+          context.fillStyle = "#ffffff";
+          context.fill();
+          context.strokeStyle = emitter.color;
+          context.lineWidth = 2;
+          context.stroke();
+          context.fillStyle = "#193f46";
+          context.font = "600 11px 'Avenir Next', sans-serif";
+          context.fillText(String(index + 1), point.x + 8, point.y + 4);
+        });
+      }
+    }
+
     const listenerPoint = pointToCanvas(listener.x, listener.z, size);
     const heading = toRadians(listener.headingDeg);
     const tipX = listenerPoint.x + Math.sin(heading) * 22;
@@ -591,12 +790,18 @@ export default function SonicWorld() {
       const point = pointToCanvas(emitter.x, emitter.z, size);
       const selected = emitter.id === selectedEmitterId;
 
+      const path = propagation.get(emitter.id);
       context.beginPath();
       context.moveTo(listenerPoint.x, listenerPoint.y);
-      context.lineTo(point.x, point.y);
-      context.strokeStyle = "rgba(0, 0, 0, 0.18)";
+      for (const step of path?.diffracted ? path.path.slice(1) : [emitter]) {
+        const stepPoint = pointToCanvas(step.x, step.z, size);
+        context.lineTo(stepPoint.x, stepPoint.y);
+      }
+      context.setLineDash(path?.diffracted ? [4, 5] : []);
+      context.strokeStyle = path?.diffracted ? "rgba(72, 54, 184, 0.4)" : "rgba(0, 0, 0, 0.18)";
       context.lineWidth = 1;
       context.stroke();
+      context.setLineDash([]);
 
       context.beginPath();
       context.arc(point.x, point.y, selected ? 13 : 10.5, 0, Math.PI * 2);
@@ -620,20 +825,49 @@ export default function SonicWorld() {
       context.font = "600 12px 'Avenir Next', sans-serif";
       context.fillText(emitter.name, point.x + 12, point.y - 8);
     }
-  }, [collisionZones, emitters, listener, selectedEmitterId, selectedObstacle, walls]);
+  }, [
+    boundary,
+    collisionZones,
+    editedOutline,
+    emitters,
+    lastEchoes,
+    listener,
+    propagation,
+    selectedEmitterId,
+    selectedObstacle,
+    timeline,
+    walls
+  ]);
+
+  const logAction = useCallback((label: string, detail?: string) => {
+    sessionLoggerRef.current?.action(label, detail);
+  }, []);
+
+  const setSessionLogger = useCallback((logger: SessionLogger | null) => {
+    sessionLoggerRef.current = logger;
+  }, []);
+
+  const playFeedbackCue = useCallback((cue: FeedbackCue) => {
+    const context = audioContextRef.current;
+    const routing = audioRoutingRef.current;
+    if (context && routing) {
+      playCue(context, routing.master, cue);
+    }
+  }, []);
 
   const startAudio = useCallback(async () => {
     try {
       const context = getAudioContext();
       await context.resume();
-      setListenerAudioPose(context, listener);
+      setListenerPose(context, listener, context.currentTime);
       setAudioRunning(true);
+      logAction("start-audio");
       setStatus("Audio active. Use earbuds and keep volume low.");
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unable to start audio.";
       setStatus(message);
     }
-  }, [getAudioContext, listener, setListenerAudioPose]);
+  }, [getAudioContext, listener, logAction]);
 
   const stopAudio = useCallback(async () => {
     const context = audioContextRef.current;
@@ -643,218 +877,698 @@ export default function SonicWorld() {
     }
     await context.suspend();
     setAudioRunning(false);
+    logAction("stop-audio");
     setStatus("Audio paused.");
+  }, [logAction]);
+
+  const emitClick = useCallback(() => {
+    const context = audioContextRef.current;
+    const routing = audioRoutingRef.current;
+    if (!context || !routing || !audioRunning) {
+      setStatus("Start audio before clicking.");
+      return;
+    }
+
+    const echoes = traceEchoes(listener, spatialIndex, echoSettings, boundaryReflectance(roomSettings));
+    playEchoClick(context, routing.master, echoes, echoSettings, routing.random);
+    setLastEchoes(echoes);
+    logAction("click", `${echoes.length} echoes`);
+
+    if (echoes.length === 0) {
+      setStatus("Click sent. No echoes returned.");
+      return;
+    }
+    const first = echoes[0];
+    setStatus(
+      `Click sent. ${echoes.length} echoes, first after ${(first.delaySec * 1000).toFixed(1)} ms (${(first.pathLength / 2).toFixed(1)} m).`
+    );
+  }, [audioRunning, echoSettings, listener, logAction, roomSettings, spatialIndex]);
+
+  const updateRoomSettings = useCallback((patch: Partial<RoomSettings>) => {
+    setRoomSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  const updateEchoSettings = useCallback((patch: Partial<EchoSettings>) => {
+    setEchoSettings((prev) => ({ ...prev, ...patch }));
   }, []);
 
   const addEmitter = useCallback((x: number, z: number) => {
-    const id = `emitter-${emitterCounterRef.current++}`;
+    const id = claimId(emitterCounterRef, simulation.getState().emitters, "emitter");
+    const random = simulation.random;
     const newEmitter: SoundEmitter = {
       id,
       name: `Emitter ${id.split("-")[1]}`,
       x,
       z,
-      y: randomBetween(-0.4, 0.4),
-      frequency: Math.round(randomBetween(360, 1200)),
-      gain: Number(randomBetween(0.08, 0.22).toFixed(2)),
-      waveform: WAVEFORMS[Math.floor(Math.random() * WAVEFORMS.length)],
-      color: randomColor(),
-      moving: Math.random() > 0.5,
-      vx: randomBetween(-1, 1),
-      vz: randomBetween(-1, 1)
+      y: simulation.getState().listener.heightM + randomBetween(random, -0.4, 0.4),
+      frequency: Math.round(randomBetween(random, 360, 1200)),
+      gain: Number(randomBetween(random, 0.08, 0.22).toFixed(2)),
+      waveform: WAVEFORMS[Math.floor(random() * WAVEFORMS.length)],
+      source: { kind: "tone" },
+      color: randomColor(random),
+      moving: random() > 0.5,
+      vx: randomBetween(random, -1, 1),
+      vz: randomBetween(random, -1, 1),
+      motion: { kind: "bounce" }
     };
-    setEmitters((prev) => [...prev, newEmitter]);
+    simulation.set("emitters", (prev) => [...prev, newEmitter]);
     setSelectedEmitterId(id);
-  }, []);
-
-  const addZone = useCallback(() => {
-    const id = `zone-${zoneCounterRef.current++}`;
+    logAction("add-emitter", id);
+    return id;
+  }, [logAction, simulation]);
+
+  // Without a position new obstacles land somewhere random in the middle of the map.
+  const addZone = useCallback((at?: { x: number; z: number }) => {
+    const id = claimId(zoneCounterRef, simulation.getState().zones, "zone");
+    const random = simulation.random;
     const zone: CollisionZone = {
       id,
       label: `Obstacle ${id.split("-")[1]}`,
-      x: randomBetween(-8, 8),
-      z: randomBetween(-8, 8),
-      radius: randomBetween(1, 2.2)
+      x: at?.x ?? randomBetween(random, -8, 8),
+      z: at?.z ?? randomBetween(random, -8, 8),
+      radius: randomBetween(random, 1, 2.2),
+      material: materialFromPreset("wood")
     };
-    setCollisionZones((prev) => [...prev, zone]);
+    simulation.set("zones", (prev) => [...prev, zone]);
     setSelectedObstacle({ kind: "zone", id });
-  }, []);
-
-  const addWall = useCallback(() => {
-    const id = `wall-${wallCounterRef.current++}`;
-    const wall: Wall = {
+    logAction("add-zone", id);
+    return id;
+  }, [logAction, simulation]);
+
+  const addWall = useCallback((at?: { x: number; z: number }) => {
+    const id = claimId(wallCounterRef, simulation.getState().walls, "wall");
+    const random = simulation.random;
+    const wall = boxWall(
       id,
-      x: randomBetween(-8, 8),
-      z: randomBetween(-8, 8),
-      width: randomBetween(1.2, 4.8),
-      height: randomBetween(0.8, 3.8)
-    };
-    setWalls((prev) => [...prev, wall]);
+      at?.x ?? randomBetween(random, -8, 8),
+      at?.z ?? randomBetween(random, -8, 8),
+      randomBetween(random, 1.2, 4.8),
+      randomBetween(random, 0.8, 3.8),
+      materialFromPreset("concrete")
+    );
+    simulation.set("walls", (prev) => [...prev, wall]);
     setSelectedObstacle({ kind: "wall", id });
+    logAction("add-wall", id);
+    return id;
+  }, [logAction, simulation]);
+
+  const addWorldItem = useCallback(
+    (kind: "emitter" | "zone" | "wall", x: number, z: number): WorldItem => {
+      if (kind === "emitter") {
+        return { kind, id: addEmitter(x, z) };
+      }
+      return { kind, id: kind === "zone" ? addZone({ x, z }) : addWall({ x, z }) };
+    },
+    [addEmitter, addWall, addZone]
+  );
+
+  const selectWorldItem = useCallback((item: WorldItem) => {
+    if (item.kind === "emitter") {
+      setSelectedEmitterId(item.id);
+    } else if (item.kind !== "listener") {
+      setSelectedObstacle(item);
+    }
   }, []);
 
+  const updateListener = useCallback(
+    (patch: Partial<ListenerPose>) => {
+      simulation.set("listener", (prev) => ({ ...prev, ...patch }));
+    },
+    [simulation]
+  );
+
   const updateEmitter = useCallback((id: string, patch: Partial<SoundEmitter>) => {
-    setEmitters((prev) => prev.map((emitter) => (emitter.id === id ? { ...emitter, ...patch } : emitter)));
+    simulation.set("emitters", (prev) =>
+      prev.map((emitter) => (emitter.id === id ? { ...emitter, ...patch } : emitter))
+    );
+  }, [simulation]);
+
+  const updatePath = useCallback(
+    (id: string, update: (motion: PathMotion) => PathMotion) => {
+      simulation.set("emitters", (prev) =>
+        prev.map((emitter) =>
+          emitter.id === id && emitter.motion.kind === "path" ? { ...emitter, motion: update(emitter.motion) } : emitter
+        )
+      );
+    },
+    [simulation]
+  );
+
+  const changeEmitterSource = useCallback(
+    (id: string, kind: SourceKind) => {
+      let source: EmitterSource;
+      if (kind === "tone") {
+        source = { kind };
+      } else if (kind === "sample") {
+        source = sampleSource(sampleAssets[0].id);
+      } else {
+        source = defaultProceduralSource(kind);
+      }
+      updateEmitter(id, { source });
+    },
+    [sampleAssets, updateEmitter]
+  );
+
+  const uploadSample = useCallback(
+    async (emitterId: string, file: File) => {
+      try {
+        const buffer = await decodeSampleFile(getAudioContext(), file);
+        const id = `upload-${sampleUploadCounterRef.current++}`;
+        sampleBuffersRef.current.set(id, buffer);
+        setSampleAssets((prev) => [
+          ...prev,
+          { id, name: file.name.replace(/\.[^.]+$/, ""), origin: "upload", url: null, durationSec: buffer.duration }
+        ]);
+        updateEmitter(emitterId, { source: sampleSource(id) });
+        setStatus(`Loaded "${file.name}" (${buffer.duration.toFixed(1)} s).`);
+      } catch (error) {
+        setStatus(error instanceof Error ? error.message : "Unable to load sample.");
+      }
+    },
+    [getAudioContext, updateEmitter]
+  );
+
+  // Until a dataset has loaded the panner keeps playing, so switching never leaves emitters silent.
+  const selectHrtf = useCallback(
+    async (id: string) => {
+      const cached = hrtfSetsRef.current.get(id);
+      setHrtfSelection({ id, set: cached ?? null });
+      const asset = hrtfAssets.find((candidate) => candidate.id === id);
+      if (cached || !asset?.url) {
+        return;
+      }
+      setStatus(`Loading HRTF ${asset.name}...`);
+      try {
+        const set = await fetchHrtf(asset.url);
+        hrtfSetsRef.current.set(id, set);
+        setHrtfSelection((current) => (current.id === id ? { id, set } : current));
+        setStatus(`HRTF ${asset.name} ready (${set.measurements.length} directions).`);
+      } catch (error) {
+        setStatus(error instanceof Error ? error.message : `Unable to load ${asset.name}.`);
+      }
+    },
+    [hrtfAssets]
+  );
+
+  const changeSpatialMode = useCallback(
+    (mode: SpatialMode) => {
+      setSpatialMode(mode);
+      logAction("spatial-mode", mode);
+      if (usesHrtf(mode, ambisonicSettings) && !hrtfSelection.set) {
+        void selectHrtf(hrtfSelection.id);
+      }
+    },
+    [ambisonicSettings, hrtfSelection, logAction, selectHrtf]
+  );
+
+  const changeAmbisonicSettings = useCallback(
+    (settings: AmbisonicSettings) => {
+      setAmbisonicSettings(settings);
+      logAction("ambisonics", `order ${settings.order}, ${settings.decoder}`);
+      if (usesHrtf(spatialMode, settings) && !hrtfSelection.set) {
+        void selectHrtf(hrtfSelection.id);
+      }
+      const available = audioContextRef.current?.destination.maxChannelCount;
+      if (settings.decoder !== "binaural" && available && available < speakerCount(settings.decoder)) {
+        setStatus(
+          `${SPEAKER_LAYOUTS[settings.decoder].label} needs ${speakerCount(settings.decoder)} outputs but this ` +
+            `device has ${available}; the remaining speaker feeds are dropped.`
+        );
+      }
+    },
+    [hrtfSelection, logAction, selectHrtf, spatialMode]
+  );
+
+  const uploadHrtf = useCallback(async (file: File) => {
+    try {
+      const set = await parseSofa(await file.arrayBuffer());
+      const id = `hrtf-upload-${hrtfUploadCounterRef.current++}`;
+      hrtfSetsRef.current.set(id, set);
+      setHrtfAssets((prev) => [
+        ...prev,
+        { id, name: file.name.replace(/\.[^.]+$/, ""), origin: "upload", url: null }
+      ]);
+      setHrtfSelection({ id, set });
+      setStatus(`Loaded "${file.name}": ${set.title}, ${set.measurements.length} directions.`);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to read the SOFA file.");
+    }
   }, []);
 
+  const triggerEmitter = useCallback((emitter: SoundEmitter) => {
+    const context = audioContextRef.current;
+    const node = emitterNodesRef.current.get(emitter.id);
+    const buffer = emitterSampleBuffer(emitter, sampleBuffersRef.current);
+    if (!context || !node || !buffer || emitter.source.kind !== "sample") {
+      setStatus("Start audio and wait for the sample to load before triggering it.");
+      return;
+    }
+    triggerSample(context, node, buffer, emitter.source, context.currentTime);
+    logAction("trigger-sample", emitter.id);
+  }, [logAction]);
+
   const removeEmitter = useCallback((id: string) => {
-    setEmitters((prev) => prev.filter((emitter) => emitter.id !== id));
+    simulation.set("emitters", (prev) => prev.filter((emitter) => emitter.id !== id));
     setSelectedEmitterId((current) => (current === id ? null : current));
-  }, []);
+    logAction("remove-emitter", id);
+  }, [logAction, simulation]);
 
   const updateZone = useCallback((id: string, patch: Partial<CollisionZone>) => {
-    setCollisionZones((prev) => prev.map((zone) => (zone.id === id ? { ...zone, ...patch } : zone)));
-  }, []);
+    simulation.set("zones", (prev) => prev.map((zone) => (zone.id === id ? { ...zone, ...patch } : zone)));
+  }, [simulation]);
 
   const updateWall = useCallback((id: string, patch: Partial<Wall>) => {
-    setWalls((prev) => prev.map((wall) => (wall.id === id ? { ...wall, ...patch } : wall)));
-  }, []);
+    simulation.set("walls", (prev) => prev.map((wall) => (wall.id === id ? { ...wall, ...patch } : wall)));
+  }, [simulation]);
+
+  // One outline or path is drawn at a time, so a map click never adds to two of them.
+  const drawOutline = (outline: PlanOutline | null) => {
+    setDrawingPathId(null);
+    setDrawingOutline(outline);
+  };
 
-  const removeSelectedObstacle = useCallback(() => {
-    if (!selectedObstacle) {
+  // Every boundary edit comes through here so the listener and emitters stay inside it. Corners that would fold the
+  // outline over itself are refused, since such a boundary has no inside and could not be saved.
+  const changeBoundary = useCallback((next: WorldBoundary) => {
+    if (next.kind === "polygon" && !isSimplePolygon(next.points)) {
+      setStatus("The boundary's edges cannot cross each other.");
       return;
     }
-    if (selectedObstacle.kind === "zone") {
-      setCollisionZones((prev) => prev.filter((zone) => zone.id !== selectedObstacle.id));
-    } else {
-      setWalls((prev) => prev.filter((wall) => wall.id !== selectedObstacle.id));
-    }
-    setSelectedObstacle(null);
-  }, [selectedObstacle]);
-
-  useEffect(() => {
-    drawScene();
-  }, [drawScene]);
+    simulation.set("boundary", next);
+    simulation.set("listener", (prev) => {
+      if (insideBoundary(next, prev.x, prev.z, PLAYER_RADIUS_M)) {
+        return prev;
+      }
+      // The new edge may have pushed the listener into a wall as well.
+      const spot = openSpotNear(simulation.spatialIndex(), prev.x, prev.z, PLAYER_RADIUS_M);
+      return { ...prev, ...(spot ?? pullInsideBoundary(next, prev.x, prev.z, PLAYER_RADIUS_M)) };
+    });
+    simulation.set("emitters", (prev) => {
+      const moved = prev.map((emitter) => keepInside(emitter, next, EMITTER_RADIUS_M));
+      return moved.some((emitter, index) => emitter !== prev[index]) ? moved : prev;
+    });
+  }, [simulation]);
 
-  useEffect(() => {
-    if (!audioRunning) {
+  const updateOutline = useCallback((outline: PlanOutline, update: (points: PlanPoint[]) => PlanPoint[]) => {
+    if (outline.kind === "boundary") {
+      const current = simulation.getState().boundary;
+      if (current.kind === "polygon") {
+        changeBoundary({ ...current, points: update(current.points) });
+      }
       return;
     }
-    reconnectAudioEmitters();
-  }, [audioRunning, reconnectAudioEmitters]);
-
-  useEffect(() => {
-    const context = audioContextRef.current;
-    if (!context || !audioRunning) {
+    const wall = simulation.getState().walls.find((candidate) => candidate.id === outline.id);
+    if (!wall || wall.shape.kind === "box") {
       return;
     }
-    setListenerAudioPose(context, listener);
-  }, [audioRunning, listener, setListenerAudioPose]);
-
-  const disposeAllEmitterNodes = useCallback(() => {
-    for (const node of emitterNodesRef.current.values()) {
-      disposeEmitterNode(node);
+    const points = update(wall.shape.points);
+    // Like the boundary, a polygon wall folded over itself has no inside to collide with and could not be saved.
+    if (wall.shape.kind === "polygon" && !isSimplePolygon(points)) {
+      setStatus("A wall's edges cannot cross each other.");
+      return;
     }
-    emitterNodesRef.current.clear();
-  }, []);
-
-  useEffect(() => {
-    const trackedKeys = new Set(["w", "a", "s", "d", "q", "e", "arrowleft", "arrowright"]);
-
-    const onKeyDown = (event: KeyboardEvent) => {
-      const key = event.key.toLowerCase();
-      if (!trackedKeys.has(key)) {
-        return;
+    const shape = { ...wall.shape, points };
+    simulation.set("walls", (prev) =>
+      prev.map((candidate) => (candidate.id === wall.id ? { ...candidate, shape } : candidate))
+    );
+  }, [changeBoundary, simulation]);
+
+  const removeObstacle = useCallback((obstacle: SelectedObstacle) => {
+    if (obstacle.kind === "zone") {
+      simulation.set("zones", (prev) => prev.filter((zone) => zone.id !== obstacle.id));
+    } else {
+      simulation.set("walls", (prev) => prev.filter((wall) => wall.id !== obstacle.id));
+    }
+    setSelectedObstacle((current) => (current?.id === obstacle.id ? null : current));
+    logAction(`remove-${obstacle.kind}`, obstacle.id);
+  }, [logAction, simulation]);
+
+  const removeWorldItem = useCallback(
+    (item: WorldItem) => {
+      if (item.kind === "emitter") {
+        removeEmitter(item.id);
+      } else if (item.kind !== "listener") {
+        removeObstacle(item);
       }
-      keyStateRef.current.add(key);
-      event.preventDefault();
-    };
+    },
+    [removeEmitter, removeObstacle]
+  );
+
+  const applyScene = useCallback((scene: SceneContent) => {
+    setSceneName(scene.name);
+    simulation.load({
+      listener: scene.listener,
+      emitters: scene.emitters,
+      zones: scene.zones,
+      walls: scene.walls,
+      boundary: scene.boundary
+    });
+    setRoomSettings(scene.room);
+    setEchoSettings(scene.echo);
+    setTimeline(scene.timeline);
+    setSceneLoads((count) => count + 1);
+    setSelectedEmitterId(scene.emitters[0]?.id ?? null);
+    setSelectedObstacle(null);
+    setDrawingOutline(null);
+    setLastEchoes([]);
+    emitterCounterRef.current = nextIdCounter(scene.emitters, "emitter");
+    zoneCounterRef.current = nextIdCounter(scene.zones, "zone");
+    wallCounterRef.current = nextIdCounter(scene.walls, "wall");
+    logAction("load-scene", scene.name);
+  }, [logAction, simulation]);
+
+  const currentSceneDocument = useCallback(() => createSceneDocument(sceneContentRef.current), []);
+
+  const exportScene = useCallback(() => {
+    const scene = currentSceneDocument();
+    const url = URL.createObjectURL(new Blob([serializeScene(scene)], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = sceneFileName(scene.name);
+    link.click();
+    URL.revokeObjectURL(url);
+    setStatus(`Exported "${scene.name}".`);
+  }, [currentSceneDocument]);
+
+  const importScene = useCallback(
+    async (file: File) => {
+      try {
+        const scene = parseSceneJson(await file.text());
+        applyScene(scene);
+        setStatus(`Loaded "${scene.name}" (${scene.emitters.length} emitters, ${scene.walls.length} walls).`);
+      } catch (error) {
+        const message = error instanceof SceneValidationError ? error.message : "Unable to read scene file.";
+        setStatus(message);
+      }
+    },
+    [applyScene]
+  );
+
+  const currentSceneContent = useCallback(() => sceneContentRef.current, []);
+
+  // Uploads only exist in the decoded cache; bundled samples that were never played live are fetched for the render.
+  const loadOfflineSample = useCallback(
+    async (sampleId: string, context: BaseAudioContext): Promise<AudioBuffer | undefined> => {
+      const cached = sampleBuffersRef.current.get(sampleId);
+      if (cached) {
+        return cached;
+      }
+      const asset = sampleAssets.find((candidate) => candidate.id === sampleId);
+      return asset?.url ? fetchSampleBuffer(context, asset.url) : undefined;
+    },
+    [sampleAssets]
+  );
 
-    const onKeyUp = (event: KeyboardEvent) => {
-      keyStateRef.current.delete(event.key.toLowerCase());
+  const resetScene = useCallback(() => {
+    applyScene(INITIAL_SCENE);
+    setStatus("Scene reset to the default layout.");
+  }, [applyScene]);
+
+  const sessionReport = useCallback(
+    (): SessionReport => ({
+      movingEnabled,
+      mix: emitterMix,
+      emitters: withoutPeers(simulation.getState().emitters).map((emitter) => ({
+        id: emitter.id,
+        x: emitter.x,
+        z: emitter.z,
+        occluded: simulation.isOccluded(emitter.id)
+      })),
+      boundary: simulation.getState().boundary
+    }),
+    [emitterMix, movingEnabled, simulation]
+  );
+
+  const applyTrainerCommand = useCallback(
+    (command: TrainerCommand, trainer: string) => {
+      switch (command.kind) {
+        case "mix":
+          setEmitterMix(command.mix);
+          logAction("trainer-mix", `${command.mix.muted.length} muted, ${command.mix.soloed.length} soloed`);
+          break;
+        case "teleport": {
+          // The trainer's map knows nothing about the listener's size, so the spot is checked here.
+          const spot = openSpotNear(simulation.spatialIndex(), command.listener.x, command.listener.z, PLAYER_RADIUS_M);
+          if (!spot) {
+            setStatus(`${trainer} tried to move you where there is no room to stand.`);
+            break;
+          }
+          simulation.set("listener", { ...command.listener, ...spot });
+          logAction("trainer-teleport", `${spot.x.toFixed(1)}, ${spot.z.toFixed(1)}`);
+          break;
+        }
+        case "moving":
+          setMovingEnabled(command.enabled);
+          logAction("trainer-moving-emitters", command.enabled ? "on" : "off");
+          break;
+        case "scene":
+          // A task or challenge owns the world until it ends.
+          if (gameActive) {
+            setStatus(`${trainer} sent "${command.scene.name}", which was ignored while the task runs.`);
+            logAction("trainer-scene-ignored", command.scene.name);
+            break;
+          }
+          applyScene(command.scene);
+          setStatus(`${trainer} loaded "${command.scene.name}".`);
+          break;
+      }
+    },
+    [applyScene, gameActive, logAction, simulation]
+  );
+
+  const onTrainerWatching = useCallback((watching: boolean) => {
+    if (!watching) {
+      setEmitterMix(EMPTY_MIX);
+    }
+  }, []);
+
+  useEffect(() => {
+    // Task targets and challenge levels must not leak into autosave, export or the library.
+    if (gameActive) {
+      return;
+    }
+    sceneContentRef.current = {
+      name: sceneName.trim() || INITIAL_SCENE.name,
+      listener,
+      emitters: withoutPeers(emitters),
+      zones: collisionZones,
+      walls,
+      boundary,
+      room: roomSettings,
+      echo: echoSettings,
+      timeline
     };
+  }, [
+    boundary,
+    collisionZones,
+    echoSettings,
+    emitters,
+    gameActive,
+    listener,
+    roomSettings,
+    sceneName,
+    timeline,
+    walls
+  ]);
+
+  // The autosave is restored after hydration so the server render still matches. Moving emitters change state every
+  // frame, so saving polls the latest scene instead of debouncing edits.
+  useEffect(() => {
+    const restore = window.setTimeout(() => {
+      const saved = window.localStorage.getItem(SCENE_AUTOSAVE_KEY);
+      if (!saved) {
+        return;
+      }
+      try {
+        applyScene(parseSceneJson(saved));
+      } catch {
+        window.localStorage.removeItem(SCENE_AUTOSAVE_KEY);
+      }
+    }, 0);
 
-    window.addEventListener("keydown", onKeyDown);
-    window.addEventListener("keyup", onKeyUp);
+    let lastContent = "";
+    const timer = window.setInterval(() => {
+      const content = JSON.stringify(sceneContentRef.current);
+      if (content === lastContent) {
+        return;
+      }
+      try {
+        window.localStorage.setItem(SCENE_AUTOSAVE_KEY, serializeScene(createSceneDocument(sceneContentRef.current)));
+        lastContent = content;
+      } catch {
+        // Storage can be full or disabled; export still works.
+      }
+    }, AUTOSAVE_INTERVAL_MS);
 
     return () => {
-      window.removeEventListener("keydown", onKeyDown);
-      window.removeEventListener("keyup", onKeyUp);
+      window.clearTimeout(restore);
+      window.clearInterval(timer);
     };
-  }, []);
+  }, [applyScene]);
 
   useEffect(() => {
-    let frame = 0;
-    let previous = performance.now();
+    drawScene();
+  }, [drawScene]);
 
-    const tick = (now: number) => {
-      const delta = Math.min((now - previous) / 1000, 0.04);
-      previous = now;
+  useEffect(() => {
+    if (!audioRunning) {
+      return;
+    }
+    // Also rerun when a sample finishes decoding so emitters waiting on it can start.
+    reconnectAudioEmitters();
+  }, [audioRunning, reconnectAudioEmitters, sampleAssets]);
 
-      if (walkMode) {
-        const keys = keyStateRef.current;
-        const forward = (keys.has("w") ? 1 : 0) - (keys.has("s") ? 1 : 0);
-        const strafe = (keys.has("d") ? 1 : 0) - (keys.has("a") ? 1 : 0);
-        const turn = (keys.has("e") || keys.has("arrowright") ? 1 : 0) - (keys.has("q") || keys.has("arrowleft") ? 1 : 0);
-
-        if (forward !== 0 || strafe !== 0 || turn !== 0) {
-          setListener((current) => {
-            const heading = wrapDegrees(current.headingDeg + turn * TURN_SPEED_DEG_PER_SEC * delta);
-            const rad = toRadians(heading);
-            const fx = Math.sin(rad);
-            const fz = -Math.cos(rad);
-            const rx = Math.cos(rad);
-            const rz = Math.sin(rad);
-
-            const step = MOVE_SPEED_MPS * delta;
-            const desiredX = current.x + (forward * fx + strafe * rx) * step;
-            const desiredZ = current.z + (forward * fz + strafe * rz) * step;
-
-            let nextX = desiredX;
-            let nextZ = desiredZ;
-
-            if (collidesAt(nextX, nextZ, PLAYER_RADIUS_M)) {
-              if (!collidesAt(nextX, current.z, PLAYER_RADIUS_M)) {
-                nextZ = current.z;
-              } else if (!collidesAt(current.x, nextZ, PLAYER_RADIUS_M)) {
-                nextX = current.x;
-              } else {
-                nextX = current.x;
-                nextZ = current.z;
-              }
-            }
+  useEffect(() => {
+    const context = audioContextRef.current;
+    if (!context || !audioRunning) {
+      return;
+    }
+    for (const emitter of emitters) {
+      if (emitter.source.kind !== "sample") {
+        continue;
+      }
+      const { sampleId } = emitter.source;
+      const asset = sampleAssets.find((candidate) => candidate.id === sampleId);
+      if (!asset?.url || sampleBuffersRef.current.has(sampleId) || sampleRequestsRef.current.has(sampleId)) {
+        continue;
+      }
+      sampleRequestsRef.current.add(sampleId);
+      fetchSampleBuffer(context, asset.url)
+        .then((buffer) => {
+          sampleBuffersRef.current.set(sampleId, buffer);
+          setSampleAssets((prev) =>
+            prev.map((candidate) =>
+              candidate.id === sampleId ? { ...candidate, durationSec: buffer.duration } : candidate
+            )
+          );
+        })
+        .catch((error: unknown) => {
+          setStatus(error instanceof Error ? error.message : `Unable to load ${asset.name}.`);
+        });
+    }
+  }, [audioRunning, emitters, sampleAssets]);
 
-            return { x: nextX, z: nextZ, headingDeg: heading };
-          });
+  useEffect(() => {
+    const context = audioContextRef.current;
+    if (!context || !audioRunning) {
+      return;
+    }
+    setListenerPose(context, listener, context.currentTime);
+    if (ambisonicBusRef.current) {
+      rotateAmbisonicBus(ambisonicBusRef.current, listener, context.currentTime);
+    }
+  }, [audioRunning, listener]);
+
+  useEffect(() => {
+    const context = audioContextRef.current;
+    const routing = audioRoutingRef.current;
+    if (!context || !routing || !audioRunning) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      routing.reverb.buffer = createReverbImpulse(context, reverbTime, routing.random);
+    }, 250);
+    return () => {
+      window.clearTimeout(timer);
+    };
+  }, [audioRunning, reverbTime]);
+
+  useEffect(() => {
+    const context = audioContextRef.current;
+    const routing = audioRoutingRef.current;
+    if (!context || !routing) {
+      return;
+    }
+    routing.reverbReturn.gain.setTargetAtTime(reverbReturnLevel(roomSettings), context.currentTime, 0.08);
+  }, [audioRunning, roomSettings]);
+
+  // One-shot retriggers are scheduled slightly ahead on the audio clock so timer jitter does not smear them.
+  useEffect(() => {
+    const context = audioContextRef.current;
+    if (!context || !audioRunning) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      for (const node of emitterNodesRef.current.values()) {
+        scheduleRetriggers(context, node, context.currentTime + RETRIGGER_LOOKAHEAD_SEC);
+      }
+    }, RETRIGGER_POLL_MS);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [audioRunning]);
+
+  const disposeAllEmitterNodes = useCallback(() => {
+    for (const node of emitterNodesRef.current.values()) {
+      disposeEmitterNode(node);
+    }
+    emitterNodesRef.current.clear();
+  }, []);
+
+  useEffect(() => input.attach(), [input]);
+
+  useEffect(() => {
+    input.configure(inputSettings);
+  }, [input, inputSettings]);
+
+  useEffect(
+    () =>
+      input.onAction((action) => {
+        if (action === "click") {
+          emitClick();
+        } else if (action === "levelHead") {
+          updateListener({ pitchDeg: 0, rollDeg: 0 });
         }
+      }),
+    [emitClick, input, updateListener]
+  );
+
+  // Restored after hydration like the scene autosave; bindings are saved as soon as they change.
+  useEffect(() => {
+    const restore = window.setTimeout(() => {
+      const saved = window.localStorage.getItem(INPUT_SETTINGS_KEY);
+      if (!saved) {
+        return;
+      }
+      try {
+        setInputSettings(parseInputSettings(saved));
+      } catch {
+        window.localStorage.removeItem(INPUT_SETTINGS_KEY);
       }
+    }, 0);
+    return () => {
+      window.clearTimeout(restore);
+    };
+  }, []);
 
-      if (movingEnabled) {
-        setEmitters((current) =>
-          current.map((emitter) => {
-            if (!emitter.moving) {
-              return emitter;
-            }
-
-            let vx = emitter.vx;
-            let vz = emitter.vz;
-            let nx = emitter.x + vx * delta;
-            let nz = emitter.z + vz * delta;
-
-            if (collidesAt(nx, nz, EMITTER_RADIUS_M)) {
-              const collidesX = collidesAt(nx, emitter.z, EMITTER_RADIUS_M);
-              const collidesZ = collidesAt(emitter.x, nz, EMITTER_RADIUS_M);
-
-              if (collidesX) {
-                vx = -vx;
-                nx = emitter.x + vx * delta;
-              }
-              if (collidesZ) {
-                vz = -vz;
-                nz = emitter.z + vz * delta;
-              }
+  const updateInputSettings = useCallback((next: InputSettings) => {
+    setInputSettings(next);
+    try {
+      window.localStorage.setItem(INPUT_SETTINGS_KEY, JSON.stringify(next));
+    } catch {
+      // Storage can be full or disabled; the settings still apply for this visit.
+    }
+  }, []);
 
-              if (collidesAt(nx, nz, EMITTER_RADIUS_M)) {
-                vx = -vx;
-                vz = -vz;
-                nx = emitter.x + vx * delta;
-                nz = emitter.z + vz * delta;
-              }
-            }
+  useEffect(() => {
+    let frame = 0;
+    let previous = performance.now();
 
-            return { ...emitter, x: nx, z: nz, vx, vz };
-          })
+    const tick = (now: number) => {
+      // A loaded replay owns the world until it is closed.
+      if (!replayActive) {
+        const { walk, head } = input.poll(simulation.getState().listener.headingDeg);
+        simulation.advance(
+          (now - previous) / 1000,
+          // During a localization task the participant can only turn on the spot; a navigation challenge always walks.
+          localization
+            ? { walk: { ...walk, forward: 0, strafe: 0 }, head, moveEmitters: false }
+            : navigationLevel !== null
+              ? { walk, head, moveEmitters: false }
+              : { walk: walkMode ? walk : null, head, moveEmitters: movingEnabled }
         );
       }
+      previous = now;
 
       frame = window.requestAnimationFrame(tick);
     };
@@ -863,7 +1577,7 @@ export default function SonicWorld() {
     return () => {
       window.cancelAnimationFrame(frame);
     };
-  }, [collidesAt, movingEnabled, walkMode]);
+  }, [input, localization, movingEnabled, navigationLevel, replayActive, simulation, walkMode]);
 
   useEffect(() => {
     return () => {
@@ -888,6 +1602,45 @@ export default function SonicWorld() {
     const pointer = pointerToCanvas(event);
     const pointerWorld = canvasToPoint(pointer.x, pointer.y, canvas.width);
 
+    if (selectedEmitter && selectedPath) {
+      const index = selectedPath.waypoints.findIndex((waypoint) => {
+        const point = pointToCanvas(waypoint.x, waypoint.z, canvas.width);
+        return Math.hypot(pointer.x - point.x, pointer.y - point.y) < WAYPOINT_HIT_PX;
+      });
+      if (index !== -1) {
+        dragTargetRef.current = { kind: "waypoint", id: selectedEmitter.id, index };
+        canvas.setPointerCapture(event.pointerId);
+        return;
+      }
+      if (drawingPath) {
+        const { x, z } = insideWorld(pointerWorld, boundary);
+        updatePath(selectedEmitter.id, (motion) => appendWaypoint(motion, x, z));
+        return;
+      }
+    }
+
+    if (editedOutline) {
+      const index = outlineCorners(editedOutline, walls, boundary).findIndex((corner) => {
+        const point = pointToCanvas(corner.x, corner.z, canvas.width);
+        return Math.hypot(pointer.x - point.x, pointer.y - point.y) < WAYPOINT_HIT_PX;
+      });
+      if (index !== -1) {
+        dragTargetRef.current = { kind: "corner", outline: editedOutline, index };
+        canvas.setPointerCapture(event.pointerId);
+        return;
+      }
+      if (drawingWall && selectedWall) {
+        updateOutline({ kind: "wall", id: selectedWall.id }, (points) =>
+          appendPlanPoint(points, worldPointToWall(selectedWall, pointerWorld.x, pointerWorld.z))
+        );
+        return;
+      }
+      if (drawingBoundary) {
+        updateOutline({ kind: "boundary" }, (points) => appendPlanPoint(points, pointerWorld));
+        return;
+      }
+    }
+
     let nearestEmitterId: string | null = null;
     let nearestEmitterDistance = Number.POSITIVE_INFINITY;
 
@@ -923,11 +1676,7 @@ export default function SonicWorld() {
     }
 
     for (const wall of walls) {
-      const left = wall.x - wall.width / 2;
-      const right = wall.x + wall.width / 2;
-      const top = wall.z - wall.height / 2;
-      const bottom = wall.z + wall.height / 2;
-      if (pointerWorld.x >= left && pointerWorld.x <= right && pointerWorld.z >= top && pointerWorld.z <= bottom) {
+      if (wallPieces(wall).some((piece) => pointInPolygon(pointerWorld.x, pointerWorld.z, piece))) {
         dragTargetRef.current = {
           kind: "wall",
           id: wall.id,
@@ -955,6 +1704,25 @@ export default function SonicWorld() {
       return;
     }
 
+    if (dragTarget.kind === "waypoint") {
+      const { x, z } = insideWorld(point, boundary);
+      updatePath(dragTarget.id, (motion) => ({
+        ...motion,
+        waypoints: motion.waypoints.map((waypoint, index) =>
+          index === dragTarget.index ? { ...waypoint, x, z } : waypoint
+        )
+      }));
+      return;
+    }
+
+    if (dragTarget.kind === "corner") {
+      const { outline, index } = dragTarget;
+      const wall = outline.kind === "wall" ? walls.find((candidate) => candidate.id === outline.id) : undefined;
+      const corner = wall ? worldPointToWall(wall, point.x, point.z) : point;
+      updateOutline(outline, (points) => points.map((existing, i) => (i === index ? corner : existing)));
+      return;
+    }
+
     if (dragTarget.kind === "zone") {
       updateZone(dragTarget.id, {
         x: clamp(point.x - dragTarget.offsetX, -WORLD_RADIUS_M, WORLD_RADIUS_M),
@@ -977,12 +1745,15 @@ export default function SonicWorld() {
   };
 
   const onCanvasDoubleClick = (event: ReactMouseEvent<HTMLCanvasElement>) => {
+    if (drawingPath || drawingWall || drawingBoundary) {
+      return;
+    }
     const canvas = event.currentTarget;
     const bounds = canvas.getBoundingClientRect();
     const localX = ((event.clientX - bounds.left) / bounds.width) * canvas.width;
     const localY = ((event.clientY - bounds.top) / bounds.height) * canvas.height;
     const point = canvasToPoint(localX, localY, canvas.width);
-    if (!collidesAt(point.x, point.z, EMITTER_RADIUS_M)) {
+    if (!simulation.collides(point.x, point.z, EMITTER_RADIUS_M)) {
       addEmitter(point.x, point.z);
     }
   };
@@ -993,18 +1764,28 @@ export default function SonicWorld() {
         <article className={styles.card}>
           <h2>Audio + Motion</h2>
           <p className={styles.subtle}>
-            Start audio, move with <code>W/A/S/D</code>, rotate with <code>Q/E</code>.
+            Start audio, move with <code>W/A/S/D</code>, rotate with <code>Q/E</code>, click with <code>C</code>. Keys
+            can be rebound under Input.
           </p>
           <div className={styles.buttonRow}>
             <button className={styles.primaryButton} onClick={audioRunning ? stopAudio : startAudio} type="button">
               {audioRunning ? "Pause Audio" : "Start Audio"}
             </button>
-            <button className={styles.secondaryButton} onClick={() => setListener(INITIAL_LISTENER)} type="button">
+            <button
+              className={styles.secondaryButton}
+              onClick={() => simulation.set("listener", INITIAL_LISTENER)}
+              type="button"
+            >
               Reset Listener
             </button>
             <button
               className={styles.secondaryButton}
-              onClick={() => addEmitter(listener.x + randomBetween(-2, 2), listener.z + randomBetween(-2, 2))}
+              onClick={() =>
+                addEmitter(
+                  listener.x + randomBetween(simulation.random, -2, 2),
+                  listener.z + randomBetween(simulation.random, -2, 2)
+                )
+              }
               type="button"
             >
               Add Emitter
@@ -1013,14 +1794,24 @@ export default function SonicWorld() {
 
           <div className={styles.toggleGrid}>
             <label>
-              <input type="checkbox" checked={walkMode} onChange={(event) => setWalkMode(event.target.checked)} />
+              <input
+                type="checkbox"
+                checked={walkMode}
+                onChange={(event) => {
+                  setWalkMode(event.target.checked);
+                  logAction("walk-mode", event.target.checked ? "on" : "off");
+                }}
+              />
               Walk mode
             </label>
             <label>
               <input
                 type="checkbox"
                 checked={movingEnabled}
-                onChange={(event) => setMovingEnabled(event.target.checked)}
+                onChange={(event) => {
+                  setMovingEnabled(event.target.checked);
+                  logAction("moving-emitters", event.target.checked ? "on" : "off");
+                }}
               />
               Moving emitters
             </label>
@@ -1029,20 +1820,143 @@ export default function SonicWorld() {
           <p className={styles.status}>{status}</p>
         </article>
 
+        <article className={styles.card} hidden={gameActive}>
+          <h2>World Outline</h2>
+          <p className={styles.subtle}>
+            Every emitter, zone and wall as a list you can build a scene from with the keyboard and a screen reader.
+          </p>
+          <WorldOutline
+            simulation={simulation}
+            listener={listener}
+            emitters={emitters}
+            zones={collisionZones}
+            walls={walls}
+            boundary={boundary}
+            selectedEmitterId={selectedEmitterId}
+            selectedObstacle={selectedObstacle}
+            narrationAllowed={!gameActive && !replayActive}
+            sourceLabel={(emitter) => emitterSourceLabel(emitter, sampleAssets)}
+            onSelect={selectWorldItem}
+            onAdd={addWorldItem}
+            onRemove={removeWorldItem}
+          />
+        </article>
+
+        <article className={styles.card}>
+          <h2>Head</h2>
+          <p className={styles.subtle}>
+            Set ear height and tilt the head toward sources above or below. Keys <code>R/F</code> tilt,{" "}
+            <code>Z/X</code> roll and <code>V</code> levels the head.
+          </p>
+          <div className={styles.buttonRow}>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              onClick={() => updateListener({ heightM: EAR_HEIGHTS_M.sitting })}
+            >
+              Sitting
+            </button>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              onClick={() => updateListener({ heightM: EAR_HEIGHTS_M.standing })}
+            >
+              Standing
+            </button>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              onClick={() => updateListener({ pitchDeg: 0, rollDeg: 0 })}
+            >
+              Level Head
+            </button>
+          </div>
+          <div className={styles.inlineGrid}>
+            <label className={styles.field}>
+              <span>Ear Height {listener.heightM.toFixed(2)} m</span>
+              <input
+                type="range"
+                min={HEAD_LIMITS.heightM.min}
+                max={HEAD_LIMITS.heightM.max}
+                step={0.05}
+                value={listener.heightM}
+                onChange={(event) => updateListener({ heightM: Number(event.target.value) })}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Pitch {listener.pitchDeg.toFixed(0)} deg</span>
+              <input
+                type="range"
+                min={-HEAD_LIMITS.pitchDeg}
+                max={HEAD_LIMITS.pitchDeg}
+                step={1}
+                value={listener.pitchDeg}
+                onChange={(event) => updateListener({ pitchDeg: Number(event.target.value) })}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Roll {listener.rollDeg.toFixed(0)} deg</span>
+              <input
+                type="range"
+                min={-HEAD_LIMITS.rollDeg}
+                max={HEAD_LIMITS.rollDeg}
+                step={1}
+                value={listener.rollDeg}
+                onChange={(event) => updateListener({ rollDeg: Number(event.target.value) })}
+              />
+            </label>
+          </div>
+        </article>
+
+        <article className={styles.card}>
+          <h2>Input</h2>
+          <p className={styles.subtle}>
+            Rebind keys, walk and turn with a gamepad, or steer the heading with this device&apos;s orientation sensor
+            when it is worn on the head. Pairing a separate phone with a computer is not supported.
+          </p>
+          <InputSettingsPanel
+            input={input}
+            settings={inputSettings}
+            onChange={updateInputSettings}
+            onStatus={setStatus}
+          />
+        </article>
+
+        <article className={styles.card}>
+          <h2>Spatial Renderer</h2>
+          <p className={styles.subtle}>
+            Compare the built-in panner with direct sound convolved through an HRIR set from a SOFA file, or with
+            every emitter encoded into one ambisonic sound field that is rotated with the head and then decoded.
+          </p>
+          <HrtfPanel
+            assets={hrtfAssets}
+            selectedId={hrtfSelection.id}
+            set={hrtfSelection.set}
+            mode={spatialMode}
+            ambisonics={ambisonicSettings}
+            onSelect={(id) => void selectHrtf(id)}
+            onModeChange={changeSpatialMode}
+            onAmbisonicsChange={changeAmbisonicSettings}
+            onUpload={(file) => void uploadHrtf(file)}
+          />
+        </article>
+
         <article className={styles.card}>
           <h2>Obstacles</h2>
-          <p className={styles.subtle}>Drag obstacles on the map. Select one below to resize or delete it.</p>
+          <p className={styles.subtle}>
+            Drag obstacles on the map. Select one below to reshape, turn or delete it, or to make a wall a door.
+          </p>
           <div className={styles.buttonRow}>
-            <button className={styles.secondaryButton} type="button" onClick={addZone}>
+            <button className={styles.secondaryButton} type="button" onClick={() => addZone()}>
               Add Zone
             </button>
-            <button className={styles.secondaryButton} type="button" onClick={addWall}>
+            <button className={styles.secondaryButton} type="button" onClick={() => addWall()}>
               Add Wall
             </button>
             <button
               className={styles.dangerButton}
               type="button"
-              onClick={removeSelectedObstacle}
+              onClick={() => selectedObstacle && removeObstacle(selectedObstacle)}
               disabled={!selectedObstacle}
             >
               Delete Selected Obstacle
@@ -1055,8 +1969,8 @@ export default function SonicWorld() {
                 <span>Zone Radius {selectedZone.radius.toFixed(2)} m</span>
                 <input
                   type="range"
-                  min={0.5}
-                  max={3.5}
+                  min={ZONE_RADIUS_LIMITS.min}
+                  max={ZONE_RADIUS_LIMITS.max}
                   step={0.05}
                   value={selectedZone.radius}
                   onChange={(event) =>
@@ -1064,51 +1978,427 @@ export default function SonicWorld() {
                   }
                 />
               </label>
+              <MaterialEditor
+                material={selectedZone.material}
+                onChange={(material) => updateZone(selectedZone.id, { material })}
+              />
             </div>
           ) : null}
 
           {selectedWall ? (
             <div className={styles.editor}>
+              <WallEditor
+                wall={selectedWall}
+                drawing={drawingWall}
+                onDrawingChange={(drawing) => drawOutline(drawing ? { kind: "wall", id: selectedWall.id } : null)}
+                onChange={(patch) => updateWall(selectedWall.id, patch)}
+              />
+              <MaterialEditor
+                material={selectedWall.material}
+                onChange={(material) => updateWall(selectedWall.id, { material })}
+              />
+            </div>
+          ) : null}
+        </article>
+
+        <article className={styles.card}>
+          <h2>World Boundary</h2>
+          <p className={styles.subtle}>
+            The edge of the walkable world. Rooms and streets are easier to build inside a rectangle or a custom
+            outline; add walls and doors inside it to split it into rooms.
+          </p>
+          <BoundaryEditor
+            boundary={boundary}
+            drawing={drawingBoundary}
+            onDrawingChange={(drawing) => drawOutline(drawing ? { kind: "boundary" } : null)}
+            onChange={changeBoundary}
+          />
+        </article>
+
+        <article className={styles.card}>
+          <h2>Echolocation</h2>
+          <p className={styles.subtle}>
+            Press <code>C</code> to click. Echoes return from walls, zones and the world edge.
+          </p>
+          <div className={styles.buttonRow}>
+            <button className={styles.primaryButton} type="button" onClick={emitClick} disabled={!audioRunning}>
+              Click
+            </button>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              onClick={() => setEchoSettings(DEFAULT_ECHO_SETTINGS)}
+            >
+              Reset Click
+            </button>
+          </div>
+
+          <div className={styles.editor}>
+            <div className={styles.inlineGrid}>
               <label className={styles.field}>
-                <span>Wall Width {selectedWall.width.toFixed(2)} m</span>
+                <span>Click Pitch {echoSettings.clickFrequency.toFixed(0)} Hz</span>
                 <input
                   type="range"
-                  min={0.5}
-                  max={8}
-                  step={0.1}
-                  value={selectedWall.width}
-                  onChange={(event) =>
-                    updateWall(selectedWall.id, { width: Number(event.target.value) })
-                  }
+                  min={800}
+                  max={8000}
+                  step={50}
+                  value={echoSettings.clickFrequency}
+                  onChange={(event) => updateEchoSettings({ clickFrequency: Number(event.target.value) })}
+                />
+              </label>
+              <label className={styles.field}>
+                <span>Click Length {echoSettings.clickDurationMs.toFixed(1)} ms</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={20}
+                  step={0.5}
+                  value={echoSettings.clickDurationMs}
+                  onChange={(event) => updateEchoSettings({ clickDurationMs: Number(event.target.value) })}
+                />
+              </label>
+              <label className={styles.field}>
+                <span>Brightness {echoSettings.clickBrightness.toFixed(2)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={echoSettings.clickBrightness}
+                  onChange={(event) => updateEchoSettings({ clickBrightness: Number(event.target.value) })}
+                />
+              </label>
+              <label className={styles.field}>
+                <span>Click Level {echoSettings.clickGain.toFixed(2)}</span>
+                <input
+                  type="range"
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  value={echoSettings.clickGain}
+                  onChange={(event) => updateEchoSettings({ clickGain: Number(event.target.value) })}
                 />
               </label>
               <label className={styles.field}>
-                <span>Wall Height {selectedWall.height.toFixed(2)} m</span>
+                <span>Reflections {echoSettings.maxReflections}</span>
                 <input
                   type="range"
-                  min={0.5}
-                  max={8}
-                  step={0.1}
-                  value={selectedWall.height}
+                  min={1}
+                  max={4}
+                  step={1}
+                  value={echoSettings.maxReflections}
+                  onChange={(event) => updateEchoSettings({ maxReflections: Number(event.target.value) })}
+                />
+              </label>
+              <label className={styles.field}>
+                <span>Rays {echoSettings.rayCount}</span>
+                <input
+                  type="range"
+                  min={36}
+                  max={720}
+                  step={36}
+                  value={echoSettings.rayCount}
+                  onChange={(event) => updateEchoSettings({ rayCount: Number(event.target.value) })}
+                />
+              </label>
+              <label className={styles.field}>
+                <span>Scattering {echoSettings.scattering.toFixed(2)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={echoSettings.scattering}
+                  onChange={(event) => updateEchoSettings({ scattering: Number(event.target.value) })}
+                />
+              </label>
+            </div>
+          </div>
+        </article>
+
+        <article className={styles.card}>
+          <h2>Room Acoustics</h2>
+          <p className={styles.subtle}>
+            Reverb time {reverbTime.low.toFixed(2)} / {reverbTime.mid.toFixed(2)} / {reverbTime.high.toFixed(2)} s
+            (250 Hz / 1 kHz / 4 kHz), recomputed as obstacles change.
+          </p>
+
+          <div className={styles.toggleGrid}>
+            <label>
+              <input
+                type="checkbox"
+                checked={roomSettings.earlyReflections}
+                onChange={(event) => updateRoomSettings({ earlyReflections: event.target.checked })}
+              />
+              Early reflections
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={roomSettings.lateReverb}
+                onChange={(event) => updateRoomSettings({ lateReverb: event.target.checked })}
+              />
+              Late reverb
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={roomSettings.reflectionsOnly}
+                onChange={(event) => updateRoomSettings({ reflectionsOnly: event.target.checked })}
+              />
+              Reflections only
+            </label>
+          </div>
+
+          <div className={styles.editor}>
+            <label className={styles.field}>
+              <span>Wet / Dry {(roomSettings.wetDry * 100).toFixed(0)}% wet</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={roomSettings.wetDry}
+                disabled={roomSettings.reflectionsOnly}
+                onChange={(event) => updateRoomSettings({ wetDry: Number(event.target.value) })}
+              />
+            </label>
+            <div className={styles.inlineGrid}>
+              <label className={styles.field}>
+                <span>Reflection Order</span>
+                <select
+                  value={roomSettings.reflectionOrder}
                   onChange={(event) =>
-                    updateWall(selectedWall.id, { height: Number(event.target.value) })
+                    updateRoomSettings({ reflectionOrder: Number(event.target.value) === 1 ? 1 : 2 })
                   }
+                >
+                  <option value={1}>First order</option>
+                  <option value={2}>Second order</option>
+                </select>
+              </label>
+              <label className={styles.field}>
+                <span>Edge Absorption {roomSettings.boundaryAbsorption.toFixed(2)}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={roomSettings.boundaryAbsorption}
+                  onChange={(event) => updateRoomSettings({ boundaryAbsorption: Number(event.target.value) })}
                 />
               </label>
             </div>
-          ) : null}
+          </div>
+        </article>
+
+        <article className={styles.card}>
+          <h2>Scene</h2>
+          <p className={styles.subtle}>
+            The layout autosaves in this browser. Export it as JSON, or save it to the shared library for the team.
+          </p>
+          <label className={styles.field}>
+            <span>Scene Name</span>
+            <input value={sceneName} onChange={(event) => setSceneName(event.target.value)} />
+          </label>
+          <div className={styles.buttonRow}>
+            <button className={styles.secondaryButton} type="button" onClick={exportScene}>
+              Export Scene
+            </button>
+            <button className={styles.secondaryButton} type="button" onClick={() => importInputRef.current?.click()}>
+              Import Scene
+            </button>
+            <button className={styles.dangerButton} type="button" onClick={resetScene}>
+              Reset Scene
+            </button>
+          </div>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                void importScene(file);
+              }
+            }}
+          />
+          <SceneLibrary getScene={currentSceneDocument} onLoad={applyScene} onStatus={setStatus} />
+        </article>
+
+        <article className={styles.card} hidden={gameActive}>
+          <h2>Timeline</h2>
+          <p className={styles.subtle}>
+            Script the scene: start, stop or change emitters, move obstacles and show messages at set times or when the
+            listener enters a region, nears an emitter or bumps into something. Events are saved with the scene.
+          </p>
+          <TimelinePanel
+            // A loaded scene gets a fresh panel, which stops the old timeline and forgets the world it would reset to.
+            key={sceneLoads}
+            simulation={simulation}
+            events={timeline}
+            listener={listener}
+            emitters={withoutPeers(emitters)}
+            zones={collisionZones}
+            walls={walls}
+            disabled={gameActive || replayActive}
+            onChange={setTimeline}
+            onStatus={setStatus}
+          />
+        </article>
+
+        <article className={styles.card}>
+          <h2>Shared World</h2>
+          <p className={styles.subtle}>
+            Join a room on the relay (<code>npm run relay</code>) to edit one world together from several machines and
+            hear the other listeners. A trainer can follow and steer the room from{" "}
+            <Link href="/trainer">/trainer</Link>.
+          </p>
+          <SharedWorldPanel
+            simulation={simulation}
+            disabled={gameActive || replayActive}
+            getReport={sessionReport}
+            onCommand={applyTrainerCommand}
+            onWatchedChange={onTrainerWatching}
+            onStatus={setStatus}
+          />
+        </article>
+
+        <article className={styles.card}>
+          <h2>Session Log</h2>
+          <p className={styles.subtle}>
+            Log listener pose, emitter audibility, collisions and actions for a participant. Export or upload the log.
+          </p>
+          <SessionLogPanel
+            simulation={simulation}
+            getScene={currentSceneContent}
+            onLoggerChange={setSessionLogger}
+            onStatus={setStatus}
+          />
+        </article>
+
+        <article className={styles.card}>
+          <h2>Session Replay</h2>
+          <p className={styles.subtle}>
+            Record movement and edits, then replay or scrub the session exactly. Recordings download as JSON.
+          </p>
+          <SessionReplayPanel
+            simulation={simulation}
+            audioRunning={audioRunning}
+            onReplayChange={setReplayActive}
+            onStatus={setStatus}
+          />
+        </article>
+
+        <article className={styles.card}>
+          <h2>Localization Task</h2>
+          <p className={styles.subtle}>
+            Hide the map and play one randomly placed sound per trial. Scores angular error, front/back confusions and
+            response time per block.
+          </p>
+          {gameActive ? (
+            <p className={styles.status}>
+              {localization
+                ? "Task running. Answer on the compass in place of the map."
+                : "Finish the challenge first."}
+            </p>
+          ) : (
+            <LocalizationSetup
+              audioRunning={audioRunning}
+              onStart={(config) => {
+                setLocalization(config);
+                logAction("localization-start", `${config.blocks} x ${config.trialsPerBlock} trials`);
+              }}
+            />
+          )}
+        </article>
+
+        <article className={styles.card}>
+          <h2>Navigation Challenge</h2>
+          <p className={styles.subtle}>
+            Hide the map and walk to a goal by sound alone. Tracks time, distance against the shortest path and
+            collisions across a series of levels.
+          </p>
+          {gameActive ? (
+            <p className={styles.status}>
+              {navigationLevel !== null ? "Challenge running in place of the map." : "Finish the task first."}
+            </p>
+          ) : (
+            <NavigationSetup
+              audioRunning={audioRunning}
+              onStart={(levelIndex) => {
+                setNavigationLevel(levelIndex);
+                logAction("navigation-begin", `level ${levelIndex + 1}`);
+              }}
+            />
+          )}
+        </article>
+
+        <article className={styles.card}>
+          <h2>Offline Render</h2>
+          <p className={styles.subtle}>
+            Script a walk by placing the listener and adding keyframes, then render it to a binaural, speaker or
+            AmbiX WAV file.
+          </p>
+          <OfflineRenderPanel
+            listener={listener}
+            getScene={currentSceneContent}
+            loadSample={loadOfflineSample}
+            hrtf={usesHrtf(spatialMode, ambisonicSettings) ? hrtfSelection.set : null}
+            ambisonics={spatialMode === "ambisonics" ? ambisonicSettings : null}
+            onStatus={setStatus}
+          />
         </article>
       </div>
 
       <div className={styles.worldGrid}>
-        <article className={styles.card}>
+        {localization ? (
+          <article className={styles.card}>
+            <h2>Localization Task</h2>
+            <LocalizationTask
+              simulation={simulation}
+              config={localization}
+              headingDeg={listener.headingDeg}
+              onAction={logAction}
+              onExit={() => {
+                setLocalization(null);
+                logAction("localization-end");
+              }}
+            />
+          </article>
+        ) : null}
+
+        {navigationLevel !== null ? (
+          <article className={styles.card}>
+            <h2>Navigation Challenge</h2>
+            <NavigationChallenge
+              simulation={simulation}
+              startLevel={navigationLevel}
+              onAction={logAction}
+              onCue={playFeedbackCue}
+              onExit={() => {
+                setNavigationLevel(null);
+                logAction("navigation-end");
+              }}
+            />
+          </article>
+        ) : null}
+
+        <article className={styles.card} hidden={gameActive}>
           <h2>Digital World</h2>
-          <p className={styles.subtle}>Drag emitters or obstacles directly on the map. Double-click to add emitter.</p>
+          <p className={styles.subtle}>
+            {drawingPath
+              ? `Click to add waypoints to ${selectedEmitter?.name}'s path. Drag a waypoint to move it.`
+              : "Drag emitters or obstacles directly on the map. Double-click to add emitter."}
+          </p>
           <canvas
             ref={canvasRef}
             width={CANVAS_SIZE}
             height={CANVAS_SIZE}
             className={styles.canvas}
+            role="img"
+            aria-label="Map of the world. The World Outline lists the same emitters and obstacles for keyboard use."
             onPointerDown={onCanvasPointerDown}
             onPointerMove={onCanvasPointerMove}
             onPointerUp={onCanvasPointerUp}
@@ -1119,10 +2409,11 @@ export default function SonicWorld() {
             <span className={styles.badge}>X: {listener.x.toFixed(1)}m</span>
             <span className={styles.badge}>Z: {listener.z.toFixed(1)}m</span>
             <span className={styles.badge}>Heading: {listener.headingDeg.toFixed(0)}deg</span>
+            <span className={styles.badge}>Ear: {listener.heightM.toFixed(2)}m</span>
           </div>
         </article>
 
-        <article className={styles.card}>
+        <article className={styles.card} hidden={gameActive}>
           <h2>Emitter Editor</h2>
           <div className={styles.emitterList}>
             {emitters.map((emitter) => (
@@ -1134,27 +2425,202 @@ export default function SonicWorld() {
               >
                 <p>{emitter.name}</p>
                 <small>
-                  ({emitter.x.toFixed(1)}, {emitter.z.toFixed(1)}) {emitter.frequency.toFixed(0)} Hz
+                  ({emitter.x.toFixed(1)}, {emitter.z.toFixed(1)}) {emitterSourceLabel(emitter, sampleAssets)}
                 </small>
               </button>
             ))}
           </div>
 
+          <ElevationView
+            listener={listener}
+            emitters={emitters}
+            selectedEmitterId={selectedEmitterId}
+            onSelectEmitter={setSelectedEmitterId}
+            onEmitterHeight={(id, y) => updateEmitter(id, { y })}
+            onListenerHeight={(heightM) => updateListener({ heightM })}
+          />
+
           {selectedEmitter ? (
             <div className={styles.editor}>
-              <label className={styles.field}>
-                <span>Frequency {selectedEmitter.frequency.toFixed(0)} Hz</span>
-                <input
-                  type="range"
-                  min={180}
-                  max={1600}
-                  step={1}
-                  value={selectedEmitter.frequency}
-                  onChange={(event) =>
-                    updateEmitter(selectedEmitter.id, { frequency: Number(event.target.value) })
-                  }
+              <div className={styles.inlineGrid}>
+                <label className={styles.field}>
+                  <span>Source</span>
+                  <select
+                    value={selectedEmitter.source.kind}
+                    onChange={(event) => changeEmitterSource(selectedEmitter.id, event.target.value as SourceKind)}
+                  >
+                    {SOURCE_OPTIONS.map((option) => (
+                      <option key={option.kind} value={option.kind}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                {sourceUsesCarrier(selectedEmitter.source) ? (
+                  <label className={styles.field}>
+                    <span>Waveform</span>
+                    <select
+                      value={selectedEmitter.waveform}
+                      onChange={(event) =>
+                        updateEmitter(selectedEmitter.id, { waveform: event.target.value as OscillatorType })
+                      }
+                    >
+                      {WAVEFORMS.map((wave) => (
+                        <option key={wave} value={wave}>
+                          {wave}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+              </div>
+
+              {sourceUsesPitch(selectedEmitter.source) ? (
+                <label className={styles.field}>
+                  <span>Frequency {selectedEmitter.frequency.toFixed(0)} Hz</span>
+                  <input
+                    type="range"
+                    min={180}
+                    max={1600}
+                    step={1}
+                    value={selectedEmitter.frequency}
+                    onChange={(event) =>
+                      updateEmitter(selectedEmitter.id, { frequency: Number(event.target.value) })
+                    }
+                  />
+                </label>
+              ) : null}
+
+              {isProceduralSource(selectedEmitter.source) ? (
+                <SourceEditor
+                  source={selectedEmitter.source}
+                  onChange={(source) => updateEmitter(selectedEmitter.id, { source })}
                 />
-              </label>
+              ) : null}
+
+              {selectedSample ? (
+                <>
+                  <label className={styles.field}>
+                    <span>Sample</span>
+                    <select
+                      value={selectedSample.sampleId}
+                      onChange={(event) =>
+                        updateEmitter(selectedEmitter.id, {
+                          source: { ...selectedSample, sampleId: event.target.value, startOffsetSec: 0 }
+                        })
+                      }
+                    >
+                      {sampleAssets.some((asset) => asset.id === selectedSample.sampleId) ? null : (
+                        <option value={selectedSample.sampleId}>{selectedSample.sampleId} (missing)</option>
+                      )}
+                      {sampleAssets.map((asset) => (
+                        <option key={asset.id} value={asset.id}>
+                          {asset.name}
+                          {asset.origin === "upload" ? " (uploaded)" : ""}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <div className={styles.buttonRow}>
+                    <button
+                      className={styles.secondaryButton}
+                      type="button"
+                      onClick={() => sampleInputRef.current?.click()}
+                    >
+                      Upload Sample
+                    </button>
+                    <button
+                      className={styles.secondaryButton}
+                      type="button"
+                      onClick={() => triggerEmitter(selectedEmitter)}
+                      disabled={!audioRunning}
+                    >
+                      Trigger
+                    </button>
+                  </div>
+                  <input
+                    ref={sampleInputRef}
+                    type="file"
+                    accept="audio/*"
+                    hidden
+                    onChange={(event) => {
+                      const file = event.target.files?.[0];
+                      event.target.value = "";
+                      if (file) {
+                        void uploadSample(selectedEmitter.id, file);
+                      }
+                    }}
+                  />
+
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={selectedSample.loop}
+                      onChange={(event) =>
+                        updateEmitter(selectedEmitter.id, { source: { ...selectedSample, loop: event.target.checked } })
+                      }
+                    />
+                    Loop
+                  </label>
+
+                  <label className={styles.field}>
+                    <span>Start Offset {selectedSample.startOffsetSec.toFixed(2)} s</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={selectedSampleDuration}
+                      step={0.01}
+                      value={Math.min(selectedSample.startOffsetSec, selectedSampleDuration)}
+                      onChange={(event) =>
+                        updateEmitter(selectedEmitter.id, {
+                          source: { ...selectedSample, startOffsetSec: Number(event.target.value) }
+                        })
+                      }
+                    />
+                  </label>
+
+                  <label className={styles.field}>
+                    <span>Playback Rate {selectedSample.playbackRate.toFixed(2)}x</span>
+                    <input
+                      type="range"
+                      min={MIN_PLAYBACK_RATE}
+                      max={MAX_PLAYBACK_RATE}
+                      step={0.01}
+                      value={selectedSample.playbackRate}
+                      onChange={(event) =>
+                        updateEmitter(selectedEmitter.id, {
+                          source: { ...selectedSample, playbackRate: Number(event.target.value) }
+                        })
+                      }
+                    />
+                  </label>
+
+                  {selectedSample.loop ? null : (
+                    <label className={styles.field}>
+                      <span>
+                        Retrigger{" "}
+                        {selectedSample.retriggerSec > 0
+                          ? `every ${selectedSample.retriggerSec.toFixed(1)} s`
+                          : "off (one-shot)"}
+                      </span>
+                      <input
+                        type="range"
+                        min={0}
+                        max={MAX_RETRIGGER_SEC}
+                        step={0.5}
+                        value={selectedSample.retriggerSec}
+                        onChange={(event) =>
+                          updateEmitter(selectedEmitter.id, {
+                            source: { ...selectedSample, retriggerSec: Number(event.target.value) }
+                          })
+                        }
+                      />
+                    </label>
+                  )}
+                </>
+              ) : null}
 
               <label className={styles.field}>
                 <span>Loudness {selectedEmitter.gain.toFixed(2)}</span>
@@ -1169,33 +2635,17 @@ export default function SonicWorld() {
               </label>
 
               <label className={styles.field}>
-                <span>Elevation {selectedEmitter.y.toFixed(1)} m</span>
+                <span>Height {selectedEmitter.y.toFixed(2)} m</span>
                 <input
                   type="range"
-                  min={-2}
-                  max={2}
-                  step={0.1}
+                  min={0}
+                  max={MAX_EMITTER_HEIGHT_M}
+                  step={0.05}
                   value={selectedEmitter.y}
                   onChange={(event) => updateEmitter(selectedEmitter.id, { y: Number(event.target.value) })}
                 />
               </label>
 
-              <label className={styles.field}>
-                <span>Waveform</span>
-                <select
-                  value={selectedEmitter.waveform}
-                  onChange={(event) =>
-                    updateEmitter(selectedEmitter.id, { waveform: event.target.value as OscillatorType })
-                  }
-                >
-                  {WAVEFORMS.map((wave) => (
-                    <option key={wave} value={wave}>
-                      {wave}
-                    </option>
-                  ))}
-                </select>
-              </label>
-
               <label>
                 <input
                   type="checkbox"
@@ -1205,6 +2655,19 @@ export default function SonicWorld() {
                 Moving emitter
               </label>
 
+              {selectedEmitter.moving ? (
+                <MotionEditor
+                  emitter={selectedEmitter}
+                  listener={listener}
+                  drawing={drawingPath}
+                  onDrawingChange={(drawing) => {
+                    setDrawingOutline(null);
+                    setDrawingPathId(drawing ? selectedEmitter.id : null);
+                  }}
+                  onChange={(patch) => updateEmitter(selectedEmitter.id, patch)}
+                />
+              ) : null}
+
               <button className={styles.dangerButton} type="button" onClick={() => removeEmitter(selectedEmitter.id)}>
                 Remove Selected
               </button>
@@ -0,0 +1,150 @@
+import { NOISE_COLORS, PATTERN_STEPS_PATTERN, SOURCE_LIMITS } from "../lib/sources";
+import type { NoiseColor, ProceduralSource } from "../lib/world";
+import styles from "./sonic-world.module.css";
+
+type SourceEditorProps = {
+  source: ProceduralSource;
+  onChange: (source: ProceduralSource) => void;
+};
+
+type RangeFieldProps = {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+};
+
+export function RangeField({ label, value, min, max, step, onChange }: RangeFieldProps) {
+  return (
+    <label className={styles.field}>
+      <span>{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+      />
+    </label>
+  );
+}
+
+export default function SourceEditor({ source, onChange }: SourceEditorProps) {
+  switch (source.kind) {
+    case "noise":
+      return (
+        <label className={styles.field}>
+          <span>Noise Color</span>
+          <select
+            value={source.color}
+            onChange={(event) => onChange({ ...source, color: event.target.value as NoiseColor })}
+          >
+            {NOISE_COLORS.map((color) => (
+              <option key={color} value={color}>
+                {color}
+              </option>
+            ))}
+          </select>
+        </label>
+      );
+    case "bandNoise":
+      return (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Center ${source.centerHz.toFixed(0)} Hz`}
+            value={source.centerHz}
+            {...SOURCE_LIMITS.bandCenterHz}
+            step={10}
+            onChange={(centerHz) => onChange({ ...source, centerHz })}
+          />
+          <RangeField
+            label={`Bandwidth ${source.bandwidthOct.toFixed(1)} oct`}
+            value={source.bandwidthOct}
+            {...SOURCE_LIMITS.bandwidthOct}
+            step={0.1}
+            onChange={(bandwidthOct) => onChange({ ...source, bandwidthOct })}
+          />
+        </div>
+      );
+    case "pulse":
+      return (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Pulse Rate ${source.rateHz.toFixed(1)} Hz`}
+            value={source.rateHz}
+            {...SOURCE_LIMITS.pulseRateHz}
+            step={0.5}
+            onChange={(rateHz) => onChange({ ...source, rateHz })}
+          />
+          <RangeField
+            label={`Duty Cycle ${(source.duty * 100).toFixed(0)}%`}
+            value={source.duty}
+            {...SOURCE_LIMITS.duty}
+            step={0.05}
+            onChange={(duty) => onChange({ ...source, duty })}
+          />
+        </div>
+      );
+    case "chirp":
+      return (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Start ${source.startHz.toFixed(0)} Hz`}
+            value={source.startHz}
+            {...SOURCE_LIMITS.chirpHz}
+            step={10}
+            onChange={(startHz) => onChange({ ...source, startHz })}
+          />
+          <RangeField
+            label={`End ${source.endHz.toFixed(0)} Hz`}
+            value={source.endHz}
+            {...SOURCE_LIMITS.chirpHz}
+            step={10}
+            onChange={(endHz) => onChange({ ...source, endHz })}
+          />
+          <RangeField
+            label={`Sweep ${(source.sweepSec * 1000).toFixed(0)} ms`}
+            value={source.sweepSec}
+            {...SOURCE_LIMITS.sweepSec}
+            step={0.01}
+            onChange={(sweepSec) => onChange({ ...source, sweepSec })}
+          />
+          <RangeField
+            label={`Repeat ${source.intervalSec.toFixed(2)} s`}
+            value={source.intervalSec}
+            {...SOURCE_LIMITS.intervalSec}
+            step={0.05}
+            onChange={(intervalSec) => onChange({ ...source, intervalSec })}
+          />
+        </div>
+      );
+    case "pattern":
+      return (
+        <div className={styles.inlineGrid}>
+          <label className={styles.field}>
+            <span>Steps (x = hit, . = rest)</span>
+            <input
+              value={source.steps}
+              maxLength={32}
+              onChange={(event) => {
+                const steps = event.target.value.toLowerCase();
+                if (PATTERN_STEPS_PATTERN.test(steps)) {
+                  onChange({ ...source, steps });
+                }
+              }}
+            />
+          </label>
+          <RangeField
+            label={`Tempo ${source.bpm.toFixed(0)} bpm`}
+            value={source.bpm}
+            {...SOURCE_LIMITS.bpm}
+            step={1}
+            onChange={(bpm) => onChange({ ...source, bpm })}
+          />
+        </div>
+      );
+  }
+}
@@ -0,0 +1,645 @@
+import { useEffect, useRef, useState, type MouseEvent as ReactMouseEvent } from "react";
+import { wallLabel } from "../lib/narration";
+import { WAVEFORM_VALUES, nextIdCounter } from "../lib/scene";
+import type { Simulation, WorldState } from "../lib/simulation";
+import {
+  ACTION_OPTIONS,
+  MAX_STATUS_LENGTH,
+  TIMELINE_LIMITS,
+  TRIGGER_OPTIONS,
+  defaultAction,
+  defaultTrigger,
+  startTimeline,
+  type ActionKind,
+  type TimelineAction,
+  type TimelineDefaults,
+  type TimelineEvent,
+  type TimelineRunner,
+  type TimelineTrigger,
+  type TriggerKind
+} from "../lib/timeline";
+import type { CollisionZone, ListenerPose, SoundEmitter, Wall } from "../lib/world";
+import { RangeField } from "./SourceEditor";
+import styles from "./sonic-world.module.css";
+
+type TimelinePanelProps = {
+  simulation: Simulation;
+  events: TimelineEvent[];
+  listener: ListenerPose;
+  emitters: SoundEmitter[];
+  zones: CollisionZone[];
+  walls: Wall[];
+  // Tasks, challenges and replays drive the world themselves, so a running timeline stops for them.
+  disabled: boolean;
+  onChange: (events: TimelineEvent[]) => void;
+  onStatus: (message: string) => void;
+};
+
+const TRACK_WIDTH = 600;
+const TRACK_HEIGHT = 56;
+const TRACK_PAD = 16;
+const MIN_TRACK_SPAN_SEC = 60;
+const ELAPSED_POLL_MS = 200;
+
+type Names = {
+  emitter: (id: string) => string;
+  obstacle: (id: string | null) => string;
+};
+
+function describeTrigger(trigger: TimelineTrigger, names: Names): string {
+  switch (trigger.kind) {
+    case "time":
+      return `At ${trigger.atSec.toFixed(1)} s`;
+    case "region":
+      return `Entering ${trigger.radiusM.toFixed(1)} m around (${trigger.x.toFixed(1)}, ${trigger.z.toFixed(1)})`;
+    case "proximity":
+      return `Within ${trigger.distanceM.toFixed(1)} m of ${names.emitter(trigger.emitterId)}`;
+    case "collision":
+      return `Bumping into ${names.obstacle(trigger.obstacleId)}`;
+  }
+}
+
+type EmitterSelectProps = {
+  value: string;
+  emitters: SoundEmitter[];
+  onChange: (emitterId: string) => void;
+};
+
+function EmitterSelect({ value, emitters, onChange }: EmitterSelectProps) {
+  return (
+    <label className={styles.field}>
+      <span>Emitter</span>
+      <select value={value} onChange={(event) => onChange(event.target.value)}>
+        {emitters.some((emitter) => emitter.id === value) ? null : <option value={value}>{value} (missing)</option>}
+        {emitters.map((emitter) => (
+          <option key={emitter.id} value={emitter.id}>
+            {emitter.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+type ObstacleSelectProps = {
+  value: string | null;
+  zones: CollisionZone[];
+  walls: Wall[];
+  anyLabel?: string;
+  onChange: (obstacleId: string | null) => void;
+};
+
+function ObstacleSelect({ value, zones, walls, anyLabel, onChange }: ObstacleSelectProps) {
+  const known = zones.some((zone) => zone.id === value) || walls.some((wall) => wall.id === value);
+  return (
+    <label className={styles.field}>
+      <span>Obstacle</span>
+      <select value={value ?? ""} onChange={(event) => onChange(event.target.value || null)}>
+        {anyLabel ? <option value="">{anyLabel}</option> : null}
+        {value !== null && !known ? <option value={value}>{value} (missing)</option> : null}
+        {zones.map((zone) => (
+          <option key={zone.id} value={zone.id}>
+            {zone.label}
+          </option>
+        ))}
+        {walls.map((wall) => (
+          <option key={wall.id} value={wall.id}>
+            {wallLabel(wall)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+type ActionFieldsProps = {
+  action: TimelineAction;
+  listener: ListenerPose;
+  emitters: SoundEmitter[];
+  zones: CollisionZone[];
+  walls: Wall[];
+  onChange: (action: TimelineAction) => void;
+};
+
+function ActionFields({ action, listener, emitters, zones, walls, onChange }: ActionFieldsProps) {
+  switch (action.kind) {
+    case "status":
+      return (
+        <label className={styles.field}>
+          <span>Message</span>
+          <input
+            value={action.message}
+            maxLength={MAX_STATUS_LENGTH}
+            onChange={(event) => onChange({ ...action, message: event.target.value })}
+          />
+        </label>
+      );
+    case "moveObstacle":
+      return (
+        <>
+          <ObstacleSelect
+            value={action.obstacleId}
+            zones={zones}
+            walls={walls}
+            onChange={(obstacleId) => obstacleId && onChange({ ...action, obstacleId })}
+          />
+          <div className={styles.buttonRow}>
+            <span className={styles.badge}>
+              To ({action.x.toFixed(1)}, {action.z.toFixed(1)})
+            </span>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              onClick={() => onChange({ ...action, x: listener.x, z: listener.z })}
+            >
+              Use Listener Position
+            </button>
+          </div>
+        </>
+      );
+    case "door": {
+      const doors = walls.filter((wall) => wall.door);
+      return (
+        <div className={styles.inlineGrid}>
+          <label className={styles.field}>
+            <span>Door</span>
+            <select value={action.wallId} onChange={(event) => onChange({ ...action, wallId: event.target.value })}>
+              {doors.some((wall) => wall.id === action.wallId) ? null : (
+                <option value={action.wallId}>{action.wallId || "none"} (missing)</option>
+              )}
+              {doors.map((wall) => (
+                <option key={wall.id} value={wall.id}>
+                  {wallLabel(wall)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span>Door becomes</span>
+            <select
+              value={action.open ? "open" : "closed"}
+              onChange={(event) => onChange({ ...action, open: event.target.value === "open" })}
+            >
+              <option value="open">Open</option>
+              <option value="closed">Closed</option>
+            </select>
+          </label>
+        </div>
+      );
+    }
+  }
+
+  const emitter = (
+    <EmitterSelect
+      value={action.emitterId}
+      emitters={emitters}
+      onChange={(emitterId) => onChange({ ...action, emitterId })}
+    />
+  );
+  switch (action.kind) {
+    case "stopEmitter":
+      return emitter;
+    case "startEmitter":
+    case "gain":
+      return (
+        <div className={styles.inlineGrid}>
+          {emitter}
+          <RangeField
+            label={`Loudness ${action.gain.toFixed(2)}`}
+            value={action.gain}
+            min={0}
+            max={0.3}
+            step={0.01}
+            onChange={(gain) => onChange({ ...action, gain })}
+          />
+        </div>
+      );
+    case "frequency":
+      return (
+        <div className={styles.inlineGrid}>
+          {emitter}
+          <RangeField
+            label={`Frequency ${action.frequency.toFixed(0)} Hz`}
+            value={action.frequency}
+            min={180}
+            max={1600}
+            step={1}
+            onChange={(frequency) => onChange({ ...action, frequency })}
+          />
+        </div>
+      );
+    case "waveform":
+      return (
+        <div className={styles.inlineGrid}>
+          {emitter}
+          <label className={styles.field}>
+            <span>Waveform</span>
+            <select
+              value={action.waveform}
+              onChange={(event) => onChange({ ...action, waveform: event.target.value as OscillatorType })}
+            >
+              {WAVEFORM_VALUES.map((wave) => (
+                <option key={wave} value={wave}>
+                  {wave}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      );
+  }
+}
+
+export default function TimelinePanel({
+  simulation,
+  events,
+  listener,
+  emitters,
+  zones,
+  walls,
+  disabled,
+  onChange,
+  onStatus
+}: TimelinePanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [elapsedSec, setElapsedSec] = useState(0);
+  const [fired, setFired] = useState<Record<string, number>>({});
+  // The world as it was when the timeline started, for Stop and Reset.
+  const [snapshot, setSnapshot] = useState<WorldState | null>(null);
+  const runnerRef = useRef<TimelineRunner | null>(null);
+
+  const selected = events.find((event) => event.id === selectedId) ?? events[0] ?? null;
+  const defaults: TimelineDefaults = {
+    x: listener.x,
+    z: listener.z,
+    emitterId: emitters[0]?.id ?? "",
+    obstacleId: zones[0]?.id ?? walls[0]?.id ?? "",
+    doorId: walls.find((wall) => wall.door)?.id ?? ""
+  };
+  const names: Names = {
+    emitter: (id) => emitters.find((emitter) => emitter.id === id)?.name ?? `${id} (missing)`,
+    obstacle: (id) => {
+      if (id === null) {
+        return "anything";
+      }
+      const zone = zones.find((candidate) => candidate.id === id);
+      const wall = walls.find((candidate) => candidate.id === id);
+      return zone?.label ?? (wall ? wallLabel(wall) : `${id} (missing)`);
+    }
+  };
+
+  const timed = events.flatMap((event) => (event.trigger.kind === "time" ? [event.trigger.atSec] : []));
+  const spanSec = Math.max(MIN_TRACK_SPAN_SEC, Math.ceil((Math.max(0, ...timed) + 10) / 10) * 10);
+  const toTrack = (sec: number) => TRACK_PAD + (sec / spanSec) * (TRACK_WIDTH - TRACK_PAD * 2);
+
+  useEffect(
+    () => () => {
+      runnerRef.current?.stop();
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (disabled && runnerRef.current) {
+      runnerRef.current.stop();
+      onStatus("Timeline stopped while the world is busy.");
+    }
+  }, [disabled, onStatus]);
+
+  useEffect(() => {
+    if (!running) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      setElapsedSec(runnerRef.current?.elapsedSec() ?? 0);
+    }, ELAPSED_POLL_MS);
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [running]);
+
+  const start = () => {
+    if (events.length === 0) {
+      onStatus("Add an event before starting the timeline.");
+      return;
+    }
+    setSnapshot(simulation.getState());
+    setFired({});
+    setElapsedSec(0);
+    setRunning(true);
+    runnerRef.current = startTimeline(simulation, events, {
+      onFire: (event) => setFired((prev) => ({ ...prev, [event.id]: (prev[event.id] ?? 0) + 1 })),
+      onStatus,
+      onStop: () => {
+        runnerRef.current = null;
+        setRunning(false);
+      }
+    });
+    onStatus(`Timeline started with ${events.length} events.`);
+  };
+
+  const stopAndReset = () => {
+    runnerRef.current?.stop();
+    if (snapshot) {
+      simulation.load(snapshot);
+      setSnapshot(null);
+    }
+    setFired({});
+    setElapsedSec(0);
+    onStatus("Timeline stopped and the world put back as it was.");
+  };
+
+  const updateEvent = (id: string, patch: Partial<TimelineEvent>) => {
+    onChange(events.map((event) => (event.id === id ? { ...event, ...patch } : event)));
+  };
+
+  const addEvent = () => {
+    const id = `event-${nextIdCounter(events, "event")}`;
+    onChange([
+      ...events,
+      { id, label: `Event ${id.split("-")[1]}`, trigger: defaultTrigger("time", defaults), actions: [], repeat: false }
+    ]);
+    setSelectedId(id);
+  };
+
+  const removeEvent = (id: string) => {
+    onChange(events.filter((event) => event.id !== id));
+    setSelectedId(null);
+  };
+
+  // Clicking the track moves the selected timed event there.
+  const onTrackClick = (event: ReactMouseEvent<SVGSVGElement>) => {
+    if (selected?.trigger.kind !== "time") {
+      return;
+    }
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * TRACK_WIDTH;
+    const sec = ((x - TRACK_PAD) / (TRACK_WIDTH - TRACK_PAD * 2)) * spanSec;
+    const atSec = Math.round(Math.min(TIMELINE_LIMITS.atSec.max, Math.max(0, sec)) * 2) / 2;
+    updateEvent(selected.id, { trigger: { kind: "time", atSec } });
+  };
+
+  const setAction = (index: number, action: TimelineAction) => {
+    if (selected) {
+      updateEvent(selected.id, { actions: selected.actions.map((item, at) => (at === index ? action : item)) });
+    }
+  };
+
+  return (
+    <div className={styles.editor}>
+      <div className={styles.buttonRow}>
+        <button
+          className={running ? styles.dangerButton : styles.primaryButton}
+          type="button"
+          disabled={disabled && !running}
+          onClick={running ? () => runnerRef.current?.stop() : start}
+        >
+          {running ? "Stop Timeline" : "Start Timeline"}
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          disabled={disabled || snapshot === null}
+          onClick={stopAndReset}
+        >
+          Stop and Reset
+        </button>
+        <span className={styles.badge}>{running ? `${elapsedSec.toFixed(1)} s` : "Stopped"}</span>
+      </div>
+
+      <svg
+        className={styles.timelineTrack}
+        viewBox={`0 0 ${TRACK_WIDTH} ${TRACK_HEIGHT}`}
+        role="img"
+        aria-label={`Timed events over ${spanSec} seconds. The event list below has every event.`}
+        onClick={onTrackClick}
+      >
+        <line x1={toTrack(0)} y1={30} x2={toTrack(spanSec)} y2={30} stroke="#7fa3ad" strokeWidth={2} />
+        {Array.from({ length: spanSec / 10 + 1 }, (_, tick) => (
+          <g key={tick}>
+            <line x1={toTrack(tick * 10)} y1={25} x2={toTrack(tick * 10)} y2={35} stroke="#a8c5ce" />
+            <text x={toTrack(tick * 10)} y={52} fontSize={10} textAnchor="middle" fill="#4f6d74">
+              {tick % 2 === 0 ? `${tick * 10}s` : ""}
+            </text>
+          </g>
+        ))}
+        {events.map((event) =>
+          event.trigger.kind === "time" ? (
+            <circle
+              key={event.id}
+              cx={toTrack(event.trigger.atSec)}
+              cy={30}
+              r={event.id === selected?.id ? 8 : 6}
+              fill={fired[event.id] ? "#0e7e73" : "#ffffff"}
+              stroke={event.id === selected?.id ? "#d49a00" : "#0e7e73"}
+              strokeWidth={2}
+              onClick={(click) => {
+                click.stopPropagation();
+                setSelectedId(event.id);
+              }}
+            >
+              <title>{event.label}</title>
+            </circle>
+          ) : null
+        )}
+        {running ? (
+          <line
+            x1={toTrack(Math.min(elapsedSec, spanSec))}
+            y1={12}
+            x2={toTrack(Math.min(elapsedSec, spanSec))}
+            y2={40}
+            stroke="#c74e27"
+            strokeWidth={2}
+          />
+        ) : null}
+      </svg>
+
+      <div className={styles.emitterList}>
+        {events.map((event) => (
+          <button
+            key={event.id}
+            className={`${styles.emitterCard} ${event.id === selected?.id ? styles.activeEmitter : ""}`}
+            type="button"
+            onClick={() => setSelectedId(event.id)}
+          >
+            <p>{event.label}</p>
+            <small>
+              {describeTrigger(event.trigger, names)}, {event.actions.length} actions
+              {fired[event.id] ? `, fired ${fired[event.id]}x` : ""}
+            </small>
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.buttonRow}>
+        <button className={styles.secondaryButton} type="button" onClick={addEvent}>
+          Add Event
+        </button>
+      </div>
+
+      {selected ? (
+        <div className={styles.editor}>
+          <label className={styles.field}>
+            <span>Event Name</span>
+            <input
+              value={selected.label}
+              maxLength={60}
+              onChange={(event) => updateEvent(selected.id, { label: event.target.value })}
+            />
+          </label>
+
+          <label className={styles.field}>
+            <span>Trigger</span>
+            <select
+              value={selected.trigger.kind}
+              onChange={(event) =>
+                updateEvent(selected.id, { trigger: defaultTrigger(event.target.value as TriggerKind, defaults) })
+              }
+            >
+              {TRIGGER_OPTIONS.map((option) => (
+                <option key={option.kind} value={option.kind}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {selected.trigger.kind === "time" ? (
+            <RangeField
+              label={`At ${selected.trigger.atSec.toFixed(1)} s`}
+              value={selected.trigger.atSec}
+              {...TIMELINE_LIMITS.atSec}
+              step={0.5}
+              onChange={(atSec) => updateEvent(selected.id, { trigger: { kind: "time", atSec } })}
+            />
+          ) : null}
+          {selected.trigger.kind === "region" ? (
+            <>
+              <RangeField
+                label={`Region Radius ${selected.trigger.radiusM.toFixed(1)} m`}
+                value={selected.trigger.radiusM}
+                {...TIMELINE_LIMITS.regionRadiusM}
+                step={0.1}
+                onChange={(radiusM) =>
+                  selected.trigger.kind === "region" &&
+                  updateEvent(selected.id, { trigger: { ...selected.trigger, radiusM } })
+                }
+              />
+              <div className={styles.buttonRow}>
+                <span className={styles.badge}>
+                  Center ({selected.trigger.x.toFixed(1)}, {selected.trigger.z.toFixed(1)})
+                </span>
+                <button
+                  className={styles.secondaryButton}
+                  type="button"
+                  onClick={() =>
+                    selected.trigger.kind === "region" &&
+                    updateEvent(selected.id, { trigger: { ...selected.trigger, x: listener.x, z: listener.z } })
+                  }
+                >
+                  Center on Listener
+                </button>
+              </div>
+            </>
+          ) : null}
+          {selected.trigger.kind === "proximity" ? (
+            <div className={styles.inlineGrid}>
+              <EmitterSelect
+                value={selected.trigger.emitterId}
+                emitters={emitters}
+                onChange={(emitterId) =>
+                  selected.trigger.kind === "proximity" &&
+                  updateEvent(selected.id, { trigger: { ...selected.trigger, emitterId } })
+                }
+              />
+              <RangeField
+                label={`Within ${selected.trigger.distanceM.toFixed(1)} m`}
+                value={selected.trigger.distanceM}
+                {...TIMELINE_LIMITS.proximityM}
+                step={0.1}
+                onChange={(distanceM) =>
+                  selected.trigger.kind === "proximity" &&
+                  updateEvent(selected.id, { trigger: { ...selected.trigger, distanceM } })
+                }
+              />
+            </div>
+          ) : null}
+          {selected.trigger.kind === "collision" ? (
+            <ObstacleSelect
+              value={selected.trigger.obstacleId}
+              zones={zones}
+              walls={walls}
+              anyLabel="Anything, including the world edge"
+              onChange={(obstacleId) => updateEvent(selected.id, { trigger: { kind: "collision", obstacleId } })}
+            />
+          ) : null}
+
+          <label>
+            <input
+              type="checkbox"
+              checked={selected.repeat}
+              disabled={selected.trigger.kind === "time"}
+              onChange={(event) => updateEvent(selected.id, { repeat: event.target.checked })}
+            />
+            Fire every time the trigger happens
+          </label>
+
+          {selected.actions.map((action, index) => (
+            <div key={index} className={styles.editor}>
+              <div className={styles.inlineGrid}>
+                <label className={styles.field}>
+                  <span>Action {index + 1}</span>
+                  <select
+                    value={action.kind}
+                    onChange={(event) => setAction(index, defaultAction(event.target.value as ActionKind, defaults))}
+                  >
+                    {ACTION_OPTIONS.map((option) => (
+                      <option key={option.kind} value={option.kind}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  className={styles.dangerButton}
+                  type="button"
+                  onClick={() =>
+                    updateEvent(selected.id, { actions: selected.actions.filter((_, at) => at !== index) })
+                  }
+                >
+                  Remove Action
+                </button>
+              </div>
+              <ActionFields
+                action={action}
+                listener={listener}
+                emitters={emitters}
+                zones={zones}
+                walls={walls}
+                onChange={(next) => setAction(index, next)}
+              />
+            </div>
+          ))}
+
+          <div className={styles.buttonRow}>
+            <button
+              className={styles.secondaryButton}
+              type="button"
+              onClick={() =>
+                updateEvent(selected.id, { actions: [...selected.actions, defaultAction("status", defaults)] })
+              }
+            >
+              Add Action
+            </button>
+            <button className={styles.dangerButton} type="button" onClick={() => removeEvent(selected.id)}>
+              Remove Event
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className={styles.subtle}>No events yet.</p>
+      )}
+    </div>
+  );
+}
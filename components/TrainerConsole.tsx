@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import { parseSceneJson, SceneValidationError, type SceneDocument } from "../lib/scene";
+import { fetchLibraryScene, fetchSceneLibrary } from "../lib/sceneClient";
+import type { SceneSummary } from "../lib/sceneStore";
+import {
+  RELAY_PORT,
+  defaultRelayUrl,
+  joinSharedWorld,
+  type SharedPeer,
+  type SharedWorld
+} from "../lib/sharedWorld";
+import { createSimulation } from "../lib/simulation";
+import {
+  EMPTY_MIX,
+  parseTrainerSignal,
+  toggleInMix,
+  type SessionReport,
+  type TrainerCommand,
+  type TrainerSignal
+} from "../lib/trainer";
+import { DEFAULT_BOUNDARY, DEFAULT_HEAD, type ListenerPose } from "../lib/world";
+import TrainerMap from "./TrainerMap";
+import styles from "./sonic-world.module.css";
+
+// About a minute of walking at the participant's pose rate.
+const TRAIL_POINTS = 600;
+
+// Follows a shared room as an observer: mirrors the participant's world, pose and mix, and sends commands to one
+// participant at a time so the trainer never has to touch the participant's device.
+export default function TrainerConsole() {
+  const [simulation] = useState(() =>
+    createSimulation({
+      listener: { x: 0, z: 0, headingDeg: 0, ...DEFAULT_HEAD },
+      emitters: [],
+      zones: [],
+      walls: [],
+      boundary: DEFAULT_BOUNDARY
+    })
+  );
+  const { emitters, zones, walls } = useSyncExternalStore(
+    simulation.subscribe,
+    simulation.getState,
+    simulation.getState
+  );
+
+  const [relayUrl, setRelayUrl] = useState("");
+  const [room, setRoom] = useState("training");
+  const [trainerCode, setTrainerCode] = useState("");
+  const [connected, setConnected] = useState(false);
+  const [peers, setPeers] = useState<SharedPeer[]>([]);
+  const [targetId, setTargetId] = useState("");
+  const [poses, setPoses] = useState<Record<string, ListenerPose>>({});
+  const [trails, setTrails] = useState<Record<string, Array<{ x: number; z: number }>>>({});
+  const [reports, setReports] = useState<Record<string, SessionReport>>({});
+  const [scenes, setScenes] = useState<SceneSummary[]>([]);
+  const [sceneId, setSceneId] = useState("");
+  const [status, setStatus] = useState("Enter the participant's room and trainer code to follow their session.");
+  const worldRef = useRef<SharedWorld | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const participants = peers.filter((peer) => peer.role === "participant");
+  const target = participants.find((peer) => peer.clientId === targetId) ?? participants[0] ?? null;
+  const pose = target ? (poses[target.clientId] ?? null) : null;
+  const report = target ? (reports[target.clientId] ?? null) : null;
+  const mix = report?.mix ?? EMPTY_MIX;
+
+  useEffect(
+    () => () => {
+      worldRef.current?.leave();
+      worldRef.current = null;
+    },
+    []
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSceneLibrary()
+      .then((next) => {
+        if (!cancelled) {
+          setScenes(next);
+        }
+      })
+      .catch(() => {
+        // Without the library, scenes can still be pushed from a file.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const join = () => {
+    const roomName = room.trim();
+    if (!roomName) {
+      setStatus("Enter the room name the participant joined.");
+      return;
+    }
+    if (!trainerCode.trim()) {
+      setStatus("Enter the trainer code shown on the participant's screen.");
+      return;
+    }
+    const url = relayUrl.trim() || defaultRelayUrl();
+    setStatus(`Connecting to ${url}...`);
+    setConnected(true);
+    worldRef.current = joinSharedWorld(
+      simulation,
+      { url, room: roomName, name: "Trainer", role: "observer", trainerCode: trainerCode.trim() },
+      {
+        onStatus: setStatus,
+        onPeers: setPeers,
+        onClose: () => {
+          worldRef.current = null;
+          setConnected(false);
+          setPoses({});
+          setTrails({});
+          setReports({});
+        },
+        onPose: (clientId, listener) => {
+          setPoses((prev) => ({ ...prev, [clientId]: listener }));
+          setTrails((prev) => ({
+            ...prev,
+            [clientId]: [...(prev[clientId] ?? []), { x: listener.x, z: listener.z }].slice(-TRAIL_POINTS)
+          }));
+        },
+        onSignal: (from, payload) => {
+          const signal = parseTrainerSignal(payload);
+          if (signal?.type === "report") {
+            setReports((prev) => ({ ...prev, [from]: signal.report }));
+          }
+        }
+      }
+    );
+  };
+
+  const command = (next: TrainerCommand) => {
+    if (!target || !worldRef.current) {
+      setStatus("No participant is in the room.");
+      return;
+    }
+    const signal: TrainerSignal = { type: "command", command: next };
+    worldRef.current.signal(signal, target.clientId);
+  };
+
+  const pushScene = (scene: SceneDocument) => {
+    command({ kind: "scene", scene });
+    if (target) {
+      setTrails((prev) => ({ ...prev, [target.clientId]: [] }));
+      setStatus(`Sent "${scene.name}" to ${target.name}.`);
+    }
+  };
+
+  const pushLibraryScene = async () => {
+    try {
+      pushScene((await fetchLibraryScene(sceneId)).scene);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Unable to load that scene.");
+    }
+  };
+
+  const pushSceneFile = async (file: File) => {
+    try {
+      pushScene(parseSceneJson(await file.text()));
+    } catch (error) {
+      setStatus(error instanceof SceneValidationError ? error.message : "Unable to read scene file.");
+    }
+  };
+
+  return (
+    <section className={styles.wrap}>
+      <div className={styles.topRow}>
+        <article className={styles.card}>
+          <h2>Room</h2>
+          <div className={styles.editor}>
+            <label className={styles.field}>
+              <span>Relay URL</span>
+              <input
+                value={relayUrl}
+                placeholder={`ws://<this host>:${RELAY_PORT}`}
+                disabled={connected}
+                onChange={(event) => setRelayUrl(event.target.value)}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Room</span>
+              <input
+                value={room}
+                maxLength={40}
+                disabled={connected}
+                onChange={(event) => setRoom(event.target.value)}
+              />
+            </label>
+            <label className={styles.field}>
+              <span>Trainer Code</span>
+              <input
+                value={trainerCode}
+                maxLength={8}
+                autoComplete="off"
+                disabled={connected}
+                onChange={(event) => setTrainerCode(event.target.value.toUpperCase())}
+              />
+            </label>
+            <div className={styles.buttonRow}>
+              <button
+                className={connected ? styles.dangerButton : styles.primaryButton}
+                type="button"
+                onClick={connected ? () => worldRef.current?.leave() : join}
+              >
+                {connected ? "Leave Room" : "Follow Room"}
+              </button>
+            </div>
+            {connected && (
+              <label className={styles.field}>
+                <span>Participant</span>
+                <select
+                  value={target?.clientId ?? ""}
+                  disabled={participants.length === 0}
+                  onChange={(event) => setTargetId(event.target.value)}
+                >
+                  {participants.length === 0 ? <option value="">Waiting for a participant...</option> : null}
+                  {participants.map((peer) => (
+                    <option key={peer.clientId} value={peer.clientId}>
+                      {peer.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </div>
+          <p className={styles.status} role="status">
+            {status}
+          </p>
+        </article>
+
+        <article className={styles.card}>
+          <h2>Session Controls</h2>
+          <div className={styles.editor}>
+            <div className={styles.toggleGrid}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={report?.movingEnabled ?? false}
+                  disabled={!report}
+                  onChange={(event) => command({ kind: "moving", enabled: event.target.checked })}
+                />
+                Moving emitters enabled
+              </label>
+            </div>
+            <div className={styles.buttonRow}>
+              <button
+                className={styles.secondaryButton}
+                type="button"
+                disabled={!pose}
+                onClick={() => pose && command({ kind: "teleport", listener: { ...pose, x: 0, z: 0 } })}
+              >
+                Return to Center
+              </button>
+              <button
+                className={styles.secondaryButton}
+                type="button"
+                disabled={mix.muted.length === 0 && mix.soloed.length === 0}
+                onClick={() => command({ kind: "mix", mix: EMPTY_MIX })}
+              >
+                Unmute All
+              </button>
+            </div>
+            <label className={styles.field}>
+              <span>Push Scene From Library</span>
+              <select value={sceneId} onChange={(event) => setSceneId(event.target.value)}>
+                <option value="">Choose a scene...</option>
+                {scenes.map((scene) => (
+                  <option key={scene.id} value={scene.id}>
+                    {scene.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className={styles.buttonRow}>
+              <button
+                className={styles.primaryButton}
+                type="button"
+                disabled={!target || !sceneId}
+                onClick={() => void pushLibraryScene()}
+              >
+                Push Scene
+              </button>
+              <button
+                className={styles.secondaryButton}
+                type="button"
+                disabled={!target}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                Push Scene File
+              </button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = "";
+                if (file) {
+                  void pushSceneFile(file);
+                }
+              }}
+            />
+          </div>
+        </article>
+      </div>
+
+      <div className={styles.worldGrid}>
+        <article className={styles.card}>
+          <h2>Participant&apos;s World</h2>
+          <TrainerMap
+            listener={pose}
+            trail={target ? (trails[target.clientId] ?? []) : []}
+            emitters={emitters}
+            reports={report?.emitters ?? []}
+            mix={mix}
+            zones={zones}
+            walls={walls}
+            boundary={report?.boundary ?? DEFAULT_BOUNDARY}
+            onTeleport={(x, z) => pose && command({ kind: "teleport", listener: { ...pose, x, z } })}
+          />
+          <div className={styles.coordRow}>
+            <span className={styles.badge}>X: {pose ? `${pose.x.toFixed(1)}m` : "-"}</span>
+            <span className={styles.badge}>Z: {pose ? `${pose.z.toFixed(1)}m` : "-"}</span>
+            <span className={styles.badge}>Heading: {pose ? `${pose.headingDeg.toFixed(0)}deg` : "-"}</span>
+          </div>
+        </article>
+
+        <article className={styles.card}>
+          <h2>Emitters</h2>
+          <p className={styles.subtle}>
+            Muting and soloing change only what the participant hears; the scene itself is untouched.
+          </p>
+          <div className={styles.emitterList}>
+            {emitters.map((emitter) => {
+              const state = report?.emitters.find((candidate) => candidate.id === emitter.id);
+              const muted = mix.muted.includes(emitter.id);
+              const soloed = mix.soloed.includes(emitter.id);
+              return (
+                <div key={emitter.id} className={styles.emitterCard}>
+                  <p>{emitter.name}</p>
+                  <small>
+                    ({(state?.x ?? emitter.x).toFixed(1)}, {(state?.z ?? emitter.z).toFixed(1)})
+                    {state?.occluded ? " occluded" : ""}
+                  </small>
+                  <div className={styles.buttonRow}>
+                    <button
+                      className={muted ? styles.dangerButton : styles.secondaryButton}
+                      type="button"
+                      aria-pressed={muted}
+                      disabled={!report}
+                      onClick={() => command({ kind: "mix", mix: toggleInMix(mix, "muted", emitter.id) })}
+                    >
+                      {muted ? "Unmute" : "Mute"}
+                    </button>
+                    <button
+                      className={soloed ? styles.primaryButton : styles.secondaryButton}
+                      type="button"
+                      aria-pressed={soloed}
+                      disabled={!report}
+                      onClick={() => command({ kind: "mix", mix: toggleInMix(mix, "soloed", emitter.id) })}
+                    >
+                      {soloed ? "Unsolo" : "Solo"}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </article>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,140 @@
+import type { MouseEvent as ReactMouseEvent } from "react";
+import { boundaryOutline, insideBoundary, wallPieces } from "../lib/geometry";
+import { isAudible, type EmitterMix, type EmitterReport } from "../lib/trainer";
+import {
+  WORLD_RADIUS_M,
+  toRadians,
+  type CollisionZone,
+  type ListenerPose,
+  type SoundEmitter,
+  type Wall,
+  type WorldBoundary
+} from "../lib/world";
+import styles from "./sonic-world.module.css";
+
+type TrainerMapProps = {
+  listener: ListenerPose | null;
+  trail: Array<{ x: number; z: number }>;
+  emitters: SoundEmitter[];
+  reports: EmitterReport[];
+  mix: EmitterMix;
+  zones: CollisionZone[];
+  walls: Wall[];
+  // The participant's, from their report.
+  boundary: WorldBoundary;
+  onTeleport: (x: number, z: number) => void;
+};
+
+const VIEW_M = WORLD_RADIUS_M + 1;
+const HEADING_LENGTH_M = 1.4;
+
+// Top-down view in world meters, north up. Clicking anywhere inside the world moves the participant there.
+export default function TrainerMap({
+  listener,
+  trail,
+  emitters,
+  reports,
+  mix,
+  zones,
+  walls,
+  boundary,
+  onTeleport
+}: TrainerMapProps) {
+  const onClick = (event: ReactMouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * 2 * VIEW_M - VIEW_M;
+    const z = ((event.clientY - bounds.top) / bounds.height) * 2 * VIEW_M - VIEW_M;
+    if (insideBoundary(boundary, x, z)) {
+      onTeleport(x, z);
+    }
+  };
+
+  const heading = listener ? toRadians(listener.headingDeg) : 0;
+
+  return (
+    <svg
+      className={styles.trainerMap}
+      viewBox={`${-VIEW_M} ${-VIEW_M} ${VIEW_M * 2} ${VIEW_M * 2}`}
+      role="img"
+      aria-label="Participant's world. Click a point to move the participant there."
+      onClick={onClick}
+    >
+      {boundary.kind === "circle" ? (
+        <circle cx={0} cy={0} r={boundary.radiusM} fill="#f3fbff" stroke="#7fa3ad" strokeWidth={0.12} />
+      ) : (
+        <polygon
+          points={boundaryOutline(boundary).map((point) => `${point.x},${point.z}`).join(" ")}
+          fill="#f3fbff"
+          stroke="#7fa3ad"
+          strokeWidth={0.12}
+        />
+      )}
+      {walls.flatMap((wall) =>
+        wallPieces(wall).map((piece, index) => (
+          <polygon
+            key={`${wall.id}:${index}`}
+            points={piece.map((point) => `${point.x},${point.z}`).join(" ")}
+            fill="#7b8f95"
+            fillOpacity={wall.door?.open ? 0.2 : 1}
+            stroke={wall.door ? "#2e62aa" : "none"}
+            strokeWidth={0.08}
+            strokeDasharray={wall.door?.open ? "0.2 0.15" : undefined}
+          />
+        ))
+      )}
+      {zones.map((zone) => (
+        <circle
+          key={zone.id}
+          cx={zone.x}
+          cy={zone.z}
+          r={zone.radius}
+          fill="#c4d6cf"
+          stroke="#8aa79c"
+          strokeWidth={0.08}
+        />
+      ))}
+
+      {trail.length > 1 ? (
+        <polyline
+          points={trail.map((point) => `${point.x},${point.z}`).join(" ")}
+          fill="none"
+          stroke="#0e7e73"
+          strokeOpacity={0.45}
+          strokeWidth={0.1}
+        />
+      ) : null}
+
+      {emitters.map((emitter) => {
+        const report = reports.find((candidate) => candidate.id === emitter.id);
+        const audible = isAudible(mix, emitter.id);
+        return (
+          <circle
+            key={emitter.id}
+            cx={report?.x ?? emitter.x}
+            cy={report?.z ?? emitter.z}
+            r={0.4}
+            fill={emitter.color}
+            fillOpacity={audible ? 1 : 0.25}
+            stroke={mix.soloed.includes(emitter.id) ? "#d49a00" : "#173f47"}
+            strokeWidth={mix.soloed.includes(emitter.id) ? 0.16 : 0.05}
+            strokeDasharray={report?.occluded ? "0.15 0.1" : undefined}
+          />
+        );
+      })}
+
+      {listener ? (
+        <>
+          <line
+            x1={listener.x}
+            y1={listener.z}
+            x2={listener.x + Math.sin(heading) * HEADING_LENGTH_M}
+            y2={listener.z - Math.cos(heading) * HEADING_LENGTH_M}
+            stroke="#0e7e73"
+            strokeWidth={0.16}
+          />
+          <circle cx={listener.x} cy={listener.z} r={0.45} fill="#0e7e73" />
+        </>
+      ) : null}
+    </svg>
+  );
+}
@@ -0,0 +1,151 @@
+import {
+  MAX_PLAN_POINTS,
+  WALL_SHAPE_OPTIONS,
+  WALL_THICKNESS_LIMITS,
+  defaultWallShape,
+  minPlanPoints,
+  type WallShapeKind
+} from "../lib/floorPlan";
+import { WALL_SIZE_LIMITS } from "../lib/narration";
+import type { PlanPoint, Wall } from "../lib/world";
+import { RangeField } from "./SourceEditor";
+import styles from "./sonic-world.module.css";
+
+type PlanPointControlsProps = {
+  points: PlanPoint[];
+  minCount: number;
+  // While drawing, clicks on the map add corners to this outline.
+  drawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+  onChange: (points: PlanPoint[]) => void;
+};
+
+// Outlines never drop below the points they need, so the world stays valid to save mid-edit.
+export function PlanPointControls({ points, minCount, drawing, onDrawingChange, onChange }: PlanPointControlsProps) {
+  return (
+    <>
+      <div className={styles.buttonRow}>
+        <button
+          className={drawing ? styles.primaryButton : styles.secondaryButton}
+          type="button"
+          aria-pressed={drawing}
+          onClick={() => onDrawingChange(!drawing)}
+        >
+          {drawing ? "Done Drawing" : "Draw on Map"}
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          disabled={points.length <= minCount}
+          onClick={() => onChange(points.slice(0, -1))}
+        >
+          Undo Corner
+        </button>
+      </div>
+      <p className={styles.subtle}>
+        {drawing
+          ? "Click the map to add corners. Drag a corner to move it."
+          : `${points.length} of ${MAX_PLAN_POINTS} corners. Drag a corner on the map to move it.`}
+      </p>
+    </>
+  );
+}
+
+type WallEditorProps = {
+  wall: Wall;
+  drawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+  onChange: (patch: Partial<Wall>) => void;
+};
+
+export default function WallEditor({ wall, drawing, onDrawingChange, onChange }: WallEditorProps) {
+  const { shape } = wall;
+
+  const changeShape = (kind: WallShapeKind) => {
+    onDrawingChange(false);
+    onChange({ shape: defaultWallShape(kind, wall) });
+  };
+
+  return (
+    <>
+      <div className={styles.inlineGrid}>
+        <label className={styles.field}>
+          <span>Shape</span>
+          <select value={shape.kind} onChange={(event) => changeShape(event.target.value as WallShapeKind)}>
+            {WALL_SHAPE_OPTIONS.map((option) => (
+              <option key={option.kind} value={option.kind}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <RangeField
+          label={`Rotation ${Math.round(wall.rotationDeg)} deg`}
+          value={wall.rotationDeg}
+          min={-180}
+          max={180}
+          step={5}
+          onChange={(rotationDeg) => onChange({ rotationDeg })}
+        />
+      </div>
+
+      {shape.kind === "box" ? (
+        <div className={styles.inlineGrid}>
+          <RangeField
+            label={`Wall Width ${wall.width.toFixed(2)} m`}
+            value={wall.width}
+            {...WALL_SIZE_LIMITS}
+            step={0.1}
+            onChange={(width) => onChange({ width })}
+          />
+          <RangeField
+            label={`Wall Height ${wall.height.toFixed(2)} m`}
+            value={wall.height}
+            {...WALL_SIZE_LIMITS}
+            step={0.1}
+            onChange={(height) => onChange({ height })}
+          />
+        </div>
+      ) : (
+        <>
+          {shape.kind === "polyline" ? (
+            <RangeField
+              label={`Thickness ${shape.thicknessM.toFixed(2)} m`}
+              value={shape.thicknessM}
+              {...WALL_THICKNESS_LIMITS}
+              step={0.05}
+              onChange={(thicknessM) => onChange({ shape: { ...shape, thicknessM } })}
+            />
+          ) : null}
+          <PlanPointControls
+            points={shape.points}
+            minCount={minPlanPoints(shape.kind)}
+            drawing={drawing}
+            onDrawingChange={onDrawingChange}
+            onChange={(points) => onChange({ shape: { ...shape, points } })}
+          />
+        </>
+      )}
+
+      <div className={styles.toggleGrid}>
+        <label>
+          <input
+            type="checkbox"
+            checked={wall.door !== null}
+            onChange={(event) => onChange({ door: event.target.checked ? { open: false } : null })}
+          />
+          Door
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={wall.door?.open ?? false}
+            disabled={wall.door === null}
+            onChange={(event) => onChange({ door: { open: event.target.checked } })}
+          />
+          Open (lets listeners, emitters and sound through)
+        </label>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,477 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent as ReactKeyboardEvent } from "react";
+import { WALL_THICKNESS_LIMITS } from "../lib/floorPlan";
+import { pullInsideBoundary, rayBoundaryExit } from "../lib/geometry";
+import { EMITTER_RADIUS_M, PLAYER_RADIUS_M } from "../lib/motion";
+import {
+  SURROUNDINGS_RANGE_M,
+  WALL_SIZE_LIMITS,
+  ZONE_RADIUS_LIMITS,
+  describeEmitter,
+  describeListener,
+  describeMapPosition,
+  describeOffset,
+  describeSurroundings,
+  describeWall,
+  describeZone,
+  startNarration,
+  wallLabel,
+  type WorldItem
+} from "../lib/narration";
+import type { Simulation } from "../lib/simulation";
+import {
+  HEAD_LIMITS,
+  MAX_EMITTER_HEIGHT_M,
+  clamp,
+  toRadians,
+  type CollisionZone,
+  type ListenerPose,
+  type SoundEmitter,
+  type Wall,
+  type WorldBoundary
+} from "../lib/world";
+import styles from "./sonic-world.module.css";
+
+type AddableKind = "emitter" | "zone" | "wall";
+
+type WorldOutlineProps = {
+  simulation: Simulation;
+  listener: ListenerPose;
+  emitters: SoundEmitter[];
+  zones: CollisionZone[];
+  walls: Wall[];
+  boundary: WorldBoundary;
+  selectedEmitterId: string | null;
+  selectedObstacle: { kind: "zone" | "wall"; id: string } | null;
+  // Narration stops while a task or challenge hides the map, so it cannot give the answer away.
+  narrationAllowed: boolean;
+  sourceLabel: (emitter: SoundEmitter) => string;
+  onSelect: (item: WorldItem) => void;
+  onAdd: (kind: AddableKind, x: number, z: number) => WorldItem;
+  onRemove: (item: WorldItem) => void;
+};
+
+type OutlineRow =
+  | { key: string; level: 1; group: AddableKind; label: string }
+  | { key: string; level: 1 | 2; item: WorldItem; label: string };
+
+type Announcement = { text: string; count: number };
+
+const GROUP_LABELS: Record<AddableKind, string> = { emitter: "Emitters", zone: "Zones", wall: "Walls" };
+const MOVE_STEP_M = 0.5;
+const RESIZE_STEP_M = 0.25;
+const ADD_DISTANCE_M = 3;
+const ARROW_OFFSETS: Record<string, { dx: number; dz: number }> = {
+  ArrowUp: { dx: 0, dz: -1 },
+  ArrowDown: { dx: 0, dz: 1 },
+  ArrowLeft: { dx: -1, dz: 0 },
+  ArrowRight: { dx: 1, dz: 0 }
+};
+
+function itemKey(item: WorldItem): string {
+  return item.kind === "listener" ? "listener" : `${item.kind}:${item.id}`;
+}
+
+// Screen readers only speak a live region when its text changes, so a repeated message gets an invisible variation.
+function nextAnnouncement(previous: Announcement, text: string): Announcement {
+  return { text, count: previous.count + 1 };
+}
+
+function announcementText(announcement: Announcement): string {
+  return announcement.count % 2 === 0 ? announcement.text : `${announcement.text}\u00a0`;
+}
+
+// A tree of everything in the world for keyboard and screen reader users. Selection follows focus; Shift+Arrow moves
+// the focused item across the map, Alt+Arrow resizes it, Enter describes it, O opens or closes a door and Delete
+// removes it.
+export default function WorldOutline({
+  simulation,
+  listener,
+  emitters,
+  zones,
+  walls,
+  boundary,
+  selectedEmitterId,
+  selectedObstacle,
+  narrationAllowed,
+  sourceLabel,
+  onSelect,
+  onAdd,
+  onRemove
+}: WorldOutlineProps) {
+  const [focusKey, setFocusKey] = useState("listener");
+  const [collapsed, setCollapsed] = useState<Set<AddableKind>>(new Set());
+  const [narrate, setNarrate] = useState(true);
+  const [polite, setPolite] = useState<Announcement>({ text: "", count: 0 });
+  const [urgent, setUrgent] = useState<Announcement>({ text: "", count: 0 });
+  const itemRefs = useRef(new Map<string, HTMLLIElement>());
+  const refocusRef = useRef(false);
+
+  const announce = useCallback((text: string, isUrgent = false) => {
+    (isUrgent ? setUrgent : setPolite)((previous) => nextAnnouncement(previous, text));
+  }, []);
+
+  useEffect(() => {
+    if (!narrate || !narrationAllowed) {
+      return;
+    }
+    return startNarration(simulation, announce).stop;
+  }, [announce, narrate, narrationAllowed, simulation]);
+
+  const rows = useMemo(() => {
+    const groups: Array<{ group: AddableKind; items: Array<{ item: WorldItem; label: string }> }> = [
+      {
+        group: "emitter",
+        items: emitters.map((emitter) => ({
+          item: { kind: "emitter", id: emitter.id },
+          label: `${emitter.name}, ${describeOffset(listener, emitter.x, emitter.z)}`
+        }))
+      },
+      {
+        group: "zone",
+        items: zones.map((zone) => ({
+          item: { kind: "zone", id: zone.id },
+          label: `${zone.label}, ${describeOffset(listener, zone.x, zone.z)}`
+        }))
+      },
+      {
+        group: "wall",
+        items: walls.map((wall) => ({
+          item: { kind: "wall", id: wall.id },
+          label: `${wallLabel(wall)}, ${describeOffset(listener, wall.x, wall.z)}`
+        }))
+      }
+    ];
+    const result: OutlineRow[] = [{ key: "listener", level: 1, item: { kind: "listener" }, label: "You (listener)" }];
+    for (const { group, items } of groups) {
+      result.push({ key: `group:${group}`, level: 1, group, label: `${GROUP_LABELS[group]} (${items.length})` });
+      if (!collapsed.has(group)) {
+        result.push(...items.map(({ item, label }) => ({ key: itemKey(item), level: 2 as const, item, label })));
+      }
+    }
+    return result;
+  }, [collapsed, emitters, listener, walls, zones]);
+
+  // An item removed elsewhere hands focus back to the first row.
+  const activeKey = rows.some((row) => row.key === focusKey) ? focusKey : rows[0].key;
+
+  useEffect(() => {
+    if (refocusRef.current) {
+      refocusRef.current = false;
+      itemRefs.current.get(activeKey)?.focus();
+    }
+  }, [activeKey, rows]);
+
+  const focusRow = (row: OutlineRow | undefined) => {
+    if (!row) {
+      return;
+    }
+    refocusRef.current = true;
+    setFocusKey(row.key);
+    if ("item" in row) {
+      onSelect(row.item);
+    }
+  };
+
+  const isSelected = (item: WorldItem) =>
+    item.kind === "emitter"
+      ? item.id === selectedEmitterId
+      : item.kind !== "listener" && selectedObstacle?.kind === item.kind && selectedObstacle.id === item.id;
+
+  const describe = (item: WorldItem): string => {
+    if (item.kind === "listener") {
+      return `${describeListener(listener)} Ears ${listener.heightM.toFixed(2)} m high.`;
+    }
+    if (item.kind === "emitter") {
+      const emitter = emitters.find((candidate) => candidate.id === item.id);
+      return emitter ? describeEmitter(emitter, listener, sourceLabel(emitter)) : "Emitter removed.";
+    }
+    if (item.kind === "zone") {
+      const zone = zones.find((candidate) => candidate.id === item.id);
+      return zone ? describeZone(zone, listener) : "Zone removed.";
+    }
+    const wall = walls.find((candidate) => candidate.id === item.id);
+    return wall ? describeWall(wall, listener) : "Wall removed.";
+  };
+
+  // Moves stay inside the world edge, as map drags do, and the listener never steps into an obstacle.
+  const moveItem = (item: WorldItem, dx: number, dz: number) => {
+    if (item.kind === "listener") {
+      const { x, z } = pullInsideBoundary(boundary, listener.x + dx, listener.z + dz, PLAYER_RADIUS_M);
+      if (simulation.collides(x, z, PLAYER_RADIUS_M)) {
+        announce("Something is in the way.");
+        return;
+      }
+      simulation.set("listener", { ...listener, x, z });
+      announce(`You are now ${describeMapPosition(x, z)}.`);
+      return;
+    }
+    const moved = [...emitters, ...zones, ...walls].find((candidate) => candidate.id === item.id);
+    if (!moved) {
+      return;
+    }
+    const margin = item.kind === "emitter" ? EMITTER_RADIUS_M : 0;
+    const { x, z } = pullInsideBoundary(boundary, moved.x + dx, moved.z + dz, margin);
+    const shift = <T extends { id: string; x: number; z: number }>(value: T): T =>
+      value.id === item.id ? { ...value, x, z } : value;
+    if (item.kind === "emitter") {
+      simulation.set("emitters", (prev) => prev.map(shift));
+    } else if (item.kind === "zone") {
+      simulation.set("zones", (prev) => prev.map(shift));
+    } else {
+      simulation.set("walls", (prev) => prev.map(shift));
+    }
+    announce(`Moved to ${describeMapPosition(x, z)}, ${describeOffset(listener, x, z)} from you.`);
+  };
+
+  // Up and Right grow, Down and Left shrink; box walls take Left/Right for width and Up/Down for depth, polylines any
+  // arrow for thickness. Emitters and the listener have no footprint, so Up/Down changes their height instead.
+  const resizeItem = (item: WorldItem, key: string) => {
+    const grow = key === "ArrowUp" || key === "ArrowRight" ? RESIZE_STEP_M : -RESIZE_STEP_M;
+    if (item.kind === "listener") {
+      if (key !== "ArrowUp" && key !== "ArrowDown") {
+        return;
+      }
+      const heightM = clamp(listener.heightM + grow, HEAD_LIMITS.heightM.min, HEAD_LIMITS.heightM.max);
+      simulation.set("listener", { ...listener, heightM });
+      announce(`Ear height ${heightM.toFixed(2)} m.`);
+    } else if (item.kind === "emitter") {
+      const emitter = emitters.find((candidate) => candidate.id === item.id);
+      if (!emitter || (key !== "ArrowUp" && key !== "ArrowDown")) {
+        return;
+      }
+      const y = clamp(emitter.y + grow, 0, MAX_EMITTER_HEIGHT_M);
+      simulation.set("emitters", (prev) =>
+        prev.map((candidate) => (candidate.id === item.id ? { ...candidate, y } : candidate))
+      );
+      announce(`${emitter.name} ${y.toFixed(2)} m high.`);
+    } else if (item.kind === "zone") {
+      const zone = zones.find((candidate) => candidate.id === item.id);
+      if (!zone) {
+        return;
+      }
+      const radius = clamp(zone.radius + grow, ZONE_RADIUS_LIMITS.min, ZONE_RADIUS_LIMITS.max);
+      simulation.set("zones", (prev) =>
+        prev.map((candidate) => (candidate.id === item.id ? { ...candidate, radius } : candidate))
+      );
+      announce(`${zone.label} radius ${radius.toFixed(2)} m.`);
+    } else {
+      const wall = walls.find((candidate) => candidate.id === item.id);
+      if (!wall) {
+        return;
+      }
+      if (wall.shape.kind === "polygon") {
+        announce(`${wallLabel(wall)} is a polygon; move its corners on the map to resize it.`);
+        return;
+      }
+      if (wall.shape.kind === "polyline") {
+        const thicknessM = clamp(wall.shape.thicknessM + grow, WALL_THICKNESS_LIMITS.min, WALL_THICKNESS_LIMITS.max);
+        const shape = { ...wall.shape, thicknessM };
+        simulation.set("walls", (prev) =>
+          prev.map((candidate) => (candidate.id === item.id ? { ...candidate, shape } : candidate))
+        );
+        announce(`${wallLabel(wall)} ${thicknessM.toFixed(2)} m thick.`);
+        return;
+      }
+      const across = key === "ArrowLeft" || key === "ArrowRight";
+      const size = clamp((across ? wall.width : wall.height) + grow, WALL_SIZE_LIMITS.min, WALL_SIZE_LIMITS.max);
+      const patch = across ? { width: size } : { height: size };
+      simulation.set("walls", (prev) =>
+        prev.map((candidate) => (candidate.id === item.id ? { ...candidate, ...patch } : candidate))
+      );
+      announce(`${wallLabel(wall)} ${size.toFixed(2)} m ${across ? "east to west" : "north to south"}.`);
+    }
+  };
+
+  const toggleDoor = (item: WorldItem) => {
+    const wall = item.kind === "wall" ? walls.find((candidate) => candidate.id === item.id) : undefined;
+    if (!wall?.door) {
+      announce("Only doors open and close.");
+      return;
+    }
+    const door = { open: !wall.door.open };
+    simulation.set("walls", (prev) =>
+      prev.map((candidate) => (candidate.id === wall.id ? { ...candidate, door } : candidate))
+    );
+    announce(`${wallLabel(wall)} ${door.open ? "opened" : "closed"}.`);
+  };
+
+  const toggleGroup = (group: AddableKind) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(group)) {
+        next.delete(group);
+      } else {
+        next.add(group);
+      }
+      return next;
+    });
+  };
+
+  const onTreeKeyDown = (event: ReactKeyboardEvent<HTMLUListElement>) => {
+    const index = rows.findIndex((row) => row.key === activeKey);
+    const row = rows[index];
+    const offset = ARROW_OFFSETS[event.key];
+    if (!row) {
+      return;
+    }
+
+    if (offset && (event.shiftKey || event.altKey)) {
+      if ("item" in row) {
+        if (event.shiftKey) {
+          moveItem(row.item, offset.dx * MOVE_STEP_M, offset.dz * MOVE_STEP_M);
+        } else {
+          resizeItem(row.item, event.key);
+        }
+      }
+    } else if (event.key === "ArrowDown") {
+      focusRow(rows[index + 1]);
+    } else if (event.key === "ArrowUp") {
+      focusRow(rows[index - 1]);
+    } else if (event.key === "Home") {
+      focusRow(rows[0]);
+    } else if (event.key === "End") {
+      focusRow(rows[rows.length - 1]);
+    } else if (event.key === "ArrowRight") {
+      if ("group" in row && collapsed.has(row.group)) {
+        toggleGroup(row.group);
+      } else if ("group" in row) {
+        focusRow(rows[index + 1]?.level === 2 ? rows[index + 1] : undefined);
+      }
+    } else if (event.key === "ArrowLeft") {
+      if ("group" in row && !collapsed.has(row.group)) {
+        toggleGroup(row.group);
+      } else if (row.level === 2) {
+        focusRow(
+          rows
+            .slice(0, index)
+            .reverse()
+            .find((candidate) => candidate.level === 1)
+        );
+      }
+    } else if (event.key === "Enter" || event.key === " ") {
+      if ("item" in row) {
+        announce(describe(row.item));
+      } else {
+        toggleGroup(row.group);
+      }
+    } else if ((event.key === "o" || event.key === "O") && "item" in row) {
+      toggleDoor(row.item);
+    } else if ((event.key === "Delete" || event.key === "Backspace") && "item" in row && row.item.kind !== "listener") {
+      refocusRef.current = true;
+      setFocusKey((rows[index + 1]?.level === 2 ? rows[index + 1] : rows[index - 1]).key);
+      onRemove(row.item);
+      announce(`${row.label.split(",")[0]} removed.`);
+    } else {
+      return;
+    }
+    // Handled keys stop here so they do not also walk or turn the listener.
+    event.preventDefault();
+  };
+
+  const addAhead = (kind: AddableKind) => {
+    const heading = toRadians(listener.headingDeg);
+    const dx = Math.sin(heading);
+    const dz = -Math.cos(heading);
+    const edge = rayBoundaryExit(boundary, listener.x, listener.z, dx, dz);
+    const reach = clamp((edge ? edge.t : 0) - EMITTER_RADIUS_M, 0, ADD_DISTANCE_M);
+    const item = onAdd(kind, listener.x + dx * reach, listener.z + dz * reach);
+    if (collapsed.has(kind)) {
+      toggleGroup(kind);
+    }
+    refocusRef.current = true;
+    setFocusKey(itemKey(item));
+    announce(`Added ${GROUP_LABELS[kind].toLowerCase().slice(0, -1)} ${reach.toFixed(1)} m ahead of you.`);
+  };
+
+  const activeRow = rows.find((row) => row.key === activeKey);
+  const activeItem = activeRow && "item" in activeRow ? activeRow.item : null;
+
+  return (
+    <div className={styles.editor}>
+      <ul
+        className={styles.outline}
+        role="tree"
+        aria-label="World outline"
+        aria-describedby="world-outline-help"
+        onKeyDown={onTreeKeyDown}
+      >
+        {rows.map((row) => (
+          <li
+            key={row.key}
+            ref={(element) => {
+              if (element) {
+                itemRefs.current.set(row.key, element);
+              } else {
+                itemRefs.current.delete(row.key);
+              }
+            }}
+            role="treeitem"
+            aria-level={row.level}
+            aria-expanded={"group" in row ? !collapsed.has(row.group) : undefined}
+            aria-selected={"item" in row ? isSelected(row.item) : undefined}
+            tabIndex={row.key === activeKey ? 0 : -1}
+            className={`${styles.outlineRow} ${row.level === 2 ? styles.outlineChild : ""} ${
+              "item" in row && isSelected(row.item) ? styles.activeEmitter : ""
+            }`}
+            onFocus={(event) => {
+              if (event.target === event.currentTarget && row.key !== activeKey) {
+                focusRow(row);
+              }
+            }}
+            onClick={"group" in row ? () => toggleGroup(row.group) : undefined}
+          >
+            {row.label}
+          </li>
+        ))}
+      </ul>
+      <p id="world-outline-help" className={styles.subtle}>
+        Arrow keys move through the outline. Shift+Arrow moves the item half a meter (Up is north), Alt+Arrow resizes
+        it or changes its height, Enter describes it, O opens or closes a door and Delete removes it.
+      </p>
+
+      <div className={styles.buttonRow}>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          onClick={() => {
+            const surroundings = describeSurroundings(listener, zones, walls, boundary, SURROUNDINGS_RANGE_M);
+            announce(`${describeListener(listener)} ${surroundings}`);
+          }}
+        >
+          Where Am I?
+        </button>
+        <button
+          className={styles.secondaryButton}
+          type="button"
+          disabled={!activeItem}
+          onClick={() => activeItem && announce(describe(activeItem))}
+        >
+          Describe Selection
+        </button>
+        <button className={styles.secondaryButton} type="button" onClick={() => addAhead("emitter")}>
+          Add Emitter Ahead
+        </button>
+        <button className={styles.secondaryButton} type="button" onClick={() => addAhead("zone")}>
+          Add Zone Ahead
+        </button>
+        <button className={styles.secondaryButton} type="button" onClick={() => addAhead("wall")}>
+          Add Wall Ahead
+        </button>
+      </div>
+      <div className={styles.toggleGrid}>
+        <label>
+          <input type="checkbox" checked={narrate} onChange={(event) => setNarrate(event.target.checked)} />
+          Announce collisions, nearby obstacles and movement
+        </label>
+      </div>
+
+      <p className={styles.subtle} role="status">
+        {announcementText(polite)}
+      </p>
+      <p className={styles.visuallyHidden} role="alert">
+        {announcementText(urgent)}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+import { headDirection, type HeadDirection, type HrtfRenderer } from "./binaural";
+import { toDegrees, toRadians, type HeadOrientation, type ListenerPose } from "./world";
+
+// Ambisonic signals use the AmbiX convention: ACN channel order with SN3D normalization. Directions follow SOFA:
+// azimuth counterclockwise from straight ahead, elevation up.
+export type AmbisonicOrder = 1 | 3;
+
+export type SpeakerLayoutId = "stereo" | "quad" | "5.0" | "octagon" | "cube";
+
+// "binaural" decodes through the loaded HRIR set; "ambix" skips decoding and exposes the world-referenced field.
+export type AmbisonicDecoder = "binaural" | SpeakerLayoutId;
+
+export type AmbisonicSettings = {
+  order: AmbisonicOrder;
+  decoder: AmbisonicDecoder;
+};
+
+export type SpeakerDirection = Pick<HeadDirection, "azimuthDeg" | "elevationDeg">;
+
+export type SpeakerLayout = {
+  label: string;
+  speakers: SpeakerDirection[];
+};
+
+// The field arrives in world orientation; the rotation stage turns it into the listener's head frame before decoding.
+export type AmbisonicBus = {
+  order: AmbisonicOrder;
+  decoder: AmbisonicDecoder | "ambix";
+  renderer: HrtfRenderer | null;
+  input: ChannelMergerNode;
+  rotation: Array<{ row: number; column: number; gain: GainNode }>;
+  nodes: AudioNode[];
+};
+
+export type AmbisonicEncoder = {
+  bus: AmbisonicBus;
+  input: GainNode;
+  gains: GainNode[];
+};
+
+export const AMBISONIC_ORDERS: AmbisonicOrder[] = [1, 3];
+export const DEFAULT_AMBISONIC_SETTINGS: AmbisonicSettings = { order: 3, decoder: "binaural" };
+
+export const SPEAKER_LAYOUTS: Record<SpeakerLayoutId, SpeakerLayout> = {
+  stereo: {
+    label: "Stereo (+/-30 deg)",
+    speakers: [
+      { azimuthDeg: 30, elevationDeg: 0 },
+      { azimuthDeg: -30, elevationDeg: 0 }
+    ]
+  },
+  quad: {
+    label: "Quad",
+    speakers: [45, -45, 135, -135].map((azimuthDeg) => ({ azimuthDeg, elevationDeg: 0 }))
+  },
+  "5.0": {
+    label: "5.0 (ITU, L R C Ls Rs)",
+    speakers: [30, -30, 0, 110, -110].map((azimuthDeg) => ({ azimuthDeg, elevationDeg: 0 }))
+  },
+  octagon: {
+    label: "Octagon",
+    speakers: [0, -45, -90, -135, 180, 135, 90, 45].map((azimuthDeg) => ({ azimuthDeg, elevationDeg: 0 }))
+  },
+  cube: {
+    label: "Cube (4 upper, 4 lower)",
+    speakers: [35, -35].flatMap((elevationDeg) =>
+      [45, -45, 135, -135].map((azimuthDeg) => ({ azimuthDeg, elevationDeg }))
+    )
+  }
+};
+
+// Gauss-Legendre nodes and weights for four points; with eight azimuths this integrates third-order products exactly.
+const QUADRATURE_Z = [-0.8611363116, -0.3399810436, 0.3399810436, 0.8611363116];
+const QUADRATURE_WEIGHTS = [0.3478548451, 0.6521451549, 0.6521451549, 0.3478548451];
+const QUADRATURE_AZIMUTHS = 8;
+// Binaural decoding goes through this many evenly spread virtual speakers. Fewer leaves an audible left-right
+// imbalance, since a short spiral of points is not symmetric.
+const VIRTUAL_SPEAKERS = 50;
+
+export function ambisonicChannels(order: AmbisonicOrder): number {
+  return (order + 1) ** 2;
+}
+
+function orderOfChannel(channel: number): number {
+  return Math.floor(Math.sqrt(channel));
+}
+
+function factorial(value: number): number {
+  let result = 1;
+  for (let i = 2; i <= value; i += 1) {
+    result *= i;
+  }
+  return result;
+}
+
+function legendre(degree: number, x: number): number {
+  let previous = 1;
+  let current = x;
+  if (degree === 0) {
+    return previous;
+  }
+  for (let n = 2; n <= degree; n += 1) {
+    [previous, current] = [current, ((2 * n - 1) * x * current - (n - 1) * previous) / n];
+  }
+  return current;
+}
+
+// Real spherical harmonics in ACN order with SN3D normalization and no Condon-Shortley phase.
+export function sphericalHarmonics(order: number, azimuthDeg: number, elevationDeg: number): Float64Array {
+  const azimuth = toRadians(azimuthDeg);
+  const x = Math.sin(toRadians(elevationDeg));
+  const cosine = Math.sqrt(Math.max(0, 1 - x * x));
+  const values = new Float64Array((order + 1) ** 2);
+
+  for (let m = 0; m <= order; m += 1) {
+    // Associated Legendre functions P(n, m) for every degree n >= m, built up from P(m, m).
+    let diagonal = 1;
+    for (let k = 1; k <= m; k += 1) {
+      diagonal *= (2 * k - 1) * cosine;
+    }
+    let previous = 0;
+    let current = diagonal;
+    for (let n = m; n <= order; n += 1) {
+      if (n > m) {
+        const next =
+          n === m + 1 ? x * (2 * m + 1) * diagonal : ((2 * n - 1) * x * current - (n + m - 1) * previous) / (n - m);
+        previous = current;
+        current = next;
+      }
+      const scale = Math.sqrt(((m === 0 ? 1 : 2) * factorial(n - m)) / factorial(n + m)) * current;
+      values[n * (n + 1) + m] = scale * Math.cos(m * azimuth);
+      if (m > 0) {
+        values[n * (n + 1) - m] = scale * Math.sin(m * azimuth);
+      }
+    }
+  }
+  return values;
+}
+
+// Direction of a point from the listener in world orientation, where azimuth 0 is the map's north.
+export function fieldDirection(listener: ListenerPose, x: number, y: number, z: number): HeadDirection {
+  return headDirection({ ...listener, headingDeg: 0, pitchDeg: 0, rollDeg: 0 }, x, y, z);
+}
+
+// Matrix taking a world-referenced field into the head frame, computed by projecting the rotated harmonics back onto
+// the originals. Harmonics of different orders never mix, so only the diagonal blocks are filled.
+export function fieldRotation(order: AmbisonicOrder, head: HeadOrientation): Float64Array[] {
+  const channels = ambisonicChannels(order);
+  const matrix = Array.from({ length: channels }, () => new Float64Array(channels));
+  const origin = { x: 0, z: 0, heightM: 0, ...head };
+
+  QUADRATURE_Z.forEach((z, ring) => {
+    const elevationDeg = toDegrees(Math.asin(z));
+    const weight = (QUADRATURE_WEIGHTS[ring] * 2 * Math.PI) / QUADRATURE_AZIMUTHS;
+    for (let step = 0; step < QUADRATURE_AZIMUTHS; step += 1) {
+      const azimuthDeg = (step * 360) / QUADRATURE_AZIMUTHS;
+      const azimuth = toRadians(azimuthDeg);
+      const horizontal = Math.sqrt(1 - z * z);
+      const inHead = headDirection(origin, -horizontal * Math.sin(azimuth), z, -horizontal * Math.cos(azimuth));
+      const world = sphericalHarmonics(order, azimuthDeg, elevationDeg);
+      const rotated = sphericalHarmonics(order, inHead.azimuthDeg, inHead.elevationDeg);
+      for (let row = 0; row < channels; row += 1) {
+        const degree = orderOfChannel(row);
+        for (let column = degree * degree; column < (degree + 1) ** 2; column += 1) {
+          matrix[row][column] += ((2 * degree + 1) / (4 * Math.PI)) * weight * rotated[row] * world[column];
+        }
+      }
+    }
+  });
+  return matrix;
+}
+
+// Points on a golden-angle spiral, which covers the sphere nearly evenly for any count.
+function virtualSpeakers(): SpeakerDirection[] {
+  const count = VIRTUAL_SPEAKERS;
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: count }, (_, index) => {
+    const z = 1 - (2 * (index + 0.5)) / count;
+    return {
+      azimuthDeg: toDegrees(index * golden) % 360,
+      elevationDeg: toDegrees(Math.asin(z))
+    };
+  });
+}
+
+// A sampling decoder with max-rE weighting, which narrows the energy spread of each source on sparse layouts. Gains
+// are scaled so a source straight ahead reaches the speakers at unit total amplitude.
+export function decoderMatrix(order: AmbisonicOrder, speakers: SpeakerDirection[]): Float64Array[] {
+  const spread = Math.cos(toRadians(137.9 / (order + 1.51)));
+  const weights = Array.from({ length: order + 1 }, (_, degree) => legendre(degree, spread) * (2 * degree + 1));
+  const matrix = speakers.map((speaker) => {
+    const harmonics = sphericalHarmonics(order, speaker.azimuthDeg, speaker.elevationDeg);
+    return harmonics.map((value, channel) => (weights[orderOfChannel(channel)] * value) / speakers.length);
+  });
+  const front = sphericalHarmonics(order, 0, 0);
+  const total = matrix.reduce(
+    (sum, row) => sum + row.reduce((acc, value, channel) => acc + value * front[channel], 0),
+    0
+  );
+  return matrix.map((row) => row.map((value) => value / total));
+}
+
+export function speakerCount(decoder: AmbisonicDecoder): number {
+  return decoder === "binaural" ? 2 : SPEAKER_LAYOUTS[decoder].speakers.length;
+}
+
+// Folds the virtual-speaker decoder into one stereo filter per ambisonic channel, so decoding costs one convolver per
+// channel however many virtual speakers there are. Neighbouring speakers partly cancel where their responses arrive at
+// different times, so the filters are rescaled to the renderer's unit energy averaged over all directions.
+function binauralFilters(context: BaseAudioContext, order: AmbisonicOrder, renderer: HrtfRenderer): AudioBuffer[] {
+  const speakers = virtualSpeakers();
+  const decoder = decoderMatrix(order, speakers);
+  const responses = speakers.map((speaker) => renderer.responseFor({ ...speaker, distance: 1 }));
+  const length = Math.max(...responses.map((response) => response.length));
+  let energy = 0;
+  const filters = Array.from({ length: ambisonicChannels(order) }, (_, channel) => {
+    const filter = context.createBuffer(2, length, context.sampleRate);
+    for (let ear = 0; ear < 2; ear += 1) {
+      const target = filter.getChannelData(ear);
+      responses.forEach((response, speaker) => {
+        const source = response.getChannelData(ear);
+        const gain = decoder[speaker][channel];
+        for (let i = 0; i < source.length; i += 1) {
+          target[i] += source[i] * gain;
+        }
+      });
+      // An SN3D harmonic of degree n has mean square 1 / (2n + 1) over the sphere.
+      for (const sample of target) {
+        energy += (sample * sample) / (2 * orderOfChannel(channel) + 1);
+      }
+    }
+    return filter;
+  });
+
+  const scale = energy > 0 ? Math.sqrt(2 / energy) : 1;
+  for (const filter of filters) {
+    for (let ear = 0; ear < 2; ear += 1) {
+      filter.getChannelData(ear).forEach((sample, i, samples) => {
+        samples[i] = sample * scale;
+      });
+    }
+  }
+  return filters;
+}
+
+export function createAmbisonicBus(
+  context: BaseAudioContext,
+  order: AmbisonicOrder,
+  decoder: AmbisonicDecoder | "ambix",
+  renderer: HrtfRenderer | null,
+  destination: AudioNode,
+  outputGain: number
+): AmbisonicBus {
+  const channels = ambisonicChannels(order);
+  const input = context.createChannelMerger(channels);
+  const output = context.createGain();
+  output.gain.value = outputGain;
+  output.connect(destination);
+  const nodes: AudioNode[] = [input, output];
+  const bus: AmbisonicBus = { order, decoder, renderer, input, rotation: [], nodes };
+
+  if (decoder === "ambix") {
+    output.channelCount = channels;
+    output.channelCountMode = "explicit";
+    output.channelInterpretation = "discrete";
+    input.connect(output);
+    return bus;
+  }
+
+  const splitter = context.createChannelSplitter(channels);
+  input.connect(splitter);
+  const rotated = Array.from({ length: channels }, () => {
+    const sum = context.createGain();
+    sum.channelCount = 1;
+    sum.channelCountMode = "explicit";
+    return sum;
+  });
+  nodes.push(splitter, ...rotated);
+  rotated.forEach((sum, row) => {
+    const degree = orderOfChannel(row);
+    for (let column = degree * degree; column < (degree + 1) ** 2; column += 1) {
+      const gain = context.createGain();
+      gain.gain.value = row === column ? 1 : 0;
+      splitter.connect(gain, column);
+      gain.connect(sum);
+      bus.rotation.push({ row, column, gain });
+      nodes.push(gain);
+    }
+  });
+
+  if (decoder === "binaural") {
+    if (!renderer) {
+      throw new Error("Load an HRTF dataset before decoding ambisonics to binaural.");
+    }
+    binauralFilters(context, order, renderer).forEach((filter, channel) => {
+      const convolver = context.createConvolver();
+      convolver.normalize = false;
+      convolver.buffer = filter;
+      rotated[channel].connect(convolver);
+      convolver.connect(output);
+      nodes.push(convolver);
+    });
+    return bus;
+  }
+
+  const { speakers } = SPEAKER_LAYOUTS[decoder];
+  const merger = context.createChannelMerger(speakers.length);
+  output.channelCount = speakers.length;
+  output.channelCountMode = "explicit";
+  output.channelInterpretation = "discrete";
+  merger.connect(output);
+  nodes.push(merger);
+  decoderMatrix(order, speakers).forEach((row, speaker) => {
+    row.forEach((value, channel) => {
+      const gain = context.createGain();
+      gain.gain.value = value;
+      rotated[channel].connect(gain);
+      gain.connect(merger, 0, speaker);
+      nodes.push(gain);
+    });
+  });
+  return bus;
+}
+
+export function rotateAmbisonicBus(bus: AmbisonicBus, head: HeadOrientation, time: number): void {
+  if (bus.rotation.length === 0) {
+    return;
+  }
+  const matrix = fieldRotation(bus.order, head);
+  for (const { row, column, gain } of bus.rotation) {
+    gain.gain.setTargetAtTime(matrix[row][column], time, 0.02);
+  }
+}
+
+export function disposeAmbisonicBus(bus: AmbisonicBus): void {
+  for (const node of bus.nodes) {
+    node.disconnect();
+  }
+}
+
+export function createAmbisonicEncoder(context: BaseAudioContext, bus: AmbisonicBus): AmbisonicEncoder {
+  const input = context.createGain();
+  input.channelCount = 1;
+  input.channelCountMode = "explicit";
+  input.gain.value = 0;
+  const gains = Array.from({ length: ambisonicChannels(bus.order) }, (_, channel) => {
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    input.connect(gain);
+    gain.connect(bus.input, 0, channel);
+    return gain;
+  });
+  return { bus, input, gains };
+}
+
+export function updateAmbisonicEncoder(
+  encoder: AmbisonicEncoder,
+  direction: HeadDirection,
+  gain: number,
+  time: number
+): void {
+  const harmonics = sphericalHarmonics(encoder.bus.order, direction.azimuthDeg, direction.elevationDeg);
+  encoder.input.gain.setTargetAtTime(gain, time, 0.04);
+  encoder.gains.forEach((channel, index) => {
+    channel.gain.setTargetAtTime(harmonics[index], time, 0.04);
+  });
+}
+
+export function disposeAmbisonicEncoder(encoder: AmbisonicEncoder): void {
+  encoder.input.disconnect();
+  for (const gain of encoder.gains) {
+    gain.disconnect();
+  }
+}
@@ -0,0 +1,513 @@
+import {
+  createAmbisonicEncoder,
+  disposeAmbisonicEncoder,
+  fieldDirection,
+  updateAmbisonicEncoder,
+  type AmbisonicBus,
+  type AmbisonicEncoder
+} from "./ambisonics";
+import {
+  createBinauralVoice,
+  disposeBinauralVoice,
+  headDirection,
+  updateBinauralVoice,
+  type BinauralVoice,
+  type HrtfRenderer
+} from "./binaural";
+import type { Propagation } from "./diffraction";
+import { dopplerFactor } from "./motion";
+import { HIGH_SHELF_HZ, LOW_SHELF_HZ, occlusionFilter } from "./occlusion";
+import { computeEarlyReflections, type ReflectionFace, type RoomSettings } from "./room";
+import { playSampleBuffer } from "./samples";
+import { isProceduralSource, proceduralSourceKey, renderProceduralSource } from "./sources";
+import type { SpatialIndex } from "./spatial";
+import {
+  SOUND_SPEED_MPS,
+  WORLD_RADIUS_M,
+  clamp,
+  headAxes,
+  type ListenerPose,
+  type SampleSource,
+  type SoundEmitter
+} from "./world";
+
+type ReflectionTap = {
+  delay: DelayNode;
+  gain: GainNode;
+  filter: BiquadFilterNode;
+  panner: PannerNode;
+};
+
+// `random` generates the noise in procedural sources, the reverb tail and the click. Offline renders seed it so the
+// same settings always produce the same file.
+export type AudioRouting = {
+  master: GainNode;
+  reverb: ConvolverNode;
+  reverbReturn: GainNode;
+  random: () => number;
+};
+
+export type EmitterAudioNode = {
+  source: AudioScheduledSourceNode | null;
+  sourceKey: string;
+  rate: number;
+  retrigger: { buffer: AudioBuffer; source: SampleSource; nextAt: number } | null;
+  gain: GainNode;
+  lowShelf: BiquadFilterNode;
+  highShelf: BiquadFilterNode;
+  filter: BiquadFilterNode;
+  direct: GainNode;
+  panner: PannerNode;
+  // Set while the direct sound goes through the HRIR convolver instead of the panner.
+  binaural: BinauralVoice | null;
+  // Set while the emitter is encoded into the ambisonic bus: the direct sound first, then one per reflection tap.
+  encoders: AmbisonicEncoder[] | null;
+  destination: AudioNode;
+  reverbSend: GainNode;
+  taps: ReflectionTap[];
+  // The routing's noise generator.
+  random: () => number;
+};
+
+// Everything about the world an emitter update needs besides its own propagation path.
+export type AudioFrame = {
+  listener: ListenerPose;
+  index: SpatialIndex;
+  faces: ReflectionFace[];
+  room: RoomSettings;
+  // Convolution renderer for the direct sound, or null for the built-in HRTF panner. Reflections always use panners.
+  hrtf: HrtfRenderer | null;
+  // When set, the direct sound and reflections are encoded into this sound field instead, and `hrtf` is ignored.
+  ambisonics: AmbisonicBus | null;
+};
+
+export const REFLECTION_TAPS_PER_EMITTER = 6;
+export const MAX_REFLECTION_DELAY_SEC = 0.5;
+export const REVERB_SEND_GAIN = 0.4;
+export const REVERB_RETURN_GAIN = 0.6;
+export const MASTER_GAIN = 0.82;
+
+const EMITTER_PANNER_OPTIONS: PannerOptions = {
+  panningModel: "HRTF",
+  distanceModel: "inverse",
+  refDistance: 1.1,
+  maxDistance: WORLD_RADIUS_M * 2.5,
+  rolloffFactor: 1.3,
+  coneInnerAngle: 360,
+  coneOuterAngle: 0,
+  coneOuterGain: 0
+};
+
+// The panner's inverse distance model, for estimating loudness without an audio context.
+export function distanceGain(distance: number): number {
+  const { refDistance = 1, rolloffFactor = 1 } = EMITTER_PANNER_OPTIONS;
+  return refDistance / (refDistance + rolloffFactor * (Math.max(distance, refDistance) - refDistance));
+}
+
+export function setPannerPosition(
+  panner: PannerNode,
+  x: number,
+  y: number,
+  z: number,
+  time: number
+): void {
+  const legacy = panner as PannerNode & { setPosition?: (x: number, y: number, z: number) => void };
+  if (legacy.positionX && legacy.positionY && legacy.positionZ) {
+    legacy.positionX.setValueAtTime(x, time);
+    legacy.positionY.setValueAtTime(y, time);
+    legacy.positionZ.setValueAtTime(z, time);
+  } else {
+    legacy.setPosition?.(x, y, z);
+  }
+}
+
+export function setListenerPose(context: BaseAudioContext, pose: ListenerPose, time: number): void {
+  const { forward, up } = headAxes(pose);
+
+  const listenerNode = context.listener as AudioListener & {
+    positionX?: AudioParam;
+    positionY?: AudioParam;
+    positionZ?: AudioParam;
+    forwardX?: AudioParam;
+    forwardY?: AudioParam;
+    forwardZ?: AudioParam;
+    upX?: AudioParam;
+    upY?: AudioParam;
+    upZ?: AudioParam;
+    setPosition?: (x: number, y: number, z: number) => void;
+    setOrientation?: (x: number, y: number, z: number, ux: number, uy: number, uz: number) => void;
+  };
+
+  if (listenerNode.positionX && listenerNode.positionY && listenerNode.positionZ) {
+    listenerNode.positionX.setValueAtTime(pose.x, time);
+    listenerNode.positionY.setValueAtTime(pose.heightM, time);
+    listenerNode.positionZ.setValueAtTime(pose.z, time);
+  } else {
+    listenerNode.setPosition?.(pose.x, pose.heightM, pose.z);
+  }
+
+  if (
+    listenerNode.forwardX &&
+    listenerNode.forwardY &&
+    listenerNode.forwardZ &&
+    listenerNode.upX &&
+    listenerNode.upY &&
+    listenerNode.upZ
+  ) {
+    listenerNode.forwardX.setValueAtTime(forward.x, time);
+    listenerNode.forwardY.setValueAtTime(forward.y, time);
+    listenerNode.forwardZ.setValueAtTime(forward.z, time);
+    listenerNode.upX.setValueAtTime(up.x, time);
+    listenerNode.upY.setValueAtTime(up.y, time);
+    listenerNode.upZ.setValueAtTime(up.z, time);
+  } else {
+    listenerNode.setOrientation?.(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+  }
+}
+
+export function roomMix(settings: RoomSettings): { dry: number; wet: number } {
+  if (settings.reflectionsOnly) {
+    return { dry: 0, wet: 1 };
+  }
+  const mix = clamp(settings.wetDry, 0, 1);
+  return { dry: Math.cos((mix * Math.PI) / 2), wet: Math.sin((mix * Math.PI) / 2) };
+}
+
+export function createAudioRouting(context: BaseAudioContext, random: () => number): AudioRouting {
+  const master = context.createGain();
+  master.gain.value = MASTER_GAIN;
+  master.connect(context.destination);
+
+  const reverb = context.createConvolver();
+  const reverbReturn = context.createGain();
+  reverbReturn.gain.value = 0;
+  reverb.connect(reverbReturn);
+  reverbReturn.connect(master);
+
+  return { master, reverb, reverbReturn, random };
+}
+
+// Multichannel speaker feeds reach the device unmixed; stereo keeps the browser's usual speaker mixing. Devices with
+// fewer outputs than asked for receive the first channels only.
+export function setOutputChannels(context: BaseAudioContext, channels: number): void {
+  const { destination } = context;
+  destination.channelCount = Math.min(channels, destination.maxChannelCount);
+  destination.channelInterpretation = channels > 2 ? "discrete" : "speakers";
+}
+
+export function reverbReturnLevel(settings: RoomSettings): number {
+  return settings.lateReverb ? roomMix(settings).wet * REVERB_RETURN_GAIN : 0;
+}
+
+export function emitterSampleBuffer(
+  emitter: SoundEmitter,
+  buffers: Map<string, AudioBuffer>
+): AudioBuffer | undefined {
+  return emitter.source.kind === "sample" ? buffers.get(emitter.source.sampleId) : undefined;
+}
+
+// Rebuilding the source node is only needed when one of these changes; rate and pitch are automated in place.
+function emitterSourceKey(emitter: SoundEmitter, buffer: AudioBuffer | undefined): string {
+  const { source } = emitter;
+  if (source.kind === "tone") {
+    return "tone";
+  }
+  if (isProceduralSource(source)) {
+    return proceduralSourceKey(emitter, source);
+  }
+  return [source.sampleId, source.loop, source.startOffsetSec, source.retriggerSec, buffer ? "ready" : "pending"].join(
+    ":"
+  );
+}
+
+function stopSourceNode(source: AudioScheduledSourceNode | null, time?: number): void {
+  if (!source) {
+    return;
+  }
+  try {
+    source.stop(time);
+  } catch {
+    // ignore
+  }
+  if (time === undefined) {
+    source.disconnect();
+  } else {
+    source.onended = () => source.disconnect();
+  }
+}
+
+function stopEmitterSource(node: EmitterAudioNode): void {
+  node.retrigger = null;
+  stopSourceNode(node.source);
+  node.source = null;
+}
+
+export function triggerSample(
+  context: BaseAudioContext,
+  node: EmitterAudioNode,
+  buffer: AudioBuffer,
+  source: SampleSource,
+  time: number
+): void {
+  stopSourceNode(node.source, time);
+  node.source = playSampleBuffer(context, buffer, source, node.gain, node.rate, time);
+}
+
+// Schedules every retrigger due before `until`. Callers poll this ahead of the playhead so one-shots land on time.
+export function scheduleRetriggers(context: BaseAudioContext, node: EmitterAudioNode, until: number): void {
+  const retrigger = node.retrigger;
+  if (!retrigger) {
+    return;
+  }
+  while (retrigger.nextAt < until) {
+    triggerSample(context, node, retrigger.buffer, retrigger.source, retrigger.nextAt);
+    retrigger.nextAt += retrigger.source.retriggerSec;
+  }
+}
+
+function startEmitterSource(
+  context: BaseAudioContext,
+  node: EmitterAudioNode,
+  emitter: SoundEmitter,
+  buffer: AudioBuffer | undefined,
+  time: number
+): void {
+  stopEmitterSource(node);
+  node.sourceKey = emitterSourceKey(emitter, buffer);
+  const { source } = emitter;
+
+  if (source.kind === "tone") {
+    const oscillator = context.createOscillator();
+    oscillator.type = emitter.waveform;
+    oscillator.frequency.setValueAtTime(emitter.frequency * node.rate, time);
+    oscillator.connect(node.gain);
+    oscillator.start(time);
+    node.source = oscillator;
+    return;
+  }
+
+  if (isProceduralSource(source)) {
+    const generated = context.createBufferSource();
+    generated.buffer = renderProceduralSource(context, emitter, source, node.random);
+    generated.loop = true;
+    generated.playbackRate.setValueAtTime(node.rate, time);
+    generated.connect(node.gain);
+    generated.start(time);
+    node.source = generated;
+    return;
+  }
+
+  if (!buffer) {
+    return;
+  }
+  triggerSample(context, node, buffer, source, time);
+  if (!source.loop && source.retriggerSec > 0) {
+    node.retrigger = { buffer, source, nextAt: time + source.retriggerSec };
+  }
+}
+
+export function createEmitterNode(
+  context: BaseAudioContext,
+  routing: AudioRouting,
+  emitter: SoundEmitter,
+  buffer: AudioBuffer | undefined,
+  time: number
+): EmitterAudioNode {
+  const sourceGain = context.createGain();
+  sourceGain.gain.setValueAtTime(emitter.gain, time);
+
+  const lowShelf = context.createBiquadFilter();
+  lowShelf.type = "lowshelf";
+  lowShelf.frequency.setValueAtTime(LOW_SHELF_HZ, time);
+  lowShelf.gain.setValueAtTime(0, time);
+
+  const highShelf = context.createBiquadFilter();
+  highShelf.type = "highshelf";
+  highShelf.frequency.setValueAtTime(HIGH_SHELF_HZ, time);
+  highShelf.gain.setValueAtTime(0, time);
+
+  const filter = context.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.setValueAtTime(6200, time);
+  filter.Q.setValueAtTime(0.6, time);
+
+  const direct = context.createGain();
+  direct.gain.setValueAtTime(0, time);
+
+  const panner = new PannerNode(context, EMITTER_PANNER_OPTIONS);
+
+  const reverbSend = context.createGain();
+  reverbSend.gain.setValueAtTime(REVERB_SEND_GAIN, time);
+
+  const taps: ReflectionTap[] = [];
+  for (let i = 0; i < REFLECTION_TAPS_PER_EMITTER; i += 1) {
+    const tap: ReflectionTap = {
+      delay: context.createDelay(MAX_REFLECTION_DELAY_SEC),
+      gain: context.createGain(),
+      filter: context.createBiquadFilter(),
+      panner: new PannerNode(context, EMITTER_PANNER_OPTIONS)
+    };
+    tap.gain.gain.setValueAtTime(0, time);
+    tap.filter.type = "lowpass";
+    sourceGain.connect(tap.delay);
+    tap.delay.connect(tap.gain);
+    tap.gain.connect(tap.filter);
+    tap.filter.connect(tap.panner);
+    tap.panner.connect(routing.master);
+    taps.push(tap);
+  }
+
+  sourceGain.connect(lowShelf);
+  lowShelf.connect(highShelf);
+  highShelf.connect(filter);
+  filter.connect(direct);
+  direct.connect(panner);
+  panner.connect(routing.master);
+  sourceGain.connect(reverbSend);
+  reverbSend.connect(routing.reverb);
+
+  setPannerPosition(panner, emitter.x, emitter.y, emitter.z, time);
+
+  const node: EmitterAudioNode = {
+    source: null,
+    sourceKey: "",
+    rate: emitter.source.kind === "sample" ? emitter.source.playbackRate : 1,
+    retrigger: null,
+    gain: sourceGain,
+    lowShelf,
+    highShelf,
+    filter,
+    direct,
+    panner,
+    binaural: null,
+    encoders: null,
+    destination: routing.master,
+    reverbSend,
+    taps,
+    random: routing.random
+  };
+  startEmitterSource(context, node, emitter, buffer, time);
+  return node;
+}
+
+// Reroutes the direct sound and reflections when the renderer changes; panners stay connected and receive nothing.
+function routeEmitter(context: BaseAudioContext, node: EmitterAudioNode, frame: AudioFrame): void {
+  const bus = frame.ambisonics;
+  const renderer = bus ? null : frame.hrtf;
+  if ((node.binaural?.renderer ?? null) === renderer && (node.encoders?.[0].bus ?? null) === bus) {
+    return;
+  }
+  node.direct.disconnect();
+  for (const tap of node.taps) {
+    tap.filter.disconnect();
+  }
+  if (node.binaural) {
+    disposeBinauralVoice(node.binaural);
+    node.binaural = null;
+  }
+  node.encoders?.forEach(disposeAmbisonicEncoder);
+  node.encoders = null;
+
+  if (bus) {
+    node.encoders = [node.direct, ...node.taps.map((tap) => tap.filter)].map((output) => {
+      const encoder = createAmbisonicEncoder(context, bus);
+      output.connect(encoder.input);
+      return encoder;
+    });
+    return;
+  }
+  for (const tap of node.taps) {
+    tap.filter.connect(tap.panner);
+  }
+  if (renderer) {
+    node.binaural = createBinauralVoice(context, renderer, node.destination);
+    node.direct.connect(node.binaural.input);
+  } else {
+    node.direct.connect(node.panner);
+  }
+}
+
+export function updateEmitterNode(
+  context: BaseAudioContext,
+  node: EmitterAudioNode,
+  emitter: SoundEmitter,
+  buffer: AudioBuffer | undefined,
+  path: Propagation,
+  frame: AudioFrame,
+  time: number
+): void {
+  const { listener, room } = frame;
+  const mix = roomMix(room);
+  const distance = Math.max(0.001, Math.hypot(listener.x - emitter.x, listener.z - emitter.z));
+  const doppler = dopplerFactor(listener, emitter);
+  node.rate = emitter.source.kind === "sample" ? emitter.source.playbackRate * doppler : doppler;
+  if (node.sourceKey !== emitterSourceKey(emitter, buffer)) {
+    startEmitterSource(context, node, emitter, buffer, time);
+  }
+
+  const occlusion = occlusionFilter(path.transmission);
+
+  if (node.source instanceof OscillatorNode) {
+    node.source.type = emitter.waveform;
+    node.source.frequency.setTargetAtTime(emitter.frequency * node.rate, time, 0.04);
+  } else if (node.source instanceof AudioBufferSourceNode) {
+    node.source.playbackRate.setTargetAtTime(node.rate, time, 0.04);
+  }
+  node.gain.gain.setTargetAtTime(emitter.gain, time, 0.04);
+  node.direct.gain.setTargetAtTime(occlusion.gain * mix.dry, time, 0.04);
+  node.lowShelf.gain.setTargetAtTime(occlusion.lowShelfDb, time, 0.05);
+  node.highShelf.gain.setTargetAtTime(occlusion.highShelfDb, time, 0.05);
+  node.filter.frequency.setTargetAtTime(occlusion.lowpassHz, time, 0.05);
+  setPannerPosition(node.panner, path.apparentX, emitter.y, path.apparentZ, time);
+  routeEmitter(context, node, frame);
+  if (node.binaural) {
+    const direction = headDirection(listener, path.apparentX, emitter.y, path.apparentZ);
+    updateBinauralVoice(node.binaural, direction, distanceGain(direction.distance), time);
+  }
+  if (node.encoders) {
+    const direction = fieldDirection(listener, path.apparentX, emitter.y, path.apparentZ);
+    updateAmbisonicEncoder(node.encoders[0], direction, distanceGain(direction.distance), time);
+  }
+
+  const reflections = room.earlyReflections
+    ? computeEarlyReflections(emitter, listener, frame.faces, frame.index, room.reflectionOrder, node.taps.length)
+    : [];
+  node.taps.forEach((tap, index) => {
+    const reflection = reflections[index];
+    if (!reflection) {
+      tap.gain.gain.setTargetAtTime(0, time, 0.04);
+      return;
+    }
+    const delaySec = clamp((reflection.pathLength - distance) / SOUND_SPEED_MPS, 0, MAX_REFLECTION_DELAY_SEC);
+    tap.delay.delayTime.setTargetAtTime(delaySec, time, 0.04);
+    tap.gain.gain.setTargetAtTime(reflection.gain * mix.wet, time, 0.04);
+    tap.filter.frequency.setTargetAtTime(clamp(occlusion.lowpassHz * reflection.brightness, 600, 16000), time, 0.05);
+    setPannerPosition(tap.panner, reflection.imageX, emitter.y, reflection.imageZ, time);
+    const encoder = node.encoders?.[index + 1];
+    if (encoder) {
+      const direction = fieldDirection(listener, reflection.imageX, emitter.y, reflection.imageZ);
+      updateAmbisonicEncoder(encoder, direction, distanceGain(direction.distance), time);
+    }
+  });
+}
+
+export function disposeEmitterNode(node: EmitterAudioNode): void {
+  stopEmitterSource(node);
+  node.gain.disconnect();
+  node.lowShelf.disconnect();
+  node.highShelf.disconnect();
+  node.filter.disconnect();
+  node.direct.disconnect();
+  node.panner.disconnect();
+  if (node.binaural) {
+    disposeBinauralVoice(node.binaural);
+  }
+  node.encoders?.forEach(disposeAmbisonicEncoder);
+  node.reverbSend.disconnect();
+  for (const tap of node.taps) {
+    tap.delay.disconnect();
+    tap.gain.disconnect();
+    tap.filter.disconnect();
+    tap.panner.disconnect();
+  }
+}
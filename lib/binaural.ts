@@ -0,0 +1,239 @@
+import type { HrirSet } from "./sofa";
+import { headAxes, toDegrees, toRadians, type ListenerPose, type Vector3 } from "./world";
+
+// How each emitter is placed: the browser's built-in HRTF panner, convolution of the direct sound with a loaded HRIR
+// set, or encoding into a shared ambisonic sound field (see lib/ambisonics.ts).
+export type SpatialMode = "panner" | "convolution" | "ambisonics";
+
+// Where a point sits relative to the head, in SOFA angles: azimuth counterclockwise from the nose, elevation up.
+export type HeadDirection = {
+  azimuthDeg: number;
+  elevationDeg: number;
+  distance: number;
+};
+
+export type HrtfRenderer = {
+  set: HrirSet;
+  responseFor: (direction: HeadDirection) => AudioBuffer;
+};
+
+// Two convolvers take turns: a new response loads into the silent one, which then crossfades in. Responses are
+// never swapped on an audible convolver, so moving sources do not click.
+export type BinauralVoice = {
+  renderer: HrtfRenderer;
+  input: GainNode;
+  convolvers: [ConvolverNode, ConvolverNode];
+  fades: [GainNode, GainNode];
+  active: 0 | 1;
+  key: string;
+  settledAt: number;
+};
+
+type PreparedResponse = {
+  direction: Vector3;
+  ears: Array<{ onset: number; aligned: Float32Array }>;
+};
+
+export const HRTF_DIRECTION_STEP_DEG = 2;
+export const HRTF_CROSSFADE_SEC = 0.03;
+
+const INTERPOLATION_NEIGHBORS = 3;
+const RESPONSE_CACHE_SIZE = 2048;
+// Samples kept ahead of the detected onset so the leading edge survives alignment.
+const ONSET_LEAD = 2;
+const ONSET_THRESHOLD = 0.1;
+
+function unitDirection(azimuthDeg: number, elevationDeg: number): Vector3 {
+  const azimuth = toRadians(azimuthDeg);
+  const elevation = toRadians(elevationDeg);
+  return {
+    x: Math.cos(elevation) * Math.cos(azimuth),
+    y: Math.cos(elevation) * Math.sin(azimuth),
+    z: Math.sin(elevation)
+  };
+}
+
+// Linear resampling. Level is left alone: the renderer normalizes the whole set afterwards.
+function resample(response: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return response;
+  }
+  const ratio = fromRate / toRate;
+  const result = new Float32Array(Math.max(1, Math.round(response.length / ratio)));
+  for (let i = 0; i < result.length; i += 1) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const mix = position - index;
+    result[i] = (response[index] ?? 0) * (1 - mix) + (response[index + 1] ?? 0) * mix;
+  }
+  return result;
+}
+
+// Splits a response into its arrival time and the response from that point on. Interpolating aligned responses and
+// their onsets separately avoids the comb filtering of mixing responses that arrive at different times.
+function alignResponse(response: Float32Array): { onset: number; aligned: Float32Array } {
+  let peak = 0;
+  for (const sample of response) {
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  const first = response.findIndex((sample) => Math.abs(sample) >= peak * ONSET_THRESHOLD);
+  const onset = Math.max(0, first - ONSET_LEAD);
+  return { onset, aligned: response.subarray(onset) };
+}
+
+function directionKey(direction: HeadDirection): string {
+  const step = HRTF_DIRECTION_STEP_DEG;
+  const elevation = Math.round(direction.elevationDeg / step) * step;
+  const azimuth = Math.abs(elevation) >= 90 ? 0 : (Math.round(direction.azimuthDeg / step) * step + 360) % 360;
+  return `${azimuth}:${elevation}`;
+}
+
+// Resamples the set to the context rate once, then builds interpolated responses on demand for each direction step.
+export function createHrtfRenderer(context: BaseAudioContext, set: HrirSet): HrtfRenderer {
+  const rate = context.sampleRate;
+  const prepared: PreparedResponse[] = set.measurements.map((measurement) => ({
+    direction: unitDirection(measurement.azimuthDeg, measurement.elevationDeg),
+    ears: [measurement.left, measurement.right].map((response) =>
+      alignResponse(resample(response, set.sampleRate, rate))
+    )
+  }));
+  const length = Math.max(1, Math.round((set.taps * rate) / set.sampleRate));
+
+  // Measured sets differ wildly in level; this brings the average ear to unit energy to sit near the built-in panner.
+  let energy = 0;
+  for (const response of prepared) {
+    for (const ear of response.ears) {
+      for (const sample of ear.aligned) {
+        energy += sample * sample;
+      }
+    }
+  }
+  const normalize = energy > 0 ? 1 / Math.sqrt(energy / (prepared.length * 2)) : 1;
+
+  const cache = new Map<string, AudioBuffer>();
+  const build = (key: string) => {
+    const [azimuthDeg, elevationDeg] = key.split(":").map(Number);
+    const target = unitDirection(azimuthDeg, elevationDeg);
+    const nearest = prepared
+      .map((response) => {
+        const { x, y, z } = response.direction;
+        const cosine = Math.min(1, Math.max(-1, x * target.x + y * target.y + z * target.z));
+        return { response, angle: Math.acos(cosine) };
+      })
+      .sort((a, b) => a.angle - b.angle)
+      .slice(0, INTERPOLATION_NEIGHBORS);
+    const weights = nearest.map(({ angle }) => 1 / (angle + 1e-3));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const buffer = context.createBuffer(2, length, rate);
+    for (let ear = 0; ear < 2; ear += 1) {
+      const channel = buffer.getChannelData(ear);
+      const onset = nearest.reduce((sum, { response }, index) => sum + response.ears[ear].onset * weights[index], 0);
+      const start = Math.round(onset / total);
+      nearest.forEach(({ response }, index) => {
+        const { aligned } = response.ears[ear];
+        const scale = (weights[index] / total) * normalize;
+        for (let i = 0; i < aligned.length && start + i < length; i += 1) {
+          channel[start + i] += aligned[i] * scale;
+        }
+      });
+    }
+    return buffer;
+  };
+
+  return {
+    set,
+    responseFor: (direction) => {
+      const key = directionKey(direction);
+      let buffer = cache.get(key);
+      if (buffer) {
+        cache.delete(key);
+      } else {
+        buffer = build(key);
+        if (cache.size >= RESPONSE_CACHE_SIZE) {
+          cache.delete(cache.keys().next().value as string);
+        }
+      }
+      cache.set(key, buffer);
+      return buffer;
+    }
+  };
+}
+
+export function headDirection(listener: ListenerPose, x: number, y: number, z: number): HeadDirection {
+  const { forward, up } = headAxes(listener);
+  const right = {
+    x: forward.y * up.z - forward.z * up.y,
+    y: forward.z * up.x - forward.x * up.z,
+    z: forward.x * up.y - forward.y * up.x
+  };
+  const offset = { x: x - listener.x, y: y - listener.heightM, z: z - listener.z };
+  const dot = (axis: Vector3) => offset.x * axis.x + offset.y * axis.y + offset.z * axis.z;
+  const ahead = dot(forward);
+  const side = dot(right);
+  return {
+    azimuthDeg: toDegrees(Math.atan2(-side, ahead)),
+    elevationDeg: toDegrees(Math.atan2(dot(up), Math.hypot(ahead, side))),
+    distance: Math.hypot(offset.x, offset.y, offset.z)
+  };
+}
+
+export function createBinauralVoice(
+  context: BaseAudioContext,
+  renderer: HrtfRenderer,
+  destination: AudioNode
+): BinauralVoice {
+  // Stereo samples are folded to mono first; a stereo input would otherwise run each channel through one ear only.
+  const input = context.createGain();
+  input.channelCount = 1;
+  input.channelCountMode = "explicit";
+  input.gain.value = 0;
+
+  const voice: BinauralVoice = {
+    renderer,
+    input,
+    convolvers: [context.createConvolver(), context.createConvolver()],
+    fades: [context.createGain(), context.createGain()],
+    active: 0,
+    key: "",
+    settledAt: 0
+  };
+  voice.convolvers.forEach((convolver, index) => {
+    const fade = voice.fades[index];
+    convolver.normalize = false;
+    fade.gain.value = 0;
+    input.connect(convolver);
+    convolver.connect(fade);
+    fade.connect(destination);
+  });
+  return voice;
+}
+
+export function updateBinauralVoice(voice: BinauralVoice, direction: HeadDirection, gain: number, time: number): void {
+  voice.input.gain.setTargetAtTime(gain, time, 0.04);
+  const key = directionKey(direction);
+  // A crossfade still in progress finishes first; the next update picks up wherever the source has moved since.
+  if (key === voice.key || time < voice.settledAt) {
+    return;
+  }
+  const next = voice.active === 0 ? 1 : 0;
+  voice.convolvers[next].buffer = voice.renderer.responseFor(direction);
+  const fadeIn = voice.fades[next].gain;
+  const fadeOut = voice.fades[voice.active].gain;
+  fadeIn.cancelScheduledValues(time);
+  fadeIn.setValueAtTime(0, time);
+  fadeIn.linearRampToValueAtTime(1, time + HRTF_CROSSFADE_SEC);
+  fadeOut.cancelScheduledValues(time);
+  fadeOut.setValueAtTime(voice.key ? 1 : 0, time);
+  fadeOut.linearRampToValueAtTime(0, time + HRTF_CROSSFADE_SEC);
+  voice.active = next;
+  voice.key = key;
+  voice.settledAt = time + HRTF_CROSSFADE_SEC;
+}
+
+export function disposeBinauralVoice(voice: BinauralVoice): void {
+  voice.input.disconnect();
+  for (const node of [...voice.convolvers, ...voice.fades]) {
+    node.disconnect();
+  }
+}
@@ -0,0 +1,34 @@
+export type FeedbackCue = "bump" | "goal";
+
+// Non-spatial feedback tones for game modes, played straight into the master bus.
+const CUE_NOTES: Record<FeedbackCue, Array<{ hz: number; at: number; duration: number; type: OscillatorType }>> = {
+  bump: [{ hz: 110, at: 0, duration: 0.14, type: "sine" }],
+  goal: [
+    { hz: 660, at: 0, duration: 0.16, type: "triangle" },
+    { hz: 880, at: 0.14, duration: 0.16, type: "triangle" },
+    { hz: 1320, at: 0.28, duration: 0.3, type: "triangle" }
+  ]
+};
+
+const CUE_GAIN = 0.28;
+
+export function playCue(context: BaseAudioContext, destination: AudioNode, cue: FeedbackCue): void {
+  const start = context.currentTime + 0.01;
+  for (const note of CUE_NOTES[cue]) {
+    const oscillator = context.createOscillator();
+    oscillator.type = note.type;
+    oscillator.frequency.value = note.hz;
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0, start + note.at);
+    gain.gain.linearRampToValueAtTime(CUE_GAIN, start + note.at + 0.008);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + note.at + note.duration);
+    oscillator.connect(gain);
+    gain.connect(destination);
+    oscillator.onended = () => {
+      oscillator.disconnect();
+      gain.disconnect();
+    };
+    oscillator.start(start + note.at);
+    oscillator.stop(start + note.at + note.duration + 0.02);
+  }
+}
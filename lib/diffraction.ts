@@ -0,0 +1,233 @@
+import { polygonArea, wallPieces } from "./geometry";
+import { ACOUSTIC_BANDS, BAND_CENTER_HZ, type AcousticBands } from "./materials";
+import { occlusionBetween } from "./occlusion";
+import { segmentIsClear, type ObstacleSet, type SpatialIndex } from "./spatial";
+import { SOUND_SPEED_MPS, clamp, type PlanPoint } from "./world";
+
+type Point = PlanPoint;
+
+export type Propagation = {
+  transmission: AcousticBands;
+  crossings: number;
+  apparentX: number;
+  apparentZ: number;
+  pathLength: number;
+  path: Point[];
+  diffracted: boolean;
+};
+
+const EDGE_OFFSET_M = 0.05;
+const ZONE_EDGE_SAMPLES = 16;
+const GRAZING_LOSS_DB = 5;
+const MAX_DIFFRACTION_LOSS_DB = 30;
+const ILLUMINATED_FRESNEL_RANGE = 0.25;
+const MAX_DETOUR_M = 6;
+// Keeps the offset of very sharp corners from shooting off into the distance.
+const MIN_MITER_SCALE = 0.25;
+
+// Points just outside each outward corner, EDGE_OFFSET_M clear of both edges that meet there. Corners that turn
+// inward cannot bend sound around them and are skipped.
+function cornerPoints(outline: Point[]): Point[] {
+  const sign = polygonArea(outline) >= 0 ? 1 : -1;
+  const normal = (a: Point, b: Point) => {
+    const length = Math.max(1e-9, Math.hypot(b.x - a.x, b.z - a.z));
+    return { x: (sign * (b.z - a.z)) / length, z: (-sign * (b.x - a.x)) / length };
+  };
+  const points: Point[] = [];
+  outline.forEach((corner, i) => {
+    const previous = outline[(i + outline.length - 1) % outline.length];
+    const next = outline[(i + 1) % outline.length];
+    const turn = (corner.x - previous.x) * (next.z - corner.z) - (corner.z - previous.z) * (next.x - corner.x);
+    if (turn * sign <= 0) {
+      return;
+    }
+    const before = normal(previous, corner);
+    const after = normal(corner, next);
+    const scale = EDGE_OFFSET_M / Math.max(MIN_MITER_SCALE, 1 + before.x * after.x + before.z * after.z);
+    points.push({ x: corner.x + (before.x + after.x) * scale, z: corner.z + (before.z + after.z) * scale });
+  });
+  return points;
+}
+
+function edgePoints({ walls, zones }: ObstacleSet): Point[] {
+  const points: Point[] = [];
+  for (const wall of walls) {
+    for (const piece of wallPieces(wall)) {
+      points.push(...cornerPoints(piece));
+    }
+  }
+  for (const zone of zones) {
+    // Points on a circumscribed polygon so the chords between neighbours stay outside the circle.
+    const radius = (zone.radius + EDGE_OFFSET_M) / Math.cos(Math.PI / ZONE_EDGE_SAMPLES);
+    for (let i = 0; i < ZONE_EDGE_SAMPLES; i += 1) {
+      const angle = (i / ZONE_EDGE_SAMPLES) * Math.PI * 2;
+      points.push({ x: zone.x + Math.cos(angle) * radius, z: zone.z + Math.sin(angle) * radius });
+    }
+  }
+  return points;
+}
+
+// A* over the visibility graph of edge points; the straight-line distance to the goal is an admissible heuristic.
+function shortestPath(
+  start: Point,
+  goal: Point,
+  nodes: Point[],
+  index: SpatialIndex,
+  maxLength: number
+): Point[] | null {
+  const all = [start, ...nodes, goal];
+  const goalIndex = all.length - 1;
+  const distance = new Array<number>(all.length).fill(Number.POSITIVE_INFINITY);
+  const remaining = all.map((point) => Math.hypot(goal.x - point.x, goal.z - point.z));
+  const previous = new Array<number>(all.length).fill(-1);
+  const visited = new Array<boolean>(all.length).fill(false);
+  distance[0] = 0;
+
+  for (;;) {
+    let current = -1;
+    for (let i = 0; i < all.length; i += 1) {
+      if (
+        !visited[i] &&
+        distance[i] < Number.POSITIVE_INFINITY &&
+        (current < 0 || distance[i] + remaining[i] < distance[current] + remaining[current])
+      ) {
+        current = i;
+      }
+    }
+    if (current < 0) {
+      return null;
+    }
+    if (current === goalIndex) {
+      break;
+    }
+    visited[current] = true;
+
+    for (let next = 1; next < all.length; next += 1) {
+      if (visited[next]) {
+        continue;
+      }
+      const candidate = distance[current] + Math.hypot(all[next].x - all[current].x, all[next].z - all[current].z);
+      if (
+        candidate >= distance[next] ||
+        candidate + remaining[next] > maxLength ||
+        !segmentIsClear(index, all[current].x, all[current].z, all[next].x, all[next].z)
+      ) {
+        continue;
+      }
+      distance[next] = candidate;
+      previous[next] = current;
+    }
+  }
+
+  const path: Point[] = [];
+  for (let node = goalIndex; node >= 0; node = previous[node]) {
+    path.unshift(all[node]);
+  }
+  return path;
+}
+
+function pathLength(path: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < path.length; i += 1) {
+    length += Math.hypot(path[i].x - path[i - 1].x, path[i].z - path[i - 1].z);
+  }
+  return length;
+}
+
+// Kurze-Anderson barrier loss for a positive Fresnel number, ramped down to zero on the illuminated side so a
+// source that slides out from behind an edge fades in instead of snapping.
+function diffractionLossDb(fresnel: number): number {
+  if (fresnel <= 0) {
+    return GRAZING_LOSS_DB * clamp(1 + fresnel / ILLUMINATED_FRESNEL_RANGE, 0, 1);
+  }
+  const root = Math.sqrt(2 * Math.PI * fresnel);
+  return Math.min(MAX_DIFFRACTION_LOSS_DB, GRAZING_LOSS_DB + 20 * Math.log10(root / Math.tanh(root)));
+}
+
+function diffractionBands(pathDifference: number, shadowed: boolean): AcousticBands {
+  const bands: AcousticBands = { low: 1, mid: 1, high: 1 };
+  for (const band of ACOUSTIC_BANDS) {
+    const wavelength = SOUND_SPEED_MPS / BAND_CENTER_HZ[band];
+    const fresnel = ((shadowed ? 2 : -2) * pathDifference) / wavelength;
+    bands[band] = Math.pow(10, -diffractionLossDb(fresnel) / 20);
+  }
+  return bands;
+}
+
+export function propagationBetween(listener: Point, source: Point, index: SpatialIndex): Propagation {
+  const direct = Math.max(0.001, Math.hypot(source.x - listener.x, source.z - listener.z));
+  const through = occlusionBetween(listener.x, listener.z, source.x, source.z, index);
+  // Detours longer than MAX_DETOUR_M are inaudible next to transmission, so only edge points inside that ellipse
+  // around the straight line join the graph.
+  const margin = Math.sqrt(((direct + MAX_DETOUR_M) / 2) ** 2 - (direct / 2) ** 2);
+  const edges = edgePoints(index.queryCapsule(listener.x, listener.z, source.x, source.z, margin)).filter(
+    (edge) =>
+      Math.hypot(edge.x - listener.x, edge.z - listener.z) + Math.hypot(source.x - edge.x, source.z - edge.z) <=
+      direct + MAX_DETOUR_M
+  );
+
+  if (through.crossings === 0) {
+    let nearestDifference = Number.POSITIVE_INFINITY;
+    for (const edge of edges) {
+      const difference =
+        Math.hypot(edge.x - listener.x, edge.z - listener.z) + Math.hypot(source.x - edge.x, source.z - edge.z) - direct;
+      nearestDifference = Math.min(nearestDifference, difference);
+    }
+    return {
+      transmission: Number.isFinite(nearestDifference)
+        ? diffractionBands(nearestDifference, false)
+        : { low: 1, mid: 1, high: 1 },
+      crossings: 0,
+      apparentX: source.x,
+      apparentZ: source.z,
+      pathLength: direct,
+      path: [listener, source],
+      diffracted: false
+    };
+  }
+
+  const path = shortestPath(listener, source, edges, index, direct + MAX_DETOUR_M);
+  if (!path || path.length < 3) {
+    return {
+      transmission: through.transmission,
+      crossings: through.crossings,
+      apparentX: source.x,
+      apparentZ: source.z,
+      pathLength: direct,
+      path: [listener, source],
+      diffracted: false
+    };
+  }
+
+  const length = pathLength(path);
+  const diffracted = diffractionBands(length - direct, true);
+  const transmission: AcousticBands = { low: 0, mid: 0, high: 0 };
+  for (const band of ACOUSTIC_BANDS) {
+    transmission[band] = Math.min(1, Math.hypot(diffracted[band], through.transmission[band]));
+  }
+
+  // Blend the apparent direction between the straight line and the first diffracting edge by their energies.
+  const weight =
+    (diffracted.mid * diffracted.mid) /
+    Math.max(1e-9, diffracted.mid * diffracted.mid + through.transmission.mid * through.transmission.mid);
+  const edge = path[1];
+  const edgeDistance = Math.max(0.001, Math.hypot(edge.x - listener.x, edge.z - listener.z));
+  const edgeDirX = (edge.x - listener.x) / edgeDistance;
+  const edgeDirZ = (edge.z - listener.z) / edgeDistance;
+  const directDirX = (source.x - listener.x) / direct;
+  const directDirZ = (source.z - listener.z) / direct;
+  const blendX = directDirX + (edgeDirX - directDirX) * weight;
+  const blendZ = directDirZ + (edgeDirZ - directDirZ) * weight;
+  const blendLength = Math.max(1e-6, Math.hypot(blendX, blendZ));
+  const distance = direct + (length - direct) * weight;
+
+  return {
+    transmission,
+    crossings: through.crossings,
+    apparentX: listener.x + (blendX / blendLength) * distance,
+    apparentZ: listener.z + (blendZ / blendLength) * distance,
+    pathLength: length,
+    path,
+    diffracted: true
+  };
+}
@@ -0,0 +1,263 @@
+import { reflectanceBands, type AcousticBands } from "./materials";
+import { castRay, type SpatialIndex } from "./spatial";
+import { SOUND_SPEED_MPS, WORLD_RADIUS_M, clamp, type ListenerPose } from "./world";
+
+export type EchoSurface = "wall" | "zone" | "boundary";
+
+export type EchoSettings = {
+  clickFrequency: number;
+  clickDurationMs: number;
+  clickBrightness: number;
+  clickGain: number;
+  rayCount: number;
+  maxReflections: number;
+  scattering: number;
+};
+
+// Rays travel in the horizontal plane through the ears, so every reflection point sits at ear height `y`.
+export type EchoReflection = {
+  x: number;
+  y: number;
+  z: number;
+  delaySec: number;
+  amplitude: number;
+  pathLength: number;
+  order: number;
+  surface: EchoSurface;
+  brightness: number;
+};
+
+export const DEFAULT_ECHO_SETTINGS: EchoSettings = {
+  clickFrequency: 3200,
+  clickDurationMs: 4,
+  clickBrightness: 0.35,
+  clickGain: 0.5,
+  rayCount: 180,
+  maxReflections: 2,
+  scattering: 0.6
+};
+
+const RAY_EPSILON_M = 1e-4;
+const REFERENCE_DISTANCE_M = 1;
+const MAX_PATH_M = WORLD_RADIUS_M * 6;
+const MAX_ECHOES = 40;
+const MERGE_WINDOW_SEC = 0.0015;
+const MERGE_ANGLE_RAD = (12 * Math.PI) / 180;
+const SPECULAR_EXPONENT = 24;
+const ECHO_GAIN_SCALE = 4;
+const DRY_CLICK_GAIN = 0.35;
+
+function mergeReflections(reflections: EchoReflection[], listener: ListenerPose): EchoReflection[] {
+  const sorted = [...reflections].sort((a, b) => a.delaySec - b.delaySec);
+  const merged: Array<EchoReflection & { energy: number; angle: number }> = [];
+
+  for (const reflection of sorted) {
+    const angle = Math.atan2(reflection.z - listener.z, reflection.x - listener.x);
+    const energy = reflection.amplitude * reflection.amplitude;
+    const match = merged.find((candidate) => {
+      const angleDelta = Math.abs(Math.atan2(Math.sin(angle - candidate.angle), Math.cos(angle - candidate.angle)));
+      return Math.abs(candidate.delaySec - reflection.delaySec) <= MERGE_WINDOW_SEC && angleDelta <= MERGE_ANGLE_RAD;
+    });
+
+    if (!match) {
+      merged.push({ ...reflection, energy, angle });
+      continue;
+    }
+
+    const total = match.energy + energy;
+    match.x = (match.x * match.energy + reflection.x * energy) / total;
+    match.z = (match.z * match.energy + reflection.z * energy) / total;
+    match.delaySec = (match.delaySec * match.energy + reflection.delaySec * energy) / total;
+    match.pathLength = match.delaySec * SOUND_SPEED_MPS;
+    match.brightness = (match.brightness * match.energy + reflection.brightness * energy) / total;
+    match.order = Math.min(match.order, reflection.order);
+    match.energy = total;
+    match.amplitude = Math.sqrt(total);
+    match.angle = Math.atan2(match.z - listener.z, match.x - listener.x);
+  }
+
+  return merged
+    .sort((a, b) => b.amplitude - a.amplitude)
+    .slice(0, MAX_ECHOES)
+    .map((reflection) => ({
+      x: reflection.x,
+      y: reflection.y,
+      z: reflection.z,
+      delaySec: reflection.delaySec,
+      amplitude: reflection.amplitude,
+      pathLength: reflection.pathLength,
+      order: reflection.order,
+      surface: reflection.surface,
+      brightness: reflection.brightness
+    }))
+    .sort((a, b) => a.delaySec - b.delaySec);
+}
+
+export function traceEchoes(
+  listener: ListenerPose,
+  index: SpatialIndex,
+  settings: EchoSettings,
+  boundary: AcousticBands
+): EchoReflection[] {
+  const rayCount = Math.max(8, Math.round(settings.rayCount));
+  const rayWidth = (Math.PI * 2) / rayCount;
+  const reflections: EchoReflection[] = [];
+
+  for (let i = 0; i < rayCount; i += 1) {
+    const angle = (i + 0.5) * rayWidth;
+    let dx = Math.cos(angle);
+    let dz = Math.sin(angle);
+    let ox = listener.x;
+    let oz = listener.z;
+    let travelled = 0;
+    let reflectance = 1;
+    let reflectanceHigh = 1;
+
+    for (let order = 1; order <= settings.maxReflections; order += 1) {
+      const hit = castRay(index, ox, oz, dx, dz);
+      if (!hit) {
+        break;
+      }
+
+      travelled += hit.t;
+      if (travelled > MAX_PATH_M) {
+        break;
+      }
+
+      const hx = ox + dx * hit.t;
+      const hz = oz + dz * hit.t;
+      const bands = hit.material ? reflectanceBands(hit.material) : boundary;
+      reflectance *= clamp(bands.mid, 0, 1);
+      reflectanceHigh *= clamp(bands.high, 0, 1);
+
+      const dot = dx * hit.nx + dz * hit.nz;
+      const rx = dx - 2 * dot * hit.nx;
+      const rz = dz - 2 * dot * hit.nz;
+
+      const toListenerX = listener.x - hx;
+      const toListenerZ = listener.z - hz;
+      const returnLength = Math.hypot(toListenerX, toListenerZ);
+      if (returnLength > RAY_EPSILON_M) {
+        const ux = toListenerX / returnLength;
+        const uz = toListenerZ / returnLength;
+        const facing = ux * hit.nx + uz * hit.nz;
+        const sx = hx + hit.nx * RAY_EPSILON_M * 10;
+        const sz = hz + hit.nz * RAY_EPSILON_M * 10;
+        const blocker = facing > 0 ? castRay(index, sx, sz, ux, uz) : null;
+        const visible = facing > 0 && (!blocker || blocker.t >= returnLength - RAY_EPSILON_M * 10);
+
+        if (visible) {
+          const diffuse = settings.scattering * facing;
+          const specular = (1 - settings.scattering) * Math.pow(Math.max(0, rx * ux + rz * uz), SPECULAR_EXPONENT);
+          const pathLength = travelled + returnLength;
+          const spreading = REFERENCE_DISTANCE_M / Math.max(REFERENCE_DISTANCE_M, pathLength);
+          const energy = rayWidth * reflectance * (diffuse + specular) * spreading * spreading;
+          if (energy > 1e-7) {
+            reflections.push({
+              x: hx,
+              y: listener.heightM,
+              z: hz,
+              delaySec: pathLength / SOUND_SPEED_MPS,
+              amplitude: Math.sqrt(energy),
+              pathLength,
+              order,
+              surface: hit.kind,
+              brightness: reflectance > 0 ? clamp(reflectanceHigh / reflectance, 0, 2) : 1
+            });
+          }
+        }
+      }
+
+      ox = hx + hit.nx * RAY_EPSILON_M * 10;
+      oz = hz + hit.nz * RAY_EPSILON_M * 10;
+      dx = rx;
+      dz = rz;
+    }
+  }
+
+  return mergeReflections(reflections, listener);
+}
+
+export function createClickBuffer(
+  context: BaseAudioContext,
+  settings: EchoSettings,
+  random: () => number
+): AudioBuffer {
+  const durationSec = clamp(settings.clickDurationMs, 0.5, 40) / 1000;
+  const length = Math.max(1, Math.round(durationSec * context.sampleRate));
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const samples = buffer.getChannelData(0);
+  const decay = durationSec / 5;
+  const brightness = clamp(settings.clickBrightness, 0, 1);
+
+  for (let i = 0; i < length; i += 1) {
+    const t = i / context.sampleRate;
+    const envelope = Math.exp(-t / decay) * Math.min(1, t * context.sampleRate / 8);
+    const tone = Math.sin(2 * Math.PI * settings.clickFrequency * t);
+    const noise = random() * 2 - 1;
+    samples[i] = envelope * ((1 - brightness) * tone + brightness * noise);
+  }
+
+  return buffer;
+}
+
+export function playEchoClick(
+  context: BaseAudioContext,
+  destination: AudioNode,
+  reflections: EchoReflection[],
+  settings: EchoSettings,
+  random: () => number
+): void {
+  const buffer = createClickBuffer(context, settings, random);
+  const start = context.currentTime + 0.01;
+
+  const dry = context.createBufferSource();
+  dry.buffer = buffer;
+  const dryGain = context.createGain();
+  dryGain.gain.value = settings.clickGain * DRY_CLICK_GAIN;
+  dry.connect(dryGain);
+  dryGain.connect(destination);
+  dry.onended = () => {
+    dry.disconnect();
+    dryGain.disconnect();
+  };
+  dry.start(start);
+
+  for (const reflection of reflections) {
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+
+    const gain = context.createGain();
+    gain.gain.value = settings.clickGain * reflection.amplitude * ECHO_GAIN_SCALE;
+
+    const filter = context.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.frequency.value = clamp(
+      (16000 * reflection.brightness) / (1 + reflection.pathLength / 12 + reflection.order),
+      800,
+      16000
+    );
+
+    const panner = new PannerNode(context, {
+      panningModel: "HRTF",
+      distanceModel: "inverse",
+      refDistance: 1,
+      rolloffFactor: 0,
+      positionX: reflection.x,
+      positionY: reflection.y,
+      positionZ: reflection.z
+    });
+
+    source.connect(gain);
+    gain.connect(filter);
+    filter.connect(panner);
+    panner.connect(destination);
+    source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
+      filter.disconnect();
+      panner.disconnect();
+    };
+    source.start(start + reflection.delaySec);
+  }
+}
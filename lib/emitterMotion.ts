@@ -0,0 +1,170 @@
+import { clamp, type EmitterMotion, type PathMode, type PathWaypoint } from "./world";
+
+export type MotionKind = EmitterMotion["kind"];
+export type PathMotion = Extract<EmitterMotion, { kind: "path" }>;
+
+// A path flattened into short straight pieces, with `distanceM` measured from the first waypoint.
+export type RoutePoint = {
+  x: number;
+  z: number;
+  speedMps: number;
+  distanceM: number;
+};
+
+export type Route = {
+  points: RoutePoint[];
+  lengthM: number;
+  closed: boolean;
+};
+
+export const MOTION_OPTIONS: Array<{ kind: MotionKind; label: string }> = [
+  { kind: "bounce", label: "Bounce off obstacles" },
+  { kind: "path", label: "Follow a path" },
+  { kind: "orbit", label: "Orbit the listener" },
+  { kind: "follow", label: "Follow the listener" },
+  { kind: "flee", label: "Flee the listener" },
+  { kind: "wander", label: "Wander" }
+];
+
+export const PATH_MODE_OPTIONS: Array<{ mode: PathMode; label: string }> = [
+  { mode: "loop", label: "Loop" },
+  { mode: "pingPong", label: "Ping-pong" },
+  { mode: "once", label: "Once" }
+];
+
+export const MOTION_LIMITS = {
+  speedMps: { min: 0.2, max: 20 },
+  orbitRadiusM: { min: 1, max: 12 },
+  keepDistanceM: { min: 0.5, max: 12 },
+  turnDegPerSec: { min: 10, max: 360 }
+};
+
+export const MAX_WAYPOINTS = 64;
+// Walking pace, for new waypoints and behaviours.
+export const DEFAULT_SPEED_MPS = 1.4;
+
+const SPLINE_SAMPLES_PER_SEGMENT = 12;
+
+export function defaultMotion(kind: MotionKind, at: { x: number; z: number }): EmitterMotion {
+  switch (kind) {
+    case "bounce":
+      return { kind };
+    case "path":
+      return {
+        kind,
+        waypoints: [{ x: at.x, z: at.z, speedMps: DEFAULT_SPEED_MPS }],
+        spline: false,
+        mode: "loop",
+        distanceM: 0,
+        reversed: false
+      };
+    case "orbit":
+      return { kind, radiusM: 4, speedMps: DEFAULT_SPEED_MPS, clockwise: true };
+    case "follow":
+      return { kind, speedMps: 1.2, distanceM: 2 };
+    case "flee":
+      return { kind, speedMps: 2, distanceM: 6 };
+    case "wander":
+      return { kind, speedMps: 1, turnDegPerSec: 90 };
+  }
+}
+
+export function describeMotion(motion: EmitterMotion): string {
+  switch (motion.kind) {
+    case "bounce":
+      return "bouncing";
+    case "path": {
+      const mode = PATH_MODE_OPTIONS.find((option) => option.mode === motion.mode)?.label ?? motion.mode;
+      const shape = motion.spline ? "curved" : "straight";
+      return `${shape} path of ${motion.waypoints.length} waypoints, ${mode.toLowerCase()}`;
+    }
+    case "orbit":
+      return `orbiting you ${motion.clockwise ? "clockwise" : "counterclockwise"} at ${motion.radiusM.toFixed(1)} m`;
+    case "follow":
+      return "following you";
+    case "flee":
+      return "fleeing you";
+    case "wander":
+      return "wandering";
+  }
+}
+
+// Uniform Catmull-Rom, which passes through every waypoint.
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (3 * p1 - p0 - 3 * p2 + p3) * t3);
+}
+
+function buildRoute(waypoints: PathWaypoint[], spline: boolean, closed: boolean): Route {
+  const count = waypoints.length;
+  const at = (index: number) =>
+    closed ? waypoints[((index % count) + count) % count] : waypoints[clamp(index, 0, count - 1)];
+  const samples = spline ? SPLINE_SAMPLES_PER_SEGMENT : 1;
+  const segments = closed ? count : count - 1;
+
+  const points: RoutePoint[] = count > 0 ? [{ ...waypoints[0], distanceM: 0 }] : [];
+  for (let segment = 0; segment < segments; segment += 1) {
+    const [p0, p1, p2, p3] = [at(segment - 1), at(segment), at(segment + 1), at(segment + 2)];
+    for (let sample = 1; sample <= samples; sample += 1) {
+      const t = sample / samples;
+      const x = spline ? catmullRom(p0.x, p1.x, p2.x, p3.x, t) : p1.x + (p2.x - p1.x) * t;
+      const z = spline ? catmullRom(p0.z, p1.z, p2.z, p3.z, t) : p1.z + (p2.z - p1.z) * t;
+      const previous = points[points.length - 1];
+      points.push({
+        x,
+        z,
+        speedMps: p1.speedMps + (p2.speedMps - p1.speedMps) * t,
+        distanceM: previous.distanceM + Math.hypot(x - previous.x, z - previous.z)
+      });
+    }
+  }
+  return { points, lengthM: points.length > 0 ? points[points.length - 1].distanceM : 0, closed };
+}
+
+// Emitters step every frame, so routes are kept until the waypoints are edited.
+const routeCache = new WeakMap<PathWaypoint[], { spline: boolean; closed: boolean; route: Route }>();
+
+export function pathRoute(motion: PathMotion): Route {
+  const closed = motion.mode === "loop" && motion.waypoints.length > 1;
+  const cached = routeCache.get(motion.waypoints);
+  if (cached && cached.spline === motion.spline && cached.closed === closed) {
+    return cached.route;
+  }
+  const route = buildRoute(motion.waypoints, motion.spline, closed);
+  routeCache.set(motion.waypoints, { spline: motion.spline, closed, route });
+  return route;
+}
+
+export function pointAlongRoute(route: Route, distanceM: number): Omit<RoutePoint, "distanceM"> {
+  const { points } = route;
+  const distance = clamp(distanceM, 0, route.lengthM);
+  let low = 0;
+  let high = points.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (points[middle].distanceM <= distance) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  const a = points[low];
+  const b = points[high];
+  const span = b.distanceM - a.distanceM;
+  const t = span > 0 ? (distance - a.distanceM) / span : 0;
+  return {
+    x: a.x + (b.x - a.x) * t,
+    z: a.z + (b.z - a.z) * t,
+    speedMps: a.speedMps + (b.speedMps - a.speedMps) * t
+  };
+}
+
+// New waypoints keep the speed of the one before, so a path drawn for a car stays at car speed.
+export function appendWaypoint(motion: PathMotion, x: number, z: number): PathMotion {
+  if (motion.waypoints.length >= MAX_WAYPOINTS) {
+    return motion;
+  }
+  const speedMps = motion.waypoints[motion.waypoints.length - 1]?.speedMps ?? DEFAULT_SPEED_MPS;
+  return { ...motion, waypoints: [...motion.waypoints, { x, z, speedMps }] };
+}
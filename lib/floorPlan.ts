@@ -0,0 +1,95 @@
+import { isSimplePolygon } from "./geometry";
+import { WALL_SIZE_LIMITS } from "./narration";
+import {
+  DEFAULT_BOUNDARY,
+  WORLD_RADIUS_M,
+  clamp,
+  type PlanPoint,
+  type Wall,
+  type WallShape,
+  type WorldBoundary
+} from "./world";
+
+export type WallShapeKind = WallShape["kind"];
+export type BoundaryKind = WorldBoundary["kind"];
+
+export const WALL_SHAPE_OPTIONS: Array<{ kind: WallShapeKind; label: string }> = [
+  { kind: "box", label: "Box" },
+  { kind: "polyline", label: "Polyline (corridor or street front)" },
+  { kind: "polygon", label: "Polygon" }
+];
+
+export const BOUNDARY_OPTIONS: Array<{ kind: BoundaryKind; label: string }> = [
+  { kind: "circle", label: "Circle" },
+  { kind: "rectangle", label: "Rectangle" },
+  { kind: "polygon", label: "Custom polygon" }
+];
+
+export const WALL_THICKNESS_LIMITS = { min: 0.1, max: 2 };
+export const BOUNDARY_LIMITS = {
+  radiusM: { min: 2, max: WORLD_RADIUS_M },
+  sideM: { min: 2, max: WORLD_RADIUS_M * 2 }
+};
+// The most corners a polyline or polygon wall, or a polygon boundary, may have.
+export const MAX_PLAN_POINTS = 32;
+
+// The fewest points each outline needs to enclose or run through anything.
+export function minPlanPoints(kind: "polyline" | "polygon"): number {
+  return kind === "polyline" ? 2 : 3;
+}
+
+function boxCorners(width: number, height: number): PlanPoint[] {
+  return [
+    { x: -width / 2, z: -height / 2 },
+    { x: width / 2, z: -height / 2 },
+    { x: width / 2, z: height / 2 },
+    { x: -width / 2, z: height / 2 }
+  ];
+}
+
+// Switching shape keeps the wall roughly where and as big as it was: a box becomes a line along its long side or its
+// four corners, and outlines keep their points where they have enough and, for a polygon, where they do not cross.
+export function defaultWallShape(kind: WallShapeKind, wall: Wall): WallShape {
+  const { shape } = wall;
+  switch (kind) {
+    case "box":
+      return { kind };
+    case "polyline": {
+      if (shape.kind === "polygon") {
+        return { kind, points: shape.points, thicknessM: 0.3 };
+      }
+      const along = wall.width >= wall.height;
+      const half = (along ? wall.width : wall.height) / 2;
+      return {
+        kind,
+        points: along ? [{ x: -half, z: 0 }, { x: half, z: 0 }] : [{ x: 0, z: -half }, { x: 0, z: half }],
+        thicknessM: clamp(along ? wall.height : wall.width, WALL_THICKNESS_LIMITS.min, WALL_THICKNESS_LIMITS.max)
+      };
+    }
+    case "polygon":
+      return {
+        kind,
+        points:
+          shape.kind === "polyline" &&
+          shape.points.length >= minPlanPoints("polygon") &&
+          isSimplePolygon(shape.points)
+            ? shape.points
+            : boxCorners(Math.max(wall.width, WALL_SIZE_LIMITS.min), Math.max(wall.height, WALL_SIZE_LIMITS.min))
+      };
+  }
+}
+
+export function defaultBoundary(kind: BoundaryKind): WorldBoundary {
+  switch (kind) {
+    case "circle":
+      return DEFAULT_BOUNDARY;
+    case "rectangle":
+      return { kind, widthM: 24, depthM: 16 };
+    case "polygon":
+      return { kind, points: boxCorners(24, 24) };
+  }
+}
+
+export function appendPlanPoint(points: PlanPoint[], point: PlanPoint): PlanPoint[] {
+  return points.length >= MAX_PLAN_POINTS ? points : [...points, point];
+}
@@ -0,0 +1,593 @@
+import { clamp, toRadians, type PlanPoint, type Wall, type WorldBoundary } from "./world";
+
+export type Bounds = {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+};
+
+export type SurfaceHit = {
+  t: number;
+  nx: number;
+  nz: number;
+};
+
+export function segmentIntersectsRect(
+  ax: number,
+  az: number,
+  bx: number,
+  bz: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number
+): boolean {
+  const dx = bx - ax;
+  const dz = bz - az;
+  let t0 = 0;
+  let t1 = 1;
+
+  if (Math.abs(dx) < 1e-12) {
+    if (ax < left || ax > right) {
+      return false;
+    }
+  } else {
+    const ta = (left - ax) / dx;
+    const tb = (right - ax) / dx;
+    t0 = Math.max(t0, Math.min(ta, tb));
+    t1 = Math.min(t1, Math.max(ta, tb));
+  }
+
+  if (Math.abs(dz) < 1e-12) {
+    if (az < top || az > bottom) {
+      return false;
+    }
+  } else {
+    const ta = (top - az) / dz;
+    const tb = (bottom - az) / dz;
+    t0 = Math.max(t0, Math.min(ta, tb));
+    t1 = Math.min(t1, Math.max(ta, tb));
+  }
+
+  return t0 <= t1;
+}
+
+export function segmentIntersectsCircle(
+  ax: number,
+  az: number,
+  bx: number,
+  bz: number,
+  cx: number,
+  cz: number,
+  radius: number
+): boolean {
+  const abx = bx - ax;
+  const abz = bz - az;
+  const abLenSq = abx * abx + abz * abz;
+  if (abLenSq < 1e-12) {
+    return Math.hypot(cx - ax, cz - az) <= radius;
+  }
+  const projection = clamp(((cx - ax) * abx + (cz - az) * abz) / abLenSq, 0, 1);
+  return Math.hypot(cx - (ax + abx * projection), cz - (az + abz * projection)) <= radius;
+}
+
+// Ray helpers take an unnormalised direction, so `t` is measured in multiples of (dx, dz). They report the first
+// entry into the shape at t >= 0 and ignore shapes the origin already sits inside.
+export function rayCircle(
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number,
+  cx: number,
+  cz: number,
+  radius: number
+): SurfaceHit | null {
+  const fx = ox - cx;
+  const fz = oz - cz;
+  const a = dx * dx + dz * dz;
+  const c = fx * fx + fz * fz - radius * radius;
+  if (a < 1e-12 || c < 0) {
+    return null;
+  }
+  const b = fx * dx + fz * dz;
+  const discriminant = b * b - a * c;
+  if (discriminant < 0) {
+    return null;
+  }
+  const t = (-b - Math.sqrt(discriminant)) / a;
+  if (t < 0) {
+    return null;
+  }
+  return { t, nx: (fx + dx * t) / radius, nz: (fz + dz * t) / radius };
+}
+
+export function rayCircleExit(
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number,
+  cx: number,
+  cz: number,
+  radius: number
+): SurfaceHit | null {
+  const fx = ox - cx;
+  const fz = oz - cz;
+  const a = dx * dx + dz * dz;
+  if (a < 1e-12) {
+    return null;
+  }
+  const b = fx * dx + fz * dz;
+  const c = fx * fx + fz * fz - radius * radius;
+  const discriminant = b * b - a * c;
+  if (discriminant < 0) {
+    return null;
+  }
+  const t = (-b + Math.sqrt(discriminant)) / a;
+  if (t < 0) {
+    return null;
+  }
+  return { t, nx: -(fx + dx * t) / radius, nz: -(fz + dz * t) / radius };
+}
+
+function nearer(current: SurfaceHit | null, candidate: SurfaceHit | null): SurfaceHit | null {
+  if (!candidate) {
+    return current;
+  }
+  return !current || candidate.t < current.t ? candidate : current;
+}
+
+export function sweepCircleCircle(
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number,
+  radius: number,
+  cx: number,
+  cz: number,
+  obstacleRadius: number
+): SurfaceHit | null {
+  return rayCircle(ox, oz, dx, dz, cx, cz, radius + obstacleRadius);
+}
+
+// Polygons are closed loops of points in either winding. Outward normals are worked out from the signed area, so
+// callers never need to know which way a shape was drawn.
+export function polygonArea(points: PlanPoint[]): number {
+  let area = 0;
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    area += point.x * next.z - next.x * point.z;
+  });
+  return area / 2;
+}
+
+// Edges that meet only where neighbours share a corner, around some area. Anything else has no clear inside.
+export function isSimplePolygon(points: PlanPoint[]): boolean {
+  if (Math.abs(polygonArea(points)) < 1e-6) {
+    return false;
+  }
+  const count = points.length;
+  for (let i = 0; i < count; i += 1) {
+    const a = points[i];
+    const b = points[(i + 1) % count];
+    for (let j = i + 2; j < count; j += 1) {
+      if ((j + 1) % count !== i && segmentsCross(a.x, a.z, b.x, b.z, points[j], points[(j + 1) % count])) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+export function polygonPerimeter(points: PlanPoint[]): number {
+  let length = 0;
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    length += Math.hypot(next.x - point.x, next.z - point.z);
+  });
+  return length;
+}
+
+type Edge = {
+  a: PlanPoint;
+  b: PlanPoint;
+  nx: number;
+  nz: number;
+  length: number;
+};
+
+function outlineEdges(points: PlanPoint[]): Edge[] {
+  const sign = polygonArea(points) >= 0 ? 1 : -1;
+  const edges: Edge[] = [];
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.z - a.z);
+    if (length > 1e-9) {
+      edges.push({ a, b, nx: (sign * (b.z - a.z)) / length, nz: (-sign * (b.x - a.x)) / length, length });
+    }
+  });
+  return edges;
+}
+
+// Corners where the outline turns back on itself, which poke into the shape from outside it.
+function reflexCorners(points: PlanPoint[]): PlanPoint[] {
+  const sign = polygonArea(points) >= 0 ? 1 : -1;
+  return points.filter((point, i) => {
+    const previous = points[(i + points.length - 1) % points.length];
+    const next = points[(i + 1) % points.length];
+    const turn = (point.x - previous.x) * (next.z - point.z) - (point.z - previous.z) * (next.x - point.x);
+    return turn * sign < 0;
+  });
+}
+
+export function outlineBounds(points: PlanPoint[], padding = 0): Bounds {
+  const xs = points.map((point) => point.x);
+  const zs = points.map((point) => point.z);
+  return {
+    left: Math.min(...xs) - padding,
+    right: Math.max(...xs) + padding,
+    top: Math.min(...zs) - padding,
+    bottom: Math.max(...zs) + padding
+  };
+}
+
+export function pointInPolygon(x: number, z: number, points: PlanPoint[]): boolean {
+  let inside = false;
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    if (a.z > z !== b.z > z && x < a.x + ((z - a.z) / (b.z - a.z)) * (b.x - a.x)) {
+      inside = !inside;
+    }
+  });
+  return inside;
+}
+
+export function nearestOnSegment(x: number, z: number, a: PlanPoint, b: PlanPoint): PlanPoint {
+  const abx = b.x - a.x;
+  const abz = b.z - a.z;
+  const lengthSq = abx * abx + abz * abz;
+  const t = lengthSq < 1e-12 ? 0 : clamp(((x - a.x) * abx + (z - a.z) * abz) / lengthSq, 0, 1);
+  return { x: a.x + abx * t, z: a.z + abz * t };
+}
+
+// The closest point on a polygon's edges, whether (x, z) is inside it or not.
+export function nearestOnOutline(x: number, z: number, points: PlanPoint[]): PlanPoint {
+  let best = points[0];
+  let bestDistance = Number.POSITIVE_INFINITY;
+  points.forEach((a, i) => {
+    const candidate = nearestOnSegment(x, z, a, points[(i + 1) % points.length]);
+    const distance = Math.hypot(candidate.x - x, candidate.z - z);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+function segmentsCross(ax: number, az: number, bx: number, bz: number, c: PlanPoint, d: PlanPoint): boolean {
+  const side = (px: number, pz: number, qx: number, qz: number, rx: number, rz: number) =>
+    (qx - px) * (rz - pz) - (qz - pz) * (rx - px);
+  const d1 = side(c.x, c.z, d.x, d.z, ax, az);
+  const d2 = side(c.x, c.z, d.x, d.z, bx, bz);
+  const d3 = side(ax, az, bx, bz, c.x, c.z);
+  const d4 = side(ax, az, bx, bz, d.x, d.z);
+  return ((d1 <= 0 && d2 >= 0) || (d1 >= 0 && d2 <= 0)) && ((d3 <= 0 && d4 >= 0) || (d3 >= 0 && d4 <= 0));
+}
+
+export function segmentIntersectsPolygon(ax: number, az: number, bx: number, bz: number, points: PlanPoint[]): boolean {
+  if (pointInPolygon(ax, az, points) || pointInPolygon(bx, bz, points)) {
+    return true;
+  }
+  return points.some((point, i) => segmentsCross(ax, az, bx, bz, point, points[(i + 1) % points.length]));
+}
+
+// Where a ray meets the line `offset` out from an edge along its normal, if it crosses it heading against `facing`
+// (1 to meet the outside of the edge, -1 the inside) within the edge's span. Bodies resting a hair past the line,
+// as sliding leaves them, still count as touching it.
+function rayEdge(
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number,
+  edge: Edge,
+  offset: number,
+  facing: number
+): SurfaceHit | null {
+  const nx = edge.nx * facing;
+  const nz = edge.nz * facing;
+  const approach = dx * nx + dz * nz;
+  if (approach >= 0) {
+    return null;
+  }
+  const gap = (ox - edge.a.x) * nx + (oz - edge.a.z) * nz - offset;
+  if (gap < -1e-6) {
+    return null;
+  }
+  const t = Math.max(0, -gap / approach);
+  const hx = ox + dx * t - edge.a.x;
+  const hz = oz + dz * t - edge.a.z;
+  const along = (hx * (edge.b.x - edge.a.x) + hz * (edge.b.z - edge.a.z)) / (edge.length * edge.length);
+  return along < 0 || along > 1 ? null : { t, nx, nz };
+}
+
+export function rayPolygon(ox: number, oz: number, dx: number, dz: number, points: PlanPoint[]): SurfaceHit | null {
+  if (pointInPolygon(ox, oz, points)) {
+    return null;
+  }
+  let hit: SurfaceHit | null = null;
+  for (const edge of outlineEdges(points)) {
+    hit = nearer(hit, rayEdge(ox, oz, dx, dz, edge, 0, 1));
+  }
+  return hit;
+}
+
+// The first edge a ray leaves a polygon through, with the normal facing back in.
+export function rayPolygonExit(ox: number, oz: number, dx: number, dz: number, points: PlanPoint[]): SurfaceHit | null {
+  let hit: SurfaceHit | null = null;
+  for (const edge of outlineEdges(points)) {
+    hit = nearer(hit, rayEdge(ox, oz, dx, dz, edge, 0, -1));
+  }
+  return hit;
+}
+
+// A circle swept against a polygon hits the polygon grown by the radius: every edge pushed out, plus a disc at each
+// corner.
+export function sweepCirclePolygon(
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number,
+  radius: number,
+  points: PlanPoint[]
+): SurfaceHit | null {
+  let hit: SurfaceHit | null = null;
+  for (const edge of outlineEdges(points)) {
+    hit = nearer(hit, rayEdge(ox, oz, dx, dz, edge, radius, 1));
+  }
+  for (const corner of points) {
+    hit = nearer(hit, rayCircle(ox, oz, dx, dz, corner.x, corner.z, radius));
+  }
+  return hit;
+}
+
+// The same from inside: every edge pulled in, and only the corners that poke into the polygon get a disc.
+export function sweepCircleInPolygon(
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number,
+  radius: number,
+  points: PlanPoint[]
+): SurfaceHit | null {
+  let hit: SurfaceHit | null = null;
+  for (const edge of outlineEdges(points)) {
+    hit = nearer(hit, rayEdge(ox, oz, dx, dz, edge, radius, -1));
+  }
+  for (const corner of reflexCorners(points)) {
+    hit = nearer(hit, rayCircle(ox, oz, dx, dz, corner.x, corner.z, radius));
+  }
+  return hit;
+}
+
+// Wall shape points are stored relative to the wall's center, before its rotation.
+export function wallPointToWorld(wall: Wall, point: PlanPoint): PlanPoint {
+  const angle = toRadians(wall.rotationDeg);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return { x: wall.x + point.x * cos - point.z * sin, z: wall.z + point.x * sin + point.z * cos };
+}
+
+export function worldPointToWall(wall: Wall, x: number, z: number): PlanPoint {
+  const angle = toRadians(wall.rotationDeg);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = x - wall.x;
+  const dz = z - wall.z;
+  return { x: dx * cos + dz * sin, z: -dx * sin + dz * cos };
+}
+
+// A wall as the solid polygons it is made of, in world coordinates: one for a box or polygon, one per segment for a
+// polyline. Segments run on by half the thickness so the corners where they meet stay closed.
+const pieceCache = new WeakMap<Wall, PlanPoint[][]>();
+
+export function wallPieces(wall: Wall): PlanPoint[][] {
+  const cached = pieceCache.get(wall);
+  if (cached) {
+    return cached;
+  }
+  const place = (x: number, z: number) => wallPointToWorld(wall, { x, z });
+
+  let pieces: PlanPoint[][] = [];
+  switch (wall.shape.kind) {
+    case "box": {
+      const halfWidth = wall.width / 2;
+      const halfHeight = wall.height / 2;
+      pieces = [
+        [
+          place(-halfWidth, -halfHeight),
+          place(halfWidth, -halfHeight),
+          place(halfWidth, halfHeight),
+          place(-halfWidth, halfHeight)
+        ]
+      ];
+      break;
+    }
+    case "polyline": {
+      const half = wall.shape.thicknessM / 2;
+      const { points } = wall.shape;
+      for (let i = 1; i < points.length; i += 1) {
+        const a = points[i - 1];
+        const b = points[i];
+        const length = Math.hypot(b.x - a.x, b.z - a.z);
+        if (length < 1e-9) {
+          continue;
+        }
+        const ux = ((b.x - a.x) / length) * half;
+        const uz = ((b.z - a.z) / length) * half;
+        pieces.push([
+          place(a.x - ux - uz, a.z - uz + ux),
+          place(b.x + ux - uz, b.z + uz + ux),
+          place(b.x + ux + uz, b.z + uz - ux),
+          place(a.x - ux + uz, a.z - uz - ux)
+        ]);
+      }
+      break;
+    }
+    case "polygon":
+      pieces = wall.shape.points.length >= 3 ? [wall.shape.points.map((point) => place(point.x, point.z))] : [];
+      break;
+  }
+  pieceCache.set(wall, pieces);
+  return pieces;
+}
+
+export function wallBounds(wall: Wall, padding = 0): Bounds {
+  const points = wallPieces(wall).flat();
+  return points.length > 0
+    ? outlineBounds(points, padding)
+    : { left: wall.x - padding, right: wall.x + padding, top: wall.z - padding, bottom: wall.z + padding };
+}
+
+export function circleTouchesWall(wall: Wall, x: number, z: number, radius: number): boolean {
+  return wallPieces(wall).some((piece) => {
+    const nearest = nearestOnOutline(x, z, piece);
+    return pointInPolygon(x, z, piece) || Math.hypot(nearest.x - x, nearest.z - z) <= radius;
+  });
+}
+
+export function nearestOnWall(wall: Wall, x: number, z: number): PlanPoint {
+  let best: PlanPoint = { x: wall.x, z: wall.z };
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const piece of wallPieces(wall)) {
+    const candidate = pointInPolygon(x, z, piece) ? { x, z } : nearestOnOutline(x, z, piece);
+    const distance = Math.hypot(candidate.x - x, candidate.z - z);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function segmentCrossesWall(wall: Wall, ax: number, az: number, bx: number, bz: number): boolean {
+  return wallPieces(wall).some((piece) => segmentIntersectsPolygon(ax, az, bx, bz, piece));
+}
+
+export function rayWall(wall: Wall, ox: number, oz: number, dx: number, dz: number): SurfaceHit | null {
+  let hit: SurfaceHit | null = null;
+  for (const piece of wallPieces(wall)) {
+    hit = nearer(hit, rayPolygon(ox, oz, dx, dz, piece));
+  }
+  return hit;
+}
+
+export function sweepCircleWall(
+  wall: Wall,
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number,
+  radius: number
+): SurfaceHit | null {
+  let hit: SurfaceHit | null = null;
+  for (const piece of wallPieces(wall)) {
+    hit = nearer(hit, sweepCirclePolygon(ox, oz, dx, dz, radius, piece));
+  }
+  return hit;
+}
+
+const BOUNDARY_CIRCLE_SIDES = 48;
+
+// Circles stay exact for collisions; this outline is for drawing, reflections and areas.
+export function boundaryOutline(boundary: WorldBoundary): PlanPoint[] {
+  switch (boundary.kind) {
+    case "circle":
+      return Array.from({ length: BOUNDARY_CIRCLE_SIDES }, (_, i) => {
+        const angle = (i / BOUNDARY_CIRCLE_SIDES) * Math.PI * 2;
+        return { x: Math.cos(angle) * boundary.radiusM, z: Math.sin(angle) * boundary.radiusM };
+      });
+    case "rectangle": {
+      const halfWidth = boundary.widthM / 2;
+      const halfDepth = boundary.depthM / 2;
+      return [
+        { x: -halfWidth, z: -halfDepth },
+        { x: halfWidth, z: -halfDepth },
+        { x: halfWidth, z: halfDepth },
+        { x: -halfWidth, z: halfDepth }
+      ];
+    }
+    case "polygon":
+      return boundary.points;
+  }
+}
+
+export function insideBoundary(boundary: WorldBoundary, x: number, z: number, margin = 0): boolean {
+  if (boundary.kind === "circle") {
+    return Math.hypot(x, z) + margin <= boundary.radiusM;
+  }
+  const outline = boundaryOutline(boundary);
+  const nearest = nearestOnOutline(x, z, outline);
+  return pointInPolygon(x, z, outline) && Math.hypot(nearest.x - x, nearest.z - z) >= margin;
+}
+
+export function nearestOnBoundary(boundary: WorldBoundary, x: number, z: number): PlanPoint {
+  if (boundary.kind === "circle") {
+    const distance = Math.hypot(x, z);
+    return distance > 0
+      ? { x: (x / distance) * boundary.radiusM, z: (z / distance) * boundary.radiusM }
+      : { x: 0, z: -boundary.radiusM };
+  }
+  return nearestOnOutline(x, z, boundaryOutline(boundary));
+}
+
+// The point itself when it sits at least `margin` inside the boundary, otherwise the point that far in from the edge
+// nearest to it.
+export function pullInsideBoundary(boundary: WorldBoundary, x: number, z: number, margin: number): PlanPoint {
+  if (insideBoundary(boundary, x, z, margin)) {
+    return { x, z };
+  }
+  const edge = nearestOnBoundary(boundary, x, z);
+  const inside = insideBoundary(boundary, x, z);
+  let dx = inside ? x - edge.x : edge.x - x;
+  let dz = inside ? z - edge.z : edge.z - z;
+  // A point right on the edge steps in toward the center.
+  if (Math.hypot(dx, dz) < 1e-9) {
+    dx = -edge.x;
+    dz = -edge.z;
+  }
+  const length = Math.hypot(dx, dz);
+  return length < 1e-9 ? { x, z } : { x: edge.x + (dx / length) * margin, z: edge.z + (dz / length) * margin };
+}
+
+export function rayBoundaryExit(
+  boundary: WorldBoundary,
+  ox: number,
+  oz: number,
+  dx: number,
+  dz: number
+): SurfaceHit | null {
+  return boundary.kind === "circle"
+    ? rayCircleExit(ox, oz, dx, dz, 0, 0, boundary.radiusM)
+    : rayPolygonExit(ox, oz, dx, dz, boundaryOutline(boundary));
+}
+
+// A circle moving inside the boundary. Bodies already pressed against the edge stop at once when pushing further out.
+export function sweepCircleBoundary(
+  boundary: WorldBoundary,
+  x: number,
+  z: number,
+  dx: number,
+  dz: number,
+  radius: number
+): SurfaceHit | null {
+  if (boundary.kind !== "circle") {
+    return sweepCircleInPolygon(x, z, dx, dz, radius, boundaryOutline(boundary));
+  }
+  const limit = boundary.radiusM - radius;
+  const distance = Math.hypot(x, z);
+  if (distance >= limit && x * dx + z * dz > 0) {
+    return { t: 0, nx: -x / distance, nz: -z / distance };
+  }
+  return rayCircleExit(x, z, dx, dz, 0, 0, limit);
+}
@@ -0,0 +1,927 @@
+// A read-only subset of HDF5, enough for SOFA files written by netCDF-4, h5py and the SOFA APIs: superblocks 0-3,
+// version 1 and 2 object headers, symbol-table, compact and dense groups and attributes, contiguous, compact and
+// chunked (B-tree v1, single chunk, implicit) storage, deflate and shuffle filters, and numeric or string values.
+
+export type Hdf5Value = number[] | string[];
+
+export type Hdf5Dataset = {
+  kind: "dataset";
+  name: string;
+  shape: number[];
+  attributes: Map<string, Hdf5Value>;
+  readNumbers: () => Promise<Float64Array>;
+};
+
+export type Hdf5Group = {
+  kind: "group";
+  name: string;
+  attributes: Map<string, Hdf5Value>;
+  children: Map<string, Hdf5Node>;
+};
+
+export type Hdf5Node = Hdf5Group | Hdf5Dataset;
+
+export class Hdf5FormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Hdf5FormatError";
+  }
+}
+
+type Datatype =
+  | { kind: "integer"; size: number; signed: boolean; littleEndian: boolean }
+  | { kind: "float"; size: number; littleEndian: boolean }
+  | { kind: "string"; size: number }
+  | { kind: "vlenString" }
+  | { kind: "other"; size: number };
+
+type Filter = { id: number; values: number[] };
+
+type Layout =
+  | { kind: "compact"; data: Uint8Array }
+  | { kind: "contiguous"; address: number; size: number }
+  | { kind: "chunked"; index: "btree" | "single" | "implicit"; address: number; chunk: number[]; filteredSize: number };
+
+type ObjectHeader = {
+  messages: Array<{ type: number; data: Uint8Array; offset: number }>;
+};
+
+type FileContext = {
+  bytes: Uint8Array;
+  view: DataView;
+  offsetSize: number;
+  lengthSize: number;
+  base: number;
+};
+
+const SIGNATURE = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+const UNDEFINED_ADDRESS = -1;
+
+const MSG_DATASPACE = 0x0001;
+const MSG_LINK_INFO = 0x0002;
+const MSG_DATATYPE = 0x0003;
+const MSG_LINK = 0x0006;
+const MSG_LAYOUT = 0x0008;
+const MSG_FILTERS = 0x000b;
+const MSG_ATTRIBUTE = 0x000c;
+const MSG_CONTINUATION = 0x0010;
+const MSG_SYMBOL_TABLE = 0x0011;
+const MSG_ATTRIBUTE_INFO = 0x0015;
+
+const FILTER_DEFLATE = 1;
+const FILTER_SHUFFLE = 2;
+const FILTER_FLETCHER32 = 3;
+
+const textDecoder = new TextDecoder();
+
+// Sequential little-endian reads from an absolute file position.
+function createCursor(file: FileContext, start: number) {
+  let pos = start;
+  const need = (count: number) => {
+    if (pos < 0 || pos + count > file.bytes.length) {
+      throw new Hdf5FormatError("HDF5 structure points past the end of the file.");
+    }
+  };
+  const uint = (size: number): number => {
+    need(size);
+    let value = 0;
+    let allSet = true;
+    for (let i = size - 1; i >= 0; i -= 1) {
+      const byte = file.bytes[pos + i];
+      allSet &&= byte === 0xff;
+      value = value * 256 + byte;
+    }
+    pos += size;
+    return allSet && size >= 4 ? UNDEFINED_ADDRESS : value;
+  };
+  return {
+    get pos() {
+      return pos;
+    },
+    skip: (count: number) => {
+      pos += count;
+    },
+    u8: () => {
+      need(1);
+      return file.bytes[pos++];
+    },
+    u16: () => uint(2),
+    u32: () => {
+      need(4);
+      const value = file.view.getUint32(pos, true);
+      pos += 4;
+      return value;
+    },
+    uint,
+    offset: () => {
+      const value = uint(file.offsetSize);
+      return value === UNDEFINED_ADDRESS ? value : value + file.base;
+    },
+    length: () => uint(file.lengthSize),
+    bytes: (count: number) => {
+      need(count);
+      const slice = file.bytes.subarray(pos, pos + count);
+      pos += count;
+      return slice;
+    },
+    signature: (expected: string) => {
+      need(expected.length);
+      const found = textDecoder.decode(file.bytes.subarray(pos, pos + expected.length));
+      if (found !== expected) {
+        throw new Hdf5FormatError(`Expected HDF5 ${expected} block, found "${found}".`);
+      }
+      pos += expected.length;
+    }
+  };
+}
+
+type Cursor = ReturnType<typeof createCursor>;
+
+function contextFor(data: Uint8Array, file: FileContext): FileContext {
+  return { ...file, bytes: data, view: new DataView(data.buffer, data.byteOffset, data.byteLength) };
+}
+
+function cString(bytes: Uint8Array, start: number): string {
+  let end = start;
+  while (end < bytes.length && bytes[end] !== 0) {
+    end += 1;
+  }
+  return textDecoder.decode(bytes.subarray(start, end));
+}
+
+function findSuperblock(bytes: Uint8Array): number {
+  for (let offset = 0; offset + SIGNATURE.length <= bytes.length; offset = offset === 0 ? 512 : offset * 2) {
+    if (SIGNATURE.every((byte, index) => bytes[offset + index] === byte)) {
+      return offset;
+    }
+  }
+  throw new Hdf5FormatError("Not an HDF5 file.");
+}
+
+function readDatatype(cursor: Cursor): Datatype {
+  const classAndVersion = cursor.u8();
+  const bits = [cursor.u8(), cursor.u8(), cursor.u8()];
+  const size = cursor.u32();
+  switch (classAndVersion & 0x0f) {
+    case 0:
+      cursor.skip(4);
+      return { kind: "integer", size, signed: (bits[0] & 0x08) !== 0, littleEndian: (bits[0] & 0x01) === 0 };
+    case 1:
+      cursor.skip(12);
+      return { kind: "float", size, littleEndian: (bits[0] & 0x01) === 0 };
+    case 3:
+      return { kind: "string", size };
+    case 9:
+      return (bits[0] & 0x0f) === 1 ? { kind: "vlenString" } : { kind: "other", size };
+    default:
+      return { kind: "other", size };
+  }
+}
+
+function readDataspace(cursor: Cursor, file: FileContext): number[] {
+  const version = cursor.u8();
+  const rank = cursor.u8();
+  const flags = cursor.u8();
+  if (version === 1) {
+    cursor.skip(5);
+  } else {
+    const type = cursor.u8();
+    if (type === 2) {
+      return [0];
+    }
+  }
+  const shape: number[] = [];
+  for (let i = 0; i < rank; i += 1) {
+    shape.push(cursor.uint(file.lengthSize));
+  }
+  if (flags & 0x01) {
+    cursor.skip(rank * file.lengthSize);
+  }
+  return shape;
+}
+
+function readLayout(cursor: Cursor, file: FileContext, rank: number): Layout {
+  const version = cursor.u8();
+  if (version === 1 || version === 2) {
+    const dimensionality = cursor.u8();
+    const layoutClass = cursor.u8();
+    cursor.skip(5);
+    const address = layoutClass === 0 ? UNDEFINED_ADDRESS : cursor.offset();
+    const dims = Array.from({ length: dimensionality }, () => cursor.u32());
+    if (layoutClass === 0) {
+      return { kind: "compact", data: cursor.bytes(cursor.u32()) };
+    }
+    if (layoutClass === 1) {
+      const size = dims.reduce((product, dim) => product * dim, 1);
+      return { kind: "contiguous", address, size };
+    }
+    return { kind: "chunked", index: "btree", address, chunk: dims.slice(0, rank), filteredSize: 0 };
+  }
+
+  const layoutClass = cursor.u8();
+  if (layoutClass === 0) {
+    return { kind: "compact", data: cursor.bytes(cursor.u16()) };
+  }
+  if (layoutClass === 1) {
+    return { kind: "contiguous", address: cursor.offset(), size: cursor.length() };
+  }
+  if (layoutClass !== 2) {
+    throw new Hdf5FormatError(`Unsupported HDF5 storage layout class ${layoutClass}.`);
+  }
+  if (version === 3) {
+    const dimensionality = cursor.u8();
+    const address = cursor.offset();
+    const dims = Array.from({ length: dimensionality }, () => cursor.u32());
+    return { kind: "chunked", index: "btree", address, chunk: dims.slice(0, rank), filteredSize: 0 };
+  }
+
+  const flags = cursor.u8();
+  const dimensionality = cursor.u8();
+  const encodedSize = cursor.u8();
+  const dims = Array.from({ length: dimensionality }, () => cursor.uint(encodedSize));
+  const indexType = cursor.u8();
+  if (indexType === 1) {
+    const filteredSize = flags & 0x02 ? cursor.length() : 0;
+    if (flags & 0x02) {
+      cursor.skip(4);
+    }
+    return { kind: "chunked", index: "single", address: cursor.offset(), chunk: dims.slice(0, rank), filteredSize };
+  }
+  if (indexType === 2) {
+    const address = cursor.offset();
+    return { kind: "chunked", index: "implicit", address, chunk: dims.slice(0, rank), filteredSize: 0 };
+  }
+  throw new Hdf5FormatError("HDF5 1.10 chunk indexes (fixed array, extensible array, B-tree v2) are not supported.");
+}
+
+function readFilters(cursor: Cursor): Filter[] {
+  const version = cursor.u8();
+  const count = cursor.u8();
+  if (version === 1) {
+    cursor.skip(6);
+  }
+  const filters: Filter[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const id = cursor.u16();
+    const nameLength = version === 1 || id >= 256 ? cursor.u16() : 0;
+    cursor.skip(2);
+    const valueCount = cursor.u16();
+    cursor.skip(version === 1 ? Math.ceil(nameLength / 8) * 8 : nameLength);
+    const values = Array.from({ length: valueCount }, () => cursor.u32());
+    if (version === 1 && valueCount % 2 === 1) {
+      cursor.skip(4);
+    }
+    filters.push({ id, values });
+  }
+  return filters;
+}
+
+function readObjectHeader(file: FileContext, address: number): ObjectHeader {
+  const messages: ObjectHeader["messages"] = [];
+  const cursor = createCursor(file, address);
+  const blocks: Array<{ start: number; end: number }> = [];
+  let version2 = false;
+  let trackCreationOrder = false;
+
+  if (file.bytes[address] === 0x4f) {
+    cursor.signature("OHDR");
+    version2 = true;
+    cursor.u8();
+    const flags = cursor.u8();
+    trackCreationOrder = (flags & 0x04) !== 0;
+    if (flags & 0x20) {
+      cursor.skip(16);
+    }
+    if (flags & 0x10) {
+      cursor.skip(4);
+    }
+    const chunkSize = cursor.uint(1 << (flags & 0x03));
+    blocks.push({ start: cursor.pos, end: cursor.pos + chunkSize });
+  } else {
+    const version = cursor.u8();
+    if (version !== 1) {
+      throw new Hdf5FormatError(`Unsupported HDF5 object header version ${version}.`);
+    }
+    cursor.skip(1);
+    cursor.u16();
+    cursor.u32();
+    const size = cursor.u32();
+    cursor.skip(4);
+    blocks.push({ start: cursor.pos, end: cursor.pos + size });
+  }
+
+  for (let index = 0; index < blocks.length; index += 1) {
+    const block = blocks[index];
+    const body = createCursor(file, block.start);
+    const headerSize = version2 ? 4 + (trackCreationOrder ? 2 : 0) : 8;
+    while (body.pos + headerSize <= block.end) {
+      const type = version2 ? body.u8() : body.u16();
+      const size = body.u16();
+      body.u8();
+      if (version2 && trackCreationOrder) {
+        body.skip(2);
+      }
+      if (!version2) {
+        body.skip(3);
+      }
+      const offset = body.pos;
+      const data = body.bytes(size);
+      if (type === MSG_CONTINUATION) {
+        const continuation = createCursor(file, offset);
+        const start = continuation.offset();
+        const length = continuation.length();
+        if (version2) {
+          createCursor(file, start).signature("OCHK");
+          blocks.push({ start: start + 4, end: start + length - 4 });
+        } else {
+          blocks.push({ start, end: start + length });
+        }
+      } else if (type !== 0) {
+        messages.push({ type, data, offset });
+      }
+    }
+  }
+  return { messages };
+}
+
+function readGlobalHeapString(file: FileContext, cursor: Cursor): string {
+  const length = cursor.u32();
+  const collection = cursor.offset();
+  const objectIndex = cursor.u32();
+  if (length === 0 || collection === UNDEFINED_ADDRESS) {
+    return "";
+  }
+  const heap = createCursor(file, collection);
+  heap.signature("GCOL");
+  heap.skip(4);
+  const end = collection + heap.length();
+  while (heap.pos + 8 + file.lengthSize <= end) {
+    const index = heap.u16();
+    heap.skip(6);
+    const size = heap.length();
+    if (index === 0) {
+      break;
+    }
+    const data = heap.bytes(size);
+    heap.skip((8 - (size % 8)) % 8);
+    if (index === objectIndex) {
+      return textDecoder.decode(data.subarray(0, length));
+    }
+  }
+  throw new Hdf5FormatError("HDF5 string is missing from its global heap.");
+}
+
+function decodeNumbers(type: Datatype, data: Uint8Array, count: number): Float64Array {
+  if (type.kind !== "integer" && type.kind !== "float") {
+    throw new Hdf5FormatError("HDF5 dataset is not numeric.");
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const values = new Float64Array(count);
+  const { size, littleEndian } = type;
+  for (let i = 0; i < count; i += 1) {
+    const at = i * size;
+    if (type.kind === "float") {
+      values[i] = size === 8 ? view.getFloat64(at, littleEndian) : view.getFloat32(at, littleEndian);
+    } else if (size === 1) {
+      values[i] = type.signed ? view.getInt8(at) : view.getUint8(at);
+    } else if (size === 2) {
+      values[i] = type.signed ? view.getInt16(at, littleEndian) : view.getUint16(at, littleEndian);
+    } else if (size === 4) {
+      values[i] = type.signed ? view.getInt32(at, littleEndian) : view.getUint32(at, littleEndian);
+    } else {
+      values[i] = Number(type.signed ? view.getBigInt64(at, littleEndian) : view.getBigUint64(at, littleEndian));
+    }
+  }
+  return values;
+}
+
+function decodeValue(file: FileContext, type: Datatype, shape: number[], data: Uint8Array): Hdf5Value {
+  const count = shape.reduce((product, dim) => product * dim, 1);
+  if (type.kind === "string") {
+    return Array.from({ length: count }, (_, index) =>
+      textDecoder
+        .decode(data.subarray(index * type.size, (index + 1) * type.size))
+        .replace(/[\0 ]+$/, "")
+    );
+  }
+  if (type.kind === "vlenString") {
+    const cursor = createCursor(contextFor(data, file), 0);
+    return Array.from({ length: count }, () => readGlobalHeapString(file, cursor));
+  }
+  return Array.from(decodeNumbers(type, data, count));
+}
+
+function readAttribute(file: FileContext, data: Uint8Array): { name: string; value: Hdf5Value } | null {
+  const local = contextFor(data, file);
+  const cursor = createCursor(local, 0);
+  const version = cursor.u8();
+  cursor.u8();
+  const nameSize = cursor.u16();
+  const typeSize = cursor.u16();
+  const spaceSize = cursor.u16();
+  if (version === 3) {
+    cursor.u8();
+  }
+  const pad = (size: number) => (version === 1 ? Math.ceil(size / 8) * 8 : size);
+  const name = cString(cursor.bytes(pad(nameSize)), 0);
+  const typeStart = cursor.pos;
+  const type = readDatatype(createCursor(local, typeStart));
+  cursor.skip(pad(typeSize));
+  const shape = readDataspace(createCursor(local, cursor.pos), file);
+  cursor.skip(pad(spaceSize));
+  if (type.kind === "other") {
+    return null;
+  }
+  return { name, value: decodeValue(file, type, shape, data.subarray(cursor.pos)) };
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function unshuffle(data: Uint8Array, elementSize: number): Uint8Array {
+  const count = Math.floor(data.length / elementSize);
+  const result = new Uint8Array(data.length);
+  for (let byte = 0; byte < elementSize; byte += 1) {
+    for (let i = 0; i < count; i += 1) {
+      result[i * elementSize + byte] = data[byte * count + i];
+    }
+  }
+  result.set(data.subarray(count * elementSize), count * elementSize);
+  return result;
+}
+
+// Undoes the pipeline in reverse, skipping filters the chunk's mask says were not applied.
+async function unfilter(data: Uint8Array, filters: Filter[], mask: number, elementSize: number): Promise<Uint8Array> {
+  let result = data;
+  for (let index = filters.length - 1; index >= 0; index -= 1) {
+    if (mask & (1 << index)) {
+      continue;
+    }
+    const filter = filters[index];
+    if (filter.id === FILTER_DEFLATE) {
+      result = await inflate(result);
+    } else if (filter.id === FILTER_SHUFFLE) {
+      result = unshuffle(result, elementSize);
+    } else if (filter.id === FILTER_FLETCHER32) {
+      result = result.subarray(0, result.length - 4);
+    } else {
+      throw new Hdf5FormatError(`Unsupported HDF5 filter ${filter.id}.`);
+    }
+  }
+  return result;
+}
+
+type StoredChunk = { address: number; size: number; mask: number; offset: number[] };
+
+function collectBtreeChunks(file: FileContext, address: number, rank: number, chunks: StoredChunk[]): void {
+  const cursor = createCursor(file, address);
+  cursor.signature("TREE");
+  const nodeType = cursor.u8();
+  const level = cursor.u8();
+  const entries = cursor.u16();
+  cursor.offset();
+  cursor.offset();
+  if (nodeType !== 1) {
+    throw new Hdf5FormatError("Expected an HDF5 chunk B-tree.");
+  }
+  for (let i = 0; i < entries; i += 1) {
+    const size = cursor.u32();
+    const mask = cursor.u32();
+    const offset = Array.from({ length: rank + 1 }, () => cursor.uint(8)).slice(0, rank);
+    const child = cursor.offset();
+    if (level > 0) {
+      collectBtreeChunks(file, child, rank, chunks);
+    } else {
+      chunks.push({ address: child, size, mask, offset });
+    }
+  }
+}
+
+function storedChunks(file: FileContext, layout: Extract<Layout, { kind: "chunked" }>, shape: number[], size: number) {
+  const chunks: StoredChunk[] = [];
+  if (layout.address === UNDEFINED_ADDRESS) {
+    return chunks;
+  }
+  if (layout.index === "btree") {
+    collectBtreeChunks(file, layout.address, shape.length, chunks);
+    return chunks;
+  }
+  const chunkBytes = layout.chunk.reduce((product, dim) => product * dim, size);
+  if (layout.index === "single") {
+    const storedSize = layout.filteredSize || chunkBytes;
+    chunks.push({ address: layout.address, size: storedSize, mask: 0, offset: shape.map(() => 0) });
+    return chunks;
+  }
+  // Implicit indexing stores every chunk back to back in row-major chunk order.
+  const grid = shape.map((dim, axis) => Math.ceil(dim / layout.chunk[axis]));
+  const total = grid.reduce((product, dim) => product * dim, 1);
+  for (let index = 0; index < total; index += 1) {
+    let rest = index;
+    const offset = new Array<number>(shape.length);
+    for (let axis = shape.length - 1; axis >= 0; axis -= 1) {
+      offset[axis] = (rest % grid[axis]) * layout.chunk[axis];
+      rest = Math.floor(rest / grid[axis]);
+    }
+    chunks.push({ address: layout.address + index * chunkBytes, size: chunkBytes, mask: 0, offset });
+  }
+  return chunks;
+}
+
+// Copies one decoded chunk into the row-major output, clipping chunks that overhang the dataset edge.
+function placeChunk(
+  output: Uint8Array,
+  chunk: Uint8Array,
+  offset: number[],
+  chunkShape: number[],
+  shape: number[],
+  size: number
+) {
+  const rank = shape.length;
+  const rowLength = Math.min(chunkShape[rank - 1], shape[rank - 1] - offset[rank - 1]);
+  const rows = chunkShape.slice(0, -1).reduce((product, dim) => product * dim, 1);
+  for (let row = 0; row < rows; row += 1) {
+    let rest = row;
+    let target = 0;
+    let inside = true;
+    const position = new Array<number>(rank);
+    position[rank - 1] = offset[rank - 1];
+    for (let axis = rank - 2; axis >= 0; axis -= 1) {
+      position[axis] = offset[axis] + (rest % chunkShape[axis]);
+      rest = Math.floor(rest / chunkShape[axis]);
+      inside &&= position[axis] < shape[axis];
+    }
+    if (!inside || rowLength <= 0) {
+      continue;
+    }
+    for (let axis = 0; axis < rank; axis += 1) {
+      target = target * shape[axis] + position[axis];
+    }
+    const source = row * chunkShape[rank - 1] * size;
+    output.set(chunk.subarray(source, source + rowLength * size), target * size);
+  }
+}
+
+function createDataset(file: FileContext, name: string, header: ObjectHeader, attributes: Map<string, Hdf5Value>) {
+  let type: Datatype | null = null;
+  let shape: number[] = [];
+  let layout: Layout | null = null;
+  let filters: Filter[] = [];
+  for (const message of header.messages) {
+    if (message.type === MSG_DATATYPE) {
+      type = readDatatype(createCursor(file, message.offset));
+    } else if (message.type === MSG_DATASPACE) {
+      shape = readDataspace(createCursor(file, message.offset), file);
+    } else if (message.type === MSG_FILTERS) {
+      filters = readFilters(createCursor(file, message.offset));
+    }
+  }
+  const layoutMessage = header.messages.find((message) => message.type === MSG_LAYOUT);
+  if (layoutMessage) {
+    layout = readLayout(createCursor(file, layoutMessage.offset), file, shape.length);
+  }
+
+  const dataset: Hdf5Dataset = {
+    kind: "dataset",
+    name,
+    shape,
+    attributes,
+    readNumbers: async () => {
+      if (!type || !layout || (type.kind !== "integer" && type.kind !== "float")) {
+        throw new Hdf5FormatError(`HDF5 dataset "${name}" is not numeric.`);
+      }
+      const count = shape.reduce((product, dim) => product * dim, 1);
+      const size = type.size;
+      if (layout.kind === "compact") {
+        return decodeNumbers(type, layout.data, count);
+      }
+      if (layout.kind === "contiguous") {
+        const data =
+          layout.address === UNDEFINED_ADDRESS
+            ? new Uint8Array(count * size)
+            : createCursor(file, layout.address).bytes(count * size);
+        return decodeNumbers(type, data, count);
+      }
+      const output = new Uint8Array(count * size);
+      for (const chunk of storedChunks(file, layout, shape, size)) {
+        const raw = createCursor(file, chunk.address).bytes(chunk.size);
+        const data = filters.length > 0 ? await unfilter(raw, filters, chunk.mask, size) : raw;
+        placeChunk(output, data, chunk.offset, layout.chunk, shape, size);
+      }
+      return decodeNumbers(type, output, count);
+    }
+  };
+  return dataset;
+}
+
+function readSymbolTableLinks(file: FileContext, btreeAddress: number, heapAddress: number): Map<string, number> {
+  const heap = createCursor(file, heapAddress);
+  heap.signature("HEAP");
+  heap.skip(4);
+  heap.length();
+  heap.length();
+  const names = heap.offset();
+
+  const links = new Map<string, number>();
+  const visit = (address: number) => {
+    const node = createCursor(file, address);
+    node.signature("TREE");
+    node.u8();
+    const level = node.u8();
+    const entries = node.u16();
+    node.offset();
+    node.offset();
+    node.length();
+    for (let i = 0; i < entries; i += 1) {
+      const child = node.offset();
+      node.length();
+      if (level > 0) {
+        visit(child);
+        continue;
+      }
+      const symbols = createCursor(file, child);
+      symbols.signature("SNOD");
+      symbols.skip(2);
+      const count = symbols.u16();
+      for (let j = 0; j < count; j += 1) {
+        const nameOffset = symbols.uint(file.offsetSize);
+        const objectAddress = symbols.offset();
+        symbols.skip(24);
+        links.set(cString(file.bytes, names + nameOffset), objectAddress);
+      }
+    }
+  };
+  visit(btreeAddress);
+  return links;
+}
+
+function readLinkMessage(file: FileContext, data: Uint8Array): { name: string; address: number } | null {
+  const cursor = createCursor(contextFor(data, file), 0);
+  cursor.u8();
+  const flags = cursor.u8();
+  const linkType = flags & 0x08 ? cursor.u8() : 0;
+  if (flags & 0x04) {
+    cursor.skip(8);
+  }
+  if (flags & 0x10) {
+    cursor.skip(1);
+  }
+  const nameLength = cursor.uint(1 << (flags & 0x03));
+  const name = textDecoder.decode(cursor.bytes(nameLength));
+  return linkType === 0 ? { name, address: cursor.offset() } : null;
+}
+
+function bytesFor(value: number): number {
+  return Math.floor(Math.log2(value) / 8) + 1;
+}
+
+// Dense link and attribute storage keeps each message in a fractal heap. Only managed and tiny objects are read;
+// metadata large enough to need huge objects or filtered heaps does not occur in SOFA files.
+function openFractalHeap(file: FileContext, address: number): (id: Uint8Array) => Uint8Array {
+  const header = createCursor(file, address);
+  header.signature("FRHP");
+  header.u8();
+  header.u16();
+  const filterLength = header.u16();
+  header.u8();
+  const maxManagedSize = header.u32();
+  header.length();
+  header.offset();
+  header.length();
+  header.offset();
+  header.skip(8 * file.lengthSize);
+  const width = header.u16();
+  const startSize = header.length();
+  const maxDirectSize = header.length();
+  const maxHeapBits = header.u16();
+  header.u16();
+  const root = header.offset();
+  const rootRows = header.u16();
+  if (filterLength > 0) {
+    throw new Hdf5FormatError("Filtered HDF5 fractal heaps are not supported.");
+  }
+
+  const offsetSize = Math.ceil(maxHeapBits / 8);
+  const lengthSize = Math.min(Math.ceil(Math.log2(maxDirectSize) / 8), bytesFor(maxManagedSize));
+  const maxDirectRows = Math.log2(maxDirectSize) - Math.log2(startSize) + 2;
+  const rowSize = (row: number) => (row === 0 ? startSize : startSize * 2 ** (row - 1));
+  const blocks: Array<{ address: number; heapOffset: number; size: number }> = [];
+
+  const collect = (blockAddress: number, rows: number) => {
+    const block = createCursor(file, blockAddress);
+    block.signature("FHIB");
+    block.u8();
+    block.offset();
+    let heapOffset = block.uint(offsetSize);
+    for (let row = 0; row < rows; row += 1) {
+      for (let column = 0; column < width; column += 1) {
+        const child = block.offset();
+        if (row < maxDirectRows) {
+          if (child !== UNDEFINED_ADDRESS) {
+            blocks.push({ address: child, heapOffset, size: rowSize(row) });
+          }
+        } else if (child !== UNDEFINED_ADDRESS) {
+          collect(child, Math.log2(rowSize(row)) - Math.log2(startSize * width) + 1);
+        }
+        heapOffset += rowSize(row);
+      }
+    }
+  };
+  if (root !== UNDEFINED_ADDRESS) {
+    if (rootRows === 0) {
+      blocks.push({ address: root, heapOffset: 0, size: startSize });
+    } else {
+      collect(root, rootRows);
+    }
+  }
+
+  return (id) => {
+    const cursor = createCursor(contextFor(id, file), 0);
+    const kind = (cursor.u8() >> 4) & 0x03;
+    if (kind === 2) {
+      return id.subarray(1, 1 + (id[0] & 0x0f) + 1);
+    }
+    if (kind !== 0) {
+      throw new Hdf5FormatError("HDF5 huge heap objects are not supported.");
+    }
+    const heapOffset = cursor.uint(offsetSize);
+    const length = cursor.uint(lengthSize);
+    const block = blocks.find(
+      (candidate) => heapOffset >= candidate.heapOffset && heapOffset < candidate.heapOffset + candidate.size
+    );
+    if (!block) {
+      throw new Hdf5FormatError("HDF5 heap object lies outside the heap.");
+    }
+    const data = createCursor(file, block.address);
+    data.signature("FHDB");
+    data.skip(heapOffset - block.heapOffset - 4);
+    return data.bytes(length);
+  };
+}
+
+// Returns every record of a version 2 B-tree; the caller decodes them since only their order differs by index type.
+function readBtree2Records(file: FileContext, address: number): Uint8Array[] {
+  const header = createCursor(file, address);
+  header.signature("BTHD");
+  header.skip(2);
+  const nodeSize = header.u32();
+  const recordSize = header.u16();
+  const depth = header.u16();
+  header.skip(2);
+  const root = header.offset();
+  const rootCount = header.u16();
+
+  // Child pointers store record counts in the fewest bytes that can hold a full subtree at that depth.
+  const nodeOverhead = 10;
+  const leafCapacity = Math.floor((nodeSize - nodeOverhead) / recordSize);
+  const countSize = bytesFor(leafCapacity);
+  const totalSizes = [0];
+  let subtreeCapacity = leafCapacity;
+  for (let level = 1; level <= depth; level += 1) {
+    const pointerSize = file.offsetSize + countSize + (level > 1 ? totalSizes[level - 1] : 0);
+    const capacity = Math.floor((nodeSize - nodeOverhead - pointerSize) / (recordSize + pointerSize));
+    subtreeCapacity = (capacity + 1) * subtreeCapacity + capacity;
+    totalSizes.push(bytesFor(subtreeCapacity));
+  }
+
+  const records: Uint8Array[] = [];
+  const visit = (nodeAddress: number, count: number, level: number) => {
+    const node = createCursor(file, nodeAddress);
+    node.signature(level === 0 ? "BTLF" : "BTIN");
+    node.skip(2);
+    for (let i = 0; i < count; i += 1) {
+      records.push(node.bytes(recordSize));
+    }
+    if (level === 0) {
+      return;
+    }
+    const children: Array<[number, number]> = [];
+    for (let i = 0; i <= count; i += 1) {
+      const child = node.offset();
+      const childCount = node.uint(countSize);
+      if (level > 1) {
+        node.uint(totalSizes[level - 1]);
+      }
+      children.push([child, childCount]);
+    }
+    for (const [child, childCount] of children) {
+      visit(child, childCount, level - 1);
+    }
+  };
+  if (root !== UNDEFINED_ADDRESS && rootCount > 0) {
+    visit(root, rootCount, depth);
+  }
+  return records;
+}
+
+// Link info and attribute info messages share a layout up to the heap and name index addresses.
+function readDenseMessages(file: FileContext, offset: number, maxIndexSize: number, idStart: number): Uint8Array[] {
+  const cursor = createCursor(file, offset);
+  cursor.u8();
+  const flags = cursor.u8();
+  if (flags & 0x01) {
+    cursor.skip(maxIndexSize);
+  }
+  const heap = cursor.offset();
+  const nameIndex = cursor.offset();
+  if (heap === UNDEFINED_ADDRESS || nameIndex === UNDEFINED_ADDRESS) {
+    return [];
+  }
+  const read = openFractalHeap(file, heap);
+  return readBtree2Records(file, nameIndex).map((record) => read(record.subarray(idStart)));
+}
+
+function readNode(file: FileContext, name: string, address: number, visiting: Set<number>): Hdf5Node {
+  if (visiting.has(address)) {
+    throw new Hdf5FormatError("HDF5 group structure contains a cycle.");
+  }
+  const header = readObjectHeader(file, address);
+  const attributes = new Map<string, Hdf5Value>();
+  const attributeMessages = header.messages.flatMap((message) => {
+    if (message.type === MSG_ATTRIBUTE) {
+      return [message.data];
+    }
+    return message.type === MSG_ATTRIBUTE_INFO ? readDenseMessages(file, message.offset, 2, 0) : [];
+  });
+  for (const data of attributeMessages) {
+    const attribute = readAttribute(file, data);
+    if (attribute) {
+      attributes.set(attribute.name, attribute.value);
+    }
+  }
+
+  const links = new Map<string, number>();
+  const linkMessages: Uint8Array[] = [];
+  let isGroup = false;
+  for (const message of header.messages) {
+    if (message.type === MSG_SYMBOL_TABLE) {
+      isGroup = true;
+      const cursor = createCursor(file, message.offset);
+      for (const [child, childAddress] of readSymbolTableLinks(file, cursor.offset(), cursor.offset())) {
+        links.set(child, childAddress);
+      }
+    } else if (message.type === MSG_LINK_INFO) {
+      isGroup = true;
+      linkMessages.push(...readDenseMessages(file, message.offset, 8, 4));
+    } else if (message.type === MSG_LINK) {
+      linkMessages.push(message.data);
+    }
+  }
+  for (const data of linkMessages) {
+    const link = readLinkMessage(file, data);
+    if (link) {
+      links.set(link.name, link.address);
+    }
+  }
+
+  if (!isGroup) {
+    return createDataset(file, name, header, attributes);
+  }
+  const children = new Map<string, Hdf5Node>();
+  visiting.add(address);
+  for (const [child, childAddress] of links) {
+    children.set(child, readNode(file, child, childAddress, visiting));
+  }
+  visiting.delete(address);
+  return { kind: "group", name, attributes, children };
+}
+
+export function openHdf5(buffer: ArrayBuffer): Hdf5Group {
+  const bytes = new Uint8Array(buffer);
+  const start = findSuperblock(bytes);
+  const version = bytes[start + 8];
+  let file: FileContext = { bytes, view: new DataView(buffer), offsetSize: 8, lengthSize: 8, base: 0 };
+  let rootAddress: number;
+
+  if (version === 0 || version === 1) {
+    file = { ...file, offsetSize: bytes[start + 13], lengthSize: bytes[start + 14] };
+    const cursor = createCursor(file, start + (version === 0 ? 24 : 28));
+    const base = cursor.uint(file.offsetSize);
+    file = { ...file, base: base === UNDEFINED_ADDRESS ? 0 : base };
+    cursor.offset();
+    cursor.offset();
+    cursor.offset();
+    cursor.offset();
+    rootAddress = cursor.offset();
+  } else if (version === 2 || version === 3) {
+    file = { ...file, offsetSize: bytes[start + 9], lengthSize: bytes[start + 10] };
+    const cursor = createCursor(file, start + 12);
+    const base = cursor.uint(file.offsetSize);
+    file = { ...file, base: base === UNDEFINED_ADDRESS ? 0 : base };
+    cursor.offset();
+    cursor.offset();
+    rootAddress = cursor.offset();
+  } else {
+    throw new Hdf5FormatError(`Unsupported HDF5 superblock version ${version}.`);
+  }
+  if (![2, 4, 8].includes(file.offsetSize) || ![2, 4, 8].includes(file.lengthSize)) {
+    throw new Hdf5FormatError("HDF5 file uses unsupported address sizes.");
+  }
+
+  const root = readNode(file, "/", rootAddress, new Set());
+  if (root.kind !== "group") {
+    throw new Hdf5FormatError("HDF5 root object is not a group.");
+  }
+  return root;
+}
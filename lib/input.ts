@@ -0,0 +1,384 @@
+import type { WalkInput } from "./motion";
+import { asArray, isRecord } from "./validation";
+import { clamp, limitPitch, limitRoll, toDegrees, toRadians, wrapDegrees, type HeadOrientation } from "./world";
+
+export type InputAction =
+  | "forward"
+  | "back"
+  | "strafeLeft"
+  | "strafeRight"
+  | "turnLeft"
+  | "turnRight"
+  | "tiltUp"
+  | "tiltDown"
+  | "rollLeft"
+  | "rollRight"
+  | "levelHead"
+  | "click";
+
+// Keys are `KeyboardEvent.key` values, lower-cased.
+export type KeyBindings = Record<InputAction, string[]>;
+
+export type GamepadSettings = {
+  enabled: boolean;
+  deadzone: number;
+  moveSpeed: number;
+  turnSpeed: number;
+};
+
+export type InputSettings = {
+  keys: KeyBindings;
+  gamepad: GamepadSettings;
+  headTracking: boolean;
+};
+
+export type HeadTrackingStatus = "off" | "waiting" | "active" | "unsupported";
+
+export type InputStatus = {
+  gamepad: string | null;
+  head: HeadTrackingStatus;
+};
+
+// One merged reading per simulation tick.
+export type InputFrame = {
+  walk: WalkInput;
+  head: HeadOrientation | null;
+};
+
+export type InputController = {
+  attach: () => () => void;
+  configure: (settings: InputSettings) => void;
+  poll: (listenerHeadingDeg: number) => InputFrame;
+  recenter: () => void;
+  onAction: (listener: (action: InputAction) => void) => () => void;
+  subscribe: (onChange: () => void) => () => void;
+  getStatus: () => InputStatus;
+};
+
+export const INPUT_SETTINGS_KEY = "sonic-world:input";
+
+export const INPUT_ACTIONS: Array<{ action: InputAction; label: string }> = [
+  { action: "forward", label: "Forward" },
+  { action: "back", label: "Back" },
+  { action: "strafeLeft", label: "Strafe Left" },
+  { action: "strafeRight", label: "Strafe Right" },
+  { action: "turnLeft", label: "Turn Left" },
+  { action: "turnRight", label: "Turn Right" },
+  { action: "tiltUp", label: "Tilt Head Up" },
+  { action: "tiltDown", label: "Tilt Head Down" },
+  { action: "rollLeft", label: "Roll Head Left" },
+  { action: "rollRight", label: "Roll Head Right" },
+  { action: "levelHead", label: "Level Head" },
+  { action: "click", label: "Echo Click" }
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  forward: ["w"],
+  back: ["s"],
+  strafeLeft: ["a"],
+  strafeRight: ["d"],
+  turnLeft: ["q", "arrowleft"],
+  turnRight: ["e", "arrowright"],
+  tiltUp: ["r", "arrowup"],
+  tiltDown: ["f", "arrowdown"],
+  rollLeft: ["z"],
+  rollRight: ["x"],
+  levelHead: ["v"],
+  click: ["c"]
+};
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+  keys: DEFAULT_KEY_BINDINGS,
+  gamepad: { enabled: true, deadzone: 0.15, moveSpeed: 1, turnSpeed: 1 },
+  headTracking: false
+};
+
+export const GAMEPAD_LIMITS = {
+  deadzone: { min: 0, max: 0.5 },
+  speed: { min: 0.25, max: 2 }
+};
+
+// Standard gamepad mapping: left stick walks and strafes, right stick turns and tilts, the shoulder buttons roll, the
+// bottom face button clicks and the top one levels the head.
+const GAMEPAD_CLICK_BUTTON = 0;
+const GAMEPAD_LEVEL_BUTTON = 3;
+const GAMEPAD_ROLL_BUTTONS = { left: 4, right: 5 };
+// Actions that fire once per press rather than being held.
+const ONE_SHOT_ACTIONS: InputAction[] = ["click", "levelHead"];
+// Below this the phone's back points too close to straight up or down to give a heading, so its top edge is used.
+const MIN_HORIZONTAL_COMPONENT = 0.3;
+const ANGLE_PRECISION_DEG = 0.1;
+
+export function keyLabel(key: string): string {
+  if (key === " ") {
+    return "Space";
+  }
+  return key.length === 1 ? key.toUpperCase() : key.replace(/^arrow/, "Arrow ");
+}
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === "INPUT" || element.tagName === "SELECT" || element.tagName === "TEXTAREA");
+}
+
+function applyDeadzone(value: number, deadzone: number): number {
+  const magnitude = Math.abs(value);
+  return magnitude <= deadzone ? 0 : (Math.sign(value) * (magnitude - deadzone)) / (1 - deadzone);
+}
+
+// Head orientation of a phone strapped to the head with its screen towards the face: the back of the phone is where
+// the face points and its top edge is the top of the head. Heading is clockwise from north; pitch and roll are
+// measured against gravity. Follows the W3C Z-X'-Y'' angle convention.
+export function deviceHeadPose(alphaDeg: number, betaDeg: number, gammaDeg: number): HeadOrientation {
+  const a = toRadians(alphaDeg);
+  const b = toRadians(betaDeg);
+  const g = toRadians(gammaDeg);
+  const back = {
+    east: -(Math.cos(a) * Math.sin(g) + Math.sin(a) * Math.sin(b) * Math.cos(g)),
+    north: Math.cos(a) * Math.sin(b) * Math.cos(g) - Math.sin(a) * Math.sin(g),
+    up: -Math.cos(b) * Math.cos(g)
+  };
+  const top = { east: -Math.sin(a) * Math.cos(b), north: Math.cos(a) * Math.cos(b) };
+  const horizontal = Math.hypot(back.east, back.north);
+  const headingDeg = wrapDegrees(
+    horizontal >= MIN_HORIZONTAL_COMPONENT ? toDegrees(Math.atan2(back.east, back.north)) : -alphaDeg
+  );
+  const heading = toRadians(headingDeg);
+  const topRight = top.east * Math.cos(heading) - top.north * Math.sin(heading);
+  return {
+    headingDeg,
+    pitchDeg: limitPitch(toDegrees(Math.asin(clamp(back.up, -1, 1)))),
+    rollDeg: limitRoll(toDegrees(Math.asin(clamp(topRight, -1, 1))))
+  };
+}
+
+// iOS only delivers orientation events after the page asks from a user gesture.
+export async function requestHeadTracking(): Promise<boolean> {
+  if (typeof DeviceOrientationEvent === "undefined") {
+    return false;
+  }
+  const withPermission = DeviceOrientationEvent as typeof DeviceOrientationEvent & {
+    requestPermission?: () => Promise<"granted" | "denied">;
+  };
+  if (!withPermission.requestPermission) {
+    return true;
+  }
+  try {
+    return (await withPermission.requestPermission()) === "granted";
+  } catch {
+    return false;
+  }
+}
+
+export function createInputController(initial: InputSettings): InputController {
+  let settings = initial;
+  let status: InputStatus = { gamepad: null, head: "off" };
+  const pressed = new Set<string>();
+  const actionListeners = new Set<(action: InputAction) => void>();
+  const statusListeners = new Set<() => void>();
+  let devicePose: HeadOrientation | null = null;
+  let headingOffset = 0;
+  let recenterPending = true;
+  const buttonsHeld = new Set<InputAction>();
+
+  const setStatus = (patch: Partial<InputStatus>) => {
+    if (Object.entries(patch).every(([key, value]) => status[key as keyof InputStatus] === value)) {
+      return;
+    }
+    status = { ...status, ...patch };
+    for (const onChange of statusListeners) {
+      onChange();
+    }
+  };
+
+  const fire = (action: InputAction) => {
+    for (const listener of actionListeners) {
+      listener(action);
+    }
+  };
+
+  const bound = (action: InputAction) => settings.keys[action].some((key) => pressed.has(key));
+  const axis = (positive: InputAction, negative: InputAction) => (bound(positive) ? 1 : 0) - (bound(negative) ? 1 : 0);
+
+  const readGamepad = (): { walk: WalkInput; buttons: InputAction[] } | null => {
+    const pads = typeof navigator !== "undefined" && navigator.getGamepads ? navigator.getGamepads() : [];
+    const pad = pads.find((candidate) => candidate?.connected) ?? null;
+    setStatus({ gamepad: pad?.id ?? null });
+    if (!pad || !settings.gamepad.enabled) {
+      return null;
+    }
+    const { deadzone, moveSpeed, turnSpeed } = settings.gamepad;
+    const [x = 0, y = 0, turn = 0, tilt = 0] = pad.axes;
+    const button = (index: number) => pad.buttons[index]?.pressed ?? false;
+    // Radial deadzone for the walking stick so diagonals are not clipped to the axes.
+    const magnitude = Math.hypot(x, y);
+    const scale = magnitude > deadzone ? Math.min(1, (magnitude - deadzone) / (1 - deadzone)) / magnitude : 0;
+    return {
+      walk: {
+        forward: -y * scale * moveSpeed,
+        strafe: x * scale * moveSpeed,
+        turn: applyDeadzone(turn, deadzone) * turnSpeed,
+        pitch: -applyDeadzone(tilt, deadzone) * turnSpeed,
+        roll: (button(GAMEPAD_ROLL_BUTTONS.right) ? 1 : 0) - (button(GAMEPAD_ROLL_BUTTONS.left) ? 1 : 0)
+      },
+      buttons: [
+        ...(button(GAMEPAD_CLICK_BUTTON) ? (["click"] as const) : []),
+        ...(button(GAMEPAD_LEVEL_BUTTON) ? (["levelHead"] as const) : [])
+      ]
+    };
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    // Widgets that use a key themselves, such as the world outline's arrow keys, mark it handled.
+    if (event.defaultPrevented || isTypingTarget(event.target)) {
+      return;
+    }
+    const key = event.key.toLowerCase();
+    const actions = INPUT_ACTIONS.filter(({ action }) => settings.keys[action].includes(key));
+    if (actions.length === 0) {
+      return;
+    }
+    event.preventDefault();
+    pressed.add(key);
+    if (!event.repeat) {
+      for (const { action } of actions) {
+        if (ONE_SHOT_ACTIONS.includes(action)) {
+          fire(action);
+        }
+      }
+    }
+  };
+
+  const onKeyUp = (event: KeyboardEvent) => {
+    pressed.delete(event.key.toLowerCase());
+  };
+
+  const onBlur = () => {
+    pressed.clear();
+  };
+
+  const onOrientation = (event: DeviceOrientationEvent) => {
+    if (!settings.headTracking || event.alpha === null || event.beta === null || event.gamma === null) {
+      return;
+    }
+    devicePose = deviceHeadPose(event.alpha, event.beta, event.gamma);
+    setStatus({ head: "active" });
+  };
+
+  return {
+    attach: () => {
+      window.addEventListener("keydown", onKeyDown);
+      window.addEventListener("keyup", onKeyUp);
+      window.addEventListener("blur", onBlur);
+      window.addEventListener("deviceorientation", onOrientation);
+      return () => {
+        window.removeEventListener("keydown", onKeyDown);
+        window.removeEventListener("keyup", onKeyUp);
+        window.removeEventListener("blur", onBlur);
+        window.removeEventListener("deviceorientation", onOrientation);
+        pressed.clear();
+      };
+    },
+    configure: (next) => {
+      if (next.headTracking && !settings.headTracking) {
+        recenterPending = true;
+      }
+      settings = next;
+      if (!next.headTracking) {
+        devicePose = null;
+        setStatus({ head: "off" });
+      } else if (devicePose === null) {
+        setStatus({ head: typeof DeviceOrientationEvent === "undefined" ? "unsupported" : "waiting" });
+      }
+    },
+    poll: (listenerHeadingDeg) => {
+      const pad = readGamepad();
+      for (const action of pad?.buttons ?? []) {
+        if (!buttonsHeld.has(action)) {
+          fire(action);
+        }
+      }
+      buttonsHeld.clear();
+      for (const action of pad?.buttons ?? []) {
+        buttonsHeld.add(action);
+      }
+
+      const walk: WalkInput = {
+        forward: clamp(axis("forward", "back") + (pad?.walk.forward ?? 0), -2, 2),
+        strafe: clamp(axis("strafeRight", "strafeLeft") + (pad?.walk.strafe ?? 0), -2, 2),
+        turn: clamp(axis("turnRight", "turnLeft") + (pad?.walk.turn ?? 0), -2, 2),
+        pitch: clamp(axis("tiltUp", "tiltDown") + (pad?.walk.pitch ?? 0), -2, 2),
+        roll: clamp(axis("rollRight", "rollLeft") + (pad?.walk.roll ?? 0), -2, 2)
+      };
+      if (devicePose === null) {
+        return { walk, head: null };
+      }
+      // Calibrated so that wherever the user faces when tracking starts (or on recenter) keeps the current heading.
+      // Pitch and roll need no calibration because gravity is the same for both.
+      if (recenterPending) {
+        headingOffset = listenerHeadingDeg - devicePose.headingDeg;
+        recenterPending = false;
+      }
+      const round = (deg: number) => Math.round(deg / ANGLE_PRECISION_DEG) * ANGLE_PRECISION_DEG;
+      return {
+        walk: { ...walk, turn: 0, pitch: 0, roll: 0 },
+        head: {
+          headingDeg: wrapDegrees(round(devicePose.headingDeg + headingOffset)),
+          pitchDeg: round(devicePose.pitchDeg),
+          rollDeg: round(devicePose.rollDeg)
+        }
+      };
+    },
+    recenter: () => {
+      recenterPending = true;
+    },
+    onAction: (listener) => {
+      actionListeners.add(listener);
+      return () => {
+        actionListeners.delete(listener);
+      };
+    },
+    subscribe: (onChange) => {
+      statusListeners.add(onChange);
+      return () => {
+        statusListeners.delete(onChange);
+      };
+    },
+    getStatus: () => status
+  };
+}
+
+function numberOr(value: unknown, fallback: number, min: number, max: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? clamp(value, min, max) : fallback;
+}
+
+// Settings are a preference, not a document: anything unreadable falls back to its default instead of failing.
+// Head tracking always starts off because the browser has to be asked again on every visit.
+export function parseInputSettings(text: string): InputSettings {
+  const raw: unknown = JSON.parse(text);
+  const source = isRecord(raw) ? raw : {};
+  const keys = isRecord(source.keys) ? source.keys : {};
+  const gamepad = isRecord(source.gamepad) ? source.gamepad : {};
+  const defaults = DEFAULT_INPUT_SETTINGS.gamepad;
+  const { deadzone, speed } = GAMEPAD_LIMITS;
+
+  // An action saved with no keys was unbound on purpose; only actions missing from the file get their defaults.
+  const bindings = { ...DEFAULT_KEY_BINDINGS };
+  for (const { action } of INPUT_ACTIONS) {
+    if (Array.isArray(keys[action])) {
+      bindings[action] = asArray(keys[action])
+        .filter((key): key is string => typeof key === "string" && key.length > 0)
+        .map((key) => key.toLowerCase());
+    }
+  }
+  return {
+    keys: bindings,
+    gamepad: {
+      enabled: typeof gamepad.enabled === "boolean" ? gamepad.enabled : defaults.enabled,
+      deadzone: numberOr(gamepad.deadzone, defaults.deadzone, deadzone.min, deadzone.max),
+      moveSpeed: numberOr(gamepad.moveSpeed, defaults.moveSpeed, speed.min, speed.max),
+      turnSpeed: numberOr(gamepad.turnSpeed, defaults.turnSpeed, speed.min, speed.max)
+    },
+    headTracking: false
+  };
+}
@@ -0,0 +1,196 @@
+import { defaultProceduralSource } from "./sources";
+import {
+  WORLD_RADIUS_M,
+  toRadians,
+  wrapDegrees,
+  type EmitterSource,
+  type ListenerPose,
+  type SoundEmitter
+} from "./world";
+
+export type LocalizationStimulus = "pinkNoise" | "pulse" | "tone";
+
+export type LocalizationConfig = {
+  blocks: number;
+  trialsPerBlock: number;
+  minDistanceM: number;
+  maxDistanceM: number;
+  stimulus: LocalizationStimulus;
+  keepObstacles: boolean;
+  feedback: boolean;
+};
+
+// Bearings are world headings in degrees, measured like `ListenerPose.headingDeg`.
+export type LocalizationTrial = {
+  block: number;
+  trial: number;
+  bearingDeg: number;
+  distanceM: number;
+};
+
+export type TrialResult = {
+  block: number;
+  trial: number;
+  targetDeg: number;
+  responseDeg: number;
+  onsetHeadingDeg: number;
+  errorDeg: number;
+  frontBack: boolean;
+  responseMs: number;
+};
+
+export type TrialSummary = {
+  trials: number;
+  meanAbsErrorDeg: number;
+  frontBackRate: number;
+  meanResponseMs: number;
+};
+
+export const LOCALIZATION_STIMULI: Array<{ id: LocalizationStimulus; label: string }> = [
+  { id: "pinkNoise", label: "Pink noise" },
+  { id: "pulse", label: "Pulsed beeps" },
+  { id: "tone", label: "Steady tone" }
+];
+
+export const DEFAULT_LOCALIZATION_CONFIG: LocalizationConfig = {
+  blocks: 2,
+  trialsPerBlock: 10,
+  minDistanceM: 3,
+  maxDistanceM: 8,
+  stimulus: "pinkNoise",
+  keepObstacles: false,
+  feedback: false
+};
+
+export const LOCALIZATION_LIMITS = {
+  blocks: { min: 1, max: 10 },
+  trialsPerBlock: { min: 1, max: 60 },
+  distanceM: { min: 1, max: WORLD_RADIUS_M - 2 }
+};
+
+// Targets this close to the interaural axis sound the same from front and back, so they never count as confusions.
+const FRONT_BACK_MARGIN_DEG = 10;
+const PLACEMENT_ATTEMPTS = 12;
+
+export function signedAngle(deg: number): number {
+  const wrapped = wrapDegrees(deg);
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
+
+export function bearingTo(listener: ListenerPose, x: number, z: number): number {
+  return wrapDegrees((Math.atan2(x - listener.x, listener.z - z) * 180) / Math.PI);
+}
+
+function stimulusSource(stimulus: LocalizationStimulus): EmitterSource {
+  switch (stimulus) {
+    case "pinkNoise":
+      return defaultProceduralSource("noise");
+    case "pulse":
+      return defaultProceduralSource("pulse");
+    case "tone":
+      return { kind: "tone" };
+  }
+}
+
+export function planTrials(random: () => number, config: LocalizationConfig): LocalizationTrial[] {
+  const trials: LocalizationTrial[] = [];
+  for (let block = 1; block <= config.blocks; block += 1) {
+    for (let trial = 1; trial <= config.trialsPerBlock; trial += 1) {
+      trials.push({
+        block,
+        trial,
+        bearingDeg: random() * 360,
+        distanceM: config.minDistanceM + random() * (config.maxDistanceM - config.minDistanceM)
+      });
+    }
+  }
+  return trials;
+}
+
+// Keeps the planned bearing and pulls the target in until it clears obstacles and the world edge.
+export function placeTarget(
+  listener: ListenerPose,
+  trial: LocalizationTrial,
+  collides: (x: number, z: number) => boolean,
+  stimulus: LocalizationStimulus
+): SoundEmitter {
+  const rad = toRadians(trial.bearingDeg);
+  let x = listener.x;
+  let z = listener.z;
+  for (let attempt = 0; attempt < PLACEMENT_ATTEMPTS; attempt += 1) {
+    const distance = trial.distanceM * (1 - attempt / PLACEMENT_ATTEMPTS);
+    x = listener.x + Math.sin(rad) * distance;
+    z = listener.z - Math.cos(rad) * distance;
+    if (Math.hypot(x, z) < WORLD_RADIUS_M - 1 && !collides(x, z)) {
+      break;
+    }
+  }
+  return {
+    id: `target-${trial.block}-${trial.trial}`,
+    name: "Target",
+    x,
+    z,
+    y: listener.heightM,
+    frequency: 620,
+    gain: 0.2,
+    waveform: "sine",
+    source: stimulusSource(stimulus),
+    color: "#d14b4b",
+    moving: false,
+    vx: 0,
+    vz: 0,
+    motion: { kind: "bounce" }
+  };
+}
+
+// Front/back confusion: the response lies nearer the target mirrored across the listener's interaural axis (as the
+// head was oriented at stimulus onset) than the target itself.
+export function scoreTrial(
+  trial: LocalizationTrial,
+  targetDeg: number,
+  responseDeg: number,
+  onsetHeadingDeg: number,
+  responseMs: number
+): TrialResult {
+  const target = signedAngle(targetDeg - onsetHeadingDeg);
+  const response = signedAngle(responseDeg - onsetHeadingDeg);
+  const mirrored = signedAngle(180 - target);
+  const lateral = Math.abs(Math.abs(target) - 90) < FRONT_BACK_MARGIN_DEG;
+  return {
+    block: trial.block,
+    trial: trial.trial,
+    targetDeg,
+    responseDeg: wrapDegrees(responseDeg),
+    onsetHeadingDeg,
+    errorDeg: signedAngle(responseDeg - targetDeg),
+    frontBack: !lateral && Math.abs(signedAngle(response - mirrored)) < Math.abs(signedAngle(response - target)),
+    responseMs
+  };
+}
+
+export function summarizeTrials(results: TrialResult[]): TrialSummary {
+  const count = Math.max(1, results.length);
+  return {
+    trials: results.length,
+    meanAbsErrorDeg: results.reduce((sum, result) => sum + Math.abs(result.errorDeg), 0) / count,
+    frontBackRate: results.filter((result) => result.frontBack).length / count,
+    meanResponseMs: results.reduce((sum, result) => sum + result.responseMs, 0) / count
+  };
+}
+
+export function trialResultsCsv(results: TrialResult[]): string {
+  const header = "block,trial,target_deg,response_deg,onset_heading_deg,error_deg,front_back,response_ms";
+  const rows = results.map((result) =>
+    [
+      result.block,
+      result.trial,
+      result.targetDeg.toFixed(1),
+      result.responseDeg.toFixed(1),
+      result.onsetHeadingDeg.toFixed(1),
+      result.errorDeg.toFixed(1),
+      result.frontBack,
+      Math.round(result.responseMs)
+    ].join(",")
+  );
+  return [header, ...rows].join("\n");
+}
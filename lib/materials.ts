@@ -0,0 +1,70 @@
+export type MaterialPreset = "concrete" | "glass" | "wood" | "foliage" | "fabric" | "custom";
+
+export type AcousticBand = "low" | "mid" | "high";
+
+export type AcousticBands = Record<AcousticBand, number>;
+
+// Absorption is the fraction of energy lost on reflection; transmission is the amplitude factor applied to sound
+// passing through the obstacle. Bands are centred on 250 Hz, 1 kHz and 4 kHz.
+export type AcousticMaterial = {
+  preset: MaterialPreset;
+  absorption: AcousticBands;
+  transmission: AcousticBands;
+};
+
+export const ACOUSTIC_BANDS: AcousticBand[] = ["low", "mid", "high"];
+
+export const BAND_CENTER_HZ: AcousticBands = { low: 250, mid: 1000, high: 4000 };
+
+export const MATERIAL_PRESETS: Record<Exclude<MaterialPreset, "custom">, AcousticMaterial> = {
+  concrete: {
+    preset: "concrete",
+    absorption: { low: 0.01, mid: 0.02, high: 0.02 },
+    transmission: { low: 0.3, mid: 0.18, high: 0.08 }
+  },
+  glass: {
+    preset: "glass",
+    absorption: { low: 0.25, mid: 0.12, high: 0.05 },
+    transmission: { low: 0.55, mid: 0.4, high: 0.25 }
+  },
+  wood: {
+    preset: "wood",
+    absorption: { low: 0.15, mid: 0.1, high: 0.08 },
+    transmission: { low: 0.6, mid: 0.42, high: 0.25 }
+  },
+  foliage: {
+    preset: "foliage",
+    absorption: { low: 0.1, mid: 0.3, high: 0.5 },
+    transmission: { low: 0.92, mid: 0.75, high: 0.5 }
+  },
+  fabric: {
+    preset: "fabric",
+    absorption: { low: 0.2, mid: 0.5, high: 0.7 },
+    transmission: { low: 0.88, mid: 0.65, high: 0.42 }
+  }
+};
+
+export const MATERIAL_OPTIONS: MaterialPreset[] = ["concrete", "glass", "wood", "foliage", "fabric", "custom"];
+
+export const CLEAR_TRANSMISSION: AcousticBands = { low: 1, mid: 1, high: 1 };
+
+export function materialFromPreset(preset: MaterialPreset, current?: AcousticMaterial): AcousticMaterial {
+  if (preset === "custom") {
+    const base = current ?? MATERIAL_PRESETS.concrete;
+    return { preset, absorption: { ...base.absorption }, transmission: { ...base.transmission } };
+  }
+  const source = MATERIAL_PRESETS[preset];
+  return { preset, absorption: { ...source.absorption }, transmission: { ...source.transmission } };
+}
+
+export function multiplyBands(a: AcousticBands, b: AcousticBands): AcousticBands {
+  return { low: a.low * b.low, mid: a.mid * b.mid, high: a.high * b.high };
+}
+
+export function reflectanceBands(material: AcousticMaterial): AcousticBands {
+  return {
+    low: 1 - material.absorption.low,
+    mid: 1 - material.absorption.mid,
+    high: 1 - material.absorption.high
+  };
+}
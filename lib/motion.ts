@@ -0,0 +1,284 @@
+import { pathRoute, pointAlongRoute, type PathMotion } from "./emitterMotion";
+import { moveCircle, slideCircle, sweepCircle, type SpatialIndex } from "./spatial";
+import {
+  SOUND_SPEED_MPS,
+  clamp,
+  limitPitch,
+  limitRoll,
+  toRadians,
+  wrapDegrees,
+  type EmitterMotion,
+  type ListenerPose,
+  type SoundEmitter
+} from "./world";
+
+// Walk input in the listener's frame, as fractions of the base speeds: keys give -1, 0 or 1, analog sticks anything
+// in between, scaled by the stick's speed setting. `pitch` and `roll` tilt the head without moving the body.
+export type WalkInput = {
+  forward: number;
+  strafe: number;
+  turn: number;
+  pitch: number;
+  roll: number;
+};
+
+// A body after one step, and whether it touched an obstacle on the way.
+export type Moved<T> = {
+  next: T;
+  contact: boolean;
+};
+
+export const PLAYER_RADIUS_M = 0.45;
+export const EMITTER_RADIUS_M = 0.35;
+export const MOVE_SPEED_MPS = 2.75;
+export const TURN_SPEED_DEG_PER_SEC = 95;
+export const TILT_SPEED_DEG_PER_SEC = 60;
+
+// How much of the gap to its orbit an orbiting emitter closes per second.
+const ORBIT_SETTLE_PER_SEC = 1.5;
+const STEER_LOOKAHEAD_SEC = 0.8;
+const STEER_LOOKAHEAD_MIN_M = 1;
+const STEER_OFFSETS = [0, 30, -30, 60, -60, 90, -90, 135, -135, 180].map(toRadians);
+
+export function stepListener(
+  pose: ListenerPose,
+  input: WalkInput,
+  index: SpatialIndex,
+  delta: number
+): Moved<ListenerPose> {
+  const heading = wrapDegrees(pose.headingDeg + input.turn * TURN_SPEED_DEG_PER_SEC * delta);
+  const rad = toRadians(heading);
+  const fx = Math.sin(rad);
+  const fz = -Math.cos(rad);
+  const rx = Math.cos(rad);
+  const rz = Math.sin(rad);
+
+  const step = MOVE_SPEED_MPS * delta;
+  const next = slideCircle(
+    index,
+    pose.x,
+    pose.z,
+    (input.forward * fx + input.strafe * rx) * step,
+    (input.forward * fz + input.strafe * rz) * step,
+    PLAYER_RADIUS_M
+  );
+
+  return {
+    next: {
+      ...pose,
+      x: next.x,
+      z: next.z,
+      headingDeg: heading,
+      pitchDeg: limitPitch(pose.pitchDeg + input.pitch * TILT_SPEED_DEG_PER_SEC * delta),
+      rollDeg: limitRoll(pose.rollDeg + input.roll * TILT_SPEED_DEG_PER_SEC * delta)
+    },
+    contact: next.hit !== null
+  };
+}
+
+// Moves toward a target pose without passing through obstacles; used by scripted walks.
+export function steerListener(pose: ListenerPose, target: ListenerPose, index: SpatialIndex): ListenerPose {
+  const next = slideCircle(index, pose.x, pose.z, target.x - pose.x, target.z - pose.z, PLAYER_RADIUS_M);
+  return {
+    x: next.x,
+    z: next.z,
+    headingDeg: wrapDegrees(target.headingDeg),
+    heightM: target.heightM,
+    pitchDeg: limitPitch(target.pitchDeg),
+    rollDeg: limitRoll(target.rollDeg)
+  };
+}
+
+// Velocities are per second; `vx`/`vz` are how far the emitter actually got, so Doppler stays honest when it is held
+// up against an obstacle.
+function glide(
+  emitter: SoundEmitter,
+  vx: number,
+  vz: number,
+  index: SpatialIndex,
+  delta: number
+): Moved<SoundEmitter> {
+  const next = slideCircle(index, emitter.x, emitter.z, vx * delta, vz * delta, EMITTER_RADIUS_M);
+  return {
+    next: { ...emitter, x: next.x, z: next.z, vx: (next.x - emitter.x) / delta, vz: (next.z - emitter.z) / delta },
+    contact: next.hit !== null
+  };
+}
+
+function halt(emitter: SoundEmitter): Moved<SoundEmitter> {
+  return { next: emitter.vx === 0 && emitter.vz === 0 ? emitter : { ...emitter, vx: 0, vz: 0 }, contact: false };
+}
+
+// The heading (radians, atan2 of z over x) closest to `angle` along which a short run ahead is clear, trying ever
+// wider turns to either side. Falls back to `angle` when boxed in, leaving the slide to make what progress it can.
+function steerClear(index: SpatialIndex, x: number, z: number, angle: number, speed: number): number {
+  const look = Math.max(STEER_LOOKAHEAD_MIN_M, speed * STEER_LOOKAHEAD_SEC);
+  for (const offset of STEER_OFFSETS) {
+    const candidate = angle + offset;
+    if (!sweepCircle(index, x, z, Math.cos(candidate) * look, Math.sin(candidate) * look, EMITTER_RADIUS_M)) {
+      return candidate;
+    }
+  }
+  return angle;
+}
+
+function stepBounce(emitter: SoundEmitter, index: SpatialIndex, delta: number): Moved<SoundEmitter> {
+  const next = moveCircle(index, emitter.x, emitter.z, emitter.vx * delta, emitter.vz * delta, EMITTER_RADIUS_M);
+  if (!next.hit) {
+    return { next: { ...emitter, x: next.x, z: next.z }, contact: false };
+  }
+
+  const into = emitter.vx * next.hit.nx + emitter.vz * next.hit.nz;
+  return {
+    next: {
+      ...emitter,
+      x: next.x,
+      z: next.z,
+      vx: emitter.vx - 2 * into * next.hit.nx,
+      vz: emitter.vz - 2 * into * next.hit.nz
+    },
+    contact: true
+  };
+}
+
+function stepPath(emitter: SoundEmitter, motion: PathMotion, delta: number): Moved<SoundEmitter> {
+  const route = pathRoute(motion);
+  if (route.lengthM === 0) {
+    return halt(emitter);
+  }
+
+  const here = pointAlongRoute(route, motion.distanceM);
+  let distance = motion.distanceM + here.speedMps * delta * (motion.reversed ? -1 : 1);
+  let reversed = motion.reversed;
+  if (route.closed) {
+    distance = ((distance % route.lengthM) + route.lengthM) % route.lengthM;
+  } else if (distance >= route.lengthM && motion.mode === "pingPong") {
+    distance = 2 * route.lengthM - distance;
+    reversed = true;
+  } else if (distance <= 0 && reversed) {
+    distance = -distance;
+    reversed = false;
+  } else {
+    distance = clamp(distance, 0, route.lengthM);
+  }
+
+  // Velocity comes from the route rather than the emitter's last position, so snapping onto a freshly drawn path
+  // does not register as a burst of speed.
+  const there = pointAlongRoute(route, distance);
+  const wrapped = route.closed && Math.abs(distance - motion.distanceM) > route.lengthM / 2;
+  return {
+    next: {
+      ...emitter,
+      x: there.x,
+      z: there.z,
+      vx: wrapped ? emitter.vx : (there.x - here.x) / delta,
+      vz: wrapped ? emitter.vz : (there.z - here.z) / delta,
+      motion: { ...motion, distanceM: distance, reversed }
+    },
+    contact: false
+  };
+}
+
+function stepOrbit(
+  emitter: SoundEmitter,
+  motion: Extract<EmitterMotion, { kind: "orbit" }>,
+  listener: ListenerPose,
+  index: SpatialIndex,
+  delta: number
+): Moved<SoundEmitter> {
+  const dx = emitter.x - listener.x;
+  const dz = emitter.z - listener.z;
+  const distance = Math.hypot(dx, dz);
+  const ux = distance > 1e-6 ? dx / distance : 0;
+  const uz = distance > 1e-6 ? dz / distance : -1;
+  // Clockwise on the map, north up: from north toward east.
+  const side = motion.clockwise ? 1 : -1;
+  const radial = clamp((motion.radiusM - distance) * ORBIT_SETTLE_PER_SEC, -motion.speedMps, motion.speedMps);
+  return glide(
+    emitter,
+    -uz * side * motion.speedMps + ux * radial,
+    ux * side * motion.speedMps + uz * radial,
+    index,
+    delta
+  );
+}
+
+// Follow closes in on the listener and waits at `distanceM`; flee runs until it is at least that far away.
+function stepPursuit(
+  emitter: SoundEmitter,
+  motion: Extract<EmitterMotion, { kind: "follow" | "flee" }>,
+  listener: ListenerPose,
+  index: SpatialIndex,
+  delta: number
+): Moved<SoundEmitter> {
+  const dx = listener.x - emitter.x;
+  const dz = listener.z - emitter.z;
+  const distance = Math.hypot(dx, dz);
+  const gap = motion.kind === "follow" ? distance - motion.distanceM : motion.distanceM - distance;
+  if (gap <= 0) {
+    return halt(emitter);
+  }
+  const toward = Math.atan2(dz, dx);
+  const angle = steerClear(
+    index,
+    emitter.x,
+    emitter.z,
+    motion.kind === "follow" ? toward : toward + Math.PI,
+    motion.speedMps
+  );
+  const speed = Math.min(motion.speedMps, gap / delta);
+  return glide(emitter, Math.cos(angle) * speed, Math.sin(angle) * speed, index, delta);
+}
+
+// The heading drifts a little every step, like a random walk, and turns away from anything close ahead.
+function stepWander(
+  emitter: SoundEmitter,
+  motion: Extract<EmitterMotion, { kind: "wander" }>,
+  index: SpatialIndex,
+  delta: number,
+  random: () => number
+): Moved<SoundEmitter> {
+  const moving = Math.hypot(emitter.vx, emitter.vz) > 1e-6;
+  const current = moving ? Math.atan2(emitter.vz, emitter.vx) : random() * 2 * Math.PI;
+  const drift = (random() * 2 - 1) * toRadians(motion.turnDegPerSec) * Math.sqrt(delta);
+  const angle = steerClear(index, emitter.x, emitter.z, current + drift, motion.speedMps);
+  return glide(emitter, Math.cos(angle) * motion.speedMps, Math.sin(angle) * motion.speedMps, index, delta);
+}
+
+// `random` is the simulation's seeded stepping generator, which nothing but stepping draws from, so wandering replays
+// exactly.
+export function stepEmitter(
+  emitter: SoundEmitter,
+  listener: ListenerPose,
+  index: SpatialIndex,
+  delta: number,
+  random: () => number
+): Moved<SoundEmitter> {
+  if (!emitter.moving) {
+    return { next: emitter, contact: false };
+  }
+
+  const { motion } = emitter;
+  switch (motion.kind) {
+    case "bounce":
+      return stepBounce(emitter, index, delta);
+    case "path":
+      return stepPath(emitter, motion, delta);
+    case "orbit":
+      return stepOrbit(emitter, motion, listener, index, delta);
+    case "follow":
+    case "flee":
+      return stepPursuit(emitter, motion, listener, index, delta);
+    case "wander":
+      return stepWander(emitter, motion, index, delta, random);
+  }
+}
+
+// Pitch ratio a stationary listener hears from a moving emitter, clamped so extreme speeds stay listenable.
+export function dopplerFactor(listener: ListenerPose, emitter: SoundEmitter): number {
+  const dx = listener.x - emitter.x;
+  const dz = listener.z - emitter.z;
+  const distance = Math.max(0.001, Math.hypot(dx, dz));
+  const towardListener = (emitter.vx * dx + emitter.vz * dz) / distance;
+  return clamp(SOUND_SPEED_MPS / (SOUND_SPEED_MPS - towardListener), 0.6, 1.8);
+}
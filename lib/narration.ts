@@ -0,0 +1,245 @@
+import { describeMotion } from "./emitterMotion";
+import { insideBoundary, nearestOnBoundary, nearestOnWall, polygonArea } from "./geometry";
+import { PLAYER_RADIUS_M } from "./motion";
+import { LISTENER_BODY, type Simulation } from "./simulation";
+import {
+  toDegrees,
+  wrapDegrees,
+  type CollisionZone,
+  type ListenerPose,
+  type SoundEmitter,
+  type Wall,
+  type WorldBoundary
+} from "./world";
+
+// Spoken descriptions of the world for screen readers. Map directions follow the canvas: north is -z, east is +x.
+// Directions relative to the listener use a clock face, with 12 o'clock straight ahead.
+
+export type WorldItem =
+  | { kind: "listener" }
+  | { kind: "emitter"; id: string }
+  | { kind: "zone"; id: string }
+  | { kind: "wall"; id: string };
+
+export type NearbyObstacle = {
+  id: string;
+  label: string;
+  distance: number;
+  x: number;
+  z: number;
+};
+
+export type Narrator = {
+  stop: () => void;
+};
+
+export const ZONE_RADIUS_LIMITS = { min: 0.5, max: 3.5 };
+export const WALL_SIZE_LIMITS = { min: 0.5, max: 8 };
+// Obstacles closer than this (edge to edge) are announced as the listener approaches them.
+export const NEARBY_RANGE_M = 2;
+// How far "where am I" looks.
+export const SURROUNDINGS_RANGE_M = 5;
+export const WORLD_EDGE_ID = "world-edge";
+
+const COMPASS_POINTS = ["north", "north-east", "east", "south-east", "south", "south-west", "west", "north-west"];
+const POSITION_ANNOUNCE_STEP_M = 2;
+const NARRATION_INTERVAL_STEPS = 15;
+
+function formatMeters(value: number): string {
+  return `${value.toFixed(1)} m`;
+}
+
+export function compassName(headingDeg: number): string {
+  return COMPASS_POINTS[Math.round(wrapDegrees(headingDeg) / 45) % COMPASS_POINTS.length];
+}
+
+export function clockDirection(listener: ListenerPose, x: number, z: number): number {
+  const bearing = toDegrees(Math.atan2(x - listener.x, listener.z - z));
+  const hour = Math.round(wrapDegrees(bearing - listener.headingDeg) / 30) % 12;
+  return hour === 0 ? 12 : hour;
+}
+
+export function describeOffset(listener: ListenerPose, x: number, z: number, distance?: number): string {
+  const meters = distance ?? Math.hypot(x - listener.x, z - listener.z);
+  return meters < 0.05 ? "right here" : `${formatMeters(meters)} at ${clockDirection(listener, x, z)} o'clock`;
+}
+
+export function describeMapPosition(x: number, z: number): string {
+  const eastWest = Math.abs(x) < 0.05 ? null : `${formatMeters(Math.abs(x))} ${x > 0 ? "east" : "west"}`;
+  const northSouth = Math.abs(z) < 0.05 ? null : `${formatMeters(Math.abs(z))} ${z < 0 ? "north" : "south"}`;
+  const parts = [eastWest, northSouth].filter(Boolean);
+  return parts.length === 0 ? "at the center" : `${parts.join(" and ")} of the center`;
+}
+
+export function wallLabel(wall: Wall): string {
+  return `${wall.door ? "Door" : "Wall"} ${wall.id.replace(/^wall-/, "")}`;
+}
+
+// Closest point of each obstacle to the listener, measured to its surface rather than its center.
+function zoneNearest(listener: ListenerPose, zone: CollisionZone): NearbyObstacle {
+  const center = Math.hypot(listener.x - zone.x, listener.z - zone.z);
+  const scale = center > 0 ? zone.radius / center : 0;
+  return {
+    id: zone.id,
+    label: zone.label,
+    distance: Math.max(0, center - zone.radius),
+    x: zone.x + (listener.x - zone.x) * scale,
+    z: zone.z + (listener.z - zone.z) * scale
+  };
+}
+
+function wallNearest(listener: ListenerPose, wall: Wall): NearbyObstacle {
+  const { x, z } = nearestOnWall(wall, listener.x, listener.z);
+  return { id: wall.id, label: wallLabel(wall), distance: Math.hypot(listener.x - x, listener.z - z), x, z };
+}
+
+function edgeNearest(listener: ListenerPose, boundary: WorldBoundary): NearbyObstacle {
+  const { x, z } = nearestOnBoundary(boundary, listener.x, listener.z);
+  const inside = insideBoundary(boundary, listener.x, listener.z);
+  return {
+    id: WORLD_EDGE_ID,
+    label: "the world edge",
+    distance: inside ? Math.hypot(listener.x - x, listener.z - z) : 0,
+    x,
+    z
+  };
+}
+
+// Everything within `range` of the listener's body, nearest first.
+export function nearbyObstacles(
+  listener: ListenerPose,
+  zones: CollisionZone[],
+  walls: Wall[],
+  boundary: WorldBoundary,
+  range: number
+): NearbyObstacle[] {
+  return [
+    ...zones.map((zone) => zoneNearest(listener, zone)),
+    ...walls.filter((wall) => !wall.door?.open).map((wall) => wallNearest(listener, wall)),
+    edgeNearest(listener, boundary)
+  ]
+    .map((obstacle) => ({ ...obstacle, distance: Math.max(0, obstacle.distance - PLAYER_RADIUS_M) }))
+    .filter((obstacle) => obstacle.distance <= range)
+    .sort((a, b) => a.distance - b.distance);
+}
+
+export function describeListener(listener: ListenerPose): string {
+  return `You are ${describeMapPosition(listener.x, listener.z)}, facing ${compassName(listener.headingDeg)}.`;
+}
+
+export function describeSurroundings(
+  listener: ListenerPose,
+  zones: CollisionZone[],
+  walls: Wall[],
+  boundary: WorldBoundary,
+  range: number
+): string {
+  const nearby = nearbyObstacles(listener, zones, walls, boundary, range);
+  if (nearby.length === 0) {
+    return `Nothing within ${formatMeters(range)}.`;
+  }
+  const parts = nearby.map(
+    (obstacle) => `${obstacle.label} ${describeOffset(listener, obstacle.x, obstacle.z, obstacle.distance)}`
+  );
+  return `Nearby: ${parts.join("; ")}.`;
+}
+
+export function describeEmitter(emitter: SoundEmitter, listener: ListenerPose, sourceLabel: string): string {
+  return (
+    `${emitter.name}, ${sourceLabel}, ${emitter.moving ? describeMotion(emitter.motion) : "fixed"}, ` +
+    `${describeMapPosition(emitter.x, emitter.z)}, ${formatMeters(emitter.y)} high. ` +
+    `From you: ${describeOffset(listener, emitter.x, emitter.z)}.`
+  );
+}
+
+export function describeZone(zone: CollisionZone, listener: ListenerPose): string {
+  const nearest = zoneNearest(listener, zone);
+  return (
+    `${zone.label}, round ${zone.material.preset} obstacle, ${formatMeters(zone.radius)} radius, ` +
+    `${describeMapPosition(zone.x, zone.z)}. Nearest edge: ${describeOffset(listener, nearest.x, nearest.z)}.`
+  );
+}
+
+function describeWallShape(wall: Wall): string {
+  const turned = Math.abs(wall.rotationDeg) < 0.5 ? "" : `, turned ${Math.round(wall.rotationDeg)} deg`;
+  const { shape } = wall;
+  switch (shape.kind) {
+    case "box":
+      return `${formatMeters(wall.width)} east to west by ${formatMeters(wall.height)} north to south${turned}`;
+    case "polyline": {
+      const length = shape.points
+        .slice(1)
+        .reduce((sum, point, i) => sum + Math.hypot(point.x - shape.points[i].x, point.z - shape.points[i].z), 0);
+      const segments = shape.points.length - 1;
+      return (
+        `${segments} ${segments === 1 ? "segment" : "segments"}, ${formatMeters(length)} long and ` +
+        `${formatMeters(shape.thicknessM)} thick`
+      );
+    }
+    case "polygon":
+      return `${shape.points.length} sides, ${Math.abs(polygonArea(shape.points)).toFixed(1)} square m`;
+  }
+}
+
+export function describeWall(wall: Wall, listener: ListenerPose): string {
+  const nearest = wallNearest(listener, wall);
+  const door = wall.door ? `${wall.door.open ? "open" : "closed"}, ` : "";
+  return (
+    `${wallLabel(wall)}, ${door}${wall.material.preset}, ${describeWallShape(wall)}, ` +
+    `${describeMapPosition(wall.x, wall.z)}. Nearest edge: ${describeOffset(listener, nearest.x, nearest.z)}.`
+  );
+}
+
+// Narrates the walk as it happens: each new listener collision at once, then, a few times a second, obstacles coming
+// into range, a new compass direction, and every couple of meters walked.
+export function startNarration(simulation: Simulation, announce: (message: string, urgent: boolean) => void): Narrator {
+  let touching = false;
+  const initial = simulation.getState();
+  let anchor = initial.listener;
+  let facing = compassName(anchor.headingDeg);
+  let near = new Set(
+    nearbyObstacles(anchor, initial.zones, initial.walls, initial.boundary, NEARBY_RANGE_M).map(
+      (obstacle) => obstacle.id
+    )
+  );
+
+  const unobserve = simulation.observe((event) => {
+    if (event.kind !== "stepped") {
+      return;
+    }
+    const { listener, zones, walls, boundary } = simulation.getState();
+    const contact = event.contacts.includes(LISTENER_BODY);
+    if (contact && !touching) {
+      const hit = nearbyObstacles(listener, zones, walls, boundary, NEARBY_RANGE_M)[0];
+      announce(hit ? `Bump: ${hit.label} at ${clockDirection(listener, hit.x, hit.z)} o'clock.` : "Bump.", true);
+    }
+    touching = contact;
+    if (simulation.getStep() % NARRATION_INTERVAL_STEPS !== 0) {
+      return;
+    }
+
+    const messages: string[] = [];
+    const nearby = nearbyObstacles(listener, zones, walls, boundary, NEARBY_RANGE_M);
+    for (const obstacle of nearby) {
+      if (!near.has(obstacle.id)) {
+        messages.push(`${obstacle.label} ${describeOffset(listener, obstacle.x, obstacle.z, obstacle.distance)}.`);
+      }
+    }
+    near = new Set(nearby.map((obstacle) => obstacle.id));
+
+    const heading = compassName(listener.headingDeg);
+    if (heading !== facing) {
+      facing = heading;
+      messages.push(`Facing ${heading}.`);
+    }
+    if (Math.hypot(listener.x - anchor.x, listener.z - anchor.z) >= POSITION_ANNOUNCE_STEP_M) {
+      anchor = listener;
+      messages.push(`Now ${describeMapPosition(listener.x, listener.z)}.`);
+    }
+    if (messages.length > 0) {
+      announce(messages.join(" "), false);
+    }
+  });
+
+  return { stop: unobserve };
+}
@@ -0,0 +1,210 @@
+import { boundaryOutline, insideBoundary, outlineBounds } from "./geometry";
+import { materialFromPreset } from "./materials";
+import { PLAYER_RADIUS_M } from "./motion";
+import { shortestPath, type PathPoint } from "./pathfinding";
+import { FIXED_STEP_SEC, LISTENER_BODY, type Simulation, type WorldState } from "./simulation";
+import { circleCollides, type SpatialIndex } from "./spatial";
+import {
+  DEFAULT_BOUNDARY,
+  DEFAULT_HEAD,
+  boxWall,
+  type ListenerPose,
+  type SoundEmitter,
+  type WorldBoundary
+} from "./world";
+
+export type NavigationLevel = {
+  id: string;
+  name: string;
+  description: string;
+  world: Omit<WorldState, "emitters">;
+  minGoalDistanceM: number;
+};
+
+export type NavigationStats = {
+  timeSec: number;
+  pathLengthM: number;
+  collisions: number;
+  reached: boolean;
+};
+
+export type NavigationGoal = PathPoint & {
+  shortestM: number;
+};
+
+export type NavigationTracker = {
+  stats: () => NavigationStats;
+  stop: () => NavigationStats;
+};
+
+export const GOAL_RADIUS_M = 0.9;
+const GOAL_ATTEMPTS = 60;
+const GOAL_EDGE_MARGIN_M = 2;
+
+const START: ListenerPose = { x: 0, z: 0, headingDeg: 0, ...DEFAULT_HEAD };
+
+export const NAVIGATION_LEVELS: NavigationLevel[] = [
+  {
+    id: "open-field",
+    name: "Open Field",
+    description: "No obstacles. Turn until the beacon is straight ahead, then walk to it.",
+    world: { listener: START, zones: [], walls: [], boundary: DEFAULT_BOUNDARY },
+    minGoalDistanceM: 6
+  },
+  {
+    id: "pillars",
+    name: "Pillar Hall",
+    description: "Scattered pillars and benches block the direct line.",
+    world: {
+      listener: START,
+      zones: [
+        { id: "zone-1", label: "Pillar", x: -3.5, z: -3, radius: 1.2, material: materialFromPreset("concrete") },
+        { id: "zone-2", label: "Pillar", x: 3, z: -4.5, radius: 1.2, material: materialFromPreset("concrete") },
+        { id: "zone-3", label: "Pillar", x: 4.5, z: 3, radius: 1.4, material: materialFromPreset("concrete") },
+        { id: "zone-4", label: "Bench", x: -4.2, z: 4, radius: 1, material: materialFromPreset("wood") },
+        { id: "zone-5", label: "Planter", x: 0.5, z: -8.5, radius: 1.6, material: materialFromPreset("foliage") }
+      ],
+      walls: [],
+      boundary: DEFAULT_BOUNDARY
+    },
+    minGoalDistanceM: 7
+  },
+  {
+    id: "corridor",
+    name: "Glass Corridor",
+    description: "A long corridor with a glass partition. The exit is not where the sound seems to be.",
+    world: {
+      listener: { ...START, z: 9 },
+      zones: [],
+      walls: [
+        boxWall("wall-1", -2.2, 1, 0.5, 14, materialFromPreset("concrete")),
+        boxWall("wall-2", 2.2, 3, 0.5, 14, materialFromPreset("concrete")),
+        boxWall("wall-3", 0, -2, 3.9, 0.4, materialFromPreset("glass"))
+      ],
+      boundary: DEFAULT_BOUNDARY
+    },
+    minGoalDistanceM: 8
+  },
+  {
+    id: "maze",
+    name: "Concrete Maze",
+    description: "Nested walls with a single gap in each. Listen for the sound around corners.",
+    world: {
+      listener: START,
+      zones: [],
+      walls: [
+        boxWall("wall-1", 0, -3.2, 6.4, 0.4, materialFromPreset("concrete")),
+        boxWall("wall-2", -3.2, 0.6, 0.4, 7.6, materialFromPreset("concrete")),
+        boxWall("wall-3", 3.2, -0.6, 0.4, 5.6, materialFromPreset("concrete")),
+        boxWall("wall-4", 0, 8, 14, 0.4, materialFromPreset("concrete")),
+        boxWall("wall-5", -7, 0.5, 0.4, 15, materialFromPreset("concrete")),
+        boxWall("wall-6", 7, -1.5, 0.4, 12.6, materialFromPreset("concrete")),
+        boxWall("wall-7", 1.8, -7, 10.4, 0.4, materialFromPreset("concrete"))
+      ],
+      boundary: DEFAULT_BOUNDARY
+    },
+    minGoalDistanceM: 9
+  }
+];
+
+export function goalEmitter(goal: PathPoint): SoundEmitter {
+  return {
+    id: "goal",
+    name: "Goal",
+    x: goal.x,
+    z: goal.z,
+    y: DEFAULT_HEAD.heightM,
+    frequency: 880,
+    gain: 0.22,
+    waveform: "triangle",
+    source: { kind: "pulse", rateHz: 2, duty: 0.25 },
+    color: "#e0a526",
+    moving: false,
+    vx: 0,
+    vz: 0,
+    motion: { kind: "bounce" }
+  };
+}
+
+// Uniform over a circular world, or over the box around any other boundary for the caller to check.
+function randomSpot(random: () => number, boundary: WorldBoundary): PathPoint {
+  if (boundary.kind === "circle") {
+    const angle = random() * Math.PI * 2;
+    const distance = Math.sqrt(random()) * (boundary.radiusM - GOAL_EDGE_MARGIN_M);
+    return { x: Math.cos(angle) * distance, z: Math.sin(angle) * distance };
+  }
+  const bounds = outlineBounds(boundaryOutline(boundary), -GOAL_EDGE_MARGIN_M);
+  return {
+    x: bounds.left + random() * (bounds.right - bounds.left),
+    z: bounds.top + random() * (bounds.bottom - bounds.top)
+  };
+}
+
+// Picks a random spot the listener can stand on and actually walk to, at least the level's minimum distance away as
+// the crow flies. Returns null if no reachable spot turns up.
+export function placeGoal(random: () => number, index: SpatialIndex, level: NavigationLevel): NavigationGoal | null {
+  const { listener } = level.world;
+  for (let attempt = 0; attempt < GOAL_ATTEMPTS; attempt += 1) {
+    const goal = randomSpot(random, index.boundary);
+    if (
+      Math.hypot(goal.x - listener.x, goal.z - listener.z) < level.minGoalDistanceM ||
+      !insideBoundary(index.boundary, goal.x, goal.z, GOAL_EDGE_MARGIN_M) ||
+      circleCollides(index, goal.x, goal.z, PLAYER_RADIUS_M)
+    ) {
+      continue;
+    }
+    const path = shortestPath(index, listener, goal, PLAYER_RADIUS_M);
+    if (path) {
+      return { ...goal, shortestM: path.lengthM };
+    }
+  }
+  return null;
+}
+
+// Measures one attempt from the simulation's own steps: distance actually walked, time in simulation seconds and
+// each new listener collision (a body pressed against a wall counts once).
+export function trackNavigation(
+  simulation: Simulation,
+  goal: PathPoint,
+  callbacks: { onCollision: () => void; onReach: () => void }
+): NavigationTracker {
+  const startStep = simulation.getStep();
+  let stats: NavigationStats = { timeSec: 0, pathLengthM: 0, collisions: 0, reached: false };
+  let before = simulation.getState().listener;
+  let touching = false;
+
+  const unobserve = simulation.observe((event) => {
+    if (event.kind === "step") {
+      before = simulation.getState().listener;
+      return;
+    }
+    if (event.kind !== "stepped") {
+      return;
+    }
+    const { listener } = simulation.getState();
+    const contact = event.contacts.includes(LISTENER_BODY);
+    const reached = Math.hypot(listener.x - goal.x, listener.z - goal.z) <= GOAL_RADIUS_M;
+    stats = {
+      timeSec: (simulation.getStep() - startStep) * FIXED_STEP_SEC,
+      pathLengthM: stats.pathLengthM + Math.hypot(listener.x - before.x, listener.z - before.z),
+      collisions: stats.collisions + (contact && !touching ? 1 : 0),
+      reached
+    };
+    if (contact && !touching) {
+      callbacks.onCollision();
+    }
+    touching = contact;
+    if (reached) {
+      unobserve();
+      callbacks.onReach();
+    }
+  });
+
+  return {
+    stats: () => stats,
+    stop: () => {
+      unobserve();
+      return stats;
+    }
+  };
+}
@@ -0,0 +1,52 @@
+import { CLEAR_TRANSMISSION, multiplyBands, type AcousticBands } from "./materials";
+import { segmentCrossings, type SpatialIndex } from "./spatial";
+import { clamp } from "./world";
+
+export type OcclusionResult = {
+  transmission: AcousticBands;
+  crossings: number;
+};
+
+export type OcclusionFilter = {
+  gain: number;
+  lowShelfDb: number;
+  highShelfDb: number;
+  lowpassHz: number;
+};
+
+export const CLEAR_LOWPASS_HZ = 7600;
+export const LOW_SHELF_HZ = 400;
+export const HIGH_SHELF_HZ = 2500;
+
+export function occlusionBetween(
+  ax: number,
+  az: number,
+  bx: number,
+  bz: number,
+  index: SpatialIndex
+): OcclusionResult {
+  const crossed = segmentCrossings(index, ax, az, bx, bz);
+  let transmission = CLEAR_TRANSMISSION;
+  for (const obstacle of [...crossed.zones, ...crossed.walls]) {
+    transmission = multiplyBands(transmission, obstacle.material.transmission);
+  }
+  return { transmission, crossings: crossed.zones.length + crossed.walls.length };
+}
+
+function bandRatioDb(band: number, reference: number): number {
+  return clamp(20 * Math.log10(Math.max(band, 1e-4) / Math.max(reference, 1e-4)), -30, 30);
+}
+
+export function occlusionFilter(transmission: AcousticBands): OcclusionFilter {
+  const { low, mid, high } = transmission;
+  if (low >= 0.999 && mid >= 0.999 && high >= 0.999) {
+    return { gain: 1, lowShelfDb: 0, highShelfDb: 0, lowpassHz: CLEAR_LOWPASS_HZ };
+  }
+
+  return {
+    gain: clamp(mid, 0, 1),
+    lowShelfDb: bandRatioDb(low, mid),
+    highShelfDb: bandRatioDb(high, mid),
+    lowpassHz: clamp(CLEAR_LOWPASS_HZ * Math.sqrt(clamp(high, 0, 1)), 700, CLEAR_LOWPASS_HZ)
+  };
+}
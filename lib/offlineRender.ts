@@ -0,0 +1,203 @@
+import {
+  ambisonicChannels,
+  createAmbisonicBus,
+  rotateAmbisonicBus,
+  speakerCount,
+  type AmbisonicSettings
+} from "./ambisonics";
+import {
+  createAudioRouting,
+  createEmitterNode,
+  emitterSampleBuffer,
+  reverbReturnLevel,
+  scheduleRetriggers,
+  setListenerPose,
+  setOutputChannels,
+  updateEmitterNode,
+  type AudioFrame,
+  type EmitterAudioNode
+} from "./audioGraph";
+import { createHrtfRenderer } from "./binaural";
+import { steerListener } from "./motion";
+import { createRandom } from "./random";
+import { buildReflectionFaces, createReverbImpulse, estimateReverbTime } from "./room";
+import type { SceneContent } from "./scene";
+import { FIXED_STEP_SEC, createSimulation } from "./simulation";
+import type { HrirSet } from "./sofa";
+import { wrapDegrees, type ListenerPose } from "./world";
+
+export type WalkKeyframe = ListenerPose & {
+  timeSec: number;
+};
+
+export type OfflineRenderOptions = {
+  durationSec: number;
+  sampleRate: number;
+  keyframes: WalkKeyframe[];
+  moveEmitters: boolean;
+  // Renders the direct sound through this HRIR set instead of the built-in panner, or decodes ambisonics with it.
+  hrtf: HrirSet | null;
+  ambisonics: AmbisonicSettings | null;
+  // With ambisonics, "ambix" writes the undecoded world-referenced field instead of the decoder's output.
+  output: OfflineOutput;
+  // Seeds the noise and wandering emitters, so rendering the same settings twice gives the same file.
+  seed: number;
+};
+
+export type OfflineOutput = "decoded" | "ambix";
+
+export type SampleLoader = (sampleId: string, context: BaseAudioContext) => Promise<AudioBuffer | undefined>;
+
+export const OFFLINE_SAMPLE_RATES = [22050, 44100, 48000];
+export const MAX_OFFLINE_DURATION_SEC = 120;
+
+// Interpolates the walk at `timeSec`, turning the short way round between headings. Before the first and after the
+// last keyframe the listener holds still.
+export function listenerAt(keyframes: WalkKeyframe[], timeSec: number, fallback: ListenerPose): ListenerPose {
+  if (keyframes.length === 0) {
+    return fallback;
+  }
+  const sorted = [...keyframes].sort((a, b) => a.timeSec - b.timeSec);
+  const nextIndex = sorted.findIndex((keyframe) => keyframe.timeSec > timeSec);
+  if (nextIndex === 0) {
+    return sorted[0];
+  }
+  if (nextIndex === -1) {
+    return sorted[sorted.length - 1];
+  }
+
+  const from = sorted[nextIndex - 1];
+  const to = sorted[nextIndex];
+  const mix = (timeSec - from.timeSec) / (to.timeSec - from.timeSec);
+  const turn = ((((to.headingDeg - from.headingDeg) % 360) + 540) % 360) - 180;
+  const lerp = (a: number, b: number) => a + (b - a) * mix;
+  return {
+    x: lerp(from.x, to.x),
+    z: lerp(from.z, to.z),
+    headingDeg: wrapDegrees(from.headingDeg + turn * mix),
+    heightM: lerp(from.heightM, to.heightM),
+    pitchDeg: lerp(from.pitchDeg, to.pitchDeg),
+    rollDeg: lerp(from.rollDeg, to.rollDeg)
+  };
+}
+
+async function loadSceneSamples(
+  scene: SceneContent,
+  context: BaseAudioContext,
+  loadSample: SampleLoader
+): Promise<Map<string, AudioBuffer>> {
+  const buffers = new Map<string, AudioBuffer>();
+  for (const emitter of scene.emitters) {
+    if (emitter.source.kind !== "sample" || buffers.has(emitter.source.sampleId)) {
+      continue;
+    }
+    const buffer = await loadSample(emitter.source.sampleId, context);
+    if (buffer) {
+      buffers.set(emitter.source.sampleId, buffer);
+    }
+  }
+  return buffers;
+}
+
+export async function renderSceneOffline(
+  scene: SceneContent,
+  options: OfflineRenderOptions,
+  loadSample: SampleLoader
+): Promise<AudioBuffer> {
+  const frames = Math.max(1, Math.ceil(options.durationSec * options.sampleRate));
+  const ambix = options.ambisonics !== null && options.output === "ambix";
+  const channels = !options.ambisonics
+    ? 2
+    : ambix
+      ? ambisonicChannels(options.ambisonics.order)
+      : speakerCount(options.ambisonics.decoder);
+  const context = new OfflineAudioContext(channels, frames, options.sampleRate);
+  setOutputChannels(context, channels);
+  const routing = createAudioRouting(context, createRandom(options.seed).next);
+  const faces = buildReflectionFaces(scene.walls, scene.boundary, scene.room);
+  const buffers = await loadSceneSamples(scene, context, loadSample);
+
+  const reverbTime = estimateReverbTime(scene.walls, scene.zones, scene.boundary, scene.room);
+  routing.reverb.buffer = createReverbImpulse(context, reverbTime, routing.random);
+  routing.reverbReturn.gain.setValueAtTime(reverbReturnLevel(scene.room), 0);
+
+  const simulation = createSimulation(
+    {
+      listener: listenerAt(options.keyframes, 0, scene.listener),
+      emitters: scene.emitters,
+      zones: scene.zones,
+      walls: scene.walls,
+      boundary: scene.boundary
+    },
+    options.seed
+  );
+  const index = simulation.spatialIndex();
+  const nodes = new Map<string, EmitterAudioNode>(
+    scene.emitters.map((emitter) => [
+      emitter.id,
+      createEmitterNode(context, routing, emitter, emitterSampleBuffer(emitter, buffers), 0)
+    ])
+  );
+
+  const renderer = options.hrtf ? createHrtfRenderer(context, options.hrtf) : null;
+  const hrtf = options.ambisonics ? null : renderer;
+  const ambisonics = options.ambisonics
+    ? createAmbisonicBus(
+        context,
+        options.ambisonics.order,
+        ambix ? "ambix" : options.ambisonics.decoder,
+        renderer,
+        routing.master,
+        1
+      )
+    : null;
+  // An AmbiX recording holds only the encoded emitters; the late reverb has no direction to encode.
+  if (ambix) {
+    routing.reverbReturn.disconnect();
+  }
+  const step = () => {
+    const time = simulation.getTime();
+    const { listener, emitters } = simulation.getState();
+    const paths = simulation.propagation();
+    const frame: AudioFrame = { listener, index, faces, room: scene.room, hrtf, ambisonics };
+    setListenerPose(context, listener, time);
+    if (ambisonics) {
+      rotateAmbisonicBus(ambisonics, listener, time);
+    }
+    for (const emitter of emitters) {
+      const node = nodes.get(emitter.id);
+      const path = paths.get(emitter.id);
+      if (!node || !path) {
+        continue;
+      }
+      updateEmitterNode(context, node, emitter, emitterSampleBuffer(emitter, buffers), path, frame, time);
+      scheduleRetriggers(context, node, time + FIXED_STEP_SEC);
+    }
+
+    const target = listenerAt(options.keyframes, time + FIXED_STEP_SEC, listener);
+    simulation.set("listener", steerListener(listener, target, index));
+    simulation.step({ walk: null, head: null, moveEmitters: options.moveEmitters });
+  };
+
+  // Every step is scheduled as automation before rendering starts, mirroring the live loop's per-frame updates.
+  if (!hrtf) {
+    while (simulation.getTime() < options.durationSec) {
+      step();
+    }
+    return context.startRendering();
+  }
+
+  // Convolver responses cannot be automated, so with an HRIR set each step runs while the render is suspended there.
+  const suspendAtNextStep = () => {
+    if (simulation.getTime() >= options.durationSec) {
+      return;
+    }
+    void context.suspend(simulation.getTime()).then(() => {
+      step();
+      suspendAtNextStep();
+      void context.resume();
+    });
+  };
+  suspendAtNextStep();
+  return context.startRendering();
+}
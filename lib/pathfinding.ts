@@ -0,0 +1,186 @@
+import { circleCollides, sweepCircle, type SpatialIndex } from "./spatial";
+import { WORLD_RADIUS_M } from "./world";
+
+export type PathPoint = {
+  x: number;
+  z: number;
+};
+
+export type WalkablePath = {
+  points: PathPoint[];
+  lengthM: number;
+};
+
+const GRID_CELL_M = 0.25;
+const GRID_SIZE = Math.round((WORLD_RADIUS_M * 2) / GRID_CELL_M) + 1;
+const NEIGHBOURS: Array<[number, number, number]> = [
+  [1, 0, 1],
+  [-1, 0, 1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [1, 1, Math.SQRT2],
+  [1, -1, Math.SQRT2],
+  [-1, 1, Math.SQRT2],
+  [-1, -1, Math.SQRT2]
+];
+
+function toCell(value: number): number {
+  return Math.min(GRID_SIZE - 1, Math.max(0, Math.round((value + WORLD_RADIUS_M) / GRID_CELL_M)));
+}
+
+function toWorld(cell: number): number {
+  return cell * GRID_CELL_M - WORLD_RADIUS_M;
+}
+
+// Binary min-heap of cell keys. Improved cells are pushed again and stale entries skipped when popped.
+function createOpenSet() {
+  const keys: number[] = [];
+  const priorities: number[] = [];
+  const swap = (a: number, b: number) => {
+    [keys[a], keys[b]] = [keys[b], keys[a]];
+    [priorities[a], priorities[b]] = [priorities[b], priorities[a]];
+  };
+  return {
+    size: () => keys.length,
+    push: (key: number, priority: number) => {
+      keys.push(key);
+      priorities.push(priority);
+      for (let i = keys.length - 1; i > 0; ) {
+        const parent = (i - 1) >> 1;
+        if (priorities[parent] <= priorities[i]) {
+          break;
+        }
+        swap(i, parent);
+        i = parent;
+      }
+    },
+    pop: (): number => {
+      const top = keys[0];
+      swap(0, keys.length - 1);
+      keys.pop();
+      priorities.pop();
+      for (let i = 0; ; ) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < keys.length && priorities[left] < priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < keys.length && priorities[right] < priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        swap(i, smallest);
+        i = smallest;
+      }
+      return top;
+    }
+  };
+}
+
+function pathLength(points: PathPoint[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].z - points[i - 1].z);
+  }
+  return length;
+}
+
+// Drops grid waypoints a body of `radius` can skip by walking straight, so the length approaches the true shortest
+// route instead of the grid's zig-zag.
+function smoothPath(index: SpatialIndex, points: PathPoint[], radius: number): PathPoint[] {
+  const smoothed = [points[0]];
+  let from = 0;
+  while (from < points.length - 1) {
+    let to = points.length - 1;
+    while (to > from + 1) {
+      const a = points[from];
+      const b = points[to];
+      if (!sweepCircle(index, a.x, a.z, b.x - a.x, b.z - a.z, radius)) {
+        break;
+      }
+      to -= 1;
+    }
+    smoothed.push(points[to]);
+    from = to;
+  }
+  return smoothed;
+}
+
+// A* over a fixed grid covering the world, with cells blocked wherever a body of `radius` would overlap an obstacle
+// or the world edge. Returns null when the target cannot be reached.
+export function shortestPath(
+  index: SpatialIndex,
+  from: PathPoint,
+  to: PathPoint,
+  radius: number
+): WalkablePath | null {
+  const cellCount = GRID_SIZE * GRID_SIZE;
+  // 0 = unknown, 1 = free, 2 = blocked; cells are only tested when the search reaches them.
+  const blocked = new Uint8Array(cellCount);
+  const gScore = new Float64Array(cellCount).fill(Infinity);
+  const cameFrom = new Int32Array(cellCount).fill(-1);
+  const closed = new Uint8Array(cellCount);
+
+  const start = toCell(from.x) * GRID_SIZE + toCell(from.z);
+  const goalI = toCell(to.x);
+  const goalJ = toCell(to.z);
+  const goal = goalI * GRID_SIZE + goalJ;
+
+  const isBlocked = (i: number, j: number) => {
+    const key = i * GRID_SIZE + j;
+    if (blocked[key] === 0) {
+      blocked[key] = circleCollides(index, toWorld(i), toWorld(j), radius) ? 2 : 1;
+    }
+    return blocked[key] === 2 && key !== start && key !== goal;
+  };
+  const heuristic = (i: number, j: number) => {
+    const di = Math.abs(i - goalI);
+    const dj = Math.abs(j - goalJ);
+    return (Math.max(di, dj) + (Math.SQRT2 - 1) * Math.min(di, dj)) * GRID_CELL_M;
+  };
+
+  const open = createOpenSet();
+  gScore[start] = 0;
+  open.push(start, heuristic(Math.floor(start / GRID_SIZE), start % GRID_SIZE));
+
+  while (open.size() > 0) {
+    const current = open.pop();
+    if (closed[current]) {
+      continue;
+    }
+    if (current === goal) {
+      const cells: PathPoint[] = [];
+      for (let key = cameFrom[goal]; key !== -1 && key !== start; key = cameFrom[key]) {
+        cells.push({ x: toWorld(Math.floor(key / GRID_SIZE)), z: toWorld(key % GRID_SIZE) });
+      }
+      const points = smoothPath(index, [from, ...cells.reverse(), to], radius);
+      return { points, lengthM: pathLength(points) };
+    }
+    closed[current] = 1;
+
+    const ci = Math.floor(current / GRID_SIZE);
+    const cj = current % GRID_SIZE;
+    for (const [di, dj, cost] of NEIGHBOURS) {
+      const ni = ci + di;
+      const nj = cj + dj;
+      if (ni < 0 || nj < 0 || ni >= GRID_SIZE || nj >= GRID_SIZE || isBlocked(ni, nj)) {
+        continue;
+      }
+      // No cutting corners diagonally past a blocked cell.
+      if (di !== 0 && dj !== 0 && (isBlocked(ci + di, cj) || isBlocked(ci, cj + dj))) {
+        continue;
+      }
+      const next = ni * GRID_SIZE + nj;
+      const tentative = gScore[current] + cost * GRID_CELL_M;
+      if (tentative < gScore[next]) {
+        cameFrom[next] = current;
+        gScore[next] = tentative;
+        open.push(next, tentative + heuristic(ni, nj));
+      }
+    }
+  }
+  return null;
+}
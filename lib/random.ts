@@ -0,0 +1,26 @@
+export type RandomSource = {
+  next: () => number;
+  state: () => number;
+};
+
+export const DEFAULT_SEED = 0x5eed;
+
+// mulberry32: tiny, fast and good enough for placing emitters. The whole generator state is one 32-bit integer, so
+// it can be saved with a recording and restored exactly.
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return {
+    next: () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => state
+  };
+}
+
+export function randomBetween(random: () => number, min: number, max: number): number {
+  return random() * (max - min) + min;
+}
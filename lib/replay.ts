@@ -0,0 +1,435 @@
+import type { WalkInput } from "./motion";
+import { SceneValidationError, parseWorldState, parseWorldValue } from "./scene";
+import {
+  FIXED_STEP_SEC,
+  createSimulation,
+  type Simulation,
+  type SimulationControls,
+  type SimulationEvent,
+  type WorldState
+} from "./simulation";
+import { isRecord, readBoolean, readNumber, readRecord, type RawRecord } from "./validation";
+import {
+  DEFAULT_BOUNDARY,
+  DEFAULT_HEAD,
+  legacyEmitterHeight,
+  type ListenerPose,
+  type SoundEmitter,
+  type Wall
+} from "./world";
+
+export const RECORDING_FORMAT = "sonic-world-recording";
+export const RECORDING_VERSION = 4;
+
+// Things outside the world that still matter when watching a session back.
+export type SessionMark = { kind: "audio"; running: boolean };
+
+export type RecordedEvent =
+  | Extract<SimulationEvent, { kind: "set" | "load" }>
+  | SessionMark
+  | { kind: "controls"; controls: SimulationControls };
+
+export type TimedEvent = RecordedEvent & {
+  step: number;
+};
+
+export type SessionRecording = {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  recordedAt: string;
+  stepSec: number;
+  seed: number;
+  steps: number;
+  initial: WorldState;
+  events: TimedEvent[];
+  // Where the session ended, so a replay can tell whether it arrived at the same place. Older recordings lack it.
+  final?: WorldState;
+};
+
+export type SessionRecorder = {
+  mark: (event: SessionMark) => void;
+  stop: () => SessionRecording;
+};
+
+export type ReplayFrame = {
+  step: number;
+  world: WorldState;
+  controls: SimulationControls;
+  audioRunning: boolean;
+};
+
+export type SessionReplay = {
+  recording: SessionRecording;
+  durationSec: number;
+  // Whether replaying to the end puts the listener and emitters where the recording ended; null without an end state.
+  matchesRecording: boolean | null;
+  seek: (timeSec: number) => ReplayFrame;
+};
+
+export class RecordingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordingFormatError";
+  }
+}
+
+type ReplayCursor = {
+  simulation: Simulation;
+  step: number;
+  controls: SimulationControls;
+  audioRunning: boolean;
+  eventIndex: number;
+};
+
+type Checkpoint = Omit<ReplayCursor, "simulation"> & {
+  world: WorldState;
+  randomState: number;
+};
+
+const IDLE_CONTROLS: SimulationControls = { walk: null, head: null, moveEmitters: false };
+const WORLD_KEYS: Array<keyof WorldState> = ["listener", "emitters", "zones", "walls", "boundary"];
+const EVENT_KINDS: Array<RecordedEvent["kind"]> = ["audio", "controls", "load", "set"];
+// Seeking replays from the nearest checkpoint, so scrubbing a long session never re-simulates more than this.
+const CHECKPOINT_STEPS = 600;
+
+function sameControls(a: SimulationControls, b: SimulationControls): boolean {
+  return (
+    a.moveEmitters === b.moveEmitters &&
+    a.head?.headingDeg === b.head?.headingDeg &&
+    a.head?.pitchDeg === b.head?.pitchDeg &&
+    a.head?.rollDeg === b.head?.rollDeg &&
+    a.walk?.forward === b.walk?.forward &&
+    a.walk?.strafe === b.walk?.strafe &&
+    a.walk?.turn === b.walk?.turn &&
+    a.walk?.pitch === b.walk?.pitch &&
+    a.walk?.roll === b.walk?.roll
+  );
+}
+
+function sameBodies(a: WorldState, b: WorldState): boolean {
+  return (
+    a.listener.x === b.listener.x &&
+    a.listener.z === b.listener.z &&
+    a.listener.headingDeg === b.listener.headingDeg &&
+    a.emitters.length === b.emitters.length &&
+    a.emitters.every((emitter, index) => {
+      const other = b.emitters[index];
+      return emitter.id === other.id && emitter.x === other.x && emitter.y === other.y && emitter.z === other.z;
+    })
+  );
+}
+
+// Controls are only stored when they change; world edits are stored by value, so replay never depends on how an
+// edit was produced.
+export function startRecording(simulation: Simulation, audioRunning: boolean): SessionRecorder {
+  const startStep = simulation.getStep();
+  const seed = simulation.randomState();
+  const initial = simulation.getState();
+  const events: TimedEvent[] = [{ step: 0, kind: "audio", running: audioRunning }];
+  let controls = IDLE_CONTROLS;
+
+  const unobserve = simulation.observe((event) => {
+    const step = simulation.getStep() - startStep;
+    if (event.kind === "set" || event.kind === "load") {
+      events.push({ ...event, step });
+    } else if (event.kind === "step" && !sameControls(event.controls, controls)) {
+      controls = event.controls;
+      events.push({ step, kind: "controls", controls });
+    }
+  });
+
+  return {
+    mark: (event) => {
+      events.push({ ...event, step: simulation.getStep() - startStep });
+    },
+    stop: () => {
+      unobserve();
+      return {
+        format: RECORDING_FORMAT,
+        version: RECORDING_VERSION,
+        recordedAt: new Date().toISOString(),
+        stepSec: FIXED_STEP_SEC,
+        seed,
+        steps: simulation.getStep() - startStep,
+        initial,
+        events,
+        final: simulation.getState()
+      };
+    }
+  };
+}
+
+// Applies the events recorded for each step before running it, exactly as they happened live.
+function advanceCursor(recording: SessionRecording, cursor: ReplayCursor, target: number): void {
+  const { simulation } = cursor;
+  for (; cursor.step <= target; cursor.step += 1) {
+    for (; cursor.eventIndex < recording.events.length; cursor.eventIndex += 1) {
+      const event = recording.events[cursor.eventIndex];
+      if (event.step > cursor.step) {
+        break;
+      }
+      switch (event.kind) {
+        case "controls":
+          cursor.controls = event.controls;
+          break;
+        case "audio":
+          cursor.audioRunning = event.running;
+          break;
+        case "load":
+          simulation.load(event.state);
+          break;
+        case "set":
+          simulation.set(event.key, event.value as never);
+          break;
+      }
+    }
+    if (cursor.step === target) {
+      return;
+    }
+    simulation.step(cursor.controls);
+  }
+}
+
+export function createReplay(recording: SessionRecording): SessionReplay {
+  // One pass up front leaves a checkpoint every CHECKPOINT_STEPS; seeks restart from the closest one.
+  const checkpoints: Checkpoint[] = [];
+  const cursor: ReplayCursor = {
+    simulation: createSimulation(recording.initial, recording.seed),
+    step: 0,
+    controls: IDLE_CONTROLS,
+    audioRunning: false,
+    eventIndex: 0
+  };
+  for (let step = 0; step <= recording.steps; step += CHECKPOINT_STEPS) {
+    advanceCursor(recording, cursor, step);
+    checkpoints.push({
+      step: cursor.step,
+      world: cursor.simulation.getState(),
+      randomState: cursor.simulation.randomState(),
+      controls: cursor.controls,
+      audioRunning: cursor.audioRunning,
+      eventIndex: cursor.eventIndex
+    });
+  }
+  advanceCursor(recording, cursor, recording.steps);
+  const { final } = recording;
+
+  return {
+    recording,
+    durationSec: recording.steps * recording.stepSec,
+    matchesRecording: final ? sameBodies(cursor.simulation.getState(), final) : null,
+    seek: (timeSec) => {
+      const target = Math.min(recording.steps, Math.max(0, Math.round(timeSec / recording.stepSec)));
+      const { world, randomState, ...checkpoint } = checkpoints[Math.floor(target / CHECKPOINT_STEPS)];
+      const seeker: ReplayCursor = { ...checkpoint, simulation: createSimulation(world, randomState) };
+      advanceCursor(recording, seeker, target);
+      return {
+        step: target,
+        world: seeker.simulation.getState(),
+        controls: seeker.controls,
+        audioRunning: seeker.audioRunning
+      };
+    }
+  };
+}
+
+type LegacyControls = {
+  walk: Omit<WalkInput, "pitch" | "roll"> | null;
+  headingDeg?: number | null;
+  moveEmitters: boolean;
+};
+
+// Version 1 predates listener height and head tilt: the head was level at standing height, emitter heights were
+// measured from the ear and head tracking only supplied a heading. Version 2 predates motion behaviours, when every
+// moving emitter bounced. Version 3 predates floor plans, when every wall was an unrotated box in the round world.
+function upgradeListener(listener: ListenerPose, from: number): ListenerPose {
+  return from === 1 ? { ...DEFAULT_HEAD, ...listener } : listener;
+}
+
+function upgradeEmitters(emitters: SoundEmitter[], from: number): SoundEmitter[] {
+  return emitters.map((emitter) => ({
+    ...emitter,
+    y: from === 1 ? legacyEmitterHeight(emitter.y) : emitter.y,
+    motion: from < 3 ? { kind: "bounce" } : emitter.motion
+  }));
+}
+
+function upgradeWalls(walls: Wall[], from: number): Wall[] {
+  return from < 4 ? walls.map((wall) => ({ ...wall, rotationDeg: 0, shape: { kind: "box" }, door: null })) : walls;
+}
+
+function upgradeWorld(world: WorldState, from: number): WorldState {
+  return {
+    ...world,
+    listener: upgradeListener(world.listener, from),
+    emitters: upgradeEmitters(world.emitters, from),
+    walls: upgradeWalls(world.walls, from),
+    boundary: world.boundary ?? DEFAULT_BOUNDARY
+  };
+}
+
+function upgradeEvent(event: TimedEvent, from: number): TimedEvent {
+  if (event.kind === "load") {
+    return { ...event, state: upgradeWorld(event.state, from) };
+  }
+  if (event.kind === "set" && event.key === "listener") {
+    return { ...event, value: upgradeListener(event.value, from) };
+  }
+  if (event.kind === "set" && event.key === "emitters") {
+    return { ...event, value: upgradeEmitters(event.value, from) };
+  }
+  if (event.kind === "set" && event.key === "walls") {
+    return { ...event, value: upgradeWalls(event.value, from) };
+  }
+  if (event.kind === "controls" && from === 1) {
+    const { walk, headingDeg, moveEmitters } = event.controls as unknown as LegacyControls;
+    return {
+      ...event,
+      controls: {
+        walk: walk && { ...walk, pitch: 0, roll: 0 },
+        head: typeof headingDeg === "number" ? { headingDeg, pitchDeg: 0, rollDeg: 0 } : null,
+        moveEmitters
+      }
+    };
+  }
+  return event;
+}
+
+function upgradeRecording(recording: SessionRecording, from: number): SessionRecording {
+  return {
+    ...recording,
+    version: RECORDING_VERSION,
+    initial: upgradeWorld(recording.initial, from),
+    events: recording.events.map((event) => upgradeEvent(event, from))
+  };
+}
+
+// Worlds and edits go through the scene readers, which report their issues instead of path-qualifying them here.
+function readWorldPart<T>(path: string, issues: string[], parse: () => T): T | null {
+  try {
+    return parse();
+  } catch (error) {
+    if (!(error instanceof SceneValidationError)) {
+      throw error;
+    }
+    issues.push(...error.issues.map((issue) => `${path}: ${issue}`));
+    return null;
+  }
+}
+
+function readControls(event: RawRecord, path: string, issues: string[]): SimulationControls {
+  const controls = readRecord(event, "controls", path, issues);
+  const controlsPath = `${path}.controls`;
+  const walk = controls.walk === null ? null : readRecord(controls, "walk", controlsPath, issues);
+  const head = controls.head === null ? null : readRecord(controls, "head", controlsPath, issues);
+  const walkPath = `${controlsPath}.walk`;
+  const headPath = `${controlsPath}.head`;
+  return {
+    walk: walk && {
+      forward: readNumber(walk, "forward", walkPath, issues),
+      strafe: readNumber(walk, "strafe", walkPath, issues),
+      turn: readNumber(walk, "turn", walkPath, issues),
+      pitch: readNumber(walk, "pitch", walkPath, issues),
+      roll: readNumber(walk, "roll", walkPath, issues)
+    },
+    head: head && {
+      headingDeg: readNumber(head, "headingDeg", headPath, issues),
+      pitchDeg: readNumber(head, "pitchDeg", headPath, issues),
+      rollDeg: readNumber(head, "rollDeg", headPath, issues)
+    },
+    moveEmitters: readBoolean(controls, "moveEmitters", controlsPath, issues)
+  };
+}
+
+// Events must come in step order within the recording, since replay walks them once from the start.
+function readEvent(value: unknown, path: string, fromStep: number, steps: number, issues: string[]): TimedEvent | null {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  const { step } = value;
+  if (typeof step !== "number" || !Number.isInteger(step) || step < fromStep || step > steps) {
+    issues.push(`${path}.step must be a whole number from ${fromStep} to ${steps}`);
+    return null;
+  }
+  switch (value.kind) {
+    case "audio":
+      return { step, kind: "audio", running: readBoolean(value, "running", path, issues) };
+    case "controls":
+      return { step, kind: "controls", controls: readControls(value, path, issues) };
+    case "load": {
+      const state = readWorldPart(`${path}.state`, issues, () => parseWorldState(value.state));
+      return state && { step, kind: "load", state };
+    }
+    case "set": {
+      const key = value.key as keyof WorldState;
+      if (!WORLD_KEYS.includes(key)) {
+        issues.push(`${path}.key must be one of ${WORLD_KEYS.join(", ")}`);
+        return null;
+      }
+      const set = readWorldPart(`${path}.value`, issues, () => parseWorldValue(key, value.value));
+      return set === null ? null : ({ step, kind: "set", key, value: set } as TimedEvent);
+    }
+    default:
+      issues.push(`${path}.kind must be one of ${EVENT_KINDS.join(", ")}`);
+      return null;
+  }
+}
+
+export function parseRecordingJson(text: string): SessionRecording {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new RecordingFormatError("Recording is not valid JSON.");
+  }
+  const recording = value as (Partial<Omit<SessionRecording, "version">> & { version?: unknown }) | null;
+  if (!recording || recording.format !== RECORDING_FORMAT) {
+    throw new RecordingFormatError("File is not a Sonic World session recording.");
+  }
+  const { version } = recording;
+  if (version !== 1 && version !== 2 && version !== 3 && version !== RECORDING_VERSION) {
+    throw new RecordingFormatError(`Unsupported recording version ${String(version)}.`);
+  }
+  if (recording.stepSec !== FIXED_STEP_SEC) {
+    throw new RecordingFormatError("Recording was made with a different simulation step and cannot replay exactly.");
+  }
+  if (
+    typeof recording.seed !== "number" ||
+    !Number.isInteger(recording.steps) ||
+    (recording.steps ?? -1) < 0 ||
+    !isRecord(recording.initial) ||
+    !Array.isArray(recording.events)
+  ) {
+    throw new RecordingFormatError("Recording is missing its seed, initial world or events.");
+  }
+
+  const parsed = recording as SessionRecording;
+  let upgraded = parsed;
+  try {
+    upgraded = version === RECORDING_VERSION ? parsed : upgradeRecording(parsed, version);
+  } catch (error) {
+    // Upgrades assume the shape of their version; anything else is not a recording that version wrote.
+    if (!(error instanceof TypeError)) {
+      throw error;
+    }
+    throw new RecordingFormatError(`Recording does not match version ${version}.`);
+  }
+
+  const issues: string[] = [];
+  const initial = readWorldPart("initial", issues, () => parseWorldState(upgraded.initial));
+  const final =
+    upgraded.final === undefined ? null : readWorldPart("final", issues, () => parseWorldState(upgraded.final));
+  const events: TimedEvent[] = [];
+  upgraded.events.forEach((value, index) => {
+    const event = readEvent(value, `events[${index}]`, events.at(-1)?.step ?? 0, upgraded.steps, issues);
+    if (event) {
+      events.push(event);
+    }
+  });
+  if (!initial || issues.length > 0) {
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : "";
+    throw new RecordingFormatError(`Invalid recording: ${issues.slice(0, 3).join("; ")}${more}`);
+  }
+  return { ...upgraded, initial, events, final: final ?? undefined };
+}
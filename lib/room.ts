@@ -0,0 +1,328 @@
+import { boundaryOutline, polygonArea, polygonPerimeter, wallPieces } from "./geometry";
+import { ACOUSTIC_BANDS, multiplyBands, reflectanceBands, type AcousticBands } from "./materials";
+import { occlusionBetween } from "./occlusion";
+import type { SpatialIndex } from "./spatial";
+import {
+  clamp,
+  type CollisionZone,
+  type ListenerPose,
+  type PlanPoint,
+  type Wall,
+  type WorldBoundary
+} from "./world";
+
+export type RoomSettings = {
+  wetDry: number;
+  earlyReflections: boolean;
+  lateReverb: boolean;
+  reflectionsOnly: boolean;
+  reflectionOrder: 1 | 2;
+  boundaryAbsorption: number;
+};
+
+export type ReflectionFace = {
+  wallId: string | null;
+  x1: number;
+  z1: number;
+  x2: number;
+  z2: number;
+  nx: number;
+  nz: number;
+  reflectance: AcousticBands;
+};
+
+export type EarlyReflection = {
+  imageX: number;
+  imageZ: number;
+  pathLength: number;
+  order: number;
+  gain: number;
+  brightness: number;
+};
+
+export type ReverbTime = AcousticBands;
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  wetDry: 0.3,
+  earlyReflections: true,
+  lateReverb: true,
+  reflectionsOnly: false,
+  reflectionOrder: 2,
+  boundaryAbsorption: 0.55
+};
+
+export const ROOM_HEIGHT_M = 3.5;
+
+const BOUNDARY_FACE_COUNT = 24;
+const FACE_OFFSET_M = 1e-3;
+const FLOOR_ABSORPTION: AcousticBands = { low: 0.02, mid: 0.03, high: 0.05 };
+const CEILING_ABSORPTION: AcousticBands = { low: 0.3, mid: 0.5, high: 0.6 };
+const AIR_ABSORPTION_PER_M: AcousticBands = { low: 0, mid: 0.0012, high: 0.0075 };
+const MIN_REFLECTION_GAIN = 0.01;
+
+export function boundaryReflectance(settings: RoomSettings): AcousticBands {
+  const reflectance = 1 - clamp(settings.boundaryAbsorption, 0, 1);
+  return { low: reflectance, mid: reflectance, high: reflectance };
+}
+
+// One face per polygon edge, facing out of the polygon, or into it with `inward`.
+function outlineFaces(
+  points: PlanPoint[],
+  wallId: string | null,
+  reflectance: AcousticBands,
+  inward: boolean
+): ReflectionFace[] {
+  const sign = (polygonArea(points) >= 0 ? 1 : -1) * (inward ? -1 : 1);
+  const faces: ReflectionFace[] = [];
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.z - a.z);
+    if (length > 1e-9) {
+      const nx = (sign * (b.z - a.z)) / length;
+      const nz = (-sign * (b.x - a.x)) / length;
+      faces.push({ wallId, x1: a.x, z1: a.z, x2: b.x, z2: b.z, nx, nz, reflectance });
+    }
+  });
+  return faces;
+}
+
+// A circular boundary is faced by a circumscribed polygon so its faces touch the circle at their midpoints.
+function boundaryFaces(boundary: WorldBoundary, reflectance: AcousticBands): ReflectionFace[] {
+  if (boundary.kind !== "circle") {
+    return outlineFaces(boundaryOutline(boundary), null, reflectance, true);
+  }
+  const halfSide = boundary.radiusM * Math.tan(Math.PI / BOUNDARY_FACE_COUNT);
+  return Array.from({ length: BOUNDARY_FACE_COUNT }, (_, i) => {
+    const angle = (i / BOUNDARY_FACE_COUNT) * Math.PI * 2;
+    const cx = Math.cos(angle) * boundary.radiusM;
+    const cz = Math.sin(angle) * boundary.radiusM;
+    const tx = -Math.sin(angle);
+    const tz = Math.cos(angle);
+    return {
+      wallId: null,
+      x1: cx - tx * halfSide,
+      z1: cz - tz * halfSide,
+      x2: cx + tx * halfSide,
+      z2: cz + tz * halfSide,
+      nx: -Math.cos(angle),
+      nz: -Math.sin(angle),
+      reflectance
+    };
+  });
+}
+
+// Open doors reflect nothing.
+export function buildReflectionFaces(walls: Wall[], boundary: WorldBoundary, settings: RoomSettings): ReflectionFace[] {
+  const faces = boundaryFaces(boundary, boundaryReflectance(settings));
+  for (const wall of walls) {
+    if (wall.door?.open) {
+      continue;
+    }
+    const reflectance = reflectanceBands(wall.material);
+    for (const piece of wallPieces(wall)) {
+      faces.push(...outlineFaces(piece, wall.id, reflectance, false));
+    }
+  }
+  return faces;
+}
+
+function sideOf(face: ReflectionFace, x: number, z: number): number {
+  return (x - face.x1) * face.nx + (z - face.z1) * face.nz;
+}
+
+function mirror(face: ReflectionFace, x: number, z: number): { x: number; z: number } {
+  const distance = sideOf(face, x, z);
+  return { x: x - 2 * distance * face.nx, z: z - 2 * distance * face.nz };
+}
+
+function segmentHitsFace(
+  ax: number,
+  az: number,
+  bx: number,
+  bz: number,
+  face: ReflectionFace
+): { x: number; z: number } | null {
+  const da = sideOf(face, ax, az);
+  const db = sideOf(face, bx, bz);
+  if (da * db > 0 || da === db) {
+    return null;
+  }
+  const t = da / (da - db);
+  const x = ax + (bx - ax) * t;
+  const z = az + (bz - az) * t;
+  const fx = face.x2 - face.x1;
+  const fz = face.z2 - face.z1;
+  const lengthSq = fx * fx + fz * fz;
+  const along = ((x - face.x1) * fx + (z - face.z1) * fz) / lengthSq;
+  if (along < 0 || along > 1) {
+    return null;
+  }
+  return { x: x + face.nx * FACE_OFFSET_M, z: z + face.nz * FACE_OFFSET_M };
+}
+
+function pathTransmission(points: Array<{ x: number; z: number }>, index: SpatialIndex): AcousticBands {
+  let transmission: AcousticBands = { low: 1, mid: 1, high: 1 };
+  for (let i = 1; i < points.length; i += 1) {
+    const result = occlusionBetween(points[i - 1].x, points[i - 1].z, points[i].x, points[i].z, index);
+    transmission = multiplyBands(transmission, result.transmission);
+  }
+  return transmission;
+}
+
+function toReflection(
+  image: { x: number; z: number },
+  points: Array<{ x: number; z: number }>,
+  bands: AcousticBands,
+  order: number
+): EarlyReflection {
+  let pathLength = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    pathLength += Math.hypot(points[i].x - points[i - 1].x, points[i].z - points[i - 1].z);
+  }
+  const air = (band: "mid" | "high") => Math.pow(10, (-AIR_ABSORPTION_PER_M[band] * pathLength) / 20);
+  const mid = bands.mid * air("mid");
+  const high = bands.high * air("high");
+  return {
+    imageX: image.x,
+    imageZ: image.z,
+    pathLength,
+    order,
+    gain: mid,
+    brightness: mid > 0 ? clamp(high / mid, 0, 1.5) : 1
+  };
+}
+
+export function computeEarlyReflections(
+  source: { x: number; z: number },
+  listener: ListenerPose,
+  faces: ReflectionFace[],
+  index: SpatialIndex,
+  maxOrder: 1 | 2,
+  limit: number
+): EarlyReflection[] {
+  const reflections: EarlyReflection[] = [];
+
+  for (const first of faces) {
+    if (sideOf(first, source.x, source.z) <= 0) {
+      continue;
+    }
+    const image1 = mirror(first, source.x, source.z);
+
+    if (sideOf(first, listener.x, listener.z) > 0) {
+      const hit = segmentHitsFace(listener.x, listener.z, image1.x, image1.z, first);
+      if (hit) {
+        const points = [source, hit, listener];
+        const bands = multiplyBands(first.reflectance, pathTransmission(points, index));
+        const reflection = toReflection(image1, points, bands, 1);
+        if (reflection.gain >= MIN_REFLECTION_GAIN) {
+          reflections.push(reflection);
+        }
+      }
+    }
+
+    if (maxOrder < 2) {
+      continue;
+    }
+
+    for (const second of faces) {
+      if (second === first || sideOf(second, image1.x, image1.z) <= 0 || sideOf(second, listener.x, listener.z) <= 0) {
+        continue;
+      }
+      const image2 = mirror(second, image1.x, image1.z);
+      const hit2 = segmentHitsFace(listener.x, listener.z, image2.x, image2.z, second);
+      if (!hit2) {
+        continue;
+      }
+      const hit1 = segmentHitsFace(hit2.x, hit2.z, image1.x, image1.z, first);
+      if (!hit1) {
+        continue;
+      }
+      const points = [source, hit1, hit2, listener];
+      const bands = multiplyBands(
+        multiplyBands(first.reflectance, second.reflectance),
+        pathTransmission(points, index)
+      );
+      const reflection = toReflection(image2, points, bands, 2);
+      if (reflection.gain >= MIN_REFLECTION_GAIN) {
+        reflections.push(reflection);
+      }
+    }
+  }
+
+  return reflections
+    .sort((a, b) => b.gain / b.pathLength - a.gain / a.pathLength)
+    .slice(0, limit);
+}
+
+export function estimateReverbTime(
+  walls: Wall[],
+  zones: CollisionZone[],
+  boundary: WorldBoundary,
+  settings: RoomSettings
+): ReverbTime {
+  const outline = boundaryOutline(boundary);
+  const floorArea =
+    boundary.kind === "circle" ? Math.PI * boundary.radiusM * boundary.radiusM : Math.abs(polygonArea(outline));
+  const volume = floorArea * ROOM_HEIGHT_M;
+  const boundaryArea =
+    (boundary.kind === "circle" ? 2 * Math.PI * boundary.radiusM : polygonPerimeter(outline)) * ROOM_HEIGHT_M;
+  const solid = walls.filter((wall) => !wall.door?.open);
+  const boundaryAbsorption = clamp(settings.boundaryAbsorption, 0, 1);
+
+  const result: ReverbTime = { low: 0, mid: 0, high: 0 };
+  for (const band of ACOUSTIC_BANDS) {
+    let surface = floorArea * 2 + boundaryArea;
+    let absorbed =
+      floorArea * FLOOR_ABSORPTION[band] + floorArea * CEILING_ABSORPTION[band] + boundaryArea * boundaryAbsorption;
+
+    for (const wall of solid) {
+      const area = wallPieces(wall).reduce((sum, piece) => sum + polygonPerimeter(piece), 0) * ROOM_HEIGHT_M;
+      surface += area;
+      absorbed += area * wall.material.absorption[band];
+    }
+    for (const zone of zones) {
+      const area = 2 * Math.PI * zone.radius * ROOM_HEIGHT_M;
+      surface += area;
+      absorbed += area * zone.material.absorption[band];
+    }
+
+    const meanAbsorption = clamp(absorbed / surface, 0.001, 0.999);
+    const airTerm = 4 * AIR_ABSORPTION_PER_M[band] * volume;
+    result[band] = (0.161 * volume) / (-surface * Math.log(1 - meanAbsorption) + airTerm);
+  }
+
+  return result;
+}
+
+export function createReverbImpulse(
+  context: BaseAudioContext,
+  reverbTime: ReverbTime,
+  random: () => number
+): AudioBuffer {
+  const longest = Math.max(reverbTime.low, reverbTime.mid, reverbTime.high);
+  const length = Math.max(1, Math.round(clamp(longest * 1.2, 0.2, 4) * context.sampleRate));
+  const buffer = context.createBuffer(2, length, context.sampleRate);
+  const lowCoefficient = 1 - Math.exp((-2 * Math.PI * 500) / context.sampleRate);
+  const highCoefficient = 1 - Math.exp((-2 * Math.PI * 2000) / context.sampleRate);
+  const fadeInSamples = 0.02 * context.sampleRate;
+
+  for (let channel = 0; channel < 2; channel += 1) {
+    const samples = buffer.getChannelData(channel);
+    let lowState = 0;
+    let highState = 0;
+    for (let i = 0; i < length; i += 1) {
+      const t = i / context.sampleRate;
+      const noise = random() * 2 - 1;
+      lowState += lowCoefficient * (noise - lowState);
+      highState += highCoefficient * (noise - highState);
+      const low = lowState;
+      const mid = highState - lowState;
+      const high = noise - highState;
+      const decay = (band: keyof ReverbTime) => Math.exp((-6.91 * t) / Math.max(0.05, reverbTime[band]));
+      samples[i] =
+        (low * decay("low") + mid * decay("mid") + high * decay("high")) * Math.min(1, i / fadeInSamples);
+    }
+  }
+
+  return buffer;
+}
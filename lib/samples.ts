@@ -0,0 +1,56 @@
+import type { SampleSource } from "./world";
+
+export type SampleAsset = {
+  id: string;
+  name: string;
+  origin: "bundled" | "upload";
+  url: string | null;
+  durationSec: number | null;
+};
+
+export const BUNDLED_SAMPLES: SampleAsset[] = [
+  { id: "footsteps", name: "Footsteps", origin: "bundled", url: "/samples/footsteps.wav", durationSec: null },
+  { id: "fountain", name: "Fountain Loop", origin: "bundled", url: "/samples/fountain.wav", durationSec: null },
+  { id: "traffic", name: "Traffic Rumble", origin: "bundled", url: "/samples/traffic.wav", durationSec: null }
+];
+
+export const MIN_PLAYBACK_RATE = 0.25;
+export const MAX_PLAYBACK_RATE = 2;
+export const MAX_RETRIGGER_SEC = 30;
+
+export function sampleSource(sampleId: string): SampleSource {
+  return { kind: "sample", sampleId, loop: true, startOffsetSec: 0, playbackRate: 1, retriggerSec: 0 };
+}
+
+export async function fetchSampleBuffer(context: BaseAudioContext, url: string): Promise<AudioBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Unable to load sample ${url} (${response.status}).`);
+  }
+  return context.decodeAudioData(await response.arrayBuffer());
+}
+
+export async function decodeSampleFile(context: BaseAudioContext, file: File): Promise<AudioBuffer> {
+  try {
+    return await context.decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`"${file.name}" is not an audio format this browser can decode.`);
+  }
+}
+
+export function playSampleBuffer(
+  context: BaseAudioContext,
+  buffer: AudioBuffer,
+  source: SampleSource,
+  destination: AudioNode,
+  rate: number,
+  when = context.currentTime
+): AudioBufferSourceNode {
+  const node = context.createBufferSource();
+  node.buffer = buffer;
+  node.loop = source.loop;
+  node.playbackRate.setValueAtTime(rate, when);
+  node.connect(destination);
+  node.start(when, Math.min(Math.max(0, source.startOffsetSec), Math.max(0, buffer.duration - 0.01)));
+  return node;
+}
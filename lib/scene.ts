@@ -0,0 +1,755 @@
+import type { EchoSettings } from "./echo";
+import { MAX_WAYPOINTS, MOTION_LIMITS, MOTION_OPTIONS, PATH_MODE_OPTIONS } from "./emitterMotion";
+import { BOUNDARY_LIMITS, BOUNDARY_OPTIONS, MAX_PLAN_POINTS, WALL_SHAPE_OPTIONS, minPlanPoints } from "./floorPlan";
+import { insideBoundary, isSimplePolygon } from "./geometry";
+import {
+  ACOUSTIC_BANDS,
+  MATERIAL_OPTIONS,
+  type AcousticBands,
+  type AcousticMaterial,
+  type MaterialPreset
+} from "./materials";
+import type { RoomSettings } from "./room";
+import { MAX_PLAYBACK_RATE, MAX_RETRIGGER_SEC, MIN_PLAYBACK_RATE } from "./samples";
+import type { WorldState } from "./simulation";
+import { NOISE_COLORS, PATTERN_STEPS_PATTERN, SOURCE_LIMITS, SOURCE_OPTIONS } from "./sources";
+import {
+  ACTION_OPTIONS,
+  MAX_STATUS_LENGTH,
+  TIMELINE_LIMITS,
+  TRIGGER_OPTIONS,
+  type TimelineAction,
+  type TimelineEvent,
+  type TimelineTrigger
+} from "./timeline";
+import {
+  asArray,
+  isRecord,
+  readBoolean,
+  readNumber,
+  readRecord,
+  readString,
+  type RawRecord
+} from "./validation";
+import {
+  DEFAULT_BOUNDARY,
+  DEFAULT_HEAD,
+  HEAD_LIMITS,
+  MAX_EMITTER_HEIGHT_M,
+  WORLD_RADIUS_M,
+  legacyEmitterHeight,
+  type CollisionZone,
+  type EmitterMotion,
+  type EmitterSource,
+  type ListenerPose,
+  type NoiseColor,
+  type PathMode,
+  type PathWaypoint,
+  type PlanPoint,
+  type SoundEmitter,
+  type Wall,
+  type WallShape,
+  type WorldBoundary
+} from "./world";
+
+export const SCENE_FORMAT = "sonic-world-scene";
+export const SCENE_VERSION = 7;
+export const SCENE_AUTOSAVE_KEY = "sonic-world:autosave";
+
+export type SceneDocument = {
+  format: typeof SCENE_FORMAT;
+  version: typeof SCENE_VERSION;
+  name: string;
+  savedAt: string;
+  listener: ListenerPose;
+  emitters: SoundEmitter[];
+  zones: CollisionZone[];
+  walls: Wall[];
+  boundary: WorldBoundary;
+  room: RoomSettings;
+  echo: EchoSettings;
+  timeline: TimelineEvent[];
+};
+
+export type SceneContent = Omit<SceneDocument, "format" | "version" | "savedAt">;
+
+export type SceneItems = {
+  emitter: SoundEmitter;
+  zone: CollisionZone;
+  wall: Wall;
+};
+
+export class SceneValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid scene: ${issues.slice(0, 3).join("; ")}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ""}`);
+    this.name = "SceneValidationError";
+    this.issues = issues;
+  }
+}
+
+export const WAVEFORM_VALUES: OscillatorType[] = ["sine", "triangle", "square", "sawtooth"];
+
+// Each migration upgrades a document from the keyed version to the next one. Add an entry here (and bump
+// SCENE_VERSION) whenever a field is added to a scene object, so older exports keep loading.
+const MIGRATIONS: Record<number, (document: RawRecord) => RawRecord> = {
+  2: (document) => ({
+    ...document,
+    version: 3,
+    emitters: asArray(document.emitters).map((emitter) =>
+      isRecord(emitter) && emitter.source === undefined ? { ...emitter, source: { kind: "tone" } } : emitter
+    )
+  }),
+  // Emitter heights were measured from the listener's ear and now from the floor.
+  3: (document) => ({
+    ...document,
+    version: 4,
+    listener: isRecord(document.listener) ? { ...DEFAULT_HEAD, ...document.listener } : document.listener,
+    emitters: asArray(document.emitters).map((emitter) =>
+      isRecord(emitter) && typeof emitter.y === "number" ? { ...emitter, y: legacyEmitterHeight(emitter.y) } : emitter
+    )
+  }),
+  // Before motion behaviours every moving emitter bounced off obstacles.
+  4: (document) => ({
+    ...document,
+    version: 5,
+    emitters: asArray(document.emitters).map((emitter) =>
+      isRecord(emitter) && emitter.motion === undefined ? { ...emitter, motion: { kind: "bounce" } } : emitter
+    )
+  }),
+  5: (document) => ({ ...document, version: 6, timeline: document.timeline ?? [] }),
+  // Walls were all unrotated boxes inside the round world.
+  6: (document) => ({
+    ...document,
+    version: 7,
+    walls: asArray(document.walls).map((wall) =>
+      isRecord(wall) && wall.shape === undefined
+        ? { ...wall, rotationDeg: 0, shape: { kind: "box" }, door: null }
+        : wall
+    ),
+    boundary: document.boundary ?? DEFAULT_BOUNDARY
+  })
+};
+
+function readBands(source: RawRecord, key: string, path: string, issues: string[]): AcousticBands {
+  const bands = readRecord(source, key, path, issues);
+  const result: AcousticBands = { low: 0, mid: 0, high: 0 };
+  for (const band of ACOUSTIC_BANDS) {
+    result[band] = readNumber(bands, band, `${path}.${key}`, issues, 0, 1);
+  }
+  return result;
+}
+
+function readMaterial(source: RawRecord, path: string, issues: string[]): AcousticMaterial {
+  const material = readRecord(source, "material", path, issues);
+  const preset = material.preset;
+  if (typeof preset !== "string" || !MATERIAL_OPTIONS.includes(preset as MaterialPreset)) {
+    issues.push(`${path}.material.preset must be one of ${MATERIAL_OPTIONS.join(", ")}`);
+  }
+  return {
+    preset: preset as MaterialPreset,
+    absorption: readBands(material, "absorption", `${path}.material`, issues),
+    transmission: readBands(material, "transmission", `${path}.material`, issues)
+  };
+}
+
+function readList<T>(
+  source: RawRecord,
+  key: string,
+  issues: string[],
+  readItem: (item: RawRecord, path: string) => T & { id: string }
+): T[] {
+  const value = source[key];
+  if (!Array.isArray(value)) {
+    issues.push(`${key} must be an array`);
+    return [];
+  }
+  const seen = new Set<string>();
+  const items: T[] = [];
+  value.forEach((item, index) => {
+    const path = `${key}[${index}]`;
+    if (!isRecord(item)) {
+      issues.push(`${path} must be an object`);
+      return;
+    }
+    const parsed = readItem(item, path);
+    if (seen.has(parsed.id)) {
+      issues.push(`${path}.id "${parsed.id}" is duplicated`);
+    }
+    seen.add(parsed.id);
+    items.push(parsed);
+  });
+  return items;
+}
+
+function readSource(item: RawRecord, path: string, issues: string[]): EmitterSource {
+  const source = readRecord(item, "source", path, issues);
+  const sourcePath = `${path}.source`;
+  const range = (key: string, limits: { min: number; max: number }) =>
+    readNumber(source, key, sourcePath, issues, limits.min, limits.max);
+
+  switch (source.kind) {
+    case "tone":
+      return { kind: "tone" };
+    case "noise": {
+      const color = source.color;
+      if (typeof color !== "string" || !NOISE_COLORS.includes(color as NoiseColor)) {
+        issues.push(`${sourcePath}.color must be one of ${NOISE_COLORS.join(", ")}`);
+      }
+      return { kind: "noise", color: color as NoiseColor };
+    }
+    case "bandNoise":
+      return {
+        kind: "bandNoise",
+        centerHz: range("centerHz", SOURCE_LIMITS.bandCenterHz),
+        bandwidthOct: range("bandwidthOct", SOURCE_LIMITS.bandwidthOct)
+      };
+    case "pulse":
+      return {
+        kind: "pulse",
+        rateHz: range("rateHz", SOURCE_LIMITS.pulseRateHz),
+        duty: range("duty", SOURCE_LIMITS.duty)
+      };
+    case "chirp":
+      return {
+        kind: "chirp",
+        startHz: range("startHz", SOURCE_LIMITS.chirpHz),
+        endHz: range("endHz", SOURCE_LIMITS.chirpHz),
+        sweepSec: range("sweepSec", SOURCE_LIMITS.sweepSec),
+        intervalSec: range("intervalSec", SOURCE_LIMITS.intervalSec)
+      };
+    case "pattern": {
+      const steps = readString(source, "steps", sourcePath, issues);
+      if (steps && !PATTERN_STEPS_PATTERN.test(steps)) {
+        issues.push(`${sourcePath}.steps must be 1-32 characters of "x" and "."`);
+      }
+      return { kind: "pattern", steps, bpm: range("bpm", SOURCE_LIMITS.bpm) };
+    }
+    case "sample":
+      return {
+        kind: "sample",
+        sampleId: readString(source, "sampleId", sourcePath, issues),
+        loop: readBoolean(source, "loop", sourcePath, issues),
+        startOffsetSec: readNumber(source, "startOffsetSec", sourcePath, issues, 0),
+        playbackRate: range("playbackRate", { min: MIN_PLAYBACK_RATE, max: MAX_PLAYBACK_RATE }),
+        retriggerSec: range("retriggerSec", { min: 0, max: MAX_RETRIGGER_SEC })
+      };
+    default:
+      issues.push(`${sourcePath}.kind must be one of ${SOURCE_OPTIONS.map((option) => option.kind).join(", ")}`);
+      return { kind: "tone" };
+  }
+}
+
+function readWaypoints(motion: RawRecord, path: string, issues: string[]): PathWaypoint[] {
+  const speed = MOTION_LIMITS.speedMps;
+  const value = motion.waypoints;
+  if (!Array.isArray(value) || value.length > MAX_WAYPOINTS) {
+    issues.push(`${path}.waypoints must be an array of at most ${MAX_WAYPOINTS} waypoints`);
+    return [];
+  }
+  return value.map((item, index) => {
+    const waypointPath = `${path}.waypoints[${index}]`;
+    if (!isRecord(item)) {
+      issues.push(`${waypointPath} must be an object`);
+      return { x: 0, z: 0, speedMps: speed.min };
+    }
+    return {
+      x: readNumber(item, "x", waypointPath, issues),
+      z: readNumber(item, "z", waypointPath, issues),
+      speedMps: readNumber(item, "speedMps", waypointPath, issues, speed.min, speed.max)
+    };
+  });
+}
+
+function readMotion(item: RawRecord, path: string, issues: string[]): EmitterMotion {
+  const motion = readRecord(item, "motion", path, issues);
+  const motionPath = `${path}.motion`;
+  const range = (key: string, limits: { min: number; max: number }) =>
+    readNumber(motion, key, motionPath, issues, limits.min, limits.max);
+
+  switch (motion.kind) {
+    case "bounce":
+      return { kind: "bounce" };
+    case "path": {
+      const mode = motion.mode;
+      if (typeof mode !== "string" || !PATH_MODE_OPTIONS.some((option) => option.mode === mode)) {
+        issues.push(`${motionPath}.mode must be one of ${PATH_MODE_OPTIONS.map((option) => option.mode).join(", ")}`);
+      }
+      return {
+        kind: "path",
+        waypoints: readWaypoints(motion, motionPath, issues),
+        spline: readBoolean(motion, "spline", motionPath, issues),
+        mode: mode as PathMode,
+        distanceM: readNumber(motion, "distanceM", motionPath, issues, 0),
+        reversed: readBoolean(motion, "reversed", motionPath, issues)
+      };
+    }
+    case "orbit":
+      return {
+        kind: "orbit",
+        radiusM: range("radiusM", MOTION_LIMITS.orbitRadiusM),
+        speedMps: range("speedMps", MOTION_LIMITS.speedMps),
+        clockwise: readBoolean(motion, "clockwise", motionPath, issues)
+      };
+    case "follow":
+    case "flee":
+      return {
+        kind: motion.kind,
+        speedMps: range("speedMps", MOTION_LIMITS.speedMps),
+        distanceM: range("distanceM", MOTION_LIMITS.keepDistanceM)
+      };
+    case "wander":
+      return {
+        kind: "wander",
+        speedMps: range("speedMps", MOTION_LIMITS.speedMps),
+        turnDegPerSec: range("turnDegPerSec", MOTION_LIMITS.turnDegPerSec)
+      };
+    default:
+      issues.push(`${motionPath}.kind must be one of ${MOTION_OPTIONS.map((option) => option.kind).join(", ")}`);
+      return { kind: "bounce" };
+  }
+}
+
+function readEmitter(item: RawRecord, path: string, issues: string[]): SoundEmitter {
+  return {
+    id: readString(item, "id", path, issues),
+    name: readString(item, "name", path, issues),
+    x: readNumber(item, "x", path, issues),
+    z: readNumber(item, "z", path, issues),
+    y: readNumber(item, "y", path, issues, 0, MAX_EMITTER_HEIGHT_M),
+    frequency: readNumber(item, "frequency", path, issues, 20, 20000),
+    gain: readNumber(item, "gain", path, issues, 0, 1),
+    waveform: readWaveform(item, path, issues),
+    source: readSource(item, path, issues),
+    color: readString(item, "color", path, issues),
+    moving: readBoolean(item, "moving", path, issues),
+    vx: readNumber(item, "vx", path, issues),
+    vz: readNumber(item, "vz", path, issues),
+    motion: readMotion(item, path, issues)
+  };
+}
+
+function readZone(item: RawRecord, path: string, issues: string[]): CollisionZone {
+  return {
+    id: readString(item, "id", path, issues),
+    label: readString(item, "label", path, issues),
+    x: readNumber(item, "x", path, issues),
+    z: readNumber(item, "z", path, issues),
+    radius: readNumber(item, "radius", path, issues, 0.01),
+    material: readMaterial(item, path, issues)
+  };
+}
+
+function readPlanPoints(
+  source: RawRecord,
+  path: string,
+  issues: string[],
+  minCount: number,
+  limit?: number
+): PlanPoint[] {
+  const value = source.points;
+  if (!Array.isArray(value) || value.length < minCount || value.length > MAX_PLAN_POINTS) {
+    issues.push(`${path}.points must be an array of ${minCount} to ${MAX_PLAN_POINTS} points`);
+    return [];
+  }
+  return value.map((item, index) => {
+    const pointPath = `${path}.points[${index}]`;
+    if (!isRecord(item)) {
+      issues.push(`${pointPath} must be an object`);
+      return { x: 0, z: 0 };
+    }
+    return {
+      x: readNumber(item, "x", pointPath, issues, limit === undefined ? undefined : -limit, limit),
+      z: readNumber(item, "z", pointPath, issues, limit === undefined ? undefined : -limit, limit)
+    };
+  });
+}
+
+function readWallShape(item: RawRecord, path: string, issues: string[]): WallShape {
+  const shape = readRecord(item, "shape", path, issues);
+  const shapePath = `${path}.shape`;
+  switch (shape.kind) {
+    case "box":
+      return { kind: "box" };
+    case "polyline":
+      return {
+        kind: "polyline",
+        points: readPlanPoints(shape, shapePath, issues, minPlanPoints("polyline")),
+        thicknessM: readNumber(shape, "thicknessM", shapePath, issues, 0.01)
+      };
+    case "polygon": {
+      const points = readPlanPoints(shape, shapePath, issues, minPlanPoints("polygon"));
+      if (points.length > 0 && !isSimplePolygon(points)) {
+        issues.push(`${shapePath}.points must not cross each other and must enclose an area`);
+      }
+      return { kind: "polygon", points };
+    }
+    default:
+      issues.push(`${shapePath}.kind must be one of ${WALL_SHAPE_OPTIONS.map((option) => option.kind).join(", ")}`);
+      return { kind: "box" };
+  }
+}
+
+function readDoor(item: RawRecord, path: string, issues: string[]): Wall["door"] {
+  if (item.door === null) {
+    return null;
+  }
+  const door = readRecord(item, "door", path, issues);
+  return { open: readBoolean(door, "open", `${path}.door`, issues) };
+}
+
+function readWall(item: RawRecord, path: string, issues: string[]): Wall {
+  return {
+    id: readString(item, "id", path, issues),
+    x: readNumber(item, "x", path, issues),
+    z: readNumber(item, "z", path, issues),
+    width: readNumber(item, "width", path, issues, 0.01),
+    height: readNumber(item, "height", path, issues, 0.01),
+    rotationDeg: readNumber(item, "rotationDeg", path, issues, -360, 360),
+    shape: readWallShape(item, path, issues),
+    door: readDoor(item, path, issues),
+    material: readMaterial(item, path, issues)
+  };
+}
+
+// Boundaries must fit the map, which shows WORLD_RADIUS_M either side of the center.
+function readBoundary(source: RawRecord, issues: string[]): WorldBoundary {
+  const boundary = readRecord(source, "boundary", "scene", issues);
+  const range = (key: string, limits: { min: number; max: number }) =>
+    readNumber(boundary, key, "boundary", issues, limits.min, limits.max);
+  switch (boundary.kind) {
+    case "circle":
+      return { kind: "circle", radiusM: range("radiusM", BOUNDARY_LIMITS.radiusM) };
+    case "rectangle":
+      return {
+        kind: "rectangle",
+        widthM: range("widthM", BOUNDARY_LIMITS.sideM),
+        depthM: range("depthM", BOUNDARY_LIMITS.sideM)
+      };
+    case "polygon": {
+      const points = readPlanPoints(boundary, "boundary", issues, minPlanPoints("polygon"), WORLD_RADIUS_M);
+      if (points.length > 0 && !isSimplePolygon(points)) {
+        issues.push("boundary.points must not cross each other and must enclose an area");
+      }
+      return { kind: "polygon", points };
+    }
+    default:
+      issues.push(`boundary.kind must be one of ${BOUNDARY_OPTIONS.map((option) => option.kind).join(", ")}`);
+      return DEFAULT_BOUNDARY;
+  }
+}
+
+const ITEM_READERS: { [K in keyof SceneItems]: (item: RawRecord, path: string, issues: string[]) => SceneItems[K] } = {
+  emitter: readEmitter,
+  zone: readZone,
+  wall: readWall
+};
+
+function readWaveform(source: RawRecord, path: string, issues: string[]): OscillatorType {
+  const waveform = source.waveform;
+  if (typeof waveform !== "string" || !WAVEFORM_VALUES.includes(waveform as OscillatorType)) {
+    issues.push(`${path}.waveform must be one of ${WAVEFORM_VALUES.join(", ")}`);
+  }
+  return waveform as OscillatorType;
+}
+
+function readTrigger(item: RawRecord, path: string, issues: string[]): TimelineTrigger {
+  const trigger = readRecord(item, "trigger", path, issues);
+  const triggerPath = `${path}.trigger`;
+  const range = (key: string, limits: { min: number; max: number }) =>
+    readNumber(trigger, key, triggerPath, issues, limits.min, limits.max);
+
+  switch (trigger.kind) {
+    case "time":
+      return { kind: "time", atSec: range("atSec", TIMELINE_LIMITS.atSec) };
+    case "region":
+      return {
+        kind: "region",
+        x: readNumber(trigger, "x", triggerPath, issues),
+        z: readNumber(trigger, "z", triggerPath, issues),
+        radiusM: range("radiusM", TIMELINE_LIMITS.regionRadiusM)
+      };
+    case "proximity":
+      return {
+        kind: "proximity",
+        emitterId: readString(trigger, "emitterId", triggerPath, issues),
+        distanceM: range("distanceM", TIMELINE_LIMITS.proximityM)
+      };
+    case "collision":
+      return {
+        kind: "collision",
+        obstacleId: trigger.obstacleId === null ? null : readString(trigger, "obstacleId", triggerPath, issues)
+      };
+    default:
+      issues.push(`${triggerPath}.kind must be one of ${TRIGGER_OPTIONS.map((option) => option.kind).join(", ")}`);
+      return { kind: "time", atSec: 0 };
+  }
+}
+
+function readAction(item: RawRecord, path: string, issues: string[]): TimelineAction {
+  const range = (key: string, limits: { min: number; max: number }) =>
+    readNumber(item, key, path, issues, limits.min, limits.max);
+  const emitterId = () => readString(item, "emitterId", path, issues);
+
+  switch (item.kind) {
+    case "startEmitter":
+      return { kind: "startEmitter", emitterId: emitterId(), gain: range("gain", TIMELINE_LIMITS.gain) };
+    case "stopEmitter":
+      return { kind: "stopEmitter", emitterId: emitterId() };
+    case "frequency":
+      return { kind: "frequency", emitterId: emitterId(), frequency: range("frequency", TIMELINE_LIMITS.frequency) };
+    case "gain":
+      return { kind: "gain", emitterId: emitterId(), gain: range("gain", TIMELINE_LIMITS.gain) };
+    case "waveform":
+      return { kind: "waveform", emitterId: emitterId(), waveform: readWaveform(item, path, issues) };
+    case "moveObstacle":
+      return {
+        kind: "moveObstacle",
+        obstacleId: readString(item, "obstacleId", path, issues),
+        x: readNumber(item, "x", path, issues),
+        z: readNumber(item, "z", path, issues)
+      };
+    case "door":
+      return {
+        kind: "door",
+        wallId: readString(item, "wallId", path, issues),
+        open: readBoolean(item, "open", path, issues)
+      };
+    case "status": {
+      const message = item.message;
+      if (typeof message !== "string" || message.length > MAX_STATUS_LENGTH) {
+        issues.push(`${path}.message must be a string of at most ${MAX_STATUS_LENGTH} characters`);
+      }
+      return { kind: "status", message: typeof message === "string" ? message : "" };
+    }
+    default:
+      issues.push(`${path}.kind must be one of ${ACTION_OPTIONS.map((option) => option.kind).join(", ")}`);
+      return { kind: "status", message: "" };
+  }
+}
+
+function readTimelineEvent(item: RawRecord, path: string, issues: string[]): TimelineEvent {
+  const actions = item.actions;
+  if (!Array.isArray(actions)) {
+    issues.push(`${path}.actions must be an array`);
+  }
+  return {
+    id: readString(item, "id", path, issues),
+    label: readString(item, "label", path, issues),
+    trigger: readTrigger(item, path, issues),
+    actions: asArray(actions).flatMap((action, index) => {
+      const actionPath = `${path}.actions[${index}]`;
+      if (!isRecord(action)) {
+        issues.push(`${actionPath} must be an object`);
+        return [];
+      }
+      return [readAction(action, actionPath, issues)];
+    }),
+    repeat: readBoolean(item, "repeat", path, issues)
+  };
+}
+
+function readRoom(source: RawRecord, issues: string[]): RoomSettings {
+  const room = readRecord(source, "room", "scene", issues);
+  const order = readNumber(room, "reflectionOrder", "room", issues, 1, 2);
+  return {
+    wetDry: readNumber(room, "wetDry", "room", issues, 0, 1),
+    earlyReflections: readBoolean(room, "earlyReflections", "room", issues),
+    lateReverb: readBoolean(room, "lateReverb", "room", issues),
+    reflectionsOnly: readBoolean(room, "reflectionsOnly", "room", issues),
+    reflectionOrder: order === 1 ? 1 : 2,
+    boundaryAbsorption: readNumber(room, "boundaryAbsorption", "room", issues, 0, 1)
+  };
+}
+
+function readEcho(source: RawRecord, issues: string[]): EchoSettings {
+  const echo = readRecord(source, "echo", "scene", issues);
+  return {
+    clickFrequency: readNumber(echo, "clickFrequency", "echo", issues, 20, 20000),
+    clickDurationMs: readNumber(echo, "clickDurationMs", "echo", issues, 0.1, 100),
+    clickBrightness: readNumber(echo, "clickBrightness", "echo", issues, 0, 1),
+    clickGain: readNumber(echo, "clickGain", "echo", issues, 0, 1),
+    rayCount: readNumber(echo, "rayCount", "echo", issues, 8, 4096),
+    maxReflections: readNumber(echo, "maxReflections", "echo", issues, 1, 8),
+    scattering: readNumber(echo, "scattering", "echo", issues, 0, 1)
+  };
+}
+
+export function migrateSceneDocument(input: unknown): RawRecord {
+  if (!isRecord(input)) {
+    throw new SceneValidationError(["scene must be a JSON object"]);
+  }
+  if (input.format !== SCENE_FORMAT) {
+    throw new SceneValidationError([`format must be "${SCENE_FORMAT}"`]);
+  }
+
+  let document = input;
+  let version = document.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new SceneValidationError(["version must be a positive integer"]);
+  }
+  if (version > SCENE_VERSION) {
+    throw new SceneValidationError([`version ${version} is newer than this app supports (${SCENE_VERSION})`]);
+  }
+  while (version < SCENE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new SceneValidationError([`no migration from version ${version}`]);
+    }
+    document = migrate(document);
+    version = document.version;
+    if (typeof version !== "number") {
+      throw new SceneValidationError(["migration produced an invalid version"]);
+    }
+  }
+  return document;
+}
+
+function readListener(listener: RawRecord, issues: string[]): ListenerPose {
+  return {
+    x: readNumber(listener, "x", "listener", issues),
+    z: readNumber(listener, "z", "listener", issues),
+    headingDeg: readNumber(listener, "headingDeg", "listener", issues),
+    heightM: readNumber(listener, "heightM", "listener", issues, HEAD_LIMITS.heightM.min, HEAD_LIMITS.heightM.max),
+    pitchDeg: readNumber(listener, "pitchDeg", "listener", issues, -HEAD_LIMITS.pitchDeg, HEAD_LIMITS.pitchDeg),
+    rollDeg: readNumber(listener, "rollDeg", "listener", issues, -HEAD_LIMITS.rollDeg, HEAD_LIMITS.rollDeg)
+  };
+}
+
+export function parseSceneDocument(input: unknown): SceneDocument {
+  const document = migrateSceneDocument(input);
+  const issues: string[] = [];
+
+  const scene: SceneDocument = {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    name: readString(document, "name", "scene", issues),
+    savedAt: typeof document.savedAt === "string" ? document.savedAt : new Date().toISOString(),
+    listener: readListener(readRecord(document, "listener", "scene", issues), issues),
+    emitters: readList(document, "emitters", issues, (item, path) => readEmitter(item, path, issues)),
+    zones: readList(document, "zones", issues, (item, path) => readZone(item, path, issues)),
+    walls: readList(document, "walls", issues, (item, path) => readWall(item, path, issues)),
+    boundary: readBoundary(document, issues),
+    room: readRoom(document, issues),
+    echo: readEcho(document, issues),
+    timeline: readList(document, "timeline", issues, (item, path) => readTimelineEvent(item, path, issues))
+  };
+
+  if (issues.length === 0 && !insideBoundary(scene.boundary, scene.listener.x, scene.listener.z)) {
+    issues.push("listener must stand inside the boundary");
+  }
+  if (issues.length > 0) {
+    throw new SceneValidationError(issues);
+  }
+  return scene;
+}
+
+// Single objects arriving outside a document, such as edits relayed from another client. They are always in the
+// current format, so there is nothing to migrate.
+export function parseSceneItem<K extends keyof SceneItems>(kind: K, input: unknown): SceneItems[K] {
+  if (!isRecord(input)) {
+    throw new SceneValidationError([`${kind} must be an object`]);
+  }
+  const issues: string[] = [];
+  const item = ITEM_READERS[kind](input, kind, issues);
+  if (issues.length > 0) {
+    throw new SceneValidationError(issues);
+  }
+  return item;
+}
+
+export function parseListenerPose(input: unknown): ListenerPose {
+  if (!isRecord(input)) {
+    throw new SceneValidationError(["listener must be an object"]);
+  }
+  const issues: string[] = [];
+  const listener = readListener(input, issues);
+  if (issues.length > 0) {
+    throw new SceneValidationError(issues);
+  }
+  return listener;
+}
+
+const WORLD_READERS: { [K in keyof WorldState]: (source: RawRecord, issues: string[]) => WorldState[K] } = {
+  listener: (source, issues) => readListener(readRecord(source, "listener", "world", issues), issues),
+  emitters: (source, issues) => readList(source, "emitters", issues, (item, path) => readEmitter(item, path, issues)),
+  zones: (source, issues) => readList(source, "zones", issues, (item, path) => readZone(item, path, issues)),
+  walls: (source, issues) => readList(source, "walls", issues, (item, path) => readWall(item, path, issues)),
+  boundary: readBoundary
+};
+
+// Worlds and parts of worlds outside a document, such as those stored in a session recording. Like single items,
+// they are always in the current format.
+export function parseWorldState(input: unknown): WorldState {
+  if (!isRecord(input)) {
+    throw new SceneValidationError(["world must be an object"]);
+  }
+  const issues: string[] = [];
+  const world: WorldState = {
+    listener: WORLD_READERS.listener(input, issues),
+    emitters: WORLD_READERS.emitters(input, issues),
+    zones: WORLD_READERS.zones(input, issues),
+    walls: WORLD_READERS.walls(input, issues),
+    boundary: WORLD_READERS.boundary(input, issues)
+  };
+  if (issues.length > 0) {
+    throw new SceneValidationError(issues);
+  }
+  return world;
+}
+
+export function parseWorldValue<K extends keyof WorldState>(key: K, input: unknown): WorldState[K] {
+  const issues: string[] = [];
+  const value = WORLD_READERS[key]({ [key]: input }, issues);
+  if (issues.length > 0) {
+    throw new SceneValidationError(issues);
+  }
+  return value;
+}
+
+export function parseSceneJson(text: string): SceneDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new SceneValidationError(["file is not valid JSON"]);
+  }
+  return parseSceneDocument(raw);
+}
+
+export function createSceneDocument(content: SceneContent): SceneDocument {
+  return {
+    format: SCENE_FORMAT,
+    version: SCENE_VERSION,
+    savedAt: new Date().toISOString(),
+    ...content
+  };
+}
+
+export function serializeScene(document: SceneDocument): string {
+  return JSON.stringify(document, null, 2);
+}
+
+export function nextIdCounter(items: Array<{ id: string }>, prefix: string): number {
+  let highest = 0;
+  for (const item of items) {
+    const match = item.id.startsWith(`${prefix}-`) ? Number(item.id.slice(prefix.length + 1)) : Number.NaN;
+    if (Number.isInteger(match)) {
+      highest = Math.max(highest, match);
+    }
+  }
+  return Math.max(highest, items.length) + 1;
+}
+
+export function sceneSlug(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "scene";
+}
+
+export function sceneFileName(name: string): string {
+  return `${sceneSlug(name)}.scene.json`;
+}
@@ -0,0 +1,46 @@
+import { parseSceneDocument, type SceneDocument } from "./scene";
+import type { SceneSummary, StoredScene } from "./sceneStore";
+
+const SCENES_ENDPOINT = "/api/scenes";
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { "Content-Type": "application/json" } : undefined
+  });
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error ?? `Scene library request failed (${response.status}).`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+async function requestStored(url: string, init?: RequestInit): Promise<StoredScene> {
+  const stored = await request<StoredScene>(url, init);
+  return { ...stored, scene: parseSceneDocument(stored.scene) };
+}
+
+export async function fetchSceneLibrary(): Promise<SceneSummary[]> {
+  const body = await request<{ scenes: SceneSummary[] }>(SCENES_ENDPOINT);
+  return body.scenes;
+}
+
+export function fetchLibraryScene(id: string): Promise<StoredScene> {
+  return requestStored(`${SCENES_ENDPOINT}/${encodeURIComponent(id)}`);
+}
+
+export function createLibraryScene(scene: SceneDocument): Promise<StoredScene> {
+  return requestStored(SCENES_ENDPOINT, { method: "POST", body: JSON.stringify(scene) });
+}
+
+export function updateLibraryScene(id: string, scene: SceneDocument): Promise<StoredScene> {
+  return requestStored(`${SCENES_ENDPOINT}/${encodeURIComponent(id)}`, { method: "PUT", body: JSON.stringify(scene) });
+}
+
+export function duplicateLibraryScene(id: string): Promise<StoredScene> {
+  return requestStored(`${SCENES_ENDPOINT}/${encodeURIComponent(id)}/duplicate`, { method: "POST" });
+}
+
+export async function deleteLibraryScene(id: string): Promise<void> {
+  await request<void>(`${SCENES_ENDPOINT}/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
@@ -0,0 +1,170 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SceneValidationError, parseSceneDocument, type SceneDocument } from "./scene";
+import { isRecord } from "./validation";
+
+export type StoredScene = {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  scene: SceneDocument;
+};
+
+export type SceneSummary = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  emitters: number;
+  zones: number;
+  walls: number;
+};
+
+export class SceneNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Scene "${id}" was not found.`);
+    this.name = "SceneNotFoundError";
+  }
+}
+
+const SCENE_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+function storeDirectory(): string {
+  return path.resolve(process.env.SCENE_STORE_DIR ?? path.join(process.cwd(), "data", "scenes"));
+}
+
+function scenePath(id: string): string {
+  if (!SCENE_ID_PATTERN.test(id)) {
+    throw new SceneNotFoundError(id);
+  }
+  return path.join(storeDirectory(), `${id}.json`);
+}
+
+export function summarizeScene(stored: StoredScene): SceneSummary {
+  return {
+    id: stored.id,
+    name: stored.scene.name,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+    emitters: stored.scene.emitters.length,
+    zones: stored.scene.zones.length,
+    walls: stored.scene.walls.length
+  };
+}
+
+// Writes are serialised and go through a temp file + rename so a crash never leaves half a document on disk.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function writeStored(stored: StoredScene): Promise<void> {
+  const target = scenePath(stored.id);
+  await mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(stored, null, 2), "utf8");
+  await rename(temp, target);
+}
+
+export async function getScene(id: string): Promise<StoredScene> {
+  let text: string;
+  try {
+    text = await readFile(scenePath(id), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new SceneNotFoundError(id);
+    }
+    throw error;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    raw = null;
+  }
+  // A file edited or damaged on disk is reported like an invalid upload rather than as a store failure.
+  if (!isRecord(raw)) {
+    throw new SceneValidationError([`stored scene "${id}" is not a JSON object`]);
+  }
+  // Stored scenes go through the same migrations as imports, so older files upgrade on read.
+  return { ...(raw as StoredScene), scene: parseSceneDocument(raw.scene) };
+}
+
+export async function listScenes(): Promise<SceneSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(storeDirectory());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const summaries: SceneSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    try {
+      summaries.push(summarizeScene(await getScene(file.slice(0, -".json".length))));
+    } catch {
+      // A damaged file should not hide the rest of the library.
+    }
+  }
+  return summaries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function createScene(input: unknown): Promise<StoredScene> {
+  const scene = parseSceneDocument(input);
+  return enqueueWrite(async () => {
+    const now = new Date().toISOString();
+    const stored: StoredScene = { id: randomUUID(), createdAt: now, updatedAt: now, scene: { ...scene, savedAt: now } };
+    await writeStored(stored);
+    return stored;
+  });
+}
+
+export function updateScene(id: string, input: unknown): Promise<StoredScene> {
+  const scene = parseSceneDocument(input);
+  return enqueueWrite(async () => {
+    const existing = await getScene(id);
+    const now = new Date().toISOString();
+    const stored: StoredScene = { ...existing, updatedAt: now, scene: { ...scene, savedAt: now } };
+    await writeStored(stored);
+    return stored;
+  });
+}
+
+export function duplicateScene(id: string, name?: string): Promise<StoredScene> {
+  return enqueueWrite(async () => {
+    const existing = await getScene(id);
+    const now = new Date().toISOString();
+    const stored: StoredScene = {
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      scene: { ...existing.scene, name: name?.trim() || `${existing.scene.name} (copy)`, savedAt: now }
+    };
+    await writeStored(stored);
+    return stored;
+  });
+}
+
+export function deleteScene(id: string): Promise<void> {
+  return enqueueWrite(async () => {
+    // Deleting only needs the file to be there, so a scene that no longer parses can still be removed.
+    try {
+      await rm(scenePath(id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new SceneNotFoundError(id);
+      }
+      throw error;
+    }
+  });
+}
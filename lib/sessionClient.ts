@@ -0,0 +1,17 @@
+import type { SessionLog } from "./sessionLog";
+import type { StoredSession } from "./sessionStore";
+
+const SESSIONS_ENDPOINT = "/api/sessions";
+
+export async function uploadSessionLog(log: SessionLog): Promise<Pick<StoredSession, "id" | "receivedAt">> {
+  const response = await fetch(SESSIONS_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(log)
+  });
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new Error(body?.error ?? `Session upload failed (${response.status}).`);
+  }
+  return (await response.json()) as Pick<StoredSession, "id" | "receivedAt">;
+}
@@ -0,0 +1,282 @@
+import { distanceGain } from "./audioGraph";
+import { occlusionFilter } from "./occlusion";
+import { FIXED_STEP_SEC, type Simulation } from "./simulation";
+import { asArray, isRecord, readBoolean, readNumber, readRecord, readString, type RawRecord } from "./validation";
+import { DEFAULT_HEAD, type ListenerPose } from "./world";
+
+export const SESSION_LOG_FORMAT = "sonic-world-session-log";
+export const SESSION_LOG_VERSION = 2;
+// Version 1 logs predate listener height and head tilt; they read as a level head at standing height.
+const LEGACY_SESSION_LOG_VERSION = 1;
+export const LOG_SAMPLE_HZ = 10;
+
+export type EmitterObservation = {
+  id: string;
+  x: number;
+  z: number;
+  audible: boolean;
+  occluded: boolean;
+};
+
+export type PoseSample = {
+  timeSec: number;
+  listener: ListenerPose;
+  emitters: EmitterObservation[];
+};
+
+// Collisions are labelled with the body that hit something: "listener" or an emitter id.
+export type LogEvent = {
+  timeSec: number;
+  kind: "collision" | "action";
+  label: string;
+  detail: string | null;
+};
+
+export type SessionLog = {
+  format: typeof SESSION_LOG_FORMAT;
+  version: typeof SESSION_LOG_VERSION;
+  participantId: string;
+  sceneName: string;
+  startedAt: string;
+  endedAt: string;
+  sampleHz: number;
+  samples: PoseSample[];
+  events: LogEvent[];
+};
+
+export type SessionLogger = {
+  action: (label: string, detail?: string) => void;
+  stop: () => SessionLog;
+};
+
+export class SessionLogValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : "";
+    super(`Invalid session log: ${issues.slice(0, 3).join("; ")}${more}`);
+    this.name = "SessionLogValidationError";
+    this.issues = issues;
+  }
+}
+
+// Roughly -60 dB below a full-scale emitter after distance loss and occlusion.
+const AUDIBLE_LEVEL = 0.001;
+const MAX_PARTICIPANT_ID_LENGTH = 64;
+const CSV_COLUMNS = [
+  "time_sec",
+  "type",
+  "label",
+  "listener_x",
+  "listener_z",
+  "heading_deg",
+  "height_m",
+  "pitch_deg",
+  "roll_deg",
+  "emitter_id",
+  "emitter_x",
+  "emitter_z",
+  "audible",
+  "occluded"
+];
+
+function samplePose(simulation: Simulation, timeSec: number): PoseSample {
+  const { listener, emitters } = simulation.getState();
+  const paths = simulation.propagation();
+  return {
+    timeSec,
+    listener,
+    emitters: emitters.map((emitter) => {
+      const path = paths.get(emitter.id);
+      const level = path
+        ? emitter.gain * distanceGain(path.pathLength) * occlusionFilter(path.transmission).gain
+        : 0;
+      return {
+        id: emitter.id,
+        x: emitter.x,
+        z: emitter.z,
+        audible: level >= AUDIBLE_LEVEL,
+        occluded: (path?.crossings ?? 0) > 0
+      };
+    })
+  };
+}
+
+// Samples the world every few simulation steps and logs a collision when a body first touches an obstacle, not on
+// every step it stays pressed against it.
+export function startSessionLog(simulation: Simulation, participantId: string, sceneName: string): SessionLogger {
+  const startStep = simulation.getStep();
+  const startedAt = new Date().toISOString();
+  const sampleEvery = Math.max(1, Math.round(1 / (LOG_SAMPLE_HZ * FIXED_STEP_SEC)));
+  const samples: PoseSample[] = [samplePose(simulation, 0)];
+  const events: LogEvent[] = [];
+  let touching = new Set<string>();
+
+  const elapsed = () => (simulation.getStep() - startStep) * FIXED_STEP_SEC;
+
+  const unobserve = simulation.observe((event) => {
+    if (event.kind !== "stepped") {
+      return;
+    }
+    const timeSec = elapsed();
+    for (const body of event.contacts) {
+      if (!touching.has(body)) {
+        events.push({ timeSec, kind: "collision", label: body, detail: null });
+      }
+    }
+    touching = new Set(event.contacts);
+    if ((simulation.getStep() - startStep) % sampleEvery === 0) {
+      samples.push(samplePose(simulation, timeSec));
+    }
+  });
+
+  return {
+    action: (label, detail) => {
+      events.push({ timeSec: elapsed(), kind: "action", label, detail: detail ?? null });
+    },
+    stop: () => {
+      unobserve();
+      return {
+        format: SESSION_LOG_FORMAT,
+        version: SESSION_LOG_VERSION,
+        participantId,
+        sceneName,
+        startedAt,
+        endedAt: new Date().toISOString(),
+        sampleHz: LOG_SAMPLE_HZ,
+        samples,
+        events
+      };
+    }
+  };
+}
+
+function csvCell(value: string | number | boolean | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One long-format table: a row per emitter per sample, then a row per event, ordered by time.
+export function sessionLogCsv(log: SessionLog): string {
+  const rows: Array<{ timeSec: number; cells: Array<string | number | boolean | null> }> = [];
+  for (const sample of log.samples) {
+    const { x, z, headingDeg, heightM, pitchDeg, rollDeg } = sample.listener;
+    const observations = sample.emitters.length > 0 ? sample.emitters : [null];
+    for (const emitter of observations) {
+      rows.push({
+        timeSec: sample.timeSec,
+        cells: [
+          "sample",
+          null,
+          x,
+          z,
+          headingDeg,
+          heightM,
+          pitchDeg,
+          rollDeg,
+          emitter?.id ?? null,
+          emitter?.x ?? null,
+          emitter?.z ?? null,
+          emitter?.audible ?? null,
+          emitter?.occluded ?? null
+        ]
+      });
+    }
+  }
+  for (const event of log.events) {
+    const label = event.detail ? `${event.label}: ${event.detail}` : event.label;
+    const empty = CSV_COLUMNS.slice(3).map(() => null);
+    rows.push({ timeSec: event.timeSec, cells: [event.kind, label, ...empty] });
+  }
+
+  rows.sort((a, b) => a.timeSec - b.timeSec);
+  return [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => [row.timeSec.toFixed(3), ...row.cells].map(csvCell).join(","))
+  ].join("\n");
+}
+
+function readPose(source: RawRecord, path: string, issues: string[], legacy: boolean): ListenerPose {
+  const pose = readRecord(source, "listener", path, issues);
+  const head = legacy ? { ...DEFAULT_HEAD, ...pose } : pose;
+  return {
+    x: readNumber(pose, "x", `${path}.listener`, issues),
+    z: readNumber(pose, "z", `${path}.listener`, issues),
+    headingDeg: readNumber(pose, "headingDeg", `${path}.listener`, issues),
+    heightM: readNumber(head, "heightM", `${path}.listener`, issues),
+    pitchDeg: readNumber(head, "pitchDeg", `${path}.listener`, issues),
+    rollDeg: readNumber(head, "rollDeg", `${path}.listener`, issues)
+  };
+}
+
+function readSample(value: unknown, path: string, issues: string[], legacy: boolean): PoseSample {
+  const sample = isRecord(value) ? value : {};
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object`);
+  }
+  return {
+    timeSec: readNumber(sample, "timeSec", path, issues, 0),
+    listener: readPose(sample, path, issues, legacy),
+    emitters: asArray(sample.emitters).map((item, index) => {
+      const emitterPath = `${path}.emitters[${index}]`;
+      const emitter = isRecord(item) ? item : {};
+      return {
+        id: readString(emitter, "id", emitterPath, issues),
+        x: readNumber(emitter, "x", emitterPath, issues),
+        z: readNumber(emitter, "z", emitterPath, issues),
+        audible: readBoolean(emitter, "audible", emitterPath, issues),
+        occluded: readBoolean(emitter, "occluded", emitterPath, issues)
+      };
+    })
+  };
+}
+
+function readEvent(value: unknown, path: string, issues: string[]): LogEvent {
+  const event = isRecord(value) ? value : {};
+  if (event.kind !== "collision" && event.kind !== "action") {
+    issues.push(`${path}.kind must be collision or action`);
+  }
+  if (event.detail !== null && typeof event.detail !== "string") {
+    issues.push(`${path}.detail must be a string or null`);
+  }
+  return {
+    timeSec: readNumber(event, "timeSec", path, issues, 0),
+    kind: event.kind as LogEvent["kind"],
+    label: readString(event, "label", path, issues),
+    detail: typeof event.detail === "string" ? event.detail : null
+  };
+}
+
+export function parseSessionLog(input: unknown): SessionLog {
+  const issues: string[] = [];
+  const log = isRecord(input) ? input : {};
+  if (log.format !== SESSION_LOG_FORMAT) {
+    issues.push(`format must be "${SESSION_LOG_FORMAT}"`);
+  }
+  if (log.version !== SESSION_LOG_VERSION && log.version !== LEGACY_SESSION_LOG_VERSION) {
+    issues.push(`version must be ${LEGACY_SESSION_LOG_VERSION} or ${SESSION_LOG_VERSION}`);
+  }
+  const legacy = log.version === LEGACY_SESSION_LOG_VERSION;
+  if (!Array.isArray(log.samples) || !Array.isArray(log.events)) {
+    issues.push("samples and events must be arrays");
+  }
+
+  const parsed: SessionLog = {
+    format: SESSION_LOG_FORMAT,
+    version: SESSION_LOG_VERSION,
+    participantId: readString(log, "participantId", "log", issues),
+    sceneName: readString(log, "sceneName", "log", issues),
+    startedAt: readString(log, "startedAt", "log", issues),
+    endedAt: readString(log, "endedAt", "log", issues),
+    sampleHz: readNumber(log, "sampleHz", "log", issues, 0.1, 1000),
+    samples: asArray(log.samples).map((sample, index) => readSample(sample, `samples[${index}]`, issues, legacy)),
+    events: asArray(log.events).map((event, index) => readEvent(event, `events[${index}]`, issues))
+  };
+  if (parsed.participantId.length > MAX_PARTICIPANT_ID_LENGTH) {
+    issues.push(`log.participantId must be at most ${MAX_PARTICIPANT_ID_LENGTH} characters`);
+  }
+  if (issues.length > 0) {
+    throw new SessionLogValidationError(issues);
+  }
+  return parsed;
+}
@@ -0,0 +1,113 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { SessionLogValidationError, parseSessionLog, type SessionLog } from "./sessionLog";
+import { isRecord } from "./validation";
+
+export type StoredSession = {
+  id: string;
+  receivedAt: string;
+  log: SessionLog;
+};
+
+export type SessionSummary = {
+  id: string;
+  participantId: string;
+  sceneName: string;
+  startedAt: string;
+  endedAt: string;
+  samples: number;
+  events: number;
+};
+
+export class SessionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Session "${id}" was not found.`);
+    this.name = "SessionNotFoundError";
+  }
+}
+
+const SESSION_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+function storeDirectory(): string {
+  return path.resolve(process.env.SESSION_STORE_DIR ?? path.join(process.cwd(), "data", "sessions"));
+}
+
+function sessionPath(id: string): string {
+  if (!SESSION_ID_PATTERN.test(id)) {
+    throw new SessionNotFoundError(id);
+  }
+  return path.join(storeDirectory(), `${id}.json`);
+}
+
+function summarizeSession(stored: StoredSession): SessionSummary {
+  return {
+    id: stored.id,
+    participantId: stored.log.participantId,
+    sceneName: stored.log.sceneName,
+    startedAt: stored.log.startedAt,
+    endedAt: stored.log.endedAt,
+    samples: stored.log.samples.length,
+    events: stored.log.events.length
+  };
+}
+
+export async function getSession(id: string): Promise<StoredSession> {
+  let text: string;
+  try {
+    text = await readFile(sessionPath(id), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new SessionNotFoundError(id);
+    }
+    throw error;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    raw = null;
+  }
+  // A file edited or damaged on disk is reported like an invalid upload rather than as a store failure.
+  if (!isRecord(raw)) {
+    throw new SessionLogValidationError([`stored session "${id}" is not a JSON object`]);
+  }
+  return { ...(raw as StoredSession), log: parseSessionLog(raw.log) };
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(storeDirectory());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const summaries: SessionSummary[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    try {
+      summaries.push(summarizeSession(await getSession(file.slice(0, -".json".length))));
+    } catch {
+      // A damaged file should not hide the rest of the sessions.
+    }
+  }
+  return summaries.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// Sessions are never updated, and each gets a fresh id, so writes need no queue; the temp file + rename still keeps
+// a crash from leaving half a log on disk.
+export async function createSession(input: unknown): Promise<StoredSession> {
+  const stored: StoredSession = { id: randomUUID(), receivedAt: new Date().toISOString(), log: parseSessionLog(input) };
+  const target = sessionPath(stored.id);
+  await mkdir(path.dirname(target), { recursive: true });
+  const temp = `${target}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(stored), "utf8");
+  await rename(temp, target);
+  return stored;
+}
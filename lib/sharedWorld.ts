@@ -0,0 +1,415 @@
+import { SceneValidationError, parseListenerPose, parseSceneItem, type SceneItems } from "./scene";
+import type { Simulation } from "./simulation";
+import type { ListenerPose, SoundEmitter } from "./world";
+
+// Several clients share one world through the relay in relay/server.mjs: emitter, zone and wall edits are published
+// as they happen, and every other client's listener is heard here as a pulsing emitter. Each message is one JSON
+// object in a WebSocket text frame. Entities are keyed "<kind>:<id>" and versioned by the relay, which rejects edits
+// based on a revision someone else has since replaced. Observers, such as the trainer console, follow the room
+// without a listener of their own and are let in only with the trainer code the relay gives the participant who
+// opened the room.
+// The world boundary is not shared: each client keeps the one from its own scene, and participants report theirs to
+// the trainer console (lib/trainer.ts).
+
+type EntityKind = keyof SceneItems;
+
+type EntityRecord = {
+  key: string;
+  rev: number;
+  author: string;
+  value: unknown;
+};
+
+export type SharedRole = "participant" | "observer";
+
+export type ClientMessage =
+  | { type: "join"; room: string; name: string; role: SharedRole; trainerCode?: string }
+  | { type: "put"; key: string; baseRev: number; value: SceneItems[EntityKind] | null }
+  | { type: "pose"; listener: ListenerPose }
+  | { type: "signal"; target?: string; payload: unknown };
+
+export type RelayMessage =
+  | {
+      type: "welcome";
+      clientId: string;
+      // Sent to participants only.
+      trainerCode?: string;
+      peers: Array<{ clientId: string; name: string; role: SharedRole; listener: unknown }>;
+      entities: EntityRecord[];
+    }
+  | { type: "peer-joined"; clientId: string; name: string; role: SharedRole }
+  | { type: "peer-left"; clientId: string }
+  | { type: "pose"; clientId: string; listener: unknown }
+  | ({ type: "update" } & EntityRecord)
+  | ({ type: "reject" } & EntityRecord)
+  | { type: "signal"; from: string; payload: unknown }
+  | { type: "error"; message: string };
+
+export type SharedPeer = {
+  clientId: string;
+  name: string;
+  role: SharedRole;
+};
+
+export type SharedWorldOptions = {
+  url: string;
+  room: string;
+  name: string;
+  role: SharedRole;
+  // Required of observers.
+  trainerCode?: string;
+};
+
+export type SharedWorldHandlers = {
+  onStatus: (message: string) => void;
+  onPeers: (peers: SharedPeer[]) => void;
+  // Called once when the connection ends, whether through leave(), the relay or the network.
+  onClose: () => void;
+  // Observers get the other listeners here instead of as emitters.
+  onPose?: (clientId: string, listener: ListenerPose) => void;
+  onSignal?: (from: string, payload: unknown) => void;
+  // The code a participant reads to a trainer so the trainer console can follow this room.
+  onTrainerCode?: (code: string) => void;
+};
+
+export type SharedWorld = {
+  // Sends a payload to one client, or to everyone else in the room without a target.
+  signal: (payload: unknown, target?: string) => void;
+  leave: () => void;
+};
+
+export const RELAY_PORT = 3001;
+export const PEER_EMITTER_PREFIX = "peer-";
+
+const ENTITY_LISTS = { emitter: "emitters", zone: "zones", wall: "walls" } as const;
+const LIST_KINDS = { emitters: "emitter", zones: "zone", walls: "wall" } as const;
+const ENTITY_KINDS = Object.keys(ENTITY_LISTS) as EntityKind[];
+const POSE_INTERVAL_STEPS = 6;
+const PEER_COLORS = ["#f97316", "#a855f7", "#14b8a6", "#eab308", "#ec4899", "#0ea5e9"];
+
+export function defaultRelayUrl(): string {
+  const configured = process.env.NEXT_PUBLIC_RELAY_URL;
+  if (configured) {
+    return configured;
+  }
+  return `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.hostname}:${RELAY_PORT}`;
+}
+
+export function isPeerEmitter(emitter: SoundEmitter): boolean {
+  return emitter.id.startsWith(PEER_EMITTER_PREFIX);
+}
+
+// Other clients' listeners exist only while connected and are never saved with the scene.
+export function withoutPeers(emitters: SoundEmitter[]): SoundEmitter[] {
+  return emitters.some(isPeerEmitter) ? emitters.filter((emitter) => !isPeerEmitter(emitter)) : emitters;
+}
+
+function peerEmitter(peer: SharedPeer, listener: ListenerPose, index: number): SoundEmitter {
+  return {
+    id: `${PEER_EMITTER_PREFIX}${peer.clientId}`,
+    name: `${peer.name} (listener)`,
+    x: listener.x,
+    z: listener.z,
+    y: listener.heightM,
+    frequency: 880,
+    gain: 0.15,
+    waveform: "triangle",
+    source: { kind: "pulse", rateHz: 2, duty: 0.1 },
+    color: PEER_COLORS[index % PEER_COLORS.length],
+    moving: false,
+    vx: 0,
+    vz: 0,
+    motion: { kind: "bounce" }
+  };
+}
+
+function replaceItem<T extends { id: string }>(items: T[], id: string, value: T | null): T[] {
+  if (value === null) {
+    return items.filter((item) => item.id !== id);
+  }
+  return items.some((item) => item.id === id)
+    ? items.map((item) => (item.id === id ? value : item))
+    : [...items, value];
+}
+
+function splitKey(key: string): { kind: EntityKind; id: string } | null {
+  const separator = key.indexOf(":");
+  const kind = key.slice(0, separator) as EntityKind;
+  return separator > 0 && ENTITY_KINDS.includes(kind) ? { kind, id: key.slice(separator + 1) } : null;
+}
+
+export function joinSharedWorld(
+  simulation: Simulation,
+  options: SharedWorldOptions,
+  handlers: SharedWorldHandlers
+): SharedWorld {
+  const socket = new WebSocket(options.url);
+  const observer = options.role === "observer";
+  // The latest revision of each entity this client has heard about; new edits are based on it.
+  const revisions = new Map<string, number>();
+  const peers = new Map<string, SharedPeer>();
+  const poses = new Map<string, ListenerPose>();
+  let clientId = "";
+  let joined = false;
+  let closed = false;
+  let applying = false;
+  let sentPose: ListenerPose | null = null;
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const peerName = (id: string) => peers.get(id)?.name ?? "someone else";
+
+  // Changes that came from the relay go into the simulation without being published again.
+  const applyRemote = (change: () => void) => {
+    applying = true;
+    try {
+      change();
+    } finally {
+      applying = false;
+    }
+  };
+
+  const setEntity = (kind: EntityKind, id: string, value: SceneItems[EntityKind] | null) => {
+    applyRemote(() => {
+      if (kind === "emitter") {
+        simulation.set("emitters", (prev) => replaceItem(prev, id, value as SoundEmitter | null));
+      } else if (kind === "zone") {
+        simulation.set("zones", (prev) => replaceItem(prev, id, value as SceneItems["zone"] | null));
+      } else {
+        simulation.set("walls", (prev) => replaceItem(prev, id, value as SceneItems["wall"] | null));
+      }
+    });
+  };
+
+  const readEntity = (record: EntityRecord): { kind: EntityKind; id: string; value: SceneItems[EntityKind] | null } => {
+    const parsedKey = splitKey(record.key);
+    if (!parsedKey) {
+      throw new SceneValidationError([`unknown entity ${record.key}`]);
+    }
+    const value = record.value === null ? null : parseSceneItem(parsedKey.kind, record.value);
+    if (value && value.id !== parsedKey.id) {
+      throw new SceneValidationError([`${record.key} carries id ${value.id}`]);
+    }
+    return { ...parsedKey, value };
+  };
+
+  const receiveEntity = (record: EntityRecord): string | null => {
+    revisions.set(record.key, record.rev);
+    try {
+      const entity = readEntity(record);
+      setEntity(entity.kind, entity.id, entity.value);
+      return entity.id;
+    } catch (error) {
+      if (!(error instanceof SceneValidationError)) {
+        throw error;
+      }
+      handlers.onStatus(`Ignored a shared edit. ${error.message}`);
+      return null;
+    }
+  };
+
+  const publish = (kind: EntityKind, previous: Array<{ id: string }>, next: SceneItems[EntityKind][]) => {
+    const before = new Map(previous.map((item) => [item.id, item]));
+    for (const item of next) {
+      const old = before.get(item.id);
+      before.delete(item.id);
+      if (item.id.startsWith(PEER_EMITTER_PREFIX) || old === item) {
+        continue;
+      }
+      if (!old || JSON.stringify(old) !== JSON.stringify(item)) {
+        const key = `${kind}:${item.id}`;
+        send({ type: "put", key, baseRev: revisions.get(key) ?? 0, value: item });
+      }
+    }
+    for (const id of before.keys()) {
+      if (!id.startsWith(PEER_EMITTER_PREFIX)) {
+        const key = `${kind}:${id}`;
+        send({ type: "put", key, baseRev: revisions.get(key) ?? 0, value: null });
+      }
+    }
+  };
+
+  const showPeer = (id: string) => {
+    const peer = peers.get(id);
+    const pose = poses.get(id);
+    if (peer && pose && observer) {
+      handlers.onPose?.(id, pose);
+    } else if (peer && pose) {
+      const emitter = peerEmitter(peer, pose, [...peers.keys()].indexOf(id));
+      applyRemote(() => simulation.set("emitters", (prev) => replaceItem(prev, emitter.id, emitter)));
+    }
+  };
+
+  const receivePose = (id: string, listener: unknown) => {
+    try {
+      poses.set(id, parseListenerPose(listener));
+      showPeer(id);
+    } catch {
+      // A peer that has not walked yet has no pose; a malformed one is simply not shown.
+    }
+  };
+
+  const sendPose = (listener: ListenerPose) => {
+    if (!observer && listener !== sentPose) {
+      sentPose = listener;
+      send({ type: "pose", listener });
+    }
+  };
+
+  const welcome = (message: Extract<RelayMessage, { type: "welcome" }>) => {
+    clientId = message.clientId;
+    joined = true;
+    if (message.trainerCode) {
+      handlers.onTrainerCode?.(message.trainerCode);
+    }
+    for (const peer of message.peers) {
+      peers.set(peer.clientId, { clientId: peer.clientId, name: peer.name, role: peer.role });
+      receivePose(peer.clientId, peer.listener);
+    }
+    handlers.onPeers([...peers.values()]);
+
+    const live = message.entities.filter((record) => record.value !== null);
+    for (const record of message.entities) {
+      revisions.set(record.key, record.rev);
+    }
+    const others = peers.size === 1 ? "1 other" : `${peers.size} others`;
+    if (live.length === 0 && !observer) {
+      const state = simulation.getState();
+      for (const kind of ENTITY_KINDS) {
+        publish(kind, [], state[ENTITY_LISTS[kind]]);
+      }
+      handlers.onStatus(`Joined "${options.room}" with ${others} and shared this world with the room.`);
+    } else {
+      // Whatever the room already holds replaces the local world.
+      const state = simulation.getState();
+      const present = new Set(live.map((record) => record.key));
+      for (const kind of ENTITY_KINDS) {
+        for (const item of state[ENTITY_LISTS[kind]]) {
+          if (!item.id.startsWith(PEER_EMITTER_PREFIX) && !present.has(`${kind}:${item.id}`)) {
+            setEntity(kind, item.id, null);
+          }
+        }
+      }
+      live.forEach(receiveEntity);
+      handlers.onStatus(`Joined "${options.room}" with ${others} and loaded the room's ${live.length} objects.`);
+    }
+    sendPose(simulation.getState().listener);
+  };
+
+  const receive = (message: RelayMessage) => {
+    switch (message.type) {
+      case "welcome":
+        welcome(message);
+        break;
+      case "peer-joined":
+        peers.set(message.clientId, { clientId: message.clientId, name: message.name, role: message.role });
+        handlers.onPeers([...peers.values()]);
+        handlers.onStatus(`${message.name} joined the room.`);
+        // The newcomer hears this listener straight away rather than after the next step.
+        sentPose = null;
+        sendPose(simulation.getState().listener);
+        break;
+      case "peer-left":
+        handlers.onStatus(`${peerName(message.clientId)} left the room.`);
+        peers.delete(message.clientId);
+        poses.delete(message.clientId);
+        setEntity("emitter", `${PEER_EMITTER_PREFIX}${message.clientId}`, null);
+        handlers.onPeers([...peers.values()]);
+        break;
+      case "pose":
+        receivePose(message.clientId, message.listener);
+        break;
+      case "update":
+        // This client's own edits are already applied locally and may have moved on since.
+        if (message.author === clientId) {
+          revisions.set(message.key, message.rev);
+        } else {
+          receiveEntity(message);
+        }
+        break;
+      case "reject": {
+        const id = receiveEntity(message);
+        if (id) {
+          handlers.onStatus(`${id} was changed by ${peerName(message.author)} first, so your edit was undone.`);
+        }
+        break;
+      }
+      case "signal":
+        handlers.onSignal?.(message.from, message.payload);
+        break;
+      case "error":
+        handlers.onStatus(`Relay: ${message.message}`);
+        break;
+    }
+  };
+
+  const unobserve = simulation.observe((event) => {
+    if (!joined || applying) {
+      return;
+    }
+    // "set" and "load" arrive before the simulation commits them, so the current state is what they replace.
+    const state = simulation.getState();
+    if (event.kind === "set") {
+      if (event.key === "listener") {
+        sendPose(event.value);
+      } else if (event.key !== "boundary") {
+        publish(LIST_KINDS[event.key], state[event.key], event.value);
+      }
+    } else if (event.kind === "load") {
+      for (const kind of ENTITY_KINDS) {
+        publish(kind, state[ENTITY_LISTS[kind]], event.state[ENTITY_LISTS[kind]]);
+      }
+    } else if (event.kind === "stepped" && simulation.getStep() % POSE_INTERVAL_STEPS === 0) {
+      sendPose(state.listener);
+      // A scene load replaces every emitter, peers included; they come back here.
+      for (const id of poses.keys()) {
+        if (!state.emitters.some((emitter) => emitter.id === `${PEER_EMITTER_PREFIX}${id}`)) {
+          showPeer(id);
+        }
+      }
+    }
+  });
+
+  const close = (reason: string | null) => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    unobserve();
+    applyRemote(() => simulation.set("emitters", withoutPeers));
+    if (reason) {
+      handlers.onStatus(reason);
+    }
+    handlers.onPeers([]);
+    handlers.onClose();
+  };
+
+  socket.addEventListener("open", () =>
+    send({ type: "join", room: options.room, name: options.name, role: options.role, trainerCode: options.trainerCode })
+  );
+  socket.addEventListener("message", (event) => {
+    try {
+      receive(JSON.parse(String(event.data)) as RelayMessage);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+    }
+  });
+  // A join the relay turns down closes the socket with the reason.
+  socket.addEventListener("close", (event) =>
+    close(joined ? "Lost the connection to the relay." : event.reason || `Could not reach the relay at ${options.url}.`)
+  );
+
+  return {
+    signal: (payload, target) => send({ type: "signal", target, payload }),
+    leave: () => {
+      close(null);
+      socket.close(1000);
+    }
+  };
+}
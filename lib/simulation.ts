@@ -0,0 +1,218 @@
+import { propagationBetween, type Propagation } from "./diffraction";
+import { dopplerFactor, stepEmitter, stepListener, type WalkInput } from "./motion";
+import { DEFAULT_SEED, createRandom } from "./random";
+import { buildSpatialIndex, circleCollides, type SpatialIndex } from "./spatial";
+import type { CollisionZone, HeadOrientation, ListenerPose, SoundEmitter, Wall, WorldBoundary } from "./world";
+
+export type WorldState = {
+  listener: ListenerPose;
+  emitters: SoundEmitter[];
+  zones: CollisionZone[];
+  walls: Wall[];
+  boundary: WorldBoundary;
+};
+
+// `head` comes from an absolute orientation source such as a head tracker and overrides walk turning and tilting.
+export type SimulationControls = {
+  walk: WalkInput | null;
+  head: HeadOrientation | null;
+  moveEmitters: boolean;
+};
+
+// Bodies are "listener" or an emitter id.
+export type StepResult = {
+  state: WorldState;
+  contacts: string[];
+};
+
+export const LISTENER_BODY = "listener";
+
+export type WorldUpdate<T> = T | ((current: T) => T);
+
+// Everything that changes the world, in the order it happened. Recording these is enough to replay a session.
+export type SimulationEvent =
+  | { kind: "step"; controls: SimulationControls }
+  | { kind: "stepped"; contacts: string[] }
+  | { [K in keyof WorldState]: { kind: "set"; key: K; value: WorldState[K] } }[keyof WorldState]
+  | { kind: "load"; state: WorldState };
+
+export type Simulation = {
+  getState: () => WorldState;
+  getTime: () => number;
+  getStep: () => number;
+  subscribe: (onChange: () => void) => () => void;
+  observe: (onEvent: (event: SimulationEvent) => void) => () => void;
+  set: <K extends keyof WorldState>(key: K, update: WorldUpdate<WorldState[K]>) => void;
+  load: (state: WorldState) => void;
+  step: (controls: SimulationControls) => void;
+  advance: (deltaSec: number, controls: SimulationControls) => number;
+  spatialIndex: () => SpatialIndex;
+  propagation: () => Map<string, Propagation>;
+  collides: (x: number, z: number, radius: number) => boolean;
+  isOccluded: (emitterId: string) => boolean;
+  doppler: (emitterId: string) => number;
+  // For edits and tasks. Their results are recorded by value, so they draw from a stream of their own and never
+  // shift the one stepping uses; randomState() is that stepping stream's state.
+  random: () => number;
+  randomState: () => number;
+};
+
+export const FIXED_STEP_SEC = 1 / 60;
+const EDIT_STREAM_SALT = 0x9e3779b9;
+// Longer gaps (a backgrounded tab, a debugger pause) are dropped instead of replayed in one burst.
+const MAX_STEPS_PER_ADVANCE = 5;
+
+export function stepWorld(
+  state: WorldState,
+  controls: SimulationControls,
+  index: SpatialIndex,
+  delta: number,
+  random: () => number
+): StepResult {
+  const { walk, head } = controls;
+  const moving = walk !== null && Object.values(walk).some((rate) => rate !== 0);
+  const turning =
+    head !== null &&
+    (head.headingDeg !== state.listener.headingDeg ||
+      head.pitchDeg !== state.listener.pitchDeg ||
+      head.rollDeg !== state.listener.rollDeg);
+  if (!moving && !turning && !controls.moveEmitters) {
+    return { state, contacts: [] };
+  }
+
+  const contacts: string[] = [];
+  let { listener, emitters } = state;
+  if (turning) {
+    listener = { ...listener, ...head };
+  }
+  if (moving) {
+    const moved = stepListener(listener, walk, index, delta);
+    listener = moved.next;
+    if (moved.contact) {
+      contacts.push(LISTENER_BODY);
+    }
+  }
+  if (controls.moveEmitters) {
+    emitters = emitters.map((emitter) => {
+      const moved = stepEmitter(emitter, listener, index, delta, random);
+      if (moved.contact) {
+        contacts.push(emitter.id);
+      }
+      return moved.next;
+    });
+  }
+  return { state: { ...state, listener, emitters }, contacts };
+}
+
+// A framework-free world model. UIs subscribe to it, scripts and renderers step it directly; derived data is cached
+// per state so repeated queries within one step are free.
+export function createSimulation(initial: WorldState, seed = DEFAULT_SEED): Simulation {
+  let state = initial;
+  let stepCount = 0;
+  let pending = 0;
+  const rng = createRandom(seed);
+  const editRng = createRandom(seed ^ EDIT_STREAM_SALT);
+  const subscribers = new Set<() => void>();
+  const observers = new Set<(event: SimulationEvent) => void>();
+
+  let indexCache: { walls: Wall[]; zones: CollisionZone[]; boundary: WorldBoundary; index: SpatialIndex } | null =
+    null;
+  let propagationCache: { state: WorldState; paths: Map<string, Propagation> } | null = null;
+
+  const emit = (event: SimulationEvent) => {
+    for (const onEvent of observers) {
+      onEvent(event);
+    }
+  };
+
+  const commit = (next: WorldState) => {
+    if (next === state) {
+      return;
+    }
+    state = next;
+    for (const onChange of subscribers) {
+      onChange();
+    }
+  };
+
+  const spatialIndex = () => {
+    const { walls, zones, boundary } = state;
+    if (!indexCache || indexCache.walls !== walls || indexCache.zones !== zones || indexCache.boundary !== boundary) {
+      indexCache = { walls, zones, boundary, index: buildSpatialIndex(walls, zones, boundary) };
+    }
+    return indexCache.index;
+  };
+
+  const propagation = () => {
+    if (!propagationCache || propagationCache.state !== state) {
+      const index = spatialIndex();
+      const paths = new Map<string, Propagation>();
+      for (const emitter of state.emitters) {
+        paths.set(emitter.id, propagationBetween(state.listener, emitter, index));
+      }
+      propagationCache = { state, paths };
+    }
+    return propagationCache.paths;
+  };
+
+  const step = (controls: SimulationControls) => {
+    emit({ kind: "step", controls });
+    stepCount += 1;
+    const result = stepWorld(state, controls, spatialIndex(), FIXED_STEP_SEC, rng.next);
+    commit(result.state);
+    emit({ kind: "stepped", contacts: result.contacts });
+  };
+
+  return {
+    getState: () => state,
+    // Counted in whole steps so the clock never drifts from the step index.
+    getTime: () => stepCount * FIXED_STEP_SEC,
+    getStep: () => stepCount,
+    subscribe: (onChange) => {
+      subscribers.add(onChange);
+      return () => {
+        subscribers.delete(onChange);
+      };
+    },
+    observe: (onEvent) => {
+      observers.add(onEvent);
+      return () => {
+        observers.delete(onEvent);
+      };
+    },
+    set: (key, update) => {
+      const current = state[key];
+      const next = typeof update === "function" ? update(current) : update;
+      if (next !== current) {
+        emit({ kind: "set", key, value: next } as SimulationEvent);
+        commit({ ...state, [key]: next });
+      }
+    },
+    load: (next) => {
+      pending = 0;
+      emit({ kind: "load", state: next });
+      commit(next);
+    },
+    step,
+    advance: (deltaSec, controls) => {
+      pending = Math.min(pending + Math.max(0, deltaSec), MAX_STEPS_PER_ADVANCE * FIXED_STEP_SEC);
+      let steps = 0;
+      while (pending >= FIXED_STEP_SEC) {
+        pending -= FIXED_STEP_SEC;
+        step(controls);
+        steps += 1;
+      }
+      return steps;
+    },
+    spatialIndex,
+    propagation,
+    collides: (x, z, radius) => circleCollides(spatialIndex(), x, z, radius),
+    isOccluded: (emitterId) => (propagation().get(emitterId)?.crossings ?? 0) > 0,
+    doppler: (emitterId) => {
+      const emitter = state.emitters.find((candidate) => candidate.id === emitterId);
+      return emitter ? dopplerFactor(state.listener, emitter) : 1;
+    },
+    random: editRng.next,
+    randomState: rng.state
+  };
+}
@@ -0,0 +1,141 @@
+import { Hdf5FormatError, openHdf5, type Hdf5Dataset, type Hdf5Group, type Hdf5Value } from "./hdf5";
+import { clamp, toDegrees } from "./world";
+
+// One measured direction. Azimuth follows SOFA: counterclockwise from straight ahead, so +90 is the left ear.
+export type HrirMeasurement = {
+  azimuthDeg: number;
+  elevationDeg: number;
+  left: Float32Array;
+  right: Float32Array;
+};
+
+export type HrirSet = {
+  title: string;
+  sampleRate: number;
+  taps: number;
+  measurements: HrirMeasurement[];
+};
+
+export type HrtfAsset = {
+  id: string;
+  name: string;
+  origin: "bundled" | "upload";
+  url: string | null;
+};
+
+export const BUNDLED_HRTFS: HrtfAsset[] = [
+  { id: "small-head", name: "Model: Small Head", origin: "bundled", url: "/hrtf/small-head.sofa" },
+  { id: "medium-head", name: "Model: Medium Head", origin: "bundled", url: "/hrtf/medium-head.sofa" },
+  { id: "large-head", name: "Model: Large Head", origin: "bundled", url: "/hrtf/large-head.sofa" }
+];
+
+export const DEFAULT_HRTF_ID = "medium-head";
+// Free-field HRIRs carry almost nothing after a few milliseconds; longer responses are cut to keep convolution cheap.
+export const MAX_HRIR_TAPS = 1024;
+
+const SUPPORTED_CONVENTIONS = ["SimpleFreeFieldHRIR", "GeneralFIR"];
+
+export class SofaFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SofaFormatError";
+  }
+}
+
+function textAttribute(value: Hdf5Value | undefined): string {
+  return value && typeof value[0] === "string" ? value.join("") : "";
+}
+
+function requireDataset(root: Hdf5Group, name: string): Hdf5Dataset {
+  const node = root.children.get(name);
+  if (!node || node.kind !== "dataset") {
+    throw new SofaFormatError(`SOFA file has no ${name} variable.`);
+  }
+  return node;
+}
+
+// SOFA allows per-measurement variables to be stored once and shared by every measurement.
+function rowOf(values: Float64Array, shape: number[], measurement: number, columns: number): Float64Array {
+  const row = shape[0] === 1 ? 0 : measurement;
+  return values.subarray(row * columns, (row + 1) * columns);
+}
+
+function sphericalPosition(position: Float64Array, type: string): { azimuthDeg: number; elevationDeg: number } {
+  if (type === "cartesian") {
+    const [x, y, z] = position;
+    return { azimuthDeg: toDegrees(Math.atan2(y, x)), elevationDeg: toDegrees(Math.atan2(z, Math.hypot(x, y))) };
+  }
+  return { azimuthDeg: position[0], elevationDeg: position[1] };
+}
+
+export async function parseSofa(buffer: ArrayBuffer): Promise<HrirSet> {
+  let root: Hdf5Group;
+  try {
+    root = openHdf5(buffer);
+  } catch (error) {
+    if (error instanceof Hdf5FormatError) {
+      throw new SofaFormatError(`Not a readable SOFA file: ${error.message}`);
+    }
+    throw error;
+  }
+
+  const conventions = textAttribute(root.attributes.get("SOFAConventions"));
+  if (textAttribute(root.attributes.get("Conventions")) !== "SOFA" || !conventions) {
+    throw new SofaFormatError("File is HDF5 but not a SOFA file.");
+  }
+  if (!SUPPORTED_CONVENTIONS.includes(conventions)) {
+    throw new SofaFormatError(`SOFA convention ${conventions} is not an HRIR set.`);
+  }
+
+  const ir = requireDataset(root, "Data.IR");
+  const [count, receivers, length] = ir.shape;
+  if (ir.shape.length !== 3 || receivers !== 2 || !count || !length) {
+    throw new SofaFormatError("SOFA Data.IR must hold two-ear impulse responses.");
+  }
+  const sampleRate = (await requireDataset(root, "Data.SamplingRate").readNumbers())[0];
+  if (!Number.isFinite(sampleRate) || sampleRate <= 0) {
+    throw new SofaFormatError("SOFA sampling rate is missing or invalid.");
+  }
+
+  const source = requireDataset(root, "SourcePosition");
+  if (source.shape[1] !== 3 || (source.shape[0] !== 1 && source.shape[0] !== count)) {
+    throw new SofaFormatError("SOFA SourcePosition does not match Data.IR.");
+  }
+  const positionType = textAttribute(source.attributes.get("Type")).toLowerCase();
+  const positions = await source.readNumbers();
+
+  // Broadband delays are folded back into the responses so interpolation only ever sees plain impulse responses.
+  const delayNode = root.children.get("Data.Delay");
+  const delays = delayNode?.kind === "dataset" ? await delayNode.readNumbers() : new Float64Array(2);
+  const delayShape = delayNode?.kind === "dataset" ? delayNode.shape : [1, 2];
+  const maxDelay = Math.max(0, ...Array.from(delays, (delay) => Math.round(delay)));
+  const taps = Math.min(MAX_HRIR_TAPS, length + maxDelay);
+
+  const samples = await ir.readNumbers();
+  const measurements: HrirMeasurement[] = [];
+  for (let m = 0; m < count; m += 1) {
+    const delay = rowOf(delays, delayShape, m, 2);
+    const [left, right] = [0, 1].map((ear) => {
+      const response = new Float32Array(taps);
+      const offset = clamp(Math.round(delay[ear] ?? 0), 0, taps);
+      const start = (m * 2 + ear) * length;
+      response.set(samples.subarray(start, start + Math.min(length, taps - offset)), offset);
+      return response;
+    });
+    measurements.push({ ...sphericalPosition(rowOf(positions, source.shape, m, 3), positionType), left, right });
+  }
+
+  const title =
+    textAttribute(root.attributes.get("Title")) ||
+    textAttribute(root.attributes.get("ListenerShortName")) ||
+    "Untitled SOFA set";
+  return { title, sampleRate, taps, measurements };
+}
+
+export async function fetchHrtf(url: string): Promise<HrirSet> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Unable to load HRTF ${url} (${response.status}).`);
+  }
+  return parseSofa(await response.arrayBuffer());
+}
@@ -0,0 +1,263 @@
+import { clamp, type EmitterSource, type NoiseColor, type ProceduralSource, type SoundEmitter } from "./world";
+
+export type SourceKind = EmitterSource["kind"];
+
+export const SOURCE_OPTIONS: Array<{ kind: SourceKind; label: string }> = [
+  { kind: "tone", label: "Tone" },
+  { kind: "noise", label: "Noise" },
+  { kind: "bandNoise", label: "Band-limited noise" },
+  { kind: "pulse", label: "Pulsed beeps" },
+  { kind: "chirp", label: "FM chirp" },
+  { kind: "pattern", label: "Rhythmic pattern" },
+  { kind: "sample", label: "Sample" }
+];
+
+export const NOISE_COLORS: NoiseColor[] = ["white", "pink", "brown"];
+
+export const PATTERN_STEPS_PATTERN = /^[x.]{1,32}$/;
+
+export const SOURCE_LIMITS = {
+  bandCenterHz: { min: 100, max: 8000 },
+  bandwidthOct: { min: 0.1, max: 4 },
+  pulseRateHz: { min: 0.5, max: 20 },
+  duty: { min: 0.05, max: 0.95 },
+  chirpHz: { min: 100, max: 8000 },
+  sweepSec: { min: 0.02, max: 2 },
+  intervalSec: { min: 0.1, max: 5 },
+  bpm: { min: 40, max: 240 }
+};
+
+const NOISE_LOOP_SEC = 4;
+const LOOP_CROSSFADE_SEC = 0.25;
+const GATE_RAMP_SEC = 0.004;
+const NOISE_TARGET_RMS = 0.3;
+
+export function isProceduralSource(source: EmitterSource): source is ProceduralSource {
+  return source.kind !== "tone" && source.kind !== "sample";
+}
+
+export function defaultProceduralSource(kind: ProceduralSource["kind"]): ProceduralSource {
+  switch (kind) {
+    case "noise":
+      return { kind, color: "pink" };
+    case "bandNoise":
+      return { kind, centerHz: 1000, bandwidthOct: 1 };
+    case "pulse":
+      return { kind, rateHz: 4, duty: 0.3 };
+    case "chirp":
+      return { kind, startHz: 600, endHz: 3200, sweepSec: 0.12, intervalSec: 0.8 };
+    case "pattern":
+      return { kind, steps: "x..x..x.x.......", bpm: 110 };
+  }
+}
+
+export function describeProceduralSource(source: ProceduralSource): string {
+  switch (source.kind) {
+    case "noise":
+      return `${source.color[0].toUpperCase()}${source.color.slice(1)} noise`;
+    case "bandNoise":
+      return `Noise ${source.centerHz.toFixed(0)} Hz / ${source.bandwidthOct.toFixed(1)} oct`;
+    case "pulse":
+      return `Beeps ${source.rateHz.toFixed(1)} Hz`;
+    case "chirp":
+      return `Chirp ${source.startHz.toFixed(0)}-${source.endHz.toFixed(0)} Hz`;
+    case "pattern":
+      return `Pattern ${source.bpm.toFixed(0)} bpm`;
+  }
+}
+
+// Covers only what is baked into the rendered buffer, so e.g. pitch changes do not re-render noise.
+export function proceduralSourceKey(emitter: SoundEmitter, source: ProceduralSource): string {
+  const carrier = source.kind === "noise" || source.kind === "bandNoise" ? "" : emitter.waveform;
+  const pitch = source.kind === "pulse" || source.kind === "pattern" ? emitter.frequency : "";
+  return `${JSON.stringify(source)}:${carrier}:${pitch}`;
+}
+
+function carrierSample(waveform: OscillatorType, phase: number): number {
+  const cycle = phase - Math.floor(phase);
+  switch (waveform) {
+    case "square":
+      return cycle < 0.5 ? 1 : -1;
+    case "sawtooth":
+      return 2 * cycle - 1;
+    case "triangle":
+      return 1 - 4 * Math.abs(cycle - 0.5);
+    default:
+      return Math.sin(2 * Math.PI * cycle);
+  }
+}
+
+function gate(t: number, length: number): number {
+  return clamp(Math.min(t, length - t) / GATE_RAMP_SEC, 0, 1);
+}
+
+function whiteNoise(length: number, random: () => number): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i += 1) {
+    samples[i] = random() * 2 - 1;
+  }
+  return samples;
+}
+
+// Paul Kellet's pink filter and a leaky integrator for brown noise.
+function colorNoise(samples: Float32Array, color: NoiseColor): void {
+  if (color === "pink") {
+    let b0 = 0;
+    let b1 = 0;
+    let b2 = 0;
+    let b3 = 0;
+    let b4 = 0;
+    let b5 = 0;
+    let b6 = 0;
+    for (let i = 0; i < samples.length; i += 1) {
+      const white = samples[i];
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      samples[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+      b6 = white * 0.115926;
+    }
+  } else if (color === "brown") {
+    let last = 0;
+    for (let i = 0; i < samples.length; i += 1) {
+      last = (last + 0.02 * samples[i]) / 1.02;
+      samples[i] = last;
+    }
+  }
+}
+
+function bandpass(samples: Float32Array, sampleRate: number, centerHz: number, bandwidthOct: number): void {
+  const w0 = (2 * Math.PI * clamp(centerHz, 20, sampleRate * 0.45)) / sampleRate;
+  const alpha = Math.sin(w0) * Math.sinh(((Math.LN2 / 2) * bandwidthOct * w0) / Math.sin(w0));
+  const a0 = 1 + alpha;
+  const b0 = alpha / a0;
+  const a1 = (-2 * Math.cos(w0)) / a0;
+  const a2 = (1 - alpha) / a0;
+  // Two passes give a steeper skirt than a single second-order section.
+  for (let pass = 0; pass < 2; pass += 1) {
+    let x1 = 0;
+    let x2 = 0;
+    let y1 = 0;
+    let y2 = 0;
+    for (let i = 0; i < samples.length; i += 1) {
+      const x = samples[i];
+      const y = b0 * x - b0 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = x;
+      y2 = y1;
+      y1 = y;
+      samples[i] = y;
+    }
+  }
+}
+
+// Renders `fade` extra samples and blends them into the head so the loop point has no seam.
+function crossfadeLoop(samples: Float32Array, fade: number): Float32Array {
+  const length = samples.length - fade;
+  const looped = samples.slice(0, length);
+  for (let i = 0; i < fade; i += 1) {
+    const mix = i / fade;
+    looped[i] = looped[i] * mix + samples[length + i] * (1 - mix);
+  }
+  return looped;
+}
+
+function normalizeRms(samples: Float32Array, target: number): void {
+  let sum = 0;
+  let peak = 0;
+  for (const value of samples) {
+    sum += value * value;
+    peak = Math.max(peak, Math.abs(value));
+  }
+  const rms = Math.sqrt(sum / Math.max(1, samples.length));
+  if (rms === 0) {
+    return;
+  }
+  const scale = Math.min(target / rms, 1 / peak);
+  for (let i = 0; i < samples.length; i += 1) {
+    samples[i] *= scale;
+  }
+}
+
+function renderSamples(
+  emitter: SoundEmitter,
+  source: ProceduralSource,
+  sampleRate: number,
+  random: () => number
+): Float32Array {
+  switch (source.kind) {
+    case "noise":
+    case "bandNoise": {
+      const fade = Math.round(LOOP_CROSSFADE_SEC * sampleRate);
+      const samples = whiteNoise(Math.round(NOISE_LOOP_SEC * sampleRate) + fade, random);
+      if (source.kind === "noise") {
+        colorNoise(samples, source.color);
+      } else {
+        bandpass(samples, sampleRate, source.centerHz, source.bandwidthOct);
+      }
+      const looped = crossfadeLoop(samples, fade);
+      normalizeRms(looped, NOISE_TARGET_RMS);
+      return looped;
+    }
+    case "pulse": {
+      const period = 1 / clamp(source.rateHz, SOURCE_LIMITS.pulseRateHz.min, SOURCE_LIMITS.pulseRateHz.max);
+      const on = period * clamp(source.duty, SOURCE_LIMITS.duty.min, SOURCE_LIMITS.duty.max);
+      const samples = new Float32Array(Math.max(1, Math.round(period * sampleRate)));
+      for (let i = 0; i < samples.length; i += 1) {
+        const t = i / sampleRate;
+        samples[i] = t < on ? carrierSample(emitter.waveform, emitter.frequency * t) * gate(t, on) : 0;
+      }
+      return samples;
+    }
+    case "chirp": {
+      const sweep = clamp(source.sweepSec, SOURCE_LIMITS.sweepSec.min, SOURCE_LIMITS.sweepSec.max);
+      const interval = Math.max(
+        sweep,
+        clamp(source.intervalSec, SOURCE_LIMITS.intervalSec.min, SOURCE_LIMITS.intervalSec.max)
+      );
+      const samples = new Float32Array(Math.max(1, Math.round(interval * sampleRate)));
+      let phase = 0;
+      for (let i = 0; i < samples.length; i += 1) {
+        const t = i / sampleRate;
+        if (t >= sweep) {
+          break;
+        }
+        phase += (source.startHz + (source.endHz - source.startHz) * (t / sweep)) / sampleRate;
+        samples[i] = carrierSample(emitter.waveform, phase) * gate(t, sweep);
+      }
+      return samples;
+    }
+    case "pattern": {
+      const stepSec = 60 / clamp(source.bpm, SOURCE_LIMITS.bpm.min, SOURCE_LIMITS.bpm.max) / 4;
+      const hitSec = Math.min(stepSec * 0.9, 0.12);
+      const samples = new Float32Array(Math.max(1, Math.round(source.steps.length * stepSec * sampleRate)));
+      [...source.steps].forEach((step, index) => {
+        if (step !== "x") {
+          return;
+        }
+        const start = Math.round(index * stepSec * sampleRate);
+        for (let i = 0; i < hitSec * sampleRate && start + i < samples.length; i += 1) {
+          const t = i / sampleRate;
+          const envelope = Math.min(1, t / GATE_RAMP_SEC) * Math.exp((-5 * t) / hitSec) * gate(t, hitSec);
+          samples[start + i] = carrierSample(emitter.waveform, emitter.frequency * t) * envelope;
+        }
+      });
+      return samples;
+    }
+  }
+}
+
+export function renderProceduralSource(
+  context: BaseAudioContext,
+  emitter: SoundEmitter,
+  source: ProceduralSource,
+  random: () => number
+): AudioBuffer {
+  const samples = renderSamples(emitter, source, context.sampleRate, random);
+  const buffer = context.createBuffer(1, samples.length, context.sampleRate);
+  buffer.getChannelData(0).set(samples);
+  return buffer;
+}
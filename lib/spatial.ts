@@ -0,0 +1,322 @@
+import {
+  circleTouchesWall,
+  insideBoundary,
+  pullInsideBoundary,
+  rayBoundaryExit,
+  rayCircle,
+  rayWall,
+  segmentCrossesWall,
+  segmentIntersectsCircle,
+  segmentIntersectsRect,
+  sweepCircleBoundary,
+  sweepCircleCircle,
+  sweepCircleWall,
+  wallBounds,
+  type Bounds,
+  type SurfaceHit
+} from "./geometry";
+import type { AcousticMaterial } from "./materials";
+import {
+  DEFAULT_BOUNDARY,
+  WORLD_RADIUS_M,
+  type CollisionZone,
+  type PlanPoint,
+  type Wall,
+  type WorldBoundary
+} from "./world";
+
+export type ObstacleSet = {
+  walls: Wall[];
+  zones: CollisionZone[];
+};
+
+// Visitors return true to stop the walk early. Open doors are left out, so nothing collides with or is muffled by
+// them.
+export type SpatialIndex = ObstacleSet & {
+  boundary: WorldBoundary;
+  visitCapsule: (
+    ax: number,
+    az: number,
+    bx: number,
+    bz: number,
+    radius: number,
+    onWall: (wall: Wall) => boolean | void,
+    onZone: (zone: CollisionZone) => boolean | void
+  ) => void;
+  queryCapsule: (ax: number, az: number, bx: number, bz: number, radius: number) => ObstacleSet;
+};
+
+export type RayHit = SurfaceHit & {
+  kind: "wall" | "zone" | "boundary";
+  material: AcousticMaterial | null;
+};
+
+export type SlideResult = {
+  x: number;
+  z: number;
+  hit: SurfaceHit | null;
+};
+
+const DEFAULT_CELL_SIZE_M = 2;
+const CONTACT_SKIN_M = 1e-3;
+const OPEN_SPOT_STEP_M = 0.25;
+const OPEN_SPOT_SEARCH_M = 4;
+const OPEN_SPOT_DIRECTIONS = 16;
+
+export function buildSpatialIndex(
+  allWalls: Wall[],
+  zones: CollisionZone[],
+  boundary: WorldBoundary = DEFAULT_BOUNDARY,
+  cellSize = DEFAULT_CELL_SIZE_M
+): SpatialIndex {
+  const walls = allWalls.filter((wall) => !wall.door?.open);
+  const columns = Math.ceil((WORLD_RADIUS_M * 2) / cellSize);
+  const cells = Array.from({ length: columns * columns }, () => ({ walls: [] as number[], zones: [] as number[] }));
+  const wallStamps = new Uint32Array(walls.length);
+  const zoneStamps = new Uint32Array(zones.length);
+  let stamp = 0;
+
+  const cellIndex = (value: number) =>
+    Math.min(columns - 1, Math.max(0, Math.floor((value + WORLD_RADIUS_M) / cellSize)));
+
+  const insert = (bounds: Bounds, add: (cell: { walls: number[]; zones: number[] }) => void) => {
+    for (let row = cellIndex(bounds.top); row <= cellIndex(bounds.bottom); row += 1) {
+      for (let column = cellIndex(bounds.left); column <= cellIndex(bounds.right); column += 1) {
+        add(cells[row * columns + column]);
+      }
+    }
+  };
+
+  walls.forEach((wall, index) => insert(wallBounds(wall), (cell) => cell.walls.push(index)));
+  zones.forEach((zone, index) =>
+    insert(
+      { left: zone.x - zone.radius, right: zone.x + zone.radius, top: zone.z - zone.radius, bottom: zone.z + zone.radius },
+      (cell) => cell.zones.push(index)
+    )
+  );
+
+  const visitCapsule: SpatialIndex["visitCapsule"] = (ax, az, bx, bz, radius, onWall, onZone) => {
+    stamp += 1;
+    const minRow = cellIndex(Math.min(az, bz) - radius);
+    const maxRow = cellIndex(Math.max(az, bz) + radius);
+    const minColumn = cellIndex(Math.min(ax, bx) - radius);
+    const maxColumn = cellIndex(Math.max(ax, bx) + radius);
+
+    for (let row = minRow; row <= maxRow; row += 1) {
+      for (let column = minColumn; column <= maxColumn; column += 1) {
+        const left = column * cellSize - WORLD_RADIUS_M;
+        const top = row * cellSize - WORLD_RADIUS_M;
+        // Edge cells also hold everything clamped into them from outside the grid.
+        const reaches = segmentIntersectsRect(
+          ax,
+          az,
+          bx,
+          bz,
+          column === 0 ? Number.NEGATIVE_INFINITY : left - radius,
+          row === 0 ? Number.NEGATIVE_INFINITY : top - radius,
+          column === columns - 1 ? Number.POSITIVE_INFINITY : left + cellSize + radius,
+          row === columns - 1 ? Number.POSITIVE_INFINITY : top + cellSize + radius
+        );
+        if (!reaches) {
+          continue;
+        }
+        const cell = cells[row * columns + column];
+        for (const index of cell.walls) {
+          if (wallStamps[index] !== stamp) {
+            wallStamps[index] = stamp;
+            if (onWall(walls[index])) {
+              return;
+            }
+          }
+        }
+        for (const index of cell.zones) {
+          if (zoneStamps[index] !== stamp) {
+            zoneStamps[index] = stamp;
+            if (onZone(zones[index])) {
+              return;
+            }
+          }
+        }
+      }
+    }
+  };
+
+  const queryCapsule = (ax: number, az: number, bx: number, bz: number, radius: number): ObstacleSet => {
+    const found: ObstacleSet = { walls: [], zones: [] };
+    visitCapsule(
+      ax,
+      az,
+      bx,
+      bz,
+      radius,
+      (wall) => {
+        found.walls.push(wall);
+      },
+      (zone) => {
+        found.zones.push(zone);
+      }
+    );
+    return found;
+  };
+
+  return { walls, zones, boundary, visitCapsule, queryCapsule };
+}
+
+export function circleCollides(index: SpatialIndex, x: number, z: number, radius: number): boolean {
+  if (!insideBoundary(index.boundary, x, z, radius)) {
+    return true;
+  }
+  const nearby = index.queryCapsule(x, z, x, z, radius);
+  for (const zone of nearby.zones) {
+    if (Math.hypot(x - zone.x, z - zone.z) <= zone.radius + radius) {
+      return true;
+    }
+  }
+  for (const wall of nearby.walls) {
+    if (circleTouchesWall(wall, x, z, radius)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Where a circle placed at (x, z) can actually be: the point itself, pulled inside the boundary, when nothing is in
+// the way, otherwise the nearest clear point on rings around it. Null when nothing within a few meters is clear.
+export function openSpotNear(index: SpatialIndex, x: number, z: number, radius: number): PlanPoint | null {
+  const start = pullInsideBoundary(index.boundary, x, z, radius);
+  for (let ring = 0; ring * OPEN_SPOT_STEP_M <= OPEN_SPOT_SEARCH_M; ring += 1) {
+    const distance = ring * OPEN_SPOT_STEP_M;
+    const count = ring === 0 ? 1 : OPEN_SPOT_DIRECTIONS;
+    for (let step = 0; step < count; step += 1) {
+      const angle = (step / count) * Math.PI * 2;
+      const spot = { x: start.x + Math.cos(angle) * distance, z: start.z + Math.sin(angle) * distance };
+      if (!circleCollides(index, spot.x, spot.z, radius)) {
+        return spot;
+      }
+    }
+  }
+  return null;
+}
+
+export function segmentCrossings(index: SpatialIndex, ax: number, az: number, bx: number, bz: number): ObstacleSet {
+  const nearby = index.queryCapsule(ax, az, bx, bz, 0);
+  return {
+    walls: nearby.walls.filter((wall) => segmentCrossesWall(wall, ax, az, bx, bz)),
+    zones: nearby.zones.filter((zone) => segmentIntersectsCircle(ax, az, bx, bz, zone.x, zone.z, zone.radius))
+  };
+}
+
+export function segmentIsClear(index: SpatialIndex, ax: number, az: number, bx: number, bz: number): boolean {
+  let clear = true;
+  index.visitCapsule(
+    ax,
+    az,
+    bx,
+    bz,
+    0,
+    (wall) => {
+      clear = !segmentCrossesWall(wall, ax, az, bx, bz);
+      return !clear;
+    },
+    (zone) => {
+      clear = !segmentIntersectsCircle(ax, az, bx, bz, zone.x, zone.z, zone.radius);
+      return !clear;
+    }
+  );
+  return clear;
+}
+
+export function castRay(index: SpatialIndex, ox: number, oz: number, dx: number, dz: number): RayHit | null {
+  const boundary = rayBoundaryExit(index.boundary, ox, oz, dx, dz);
+  let nearest: RayHit | null = boundary ? { ...boundary, kind: "boundary", material: null } : null;
+  const reach = nearest ? nearest.t : WORLD_RADIUS_M * 2;
+  const nearby = index.queryCapsule(ox, oz, ox + dx * reach, oz + dz * reach, 0);
+
+  for (const wall of nearby.walls) {
+    const hit = rayWall(wall, ox, oz, dx, dz);
+    if (hit && (!nearest || hit.t < nearest.t)) {
+      nearest = { ...hit, kind: "wall", material: wall.material };
+    }
+  }
+  for (const zone of nearby.zones) {
+    const hit = rayCircle(ox, oz, dx, dz, zone.x, zone.z, zone.radius);
+    if (hit && (!nearest || hit.t < nearest.t)) {
+      nearest = { ...hit, kind: "zone", material: zone.material };
+    }
+  }
+  return nearest;
+}
+
+export function sweepCircle(
+  index: SpatialIndex,
+  x: number,
+  z: number,
+  dx: number,
+  dz: number,
+  radius: number
+): SurfaceHit | null {
+  let nearest = sweepCircleBoundary(index.boundary, x, z, dx, dz, radius);
+  if (nearest && nearest.t > 1) {
+    nearest = null;
+  }
+
+  const nearby = index.queryCapsule(x, z, x + dx, z + dz, radius);
+  for (const zone of nearby.zones) {
+    const hit = sweepCircleCircle(x, z, dx, dz, radius, zone.x, zone.z, zone.radius);
+    if (hit && hit.t <= 1 && (!nearest || hit.t < nearest.t)) {
+      nearest = hit;
+    }
+  }
+  for (const wall of nearby.walls) {
+    const hit = sweepCircleWall(wall, x, z, dx, dz, radius);
+    if (hit && hit.t <= 1 && (!nearest || hit.t < nearest.t)) {
+      nearest = hit;
+    }
+  }
+  return nearest;
+}
+
+function advance(x: number, z: number, dx: number, dz: number, hit: SurfaceHit): { x: number; z: number } {
+  const length = Math.hypot(dx, dz);
+  if (length < 1e-12) {
+    return { x, z };
+  }
+  const travel = Math.max(0, hit.t * length - CONTACT_SKIN_M) / length;
+  return { x: x + dx * travel, z: z + dz * travel };
+}
+
+export function moveCircle(
+  index: SpatialIndex,
+  x: number,
+  z: number,
+  dx: number,
+  dz: number,
+  radius: number
+): SlideResult {
+  const hit = sweepCircle(index, x, z, dx, dz, radius);
+  if (!hit) {
+    return { x: x + dx, z: z + dz, hit: null };
+  }
+  return { ...advance(x, z, dx, dz, hit), hit };
+}
+
+export function slideCircle(
+  index: SpatialIndex,
+  x: number,
+  z: number,
+  dx: number,
+  dz: number,
+  radius: number
+): SlideResult {
+  const first = moveCircle(index, x, z, dx, dz, radius);
+  if (!first.hit) {
+    return first;
+  }
+
+  const remaining = 1 - first.hit.t;
+  const into = (dx * first.hit.nx + dz * first.hit.nz) * remaining;
+  const slideX = dx * remaining - first.hit.nx * into;
+  const slideZ = dz * remaining - first.hit.nz * into;
+  const second = moveCircle(index, first.x, first.z, slideX, slideZ, radius);
+  return { x: second.x, z: second.z, hit: first.hit };
+}
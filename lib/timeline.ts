@@ -0,0 +1,254 @@
+import { circleTouchesWall } from "./geometry";
+import { PLAYER_RADIUS_M } from "./motion";
+import { FIXED_STEP_SEC, LISTENER_BODY, type Simulation, type WorldState } from "./simulation";
+import { WORLD_RADIUS_M, type Wall } from "./world";
+
+// Scripted events for story-driven scenes, such as a car that approaches once the listener reaches the crossing. A
+// running timeline watches the simulation's steps and applies actions through `simulation.set`, so recordings replay
+// what it did without running the script again.
+
+export type TimelineTrigger =
+  | { kind: "time"; atSec: number }
+  | { kind: "region"; x: number; z: number; radiusM: number }
+  | { kind: "proximity"; emitterId: string; distanceM: number }
+  // A null obstacle means a bump into anything, including the world edge.
+  | { kind: "collision"; obstacleId: string | null };
+
+// Starting an emitter sets it sounding at `gain` and moving, from the top of its path; stopping silences and parks it.
+export type TimelineAction =
+  | { kind: "startEmitter"; emitterId: string; gain: number }
+  | { kind: "stopEmitter"; emitterId: string }
+  | { kind: "frequency"; emitterId: string; frequency: number }
+  | { kind: "gain"; emitterId: string; gain: number }
+  | { kind: "waveform"; emitterId: string; waveform: OscillatorType }
+  | { kind: "moveObstacle"; obstacleId: string; x: number; z: number }
+  | { kind: "door"; wallId: string; open: boolean }
+  | { kind: "status"; message: string };
+
+// Events fire when their trigger becomes true. With `repeat` they fire again every time it does, e.g. on each visit
+// to a region.
+export type TimelineEvent = {
+  id: string;
+  label: string;
+  trigger: TimelineTrigger;
+  actions: TimelineAction[];
+  repeat: boolean;
+};
+
+export type TriggerKind = TimelineTrigger["kind"];
+export type ActionKind = TimelineAction["kind"];
+
+export type TimelineRunner = {
+  elapsedSec: () => number;
+  stop: () => void;
+};
+
+export type TimelineCallbacks = {
+  onFire: (event: TimelineEvent, atSec: number) => void;
+  onStatus: (message: string) => void;
+  onStop: () => void;
+};
+
+export const TRIGGER_OPTIONS: Array<{ kind: TriggerKind; label: string }> = [
+  { kind: "time", label: "At a time" },
+  { kind: "region", label: "Listener enters a region" },
+  { kind: "proximity", label: "Listener nears an emitter" },
+  { kind: "collision", label: "Listener bumps into an obstacle" }
+];
+
+export const ACTION_OPTIONS: Array<{ kind: ActionKind; label: string }> = [
+  { kind: "startEmitter", label: "Start emitter" },
+  { kind: "stopEmitter", label: "Stop emitter" },
+  { kind: "frequency", label: "Set frequency" },
+  { kind: "gain", label: "Set loudness" },
+  { kind: "waveform", label: "Set waveform" },
+  { kind: "moveObstacle", label: "Move obstacle" },
+  { kind: "door", label: "Open or close door" },
+  { kind: "status", label: "Show message" }
+];
+
+export const TIMELINE_LIMITS = {
+  atSec: { min: 0, max: 600 },
+  regionRadiusM: { min: 0.5, max: WORLD_RADIUS_M },
+  proximityM: { min: 0.5, max: 20 },
+  frequency: { min: 20, max: 20000 },
+  gain: { min: 0, max: 1 }
+};
+
+export const MAX_STATUS_LENGTH = 200;
+
+// A body pressed against an obstacle sits a contact skin away from it.
+const TOUCH_TOLERANCE_M = 0.05;
+
+// Where new triggers and actions point before they are edited: the listener's spot and the first emitter, obstacle
+// or door in the scene.
+export type TimelineDefaults = {
+  x: number;
+  z: number;
+  emitterId: string;
+  obstacleId: string;
+  doorId: string;
+};
+
+export function defaultTrigger(kind: TriggerKind, defaults: TimelineDefaults): TimelineTrigger {
+  switch (kind) {
+    case "time":
+      return { kind, atSec: 5 };
+    case "region":
+      return { kind, x: defaults.x, z: defaults.z, radiusM: 2 };
+    case "proximity":
+      return { kind, emitterId: defaults.emitterId, distanceM: 3 };
+    case "collision":
+      return { kind, obstacleId: null };
+  }
+}
+
+export function defaultAction(kind: ActionKind, defaults: TimelineDefaults): TimelineAction {
+  switch (kind) {
+    case "startEmitter":
+      return { kind, emitterId: defaults.emitterId, gain: 0.15 };
+    case "stopEmitter":
+      return { kind, emitterId: defaults.emitterId };
+    case "frequency":
+      return { kind, emitterId: defaults.emitterId, frequency: 440 };
+    case "gain":
+      return { kind, emitterId: defaults.emitterId, gain: 0.15 };
+    case "waveform":
+      return { kind, emitterId: defaults.emitterId, waveform: "sine" };
+    case "moveObstacle":
+      return { kind, obstacleId: defaults.obstacleId, x: defaults.x, z: defaults.z };
+    case "door":
+      return { kind, wallId: defaults.doorId, open: true };
+    case "status":
+      return { kind, message: "" };
+  }
+}
+
+function listenerTouches(state: WorldState, obstacleId: string | null): boolean {
+  if (obstacleId === null) {
+    return true;
+  }
+  const { listener } = state;
+  const zone = state.zones.find((candidate) => candidate.id === obstacleId);
+  if (zone) {
+    return Math.hypot(listener.x - zone.x, listener.z - zone.z) <= zone.radius + PLAYER_RADIUS_M + TOUCH_TOLERANCE_M;
+  }
+  const wall = state.walls.find((candidate) => candidate.id === obstacleId);
+  return wall !== undefined && circleTouchesWall(wall, listener.x, listener.z, PLAYER_RADIUS_M + TOUCH_TOLERANCE_M);
+}
+
+function isTriggered(trigger: TimelineTrigger, state: WorldState, elapsedSec: number, bumped: boolean): boolean {
+  const { listener } = state;
+  switch (trigger.kind) {
+    case "time":
+      return elapsedSec >= trigger.atSec;
+    case "region":
+      return Math.hypot(listener.x - trigger.x, listener.z - trigger.z) <= trigger.radiusM;
+    case "proximity": {
+      const emitter = state.emitters.find((candidate) => candidate.id === trigger.emitterId);
+      return emitter !== undefined && Math.hypot(listener.x - emitter.x, listener.z - emitter.z) <= trigger.distanceM;
+    }
+    case "collision":
+      return bumped && listenerTouches(state, trigger.obstacleId);
+  }
+}
+
+function applyAction(simulation: Simulation, action: TimelineAction, onStatus: (message: string) => void): void {
+  if (action.kind === "status") {
+    onStatus(action.message);
+    return;
+  }
+  if (action.kind === "moveObstacle") {
+    const move = <T extends { id: string; x: number; z: number }>(items: T[]) =>
+      items.some((item) => item.id === action.obstacleId)
+        ? items.map((item) => (item.id === action.obstacleId ? { ...item, x: action.x, z: action.z } : item))
+        : items;
+    simulation.set("zones", move);
+    simulation.set("walls", move);
+    return;
+  }
+  if (action.kind === "door") {
+    const isDoor = (wall: Wall) => wall.id === action.wallId && wall.door !== null;
+    simulation.set("walls", (walls) =>
+      walls.some(isDoor) ? walls.map((wall) => (isDoor(wall) ? { ...wall, door: { open: action.open } } : wall)) : walls
+    );
+    return;
+  }
+
+  simulation.set("emitters", (emitters) =>
+    emitters.some((emitter) => emitter.id === action.emitterId)
+      ? emitters.map((emitter) => {
+          if (emitter.id !== action.emitterId) {
+            return emitter;
+          }
+          switch (action.kind) {
+            case "startEmitter":
+              return {
+                ...emitter,
+                gain: action.gain,
+                moving: true,
+                motion:
+                  emitter.motion.kind === "path"
+                    ? { ...emitter.motion, distanceM: 0, reversed: false }
+                    : emitter.motion
+              };
+            case "stopEmitter":
+              return { ...emitter, gain: 0, moving: false };
+            case "frequency":
+              return { ...emitter, frequency: action.frequency };
+            case "gain":
+              return { ...emitter, gain: action.gain };
+            case "waveform":
+              return { ...emitter, waveform: action.waveform };
+          }
+        })
+      : emitters
+  );
+}
+
+// Time counts simulation steps from the start, so a paused or backgrounded tab does not skip ahead. Edits to the
+// events take effect the next time the timeline starts.
+export function startTimeline(
+  simulation: Simulation,
+  events: TimelineEvent[],
+  callbacks: TimelineCallbacks
+): TimelineRunner {
+  const startStep = simulation.getStep();
+  const fired = new Set<string>();
+  const active = new Set<string>();
+  const elapsedSec = () => (simulation.getStep() - startStep) * FIXED_STEP_SEC;
+
+  const unobserve = simulation.observe((event) => {
+    if (event.kind !== "stepped") {
+      return;
+    }
+    const state = simulation.getState();
+    const atSec = elapsedSec();
+    const bumped = event.contacts.includes(LISTENER_BODY);
+    for (const item of events) {
+      const triggered = isTriggered(item.trigger, state, atSec, bumped);
+      const rising = triggered && !active.has(item.id);
+      if (triggered) {
+        active.add(item.id);
+      } else {
+        active.delete(item.id);
+      }
+      if (!rising || (fired.has(item.id) && !item.repeat)) {
+        continue;
+      }
+      fired.add(item.id);
+      for (const action of item.actions) {
+        applyAction(simulation, action, callbacks.onStatus);
+      }
+      callbacks.onFire(item, atSec);
+    }
+  });
+
+  return {
+    elapsedSec,
+    stop: () => {
+      unobserve();
+      callbacks.onStop();
+    }
+  };
+}
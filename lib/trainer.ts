@@ -0,0 +1,112 @@
+import {
+  SceneValidationError,
+  parseListenerPose,
+  parseSceneDocument,
+  parseWorldValue,
+  type SceneDocument
+} from "./scene";
+import { asArray, isRecord } from "./validation";
+import type { ListenerPose, WorldBoundary } from "./world";
+
+// Remote control of a participant's session from the trainer console (app/trainer). Commands travel as relay
+// signals addressed to one participant, who answers with a report a few times a second so the console can mirror
+// what the participant hears.
+
+// Soloed emitters silence every other one; otherwise only muted ones are silent.
+export type EmitterMix = {
+  muted: string[];
+  soloed: string[];
+};
+
+export type TrainerCommand =
+  | { kind: "mix"; mix: EmitterMix }
+  | { kind: "teleport"; listener: ListenerPose }
+  | { kind: "moving"; enabled: boolean }
+  | { kind: "scene"; scene: SceneDocument };
+
+// Moving emitters move on each client separately, so the participant reports where they are in its world. The
+// boundary is not shared through the room either, so it is reported too.
+export type EmitterReport = {
+  id: string;
+  x: number;
+  z: number;
+  occluded: boolean;
+};
+
+export type SessionReport = {
+  movingEnabled: boolean;
+  mix: EmitterMix;
+  emitters: EmitterReport[];
+  boundary: WorldBoundary;
+};
+
+export type TrainerSignal = { type: "command"; command: TrainerCommand } | { type: "report"; report: SessionReport };
+
+export const EMPTY_MIX: EmitterMix = { muted: [], soloed: [] };
+export const REPORT_INTERVAL_MS = 200;
+
+export function isAudible(mix: EmitterMix, emitterId: string): boolean {
+  return mix.soloed.length > 0 ? mix.soloed.includes(emitterId) : !mix.muted.includes(emitterId);
+}
+
+export function toggleInMix(mix: EmitterMix, list: keyof EmitterMix, emitterId: string): EmitterMix {
+  const current = mix[list];
+  return {
+    ...mix,
+    [list]: current.includes(emitterId) ? current.filter((id) => id !== emitterId) : [...current, emitterId]
+  };
+}
+
+function readIds(value: unknown): string[] {
+  return asArray(value).filter((id): id is string => typeof id === "string");
+}
+
+function readMix(value: unknown): EmitterMix {
+  return isRecord(value) ? { muted: readIds(value.muted), soloed: readIds(value.soloed) } : EMPTY_MIX;
+}
+
+// Signals come from other clients through the relay, so anything malformed is dropped rather than trusted.
+export function parseTrainerSignal(payload: unknown): TrainerSignal | null {
+  if (!isRecord(payload)) {
+    return null;
+  }
+  try {
+    if (payload.type === "command" && isRecord(payload.command)) {
+      const command = payload.command;
+      switch (command.kind) {
+        case "mix":
+          return { type: "command", command: { kind: "mix", mix: readMix(command.mix) } };
+        case "teleport":
+          return { type: "command", command: { kind: "teleport", listener: parseListenerPose(command.listener) } };
+        case "moving":
+          return { type: "command", command: { kind: "moving", enabled: command.enabled === true } };
+        case "scene":
+          return { type: "command", command: { kind: "scene", scene: parseSceneDocument(command.scene) } };
+        default:
+          return null;
+      }
+    }
+    if (payload.type === "report" && isRecord(payload.report)) {
+      const report = payload.report;
+      const emitters = asArray(report.emitters).filter(isRecord);
+      return {
+        type: "report",
+        report: {
+          movingEnabled: report.movingEnabled === true,
+          mix: readMix(report.mix),
+          emitters: emitters.flatMap((emitter) =>
+            typeof emitter.id === "string" && Number.isFinite(emitter.x) && Number.isFinite(emitter.z)
+              ? [{ id: emitter.id, x: Number(emitter.x), z: Number(emitter.z), occluded: emitter.occluded === true }]
+              : []
+          ),
+          boundary: parseWorldValue("boundary", report.boundary)
+        }
+      };
+    }
+  } catch (error) {
+    if (!(error instanceof SceneValidationError)) {
+      throw error;
+    }
+  }
+  return null;
+}
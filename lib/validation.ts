@@ -0,0 +1,57 @@
+// Readers for untrusted JSON. Each one records a path-qualified issue instead of throwing, so a caller can report
+// every problem in a document at once.
+export type RawRecord = Record<string, unknown>;
+
+export function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+export function readNumber(
+  source: RawRecord,
+  key: string,
+  path: string,
+  issues: string[],
+  min?: number,
+  max?: number
+): number {
+  const value = source[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    issues.push(`${path}.${key} must be a finite number`);
+    return min ?? 0;
+  }
+  if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    issues.push(`${path}.${key} must be between ${min ?? "-inf"} and ${max ?? "inf"}`);
+  }
+  return value;
+}
+
+export function readString(source: RawRecord, key: string, path: string, issues: string[]): string {
+  const value = source[key];
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push(`${path}.${key} must be a non-empty string`);
+    return "";
+  }
+  return value;
+}
+
+export function readBoolean(source: RawRecord, key: string, path: string, issues: string[]): boolean {
+  const value = source[key];
+  if (typeof value !== "boolean") {
+    issues.push(`${path}.${key} must be a boolean`);
+    return false;
+  }
+  return value;
+}
+
+export function readRecord(source: RawRecord, key: string, path: string, issues: string[]): RawRecord {
+  const value = source[key];
+  if (!isRecord(value)) {
+    issues.push(`${path}.${key} must be an object`);
+    return {};
+  }
+  return value;
+}
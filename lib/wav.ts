@@ -0,0 +1,42 @@
+import { clamp } from "./world";
+
+const WAV_HEADER_BYTES = 44;
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i += 1) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+// Interleaved 16-bit PCM, which every browser and audio editor can open.
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const channels = buffer.numberOfChannels;
+  const dataBytes = buffer.length * channels * 2;
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_BYTES + dataBytes));
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(view, 36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  const data = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = WAV_HEADER_BYTES;
+  for (let i = 0; i < buffer.length; i += 1) {
+    for (const samples of data) {
+      const value = clamp(samples[i], -1, 1);
+      view.setInt16(offset, value < 0 ? value * 0x8000 : value * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Blob([view.buffer], { type: "audio/wav" });
+}
@@ -0,0 +1,214 @@
+import type { AcousticMaterial } from "./materials";
+
+// `heightM` is ear height above the floor. Pitch is positive looking up, roll positive with the right ear down.
+export type ListenerPose = {
+  x: number;
+  z: number;
+  headingDeg: number;
+  heightM: number;
+  pitchDeg: number;
+  rollDeg: number;
+};
+
+export type HeadOrientation = Pick<ListenerPose, "headingDeg" | "pitchDeg" | "rollDeg">;
+
+export type Vector3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+export type CollisionZone = {
+  id: string;
+  label: string;
+  x: number;
+  z: number;
+  radius: number;
+  material: AcousticMaterial;
+};
+
+// A point on a floor plan, in metres.
+export type PlanPoint = {
+  x: number;
+  z: number;
+};
+
+// Boxes are `width` across x by `height` along z. Polylines run a wall of `thicknessM` through their points, for
+// corridors and street fronts; polygons fill the area their points enclose. Points are relative to the wall's `x`/`z`,
+// so every shape moves and turns by `rotationDeg` (clockwise on the map) as one piece.
+export type WallShape =
+  | { kind: "box" }
+  | { kind: "polyline"; points: PlanPoint[]; thicknessM: number }
+  | { kind: "polygon"; points: PlanPoint[] };
+
+// Doors are walls that can be opened: an open door lets bodies and sound through as if it were not there.
+export type Wall = {
+  id: string;
+  x: number;
+  z: number;
+  width: number;
+  height: number;
+  rotationDeg: number;
+  shape: WallShape;
+  door: { open: boolean } | null;
+  material: AcousticMaterial;
+};
+
+// The edge of the walkable world, centred on the origin. It always fits within WORLD_RADIUS_M of the origin along
+// each axis, the extent the map shows.
+export type WorldBoundary =
+  | { kind: "circle"; radiusM: number }
+  | { kind: "rectangle"; widthM: number; depthM: number }
+  | { kind: "polygon"; points: PlanPoint[] };
+
+export type SampleSource = {
+  kind: "sample";
+  sampleId: string;
+  loop: boolean;
+  startOffsetSec: number;
+  playbackRate: number;
+  retriggerSec: number;
+};
+
+export type NoiseColor = "white" | "pink" | "brown";
+
+// Generated sources are rendered into a looping buffer. Pulses, chirps and patterns use the emitter's `waveform` as
+// their carrier, and pulses and patterns its `frequency` too.
+export type ProceduralSource =
+  | { kind: "noise"; color: NoiseColor }
+  | { kind: "bandNoise"; centerHz: number; bandwidthOct: number }
+  | { kind: "pulse"; rateHz: number; duty: number }
+  | { kind: "chirp"; startHz: number; endHz: number; sweepSec: number; intervalSec: number }
+  | { kind: "pattern"; steps: string; bpm: number };
+
+// Tones use the emitter's `frequency` and `waveform`; samples play a decoded buffer from the sample bank.
+export type EmitterSource = { kind: "tone" } | ProceduralSource | SampleSource;
+
+// Each waypoint carries the speed to travel at as the emitter passes it; speeds blend along the segments between, so
+// a vehicle can brake into a corner and a pedestrian can dawdle at a crossing.
+export type PathWaypoint = {
+  x: number;
+  z: number;
+  speedMps: number;
+};
+
+export type PathMode = "once" | "loop" | "pingPong";
+
+// How a moving emitter travels. Paths follow their waypoints exactly, through obstacles if drawn that way, and keep
+// their progress along the route so a saved scene resumes where it stopped. The other behaviours steer and slide
+// against obstacles like the listener does. `vx`/`vz` always hold the current velocity, so Doppler follows along.
+export type EmitterMotion =
+  | { kind: "bounce" }
+  | {
+      kind: "path";
+      waypoints: PathWaypoint[];
+      spline: boolean;
+      mode: PathMode;
+      distanceM: number;
+      reversed: boolean;
+    }
+  | { kind: "orbit"; radiusM: number; speedMps: number; clockwise: boolean }
+  | { kind: "follow"; speedMps: number; distanceM: number }
+  | { kind: "flee"; speedMps: number; distanceM: number }
+  | { kind: "wander"; speedMps: number; turnDegPerSec: number };
+
+export type SoundEmitter = {
+  id: string;
+  name: string;
+  x: number;
+  z: number;
+  y: number;
+  frequency: number;
+  gain: number;
+  waveform: OscillatorType;
+  source: EmitterSource;
+  color: string;
+  moving: boolean;
+  vx: number;
+  vz: number;
+  motion: EmitterMotion;
+};
+
+export const WORLD_RADIUS_M = 16;
+export const DEFAULT_BOUNDARY: WorldBoundary = { kind: "circle", radiusM: WORLD_RADIUS_M };
+export const SOUND_SPEED_MPS = 343;
+
+export type Posture = "sitting" | "standing";
+
+export const EAR_HEIGHTS_M: Record<Posture, number> = { sitting: 1.2, standing: 1.6 };
+export const MAX_EMITTER_HEIGHT_M = 5;
+export const HEAD_LIMITS = {
+  heightM: { min: 0.5, max: 2.2 },
+  pitchDeg: 70,
+  rollDeg: 45
+};
+export const DEFAULT_HEAD: Pick<ListenerPose, "heightM" | "pitchDeg" | "rollDeg"> = {
+  heightM: EAR_HEIGHTS_M.standing,
+  pitchDeg: 0,
+  rollDeg: 0
+};
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Plain walls, as most scenes are built from.
+export function boxWall(
+  id: string,
+  x: number,
+  z: number,
+  width: number,
+  height: number,
+  material: AcousticMaterial
+): Wall {
+  return { id, x, z, width, height, rotationDeg: 0, shape: { kind: "box" }, door: null, material };
+}
+
+export function wrapDegrees(value: number): number {
+  const normalized = value % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+export function toRadians(deg: number): number {
+  return (deg * Math.PI) / 180;
+}
+
+export function toDegrees(rad: number): number {
+  return (rad * 180) / Math.PI;
+}
+
+export function limitPitch(deg: number): number {
+  return clamp(deg, -HEAD_LIMITS.pitchDeg, HEAD_LIMITS.pitchDeg);
+}
+
+export function limitRoll(deg: number): number {
+  return clamp(deg, -HEAD_LIMITS.rollDeg, HEAD_LIMITS.rollDeg);
+}
+
+// Unit vectors for where the nose and the top of the head point: yaw about the vertical, then pitch, then roll.
+export function headAxes(head: HeadOrientation): { forward: Vector3; up: Vector3 } {
+  const yaw = toRadians(head.headingDeg);
+  const pitch = toRadians(head.pitchDeg);
+  const roll = toRadians(head.rollDeg);
+  const level = { x: Math.sin(yaw), z: -Math.cos(yaw) };
+  const right = { x: Math.cos(yaw), z: Math.sin(yaw) };
+  const tiltedUp = { x: -level.x * Math.sin(pitch), y: Math.cos(pitch), z: -level.z * Math.sin(pitch) };
+  return {
+    forward: { x: level.x * Math.cos(pitch), y: Math.sin(pitch), z: level.z * Math.cos(pitch) },
+    up: {
+      x: tiltedUp.x * Math.cos(roll) + right.x * Math.sin(roll),
+      y: tiltedUp.y * Math.cos(roll),
+      z: tiltedUp.z * Math.cos(roll) + right.z * Math.sin(roll)
+    }
+  };
+}
+
+// Degrees above (positive) or below the listener's ear level.
+export function elevationTo(listener: ListenerPose, x: number, y: number, z: number): number {
+  return toDegrees(Math.atan2(y - listener.heightM, Math.hypot(x - listener.x, z - listener.z)));
+}
+
+// Scenes and recordings from before listeners had a height measured emitter elevation from a standing ear.
+export function legacyEmitterHeight(y: number): number {
+  return clamp(y + EAR_HEIGHTS_M.standing, 0, MAX_EMITTER_HEIGHT_M);
+}
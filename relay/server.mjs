@@ -0,0 +1,425 @@
+import { createHash, randomInt } from "node:crypto";
+import { createServer } from "node:http";
+
+// Shared-world relay: a dependency-free WebSocket server that keeps one authoritative copy of each room's emitters,
+// zones and walls and forwards listener poses between clients. The protocol is described in lib/sharedWorld.ts.
+//
+// Every entity carries a revision and the id of the client that wrote it last. A write must name the revision it was
+// based on; it is accepted when that is still the current revision, or when the writer also made the current one (a
+// client dragging an object keeps building on its own unacknowledged edits). Anything else is a conflict: the writer
+// gets the current value back and everyone else never sees the stale edit.
+//
+// Signals are opaque payloads passed from one client to another (or to the whole room), such as the trainer console's
+// commands and the participant's replies. The relay only adds the sender. They travel only between participants and
+// observers, and an observer gets in only with the room's trainer code: the relay makes one up when the first
+// participant opens the room and tells participants alone, so a participant approves a trainer by reading it to them.
+//
+// Browsers send the page's Origin with the upgrade request. Unless RELAY_ALLOWED_ORIGINS lists the allowed origins
+// (comma-separated), only pages served from the relay's own host may connect, so another site cannot open a socket
+// from a visitor's browser.
+
+const PORT = Number(process.env.RELAY_PORT ?? 3001);
+const HOST = process.env.HOSTNAME ?? "0.0.0.0";
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 256 * 1024;
+const MAX_ENTITIES_PER_ROOM = 2000;
+// Rooms are kept in memory, so their number and the size of everything stored in them are bounded.
+const MAX_ROOMS = Number(process.env.RELAY_MAX_ROOMS ?? 100);
+const MAX_ROOM_BYTES = 4 * 1024 * 1024;
+const MAX_STORED_BYTES = Number(process.env.RELAY_MAX_STORED_MB ?? 64) * 1024 * 1024;
+const MAX_NAME_LENGTH = 40;
+const HEARTBEAT_MS = 30_000;
+const ENTITY_KEY = /^(emitter|zone|wall):.{1,100}$/;
+const TRAINER_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const TRAINER_CODE_LENGTH = 8;
+const ALLOWED_ORIGINS = (process.env.RELAY_ALLOWED_ORIGINS ?? "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const OPCODE = { continuation: 0, text: 1, binary: 2, close: 8, ping: 9, pong: 10 };
+
+// Room name -> { name, trainerCode, owner, entities: Map<key, { rev, author, value }>, sizes: Map<key, bytes>, bytes,
+// clients: Set<Client> }. A deleted entity keeps its revision with a null value. Only the owner, the participant who
+// opened the room, is told its trainer code: joining as a participant takes no credential, so anyone could otherwise
+// read the code and come back as an observer.
+const rooms = new Map();
+let storedBytes = 0;
+let clientCounter = 1;
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+class Client {
+  constructor(socket) {
+    this.id = `c${clientCounter++}`;
+    this.socket = socket;
+    this.room = null;
+    this.name = "";
+    this.role = "participant";
+    this.listener = null;
+    this.alive = true;
+    this.pending = Buffer.alloc(0);
+    this.fragments = null;
+
+    socket.on("data", (chunk) => this.receive(chunk));
+    socket.on("close", () => leave(this));
+    socket.on("error", () => socket.destroy());
+  }
+
+  send(message) {
+    if (!this.socket.destroyed) {
+      this.socket.write(encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message))));
+    }
+  }
+
+  close(code, reason) {
+    if (this.socket.destroyed) {
+      return;
+    }
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(code, 0);
+    payload.write(reason, 2);
+    this.socket.end(encodeFrame(OPCODE.close, payload));
+  }
+
+  receive(chunk) {
+    this.pending = Buffer.concat([this.pending, chunk]);
+    while (this.pending.length >= 2) {
+      const fin = (this.pending[0] & 0x80) !== 0;
+      const opcode = this.pending[0] & 0x0f;
+      const masked = (this.pending[1] & 0x80) !== 0;
+      let length = this.pending[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.pending.length < 4) {
+          return;
+        }
+        length = this.pending.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.pending.length < 10) {
+          return;
+        }
+        length = Number(this.pending.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked) {
+        this.close(1002, "Client frames must be masked");
+        return;
+      }
+      if (length > MAX_MESSAGE_BYTES) {
+        this.close(1009, "Message too large");
+        return;
+      }
+      if (this.pending.length < offset + 4 + length) {
+        return;
+      }
+
+      const mask = this.pending.subarray(offset, offset + 4);
+      const payload = Buffer.from(this.pending.subarray(offset + 4, offset + 4 + length));
+      for (let index = 0; index < payload.length; index += 1) {
+        payload[index] ^= mask[index % 4];
+      }
+      this.pending = this.pending.subarray(offset + 4 + length);
+      this.frame(fin, opcode, payload);
+    }
+  }
+
+  frame(fin, opcode, payload) {
+    if (opcode === OPCODE.close) {
+      this.close(1000, "");
+    } else if (opcode === OPCODE.ping) {
+      this.socket.write(encodeFrame(OPCODE.pong, payload));
+    } else if (opcode === OPCODE.pong) {
+      this.alive = true;
+    } else if (opcode === OPCODE.binary) {
+      this.close(1003, "Only text messages are supported");
+    } else if (opcode === OPCODE.text || opcode === OPCODE.continuation) {
+      const parts = opcode === OPCODE.text ? [payload] : [...(this.fragments ?? []), payload];
+      if (parts.reduce((total, part) => total + part.length, 0) > MAX_MESSAGE_BYTES) {
+        this.close(1009, "Message too large");
+        return;
+      }
+      this.fragments = fin ? null : parts;
+      if (fin) {
+        handleMessage(this, Buffer.concat(parts).toString("utf8"));
+      }
+    }
+  }
+}
+
+function broadcast(room, message, except) {
+  for (const client of room.clients) {
+    if (client !== except) {
+      client.send(message);
+    }
+  }
+}
+
+function trainerCode() {
+  let code = "";
+  for (let index = 0; index < TRAINER_CODE_LENGTH; index += 1) {
+    code += TRAINER_CODE_ALPHABET[randomInt(TRAINER_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function join(client, message) {
+  const roomName = typeof message.room === "string" ? message.room.trim().slice(0, MAX_NAME_LENGTH) : "";
+  if (!roomName || client.room) {
+    client.send({ type: "error", message: client.room ? "Already in a room." : "A room name is required." });
+    return;
+  }
+  const role = message.role === "observer" ? "observer" : "participant";
+  const existing = rooms.get(roomName);
+  if (!existing && rooms.size >= MAX_ROOMS) {
+    client.close(1013, "The relay has no space for another room. Try again later.");
+    return;
+  }
+  if (role === "observer") {
+    const code = typeof message.trainerCode === "string" ? message.trainerCode.trim().toUpperCase() : "";
+    if (!existing) {
+      client.close(1008, "Nobody is in that room yet.");
+      return;
+    }
+    if (code !== existing.trainerCode) {
+      client.close(1008, "That trainer code does not match the room.");
+      return;
+    }
+  }
+  const room = existing ?? {
+    name: roomName,
+    trainerCode: trainerCode(),
+    owner: client,
+    entities: new Map(),
+    sizes: new Map(),
+    bytes: 0,
+    clients: new Set()
+  };
+  rooms.set(roomName, room);
+  client.room = room;
+  client.name = (typeof message.name === "string" ? message.name.trim().slice(0, MAX_NAME_LENGTH) : "") || client.id;
+  client.role = role;
+
+  client.send({
+    type: "welcome",
+    clientId: client.id,
+    trainerCode: room.owner === client ? room.trainerCode : undefined,
+    peers: [...room.clients].map((peer) => ({
+      clientId: peer.id,
+      name: peer.name,
+      role: peer.role,
+      listener: peer.listener
+    })),
+    entities: [...room.entities].map(([key, entity]) => ({ key, ...entity }))
+  });
+  broadcast(room, { type: "peer-joined", clientId: client.id, name: client.name, role: client.role });
+  room.clients.add(client);
+  console.log(`${client.name} (${client.id}) joined "${roomName}" (${room.clients.size} connected)`);
+}
+
+function leave(client) {
+  const room = client.room;
+  if (!room) {
+    return;
+  }
+  client.room = null;
+  room.clients.delete(client);
+  broadcast(room, { type: "peer-left", clientId: client.id });
+  // Nobody holds the code once its owner leaves, so a fresh one keeps further observers out; those already following
+  // stay.
+  if (room.owner === client) {
+    room.owner = null;
+    room.trainerCode = trainerCode();
+  }
+  // Rooms live only while someone is in them.
+  if (room.clients.size === 0) {
+    rooms.delete(room.name);
+    storedBytes -= room.bytes;
+  }
+}
+
+function put(client, message) {
+  const room = client.room;
+  const { key, baseRev, value } = message;
+  if (typeof key !== "string" || !ENTITY_KEY.test(key) || !Number.isInteger(baseRev)) {
+    client.send({ type: "error", message: "Malformed edit." });
+    return;
+  }
+  if (value !== null && (typeof value !== "object" || Array.isArray(value))) {
+    client.send({ type: "error", message: `Edit to ${key} has no value.` });
+    return;
+  }
+
+  const current = room.entities.get(key) ?? { rev: 0, author: "", value: null };
+  if (baseRev !== current.rev && current.author !== client.id) {
+    client.send({ type: "reject", key, ...current });
+    return;
+  }
+  if (!room.entities.has(key) && room.entities.size >= MAX_ENTITIES_PER_ROOM) {
+    client.send({ type: "error", message: "This room is full." });
+    return;
+  }
+  const size = value === null ? 0 : Buffer.byteLength(JSON.stringify(value));
+  const growth = size - (room.sizes.get(key) ?? 0);
+  if (growth > 0 && (room.bytes + growth > MAX_ROOM_BYTES || storedBytes + growth > MAX_STORED_BYTES)) {
+    client.send({ type: "error", message: "This room is full." });
+    return;
+  }
+  room.sizes.set(key, size);
+  room.bytes += growth;
+  storedBytes += growth;
+  const next = { rev: current.rev + 1, author: client.id, value };
+  room.entities.set(key, next);
+  broadcast(room, { type: "update", key, ...next });
+}
+
+function pose(client, message) {
+  const listener = message.listener;
+  if (typeof listener !== "object" || listener === null) {
+    return;
+  }
+  client.listener = listener;
+  broadcast(client.room, { type: "pose", clientId: client.id, listener }, client);
+}
+
+function signal(client, message) {
+  const relayed = { type: "signal", from: client.id, payload: message.payload };
+  const recipients = [...client.room.clients].filter((peer) => peer.role !== client.role);
+  if (typeof message.target !== "string") {
+    for (const peer of recipients) {
+      peer.send(relayed);
+    }
+    return;
+  }
+  const target = recipients.find((peer) => peer.id === message.target);
+  if (target) {
+    target.send(relayed);
+  } else {
+    client.send({ type: "error", message: "That client has left the room." });
+  }
+}
+
+function handleMessage(client, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    client.send({ type: "error", message: "Messages must be JSON." });
+    return;
+  }
+  if (typeof message !== "object" || message === null) {
+    return;
+  }
+  if (message.type === "join") {
+    join(client, message);
+  } else if (!client.room) {
+    client.send({ type: "error", message: "Join a room first." });
+  } else if (message.type === "put") {
+    put(client, message);
+  } else if (message.type === "pose") {
+    pose(client, message);
+  } else if (message.type === "signal") {
+    signal(client, message);
+  }
+}
+
+const clients = new Set();
+
+const server = createServer((request, response) => {
+  if (request.url === "/health") {
+    response.writeHead(200, { "Content-Type": "application/json" });
+    response.end(
+      JSON.stringify({
+        status: "ok",
+        service: "shared-world-relay",
+        rooms: rooms.size,
+        clients: clients.size,
+        storedBytes
+      })
+    );
+    return;
+  }
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("Connect with a WebSocket.");
+});
+
+// Clients other than browsers send no Origin and are let through; they could not be told apart from a browser anyway.
+function allowedOrigin(request) {
+  const origin = request.headers.origin;
+  if (origin === undefined) {
+    return true;
+  }
+  if (ALLOWED_ORIGINS.length > 0) {
+    return ALLOWED_ORIGINS.includes(origin);
+  }
+  try {
+    return new URL(origin).hostname === new URL(`http://${request.headers.host}`).hostname;
+  } catch {
+    return false;
+  }
+}
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || typeof key !== "string") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  if (!allowedOrigin(request)) {
+    socket.end("HTTP/1.1 403 Forbidden\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  const client = new Client(socket);
+  clients.add(client);
+  socket.on("close", () => clients.delete(client));
+});
+
+// Connections that stop answering pings (a laptop closed mid-session) are dropped so their listener leaves the room.
+const heartbeat = setInterval(() => {
+  for (const client of clients) {
+    if (!client.alive) {
+      client.socket.destroy();
+      continue;
+    }
+    client.alive = false;
+    client.socket.write(encodeFrame(OPCODE.ping, Buffer.alloc(0)));
+  }
+}, HEARTBEAT_MS);
+
+server.listen(PORT, HOST, () => {
+  console.log(`Shared-world relay listening on ws://${HOST}:${PORT}`);
+});
+
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal, () => {
+    clearInterval(heartbeat);
+    for (const client of clients) {
+      client.close(1001, "Relay shutting down");
+    }
+    server.close(() => process.exit(0));
+    setTimeout(() => process.exit(0), 2000).unref();
+  });
+}
@@ -0,0 +1,59 @@
+import { spawn } from "node:child_process";
+import { constants } from "node:os";
+
+// Container entry point: runs the Next.js server and the shared-world relay side by side. SIGINT and SIGTERM are
+// passed on to both, and when either one exits the other is stopped and this process exits with the first one's
+// status, so the container never keeps running with half of the service gone.
+
+const SHUTDOWN_GRACE_MS = 10_000;
+const COMMANDS = [
+  ["app", ["server.js"]],
+  ["relay", ["relay/server.mjs"]]
+];
+
+const exited = new Set();
+let exitCode = null;
+let stopping = false;
+
+const children = COMMANDS.map(([name, args]) => {
+  const child = spawn(process.execPath, args, { stdio: "inherit" });
+  child.on("error", (error) => {
+    console.error(`Could not start the ${name}: ${error.message}`);
+    finished(name, 1);
+  });
+  child.on("exit", (code, signal) => finished(name, code ?? 128 + (constants.signals[signal] ?? 0)));
+  return child;
+});
+
+function stopAll(signal) {
+  stopping = true;
+  for (const child of children) {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill(signal);
+    }
+  }
+  if (signal !== "SIGKILL") {
+    setTimeout(() => stopAll("SIGKILL"), SHUTDOWN_GRACE_MS).unref();
+  }
+}
+
+function finished(name, code) {
+  if (exited.has(name)) {
+    return;
+  }
+  exited.add(name);
+  if (exitCode === null) {
+    exitCode = code;
+    if (!stopping) {
+      console.error(`The ${name} exited with status ${code}; stopping the container.`);
+      stopAll("SIGTERM");
+    }
+  }
+  if (exited.size === children.length) {
+    process.exit(exitCode);
+  }
+}
+
+for (const signal of ["SIGINT", "SIGTERM"]) {
+  process.on(signal, () => stopAll(signal));
+}
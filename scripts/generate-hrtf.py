@@ -0,0 +1,96 @@
+"""Writes the bundled spherical-head HRTF sets in public/hrtf.
+
+Each set is a SimpleFreeFieldHRIR SOFA file: 128-tap HRIRs at 44.1 kHz for 352 directions (elevation -40 to 90
+degrees in 10 degree rings) from a rigid-sphere head shadow, Woodworth ITD and a simple pinna echo model. These are
+models, not measurements.
+
+Needs Python 3 with numpy and h5py (the files in the repo were written with numpy 2.4 and h5py 3.16 / HDF5 2.0):
+
+    python scripts/generate-hrtf.py public/hrtf
+"""
+
+import numpy as np, h5py, sys
+
+FS = 44100
+N = 128
+C = 343.0
+
+def directions():
+    dirs = []
+    for el in range(-40, 91, 10):
+        count = max(1, int(round(36 * np.cos(np.radians(el)))))
+        for i in range(count):
+            dirs.append((i * 360.0 / count, float(el)))
+    return np.array(dirs)
+
+def hrir(az, el, ear, radius, pinna_scale):
+    # ear: +1 left, -1 right. SOFA azimuth is counterclockwise from the front.
+    a, e = np.radians(az), np.radians(el)
+    d = np.array([np.cos(e) * np.cos(a), np.cos(e) * np.sin(a), np.sin(e)])
+    cos_theta = np.clip(ear * d[1], -1, 1)
+    theta = np.arccos(cos_theta)  # angle from the ear axis
+    w = 2 * np.pi * np.fft.rfftfreq(N, 1 / FS)
+    w0 = C / radius
+    alpha_min, theta_min = 0.1, np.radians(150)
+    alpha = (1 + alpha_min / 2) + (1 - alpha_min / 2) * np.cos(theta / theta_min * np.pi)
+    shadow = (1 + 1j * alpha * w / (2 * w0)) / (1 + 1j * w / (2 * w0))
+    if theta < np.pi / 2:
+        delay = -radius / C * np.cos(theta)
+    else:
+        delay = radius / C * (theta - np.pi / 2)
+    delay += radius / C + 8 / FS
+    spectrum = shadow * np.exp(-1j * w * delay)
+    rel_az = ear * az
+    rel_az = (rel_az + 180) % 360 - 180
+    pinna = np.ones_like(w, dtype=complex)
+    for rho, A, B, D in [(0.5, 1, 2, 1), (-1, 5, 4, 0.5), (0.5, 5, 7, 0.5), (-0.25, 5, 11, 0.5), (0.25, 5, 13, 0.5)]:
+        tau = (A * np.cos(np.radians(rel_az) / 2) * np.sin(np.radians(D * (90 - el))) + B) * pinna_scale / FS
+        pinna += rho * 0.5 * np.exp(-1j * w * tau)
+    ir = np.fft.irfft(spectrum * pinna, N)
+    fade = np.ones(N)
+    fade[-32:] = 0.5 * (1 + np.cos(np.linspace(0, np.pi, 32)))
+    return ir * fade
+
+def write(path, title, radius, pinna_scale):
+    dirs = directions()
+    m = len(dirs)
+    ir = np.zeros((m, 2, N))
+    for i, (az, el) in enumerate(dirs):
+        ir[i, 0] = hrir(az, el, 1, radius, pinna_scale)
+        ir[i, 1] = hrir(az, el, -1, radius, pinna_scale)
+    ir = np.round(ir / np.abs(ir).max() * 0.9, 5)
+    with h5py.File(path, "w", track_order=True) as f:
+        attrs = {
+            "Conventions": "SOFA", "Version": "2.1", "SOFAConventions": "SimpleFreeFieldHRIR",
+            "SOFAConventionsVersion": "1.0", "APIName": "sonic-world model", "APIVersion": "1.0",
+            "DataType": "FIR", "RoomType": "free field", "Title": title,
+            "ListenerShortName": title, "AuthorContact": "", "Organization": "", "License": "CC0",
+            "DateCreated": "2026-10-19 00:00:00", "DateModified": "2026-10-19 00:00:00",
+            "Comment": f"Spherical head model (radius {radius * 100:.2f} cm) with head shadow, Woodworth ITD "
+                       "and a simple pinna echo model. Not a measured HRTF.",
+        }
+        for key, value in attrs.items():
+            f.attrs[key] = value
+        f.attrs.create("ApplicationName", np.bytes_("sonic-world"))
+        f.create_dataset("Data.IR", data=ir.astype("<f8"), chunks=(64, 2, N), compression="gzip", shuffle=True)
+        sr = f.create_dataset("Data.SamplingRate", data=np.array([float(FS)]))
+        sr.attrs["Units"] = "hertz"
+        f.create_dataset("Data.Delay", data=np.zeros((1, 2)))
+        sp = f.create_dataset("SourcePosition", data=np.column_stack([dirs, np.full(m, 1.2)]), compression="gzip")
+        sp.attrs["Type"] = "spherical"
+        sp.attrs["Units"] = "degree, degree, metre"
+        lp = f.create_dataset("ListenerPosition", data=np.zeros((1, 3)))
+        lp.attrs["Type"] = "cartesian"
+        lp.attrs["Units"] = "metre"
+        rp = f.create_dataset("ReceiverPosition", data=np.array([[0, radius, 0], [0, -radius, 0]], dtype=float))
+        rp.attrs["Type"] = "cartesian"
+        rp.attrs["Units"] = "metre"
+        f.create_dataset("EmitterPosition", data=np.zeros((1, 3)))
+        f.create_dataset("ListenerView", data=np.array([[1.0, 0, 0]]))
+        f.create_dataset("ListenerUp", data=np.array([[0, 0, 1.0]]))
+    print(path, m)
+
+out = sys.argv[1] if len(sys.argv) > 1 else "public/hrtf"
+write(f"{out}/small-head.sofa", "Model: small head", 0.075, 0.85)
+write(f"{out}/medium-head.sofa", "Model: medium head", 0.0875, 1.0)
+write(f"{out}/large-head.sofa", "Model: large head", 0.10, 1.15)